@@ -0,0 +1,78 @@
+// Service worker for Web Push alert notifications.
+// Payload (built by the push sender registered in NotificationService):
+// { title, body, data: { alertId, severity, type, timestamp, url, userId } }
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let message;
+  try {
+    message = event.data.json();
+  } catch {
+    message = { title: 'Energy Alert', body: event.data.text(), data: {} };
+  }
+
+  const data = message.data || {};
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      tag: data.alertId,
+      renotify: true,
+      requireInteraction: data.severity === 'critical',
+      data,
+      actions: data.alertId
+        ? [
+            { action: 'acknowledge', title: 'Acknowledge' },
+            { action: 'view', title: 'View' },
+          ]
+        : [],
+    })
+  );
+});
+
+async function acknowledge(data) {
+  const response = await fetch(`/api/v1/alerts/${encodeURIComponent(data.alertId)}/acknowledge`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify({ userId: data.userId || 'push', notes: 'Acknowledged from push notification' }),
+  });
+
+  // 409: already acknowledged or resolved elsewhere, nothing left to do
+  if (!response.ok && response.status !== 409) {
+    await self.registration.showNotification('Acknowledge failed', {
+      body: 'Open the dashboard to acknowledge this alert.',
+      tag: `${data.alertId}-ack-failed`,
+      data,
+    });
+  }
+}
+
+async function openAlert(data) {
+  const url = new URL(data.url || '/', self.location.origin).href;
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+
+  for (const client of windows) {
+    if (new URL(client.url).origin === self.location.origin && 'focus' in client) {
+      await client.focus();
+      if ('navigate' in client) await client.navigate(url);
+      return;
+    }
+  }
+  await self.clients.openWindow(url);
+}
+
+self.addEventListener('notificationclick', (event) => {
+  const data = event.notification.data || {};
+  event.notification.close();
+
+  event.waitUntil(event.action === 'acknowledge' ? acknowledge(data) : openAlert(data));
+});
@@ -1,4 +1,7 @@
 import { useState, useEffect } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { getCurrentUserId } from '@/lib/current-user';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,43 +12,138 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Settings, Battery, Zap, Gauge, Mail, MessageSquare, Bell, Save, RotateCcw } from 'lucide-react';
+import { Settings, Battery, Zap, Gauge, Mail, MessageSquare, Bell, Save, RotateCcw, Moon, Smartphone, Plus, Trash2, Code, Play } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { usePushNotifications } from '@/hooks/use-push-notifications';
 
+type RuleMetric = 'consumption' | 'generation' | 'storage' | 'solarEfficiency' | 'batteryHealth';
+type ThresholdOperator = '>' | '<' | '>=' | '<=';
+
+// Editable view of a single-condition detection rule
 interface ThresholdRule {
-  id: string;
+  id: string; // 'new-…' until the rule is saved
   name: string;
-  metric: string;
-  operator: '>' | '<' | '>=' | '<=';
+  metric: RuleMetric;
+  operator: ThresholdOperator;
   value: number;
-  unit: string;
+  expression?: string; // expression rules ignore metric, operator and value
+  duration?: number; // seconds the condition must hold before alerting
+  clearValue?: number; // recovery threshold, defaults to value
+  severity: 'info' | 'warning' | 'critical';
+  enabled: boolean;
+  version?: number;
+}
+
+// Stored on the server, see /api/v1/alert-rules
+interface StoredAlertRule {
+  id: string;
+  name: string;
+  type: string;
   severity: 'info' | 'warning' | 'critical';
+  conditions: {
+    metric?: RuleMetric;
+    operator?: string;
+    value?: number | string;
+    expression?: string;
+    duration?: number;
+    clearValue?: number;
+  }[];
+  actions: { type: string; config: Record<string, any> }[];
   enabled: boolean;
+  version: number;
 }
 
+const METRICS: { id: RuleMetric; label: string; unit: string }[] = [
+  { id: 'consumption', label: 'Consumption', unit: 'kW' },
+  { id: 'generation', label: 'Generation', unit: 'kW' },
+  { id: 'storage', label: 'Battery SOC', unit: '%' },
+  { id: 'solarEfficiency', label: 'Solar efficiency', unit: '%' },
+  { id: 'batteryHealth', label: 'Battery health', unit: '%' },
+];
+
+const toThresholdRule = (rule: StoredAlertRule): ThresholdRule => ({
+  id: rule.id,
+  name: rule.name,
+  metric: rule.conditions[0]?.metric ?? 'consumption',
+  operator: (rule.conditions[0]?.operator ?? '>') as ThresholdOperator,
+  value: Number(rule.conditions[0]?.value ?? 0),
+  expression: rule.conditions[0]?.expression,
+  duration: rule.conditions[0]?.duration,
+  clearValue: rule.conditions[0]?.clearValue,
+  severity: rule.severity,
+  enabled: rule.enabled,
+  version: rule.version
+});
+
+type Severity = 'info' | 'warning' | 'critical';
+type OutboundChannel = 'email' | 'sms' | 'push';
+
 interface NotificationSettings {
   dashboard: {
     enabled: boolean;
     highlightCards: boolean;
     showBadges: boolean;
   };
-  email: {
-    enabled: boolean;
-    recipients: string[];
-    severityFilter: string[];
-  };
-  sms: {
+  channelsBySeverity: Record<Severity, OutboundChannel[]>;
+  minimumSeverity: Severity;
+  mutedTypes: string[];
+  quietHours: {
     enabled: boolean;
-    phoneNumbers: string[];
-    severityFilter: string[];
-  };
-  priorityRules: {
-    critical: string[];
-    warning: string[];
-    info: string[];
+    start: string;
+    end: string;
   };
+  timezone: string;
+  digestMode: 'off' | 'hourly' | 'daily';
+  digestHour: number;
+  locale: string;
 }
 
+// Stored per user on the server, see /api/v1/notification-preferences
+interface NotificationPreferences {
+  channelsBySeverity: Record<Severity, OutboundChannel[]>;
+  minimumSeverity: Severity;
+  mutedTypes: string[];
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timezone: string;
+  digestMode: 'off' | 'hourly' | 'daily';
+  digestHour: number;
+  locale: string;
+}
+
+const SEVERITIES: Severity[] = ['critical', 'warning', 'info'];
+
+const CHANNELS: { id: OutboundChannel; label: string; icon: typeof Mail }[] = [
+  { id: 'email', label: 'Email', icon: Mail },
+  { id: 'sms', label: 'SMS', icon: MessageSquare },
+  { id: 'push', label: 'Push', icon: Smartphone },
+];
+
+const ALERT_TYPES = ['consumption', 'generation', 'storage', 'device_fault', 'system_health', 'anomaly'];
+
+const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  dashboard: {
+    enabled: true,
+    highlightCards: true,
+    showBadges: true
+  },
+  channelsBySeverity: {
+    critical: ['email', 'sms', 'push'],
+    warning: ['email', 'push'],
+    info: ['push']
+  },
+  minimumSeverity: 'info',
+  mutedTypes: [],
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00'
+  },
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  digestMode: 'off',
+  digestHour: 8,
+  locale: 'en'
+};
 
 interface AlertConfigProps {
   onSave: (config: any) => void;
@@ -53,69 +151,138 @@ interface AlertConfigProps {
 
 export function AlertConfig({ onSave }: AlertConfigProps) {
   const { toast } = useToast();
+  const userId = getCurrentUserId();
+  const preferencesUrl = `/api/v1/notification-preferences/${encodeURIComponent(userId)}`;
   
   // Threshold Rules State
-  const [thresholdRules, setThresholdRules] = useState<ThresholdRule[]>([
-    {
-      id: 'battery-soc',
-      name: 'Battery SOC Low',
-      metric: 'battery_soc',
-      operator: '<',
-      value: 20,
-      unit: '%',
-      severity: 'critical',
-      enabled: true
+  const [thresholdRules, setThresholdRules] = useState<ThresholdRule[]>([]);
+
+  const { data: rulesData } = useQuery<{ rules: StoredAlertRule[] }>({
+    queryKey: ['/api/v1/alert-rules'],
+  });
+
+  // Load the detection rules the server evaluates
+  useEffect(() => {
+    if (rulesData) setThresholdRules(rulesData.rules.map(toThresholdRule));
+  }, [rulesData]);
+
+  const saveRulesMutation = useMutation({
+    mutationFn: async (rules: ThresholdRule[]) => {
+      const stored = rulesData?.rules ?? [];
+
+      for (const rule of rules) {
+        const existing = stored.find(r => r.id === rule.id);
+        const condition = rule.expression !== undefined
+          ? { expression: rule.expression, duration: rule.duration }
+          : {
+              metric: rule.metric,
+              operator: rule.operator,
+              value: rule.value,
+              duration: rule.duration,
+              clearValue: rule.clearValue
+            };
+
+        if (!existing) {
+          await apiRequest('POST', '/api/v1/alert-rules', {
+            name: rule.name,
+            type: 'threshold',
+            severity: rule.severity,
+            conditions: [condition],
+            actions: [{ type: 'create_alert', config: {} }],
+            enabled: rule.enabled,
+            changedBy: userId
+          });
+          continue;
+        }
+
+        const unchanged = JSON.stringify(toThresholdRule(existing)) === JSON.stringify(rule);
+        if (unchanged) continue;
+
+        // Only the first condition is editable here; keep any others
+        await apiRequest('PUT', `/api/v1/alert-rules/${existing.id}`, {
+          name: rule.name,
+          severity: rule.severity,
+          enabled: rule.enabled,
+          conditions: [condition, ...existing.conditions.slice(1)],
+          changedBy: userId
+        });
+      }
+
+      for (const rule of stored) {
+        if (!rules.some(r => r.id === rule.id)) {
+          await apiRequest('DELETE', `/api/v1/alert-rules/${rule.id}`, { changedBy: userId });
+        }
+      }
     },
-    {
-      id: 'voltage-high',
-      name: 'Voltage High',
-      metric: 'voltage',
-      operator: '>',
-      value: 240,
-      unit: 'V',
-      severity: 'warning',
-      enabled: true
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/v1/alert-rules'] });
     },
-    {
-      id: 'load-high',
-      name: 'Load High',
-      metric: 'load',
-      operator: '>',
-      value: 5,
-      unit: 'kW',
-      severity: 'warning',
-      enabled: true
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save alert rules",
+        description: error.message,
+        variant: "destructive"
+      });
     }
-  ]);
-
+  });
 
   // Notification Settings State
-  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>({
-    dashboard: {
-      enabled: true,
-      highlightCards: true,
-      showBadges: true
-    },
-    email: {
-      enabled: false,
-      recipients: [],
-      severityFilter: ['critical', 'warning']
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+
+  const { data: preferencesData } = useQuery<{ preferences: NotificationPreferences; quietHoursActive: boolean }>({
+    queryKey: [preferencesUrl],
+  });
+
+  // Load the user's saved delivery preferences
+  useEffect(() => {
+    const preferences = preferencesData?.preferences;
+    if (!preferences) return;
+
+    setNotificationSettings(prev => ({
+      ...prev,
+      channelsBySeverity: preferences.channelsBySeverity,
+      minimumSeverity: preferences.minimumSeverity,
+      mutedTypes: preferences.mutedTypes,
+      quietHours: {
+        enabled: !!(preferences.quietHoursStart && preferences.quietHoursEnd),
+        start: preferences.quietHoursStart || prev.quietHours.start,
+        end: preferences.quietHoursEnd || prev.quietHours.end
+      },
+      timezone: preferences.timezone,
+      digestMode: preferences.digestMode,
+      digestHour: preferences.digestHour,
+      locale: preferences.locale
+    }));
+  }, [preferencesData]);
+
+  const savePreferencesMutation = useMutation({
+    mutationFn: async (settings: NotificationSettings) => {
+      const preferences: NotificationPreferences = {
+        channelsBySeverity: settings.channelsBySeverity,
+        minimumSeverity: settings.minimumSeverity,
+        mutedTypes: settings.mutedTypes,
+        quietHoursStart: settings.quietHours.enabled ? settings.quietHours.start : null,
+        quietHoursEnd: settings.quietHours.enabled ? settings.quietHours.end : null,
+        timezone: settings.timezone,
+        digestMode: settings.digestMode,
+        digestHour: settings.digestHour,
+        locale: settings.locale
+      };
+      const res = await apiRequest('PUT', preferencesUrl, preferences);
+      return res.json();
     },
-    sms: {
-      enabled: false,
-      phoneNumbers: [],
-      severityFilter: ['critical']
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [preferencesUrl] });
     },
-    priorityRules: {
-      critical: ['sms', 'email', 'dashboard'],
-      warning: ['email', 'dashboard'],
-      info: ['dashboard']
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save notification preferences",
+        description: error.message,
+        variant: "destructive"
+      });
     }
   });
 
-  const [newEmailRecipient, setNewEmailRecipient] = useState('');
-  const [newPhoneNumber, setNewPhoneNumber] = useState('');
-
   const updateThresholdRule = (ruleId: string, updates: Partial<ThresholdRule>) => {
     setThresholdRules(prev => 
       prev.map(rule => 
@@ -124,61 +291,83 @@ export function AlertConfig({ onSave }: AlertConfigProps) {
     );
   };
 
-  const addEmailRecipient = () => {
-    if (newEmailRecipient && newEmailRecipient.includes('@')) {
-      setNotificationSettings(prev => ({
-        ...prev,
-        email: {
-          ...prev.email,
-          recipients: [...prev.email.recipients, newEmailRecipient]
-        }
-      }));
-      setNewEmailRecipient('');
-    } else {
+  const addThresholdRule = (expression?: string) => {
+    setThresholdRules(prev => [
+      ...prev,
+      {
+        id: `new-${Date.now()}`,
+        name: expression !== undefined ? 'New expression rule' : 'New threshold rule',
+        metric: 'consumption',
+        operator: '>',
+        value: 0,
+        expression,
+        severity: 'warning',
+        enabled: true
+      }
+    ]);
+  };
+
+  // Replay an expression over the last 24 hours of metrics
+  const dryRunMutation = useMutation({
+    mutationFn: async (rule: ThresholdRule) => {
+      const response = await apiRequest('POST', '/api/v1/alert-rules/dry-run', {
+        expression: rule.expression,
+        duration: rule.duration ?? 0
+      });
+      return response.json();
+    },
+    onSuccess: (result: { evaluated: number; matched: number; firings: number }) => {
       toast({
-        title: "Invalid Email",
-        description: "Please enter a valid email address",
-        variant: "destructive"
+        title: "Dry run (last 24 hours)",
+        description: `Matched ${result.matched} of ${result.evaluated} readings; would have alerted ${result.firings} time(s).`,
       });
-    }
-  };
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Expression error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
-  const removeEmailRecipient = (email: string) => {
-    setNotificationSettings(prev => ({
-      ...prev,
-      email: {
-        ...prev.email,
-        recipients: prev.email.recipients.filter(r => r !== email)
-      }
-    }));
+  const removeThresholdRule = (ruleId: string) => {
+    setThresholdRules(prev => prev.filter(rule => rule.id !== ruleId));
   };
 
-  const addPhoneNumber = () => {
-    if (newPhoneNumber && newPhoneNumber.length >= 10) {
-      setNotificationSettings(prev => ({
-        ...prev,
-        sms: {
-          ...prev.sms,
-          phoneNumbers: [...prev.sms.phoneNumbers, newPhoneNumber]
-        }
-      }));
-      setNewPhoneNumber('');
-    } else {
+  const push = usePushNotifications(userId);
+
+  const toggleDevicePush = async (enabled: boolean) => {
+    try {
+      await (enabled ? push.subscribe() : push.unsubscribe());
+    } catch (error) {
       toast({
-        title: "Invalid Phone Number",
-        description: "Please enter a valid phone number",
+        title: "Browser push unavailable",
+        description: error instanceof Error ? error.message : 'Could not update the push subscription',
         variant: "destructive"
       });
     }
   };
 
-  const removePhoneNumber = (phone: string) => {
+  const toggleSeverityChannel = (severity: Severity, channel: OutboundChannel, enabled: boolean) => {
+    setNotificationSettings(prev => {
+      const channels = prev.channelsBySeverity[severity].filter(c => c !== channel);
+      return {
+        ...prev,
+        channelsBySeverity: {
+          ...prev.channelsBySeverity,
+          [severity]: enabled ? [...channels, channel] : channels
+        }
+      };
+    });
+  };
+
+  const toggleMutedType = (type: string) => {
     setNotificationSettings(prev => ({
       ...prev,
-      sms: {
-        ...prev.sms,
-        phoneNumbers: prev.sms.phoneNumbers.filter(p => p !== phone)
-      }
+      mutedTypes: prev.mutedTypes.includes(type)
+        ? prev.mutedTypes.filter(t => t !== type)
+        : [...prev.mutedTypes, type]
     }));
   };
 
@@ -190,6 +379,8 @@ export function AlertConfig({ onSave }: AlertConfigProps) {
     };
     
     onSave(config);
+    saveRulesMutation.mutate(thresholdRules);
+    savePreferencesMutation.mutate(notificationSettings);
     toast({
       title: "Configuration Saved",
       description: "Alert configuration has been updated successfully",
@@ -197,39 +388,8 @@ export function AlertConfig({ onSave }: AlertConfigProps) {
   };
 
   const handleReset = () => {
-    // Reset to default values
-    setThresholdRules([
-      {
-        id: 'battery-soc',
-        name: 'Battery SOC Low',
-        metric: 'battery_soc',
-        operator: '<',
-        value: 20,
-        unit: '%',
-        severity: 'critical',
-        enabled: true
-      },
-      {
-        id: 'voltage-high',
-        name: 'Voltage High',
-        metric: 'voltage',
-        operator: '>',
-        value: 240,
-        unit: 'V',
-        severity: 'warning',
-        enabled: true
-      },
-      {
-        id: 'load-high',
-        name: 'Load High',
-        metric: 'load',
-        operator: '>',
-        value: 5,
-        unit: 'kW',
-        severity: 'warning',
-        enabled: true
-      }
-    ]);
+    // Discard unsaved rule edits
+    setThresholdRules((rulesData?.rules ?? []).map(toThresholdRule));
 
     setAiConfig({
       enabled: true,
@@ -318,12 +478,34 @@ export function AlertConfig({ onSave }: AlertConfigProps) {
         <TabsContent value="thresholds" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle className="text-lg">🔧 Threshold Rules</CardTitle>
-              <p className="text-sm text-muted-foreground">
-                Configure threshold-based alert rules for system metrics
-              </p>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-lg">🔧 Threshold Rules</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Detection rules evaluated by the server; changes apply on the next detection run
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => addThresholdRule()} className="text-xs">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Rule
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => addThresholdRule('avg(consumption, 15m) > 200')}
+                    className="text-xs"
+                  >
+                    <Code className="h-4 w-4 mr-1" />
+                    Add Expression
+                  </Button>
+                </div>
+              </div>
             </CardHeader>
             <CardContent className="space-y-6">
+              {thresholdRules.length === 0 && (
+                <p className="text-sm text-muted-foreground">No detection rules configured.</p>
+              )}
               {thresholdRules.map((rule) => (
                 <div
                   key={rule.id}
@@ -331,13 +513,27 @@ export function AlertConfig({ onSave }: AlertConfigProps) {
                 >
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-3">
-                      {rule.metric === 'battery_soc' && <Battery className="h-5 w-5 text-green-400" />}
-                      {rule.metric === 'voltage' && <Zap className="h-5 w-5 text-blue-400" />}
-                      {rule.metric === 'load' && <Gauge className="h-5 w-5 text-orange-400" />}
+                      {rule.expression !== undefined && <Code className="h-5 w-5 text-purple-400" />}
+                      {rule.expression === undefined && (rule.metric === 'storage' || rule.metric === 'batteryHealth') && <Battery className="h-5 w-5 text-green-400" />}
+                      {rule.expression === undefined && (rule.metric === 'generation' || rule.metric === 'solarEfficiency') && <Zap className="h-5 w-5 text-blue-400" />}
+                      {rule.expression === undefined && rule.metric === 'consumption' && <Gauge className="h-5 w-5 text-orange-400" />}
                       <div>
-                        <h4 className="font-medium">{rule.name}</h4>
+                        {rule.id.startsWith('new-') ? (
+                          <Input
+                            value={rule.name}
+                            onChange={(e) => updateThresholdRule(rule.id, { name: e.target.value })}
+                            className="h-8"
+                          />
+                        ) : (
+                          <h4 className="font-medium">{rule.name}</h4>
+                        )}
                         <p className="text-sm text-muted-foreground">
-                          {rule.metric} {getOperatorDisplay(rule.operator)} {rule.value}{rule.unit}
+                          {rule.expression !== undefined ? (
+                            <code className="text-xs">{rule.expression}</code>
+                          ) : (
+                            <>{rule.metric} {getOperatorDisplay(rule.operator)} {rule.value}{METRICS.find(m => m.id === rule.metric)?.unit}</>
+                          )}
+                          {rule.version && <span className="ml-2 text-xs">v{rule.version}</span>}
                         </p>
                       </div>
                     </div>
@@ -349,41 +545,126 @@ export function AlertConfig({ onSave }: AlertConfigProps) {
                         checked={rule.enabled}
                         onCheckedChange={(enabled) => updateThresholdRule(rule.id, { enabled })}
                       />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeThresholdRule(rule.id)}
+                        className="h-8 w-8 p-0"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
                     </div>
                   </div>
 
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    <div className="space-y-2">
-                      <Label>Operator</Label>
-                      <Select
-                        value={rule.operator}
-                        onValueChange={(operator: any) => updateThresholdRule(rule.id, { operator })}
-                      >
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value=">">Greater than (&gt;)</SelectItem>
-                          <SelectItem value="<">Less than (&lt;)</SelectItem>
-                          <SelectItem value=">=">Greater or equal (&gt;=)</SelectItem>
-                          <SelectItem value="<=">Less or equal (&lt;=)</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
+                    {rule.expression !== undefined ? (
+                      <div className="space-y-2 md:col-span-2">
+                        <Label>Expression</Label>
+                        <div className="flex items-center space-x-2">
+                          <Input
+                            value={rule.expression}
+                            onChange={(e) => updateThresholdRule(rule.id, { expression: e.target.value })}
+                            placeholder="avg(consumption, 15m) - avg(generation, 15m) > 120 and storage < 30"
+                            className="flex-1 font-mono text-sm"
+                          />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => dryRunMutation.mutate(rule)}
+                            disabled={dryRunMutation.isPending || !rule.expression.trim()}
+                          >
+                            <Play className="h-4 w-4 mr-1" />
+                            Dry Run
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                    <>
+                      <div className="space-y-2">
+                        <Label>Metric</Label>
+                        <Select
+                          value={rule.metric}
+                          onValueChange={(metric: RuleMetric) => updateThresholdRule(rule.id, { metric })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {METRICS.map(metric => (
+                              <SelectItem key={metric.id} value={metric.id}>{metric.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label>Operator</Label>
+                        <Select
+                          value={rule.operator}
+                          onValueChange={(operator: any) => updateThresholdRule(rule.id, { operator })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value=">">Greater than (&gt;)</SelectItem>
+                            <SelectItem value="<">Less than (&lt;)</SelectItem>
+                            <SelectItem value=">=">Greater or equal (&gt;=)</SelectItem>
+                            <SelectItem value="<=">Less or equal (&lt;=)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label>Threshold Value</Label>
+                        <div className="flex items-center space-x-2">
+                          <Input
+                            type="number"
+                            value={rule.value}
+                            onChange={(e) => updateThresholdRule(rule.id, { value: parseFloat(e.target.value) })}
+                            className="flex-1"
+                          />
+                          <span className="text-sm text-muted-foreground">{METRICS.find(m => m.id === rule.metric)?.unit}</span>
+                        </div>
+                      </div>
+                    </>
+                    )}
 
                     <div className="space-y-2">
-                      <Label>Threshold Value</Label>
+                      <Label>Hold For</Label>
                       <div className="flex items-center space-x-2">
                         <Input
                           type="number"
-                          value={rule.value}
-                          onChange={(e) => updateThresholdRule(rule.id, { value: parseFloat(e.target.value) })}
+                          min={0}
+                          value={rule.duration !== undefined ? rule.duration / 60 : ''}
+                          placeholder="0"
+                          onChange={(e) => updateThresholdRule(rule.id, {
+                            duration: e.target.value === '' ? undefined : Math.round(parseFloat(e.target.value) * 60)
+                          })}
                           className="flex-1"
                         />
-                        <span className="text-sm text-muted-foreground">{rule.unit}</span>
+                        <span className="text-sm text-muted-foreground">min</span>
                       </div>
                     </div>
 
+                    {rule.expression === undefined && (
+                      <div className="space-y-2">
+                        <Label>Clear At</Label>
+                        <div className="flex items-center space-x-2">
+                          <Input
+                            type="number"
+                            value={rule.clearValue ?? ''}
+                            placeholder={String(rule.value)}
+                            onChange={(e) => updateThresholdRule(rule.id, {
+                              clearValue: e.target.value === '' ? undefined : parseFloat(e.target.value)
+                            })}
+                            className="flex-1"
+                          />
+                          <span className="text-sm text-muted-foreground">{METRICS.find(m => m.id === rule.metric)?.unit}</span>
+                        </div>
+                      </div>
+                    )}
+
                     <div className="space-y-2">
                       <Label>Severity</Label>
                       <Select
@@ -479,144 +760,232 @@ export function AlertConfig({ onSave }: AlertConfigProps) {
 
               <Separator />
 
-              {/* Email Notifications */}
+              {/* Browser Push */}
               <div className="space-y-4">
                 <div className="flex items-center space-x-3">
-                  <Mail className="h-5 w-5 text-blue-400" />
-                  <Label className="text-base font-medium">Email Notifications</Label>
+                  <Smartphone className="h-5 w-5 text-orange-400" />
+                  <Label className="text-base font-medium">Browser Push</Label>
                 </div>
                 <div className="pl-8 space-y-3">
                   <div className="flex items-center justify-between">
                     <div>
-                      <p className="text-sm">Enable email notifications</p>
-                      <p className="text-xs text-muted-foreground">Send alerts via email</p>
+                      <p className="text-sm">Push notifications on this device</p>
+                      <p className="text-xs text-muted-foreground">
+                        {push.supported
+                          ? 'Acknowledge or open alerts straight from the notification'
+                          : 'This browser does not support push notifications'}
+                      </p>
                     </div>
                     <Switch
-                      checked={notificationSettings.email.enabled}
-                      onCheckedChange={(enabled) => 
-                        setNotificationSettings(prev => ({
-                          ...prev,
-                          email: { ...prev.email, enabled }
-                        }))
-                      }
+                      checked={push.subscribed}
+                      disabled={!push.supported || push.busy}
+                      onCheckedChange={toggleDevicePush}
                     />
                   </div>
-                  
-                  {notificationSettings.email.enabled && (
-                    <>
-                      <div className="space-y-2">
-                        <Label>Email Recipients</Label>
-                        <div className="flex space-x-2">
-                          <Input
-                            placeholder="Enter email address"
-                            value={newEmailRecipient}
-                            onChange={(e) => setNewEmailRecipient(e.target.value)}
-                            onKeyPress={(e) => e.key === 'Enter' && addEmailRecipient()}
-                          />
-                          <Button onClick={addEmailRecipient} size="sm">Add</Button>
-                        </div>
-                        <div className="flex flex-wrap gap-2">
-                          {notificationSettings.email.recipients.map((email) => (
-                            <Badge
-                              key={email}
-                              variant="outline"
-                              className="cursor-pointer hover:bg-destructive/20"
-                              onClick={() => removeEmailRecipient(email)}
-                            >
-                              {email} ×
-                            </Badge>
-                          ))}
-                        </div>
+                </div>
+              </div>
+
+              <Separator />
+
+              {/* Channels per severity */}
+              <div className="space-y-4">
+                <div>
+                  <Label className="text-base font-medium">Priority Selection</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Choose the channels that reach you for each alert severity
+                  </p>
+                </div>
+                <div className="space-y-3">
+                  {SEVERITIES.map((severity) => (
+                    <div key={severity} className="flex items-center justify-between p-3 border rounded-lg">
+                      <Badge variant="outline" className={getSeverityColor(severity)}>
+                        {severity.toUpperCase()}
+                      </Badge>
+                      <div className="flex items-center space-x-4">
+                        {CHANNELS.map(({ id, label, icon: Icon }) => (
+                          <div key={id} className="flex items-center space-x-2">
+                            <Icon className="h-4 w-4 text-muted-foreground" />
+                            <span className="text-sm">{label}</span>
+                            <Switch
+                              checked={notificationSettings.channelsBySeverity[severity].includes(id)}
+                              onCheckedChange={(enabled) => toggleSeverityChannel(severity, id, enabled)}
+                            />
+                          </div>
+                        ))}
                       </div>
-                    </>
-                  )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <Separator />
+
+              {/* Filters */}
+              <div className="space-y-4">
+                <div>
+                  <Label className="text-base font-medium">Filters</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Critical alerts are always delivered, regardless of these filters
+                  </p>
+                </div>
+                <div className="pl-8 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm">Minimum severity</p>
+                    <Select
+                      value={notificationSettings.minimumSeverity}
+                      onValueChange={(minimumSeverity: Severity) =>
+                        setNotificationSettings(prev => ({ ...prev, minimumSeverity }))
+                      }
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="info">Info</SelectItem>
+                        <SelectItem value="warning">Warning</SelectItem>
+                        <SelectItem value="critical">Critical</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <p className="text-sm">Muted alert types</p>
+                    <div className="flex flex-wrap gap-2">
+                      {ALERT_TYPES.map((type) => (
+                        <Badge
+                          key={type}
+                          variant={notificationSettings.mutedTypes.includes(type) ? 'destructive' : 'outline'}
+                          className="cursor-pointer"
+                          onClick={() => toggleMutedType(type)}
+                        >
+                          {type.replace('_', ' ')}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
                 </div>
               </div>
 
               <Separator />
 
-              {/* SMS Notifications */}
+              {/* Quiet Hours and Digest */}
               <div className="space-y-4">
                 <div className="flex items-center space-x-3">
-                  <MessageSquare className="h-5 w-5 text-green-400" />
-                  <Label className="text-base font-medium">SMS Notifications</Label>
+                  <Moon className="h-5 w-5 text-purple-400" />
+                  <Label className="text-base font-medium">Quiet Hours & Digest</Label>
+                  {preferencesData?.quietHoursActive && (
+                    <Badge variant="outline">Quiet hours active</Badge>
+                  )}
                 </div>
                 <div className="pl-8 space-y-3">
                   <div className="flex items-center justify-between">
                     <div>
-                      <p className="text-sm">Enable SMS notifications</p>
-                      <p className="text-xs text-muted-foreground">Send critical alerts via SMS</p>
+                      <p className="text-sm">Enable quiet hours</p>
+                      <p className="text-xs text-muted-foreground">Hold back non-critical alerts and email them afterwards</p>
                     </div>
                     <Switch
-                      checked={notificationSettings.sms.enabled}
-                      onCheckedChange={(enabled) => 
+                      checked={notificationSettings.quietHours.enabled}
+                      onCheckedChange={(enabled) =>
                         setNotificationSettings(prev => ({
                           ...prev,
-                          sms: { ...prev.sms, enabled }
+                          quietHours: { ...prev.quietHours, enabled }
                         }))
                       }
                     />
                   </div>
-                  
-                  {notificationSettings.sms.enabled && (
-                    <>
+
+                  {notificationSettings.quietHours.enabled && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                       <div className="space-y-2">
-                        <Label>Phone Numbers</Label>
-                        <div className="flex space-x-2">
-                          <Input
-                            placeholder="Enter phone number"
-                            value={newPhoneNumber}
-                            onChange={(e) => setNewPhoneNumber(e.target.value)}
-                            onKeyPress={(e) => e.key === 'Enter' && addPhoneNumber()}
-                          />
-                          <Button onClick={addPhoneNumber} size="sm">Add</Button>
-                        </div>
-                        <div className="flex flex-wrap gap-2">
-                          {notificationSettings.sms.phoneNumbers.map((phone) => (
-                            <Badge
-                              key={phone}
-                              variant="outline"
-                              className="cursor-pointer hover:bg-destructive/20"
-                              onClick={() => removePhoneNumber(phone)}
-                            >
-                              {phone} ×
-                            </Badge>
-                          ))}
-                        </div>
+                        <Label>From</Label>
+                        <Input
+                          type="time"
+                          value={notificationSettings.quietHours.start}
+                          onChange={(e) =>
+                            setNotificationSettings(prev => ({
+                              ...prev,
+                              quietHours: { ...prev.quietHours, start: e.target.value }
+                            }))
+                          }
+                        />
                       </div>
-                    </>
+                      <div className="space-y-2">
+                        <Label>Until</Label>
+                        <Input
+                          type="time"
+                          value={notificationSettings.quietHours.end}
+                          onChange={(e) =>
+                            setNotificationSettings(prev => ({
+                              ...prev,
+                              quietHours: { ...prev.quietHours, end: e.target.value }
+                            }))
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Time zone</Label>
+                        <Input
+                          value={notificationSettings.timezone}
+                          placeholder="Europe/Berlin"
+                          onChange={(e) =>
+                            setNotificationSettings(prev => ({ ...prev, timezone: e.target.value }))
+                          }
+                        />
+                      </div>
+                    </div>
                   )}
-                </div>
-              </div>
 
-              <Separator />
-
-              {/* Priority Rules */}
-              <div className="space-y-4">
-                <div>
-                  <Label className="text-base font-medium">Priority Selection</Label>
-                  <p className="text-sm text-muted-foreground">
-                    Configure notification channels based on alert severity
-                  </p>
-                </div>
-                <div className="space-y-3">
-                  <div className="flex items-center justify-between p-3 border rounded-lg bg-red-500/5">
-                    <div className="flex items-center space-x-2">
-                      <Badge className="bg-red-500/20 text-red-300 border-red-500/30">CRITICAL</Badge>
-                      <span className="text-sm">→ SMS + Email + Dashboard</span>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm">Digest mode</p>
+                      <p className="text-xs text-muted-foreground">Batch non-critical alerts into one email</p>
                     </div>
-                  </div>
-                  <div className="flex items-center justify-between p-3 border rounded-lg bg-yellow-500/5">
                     <div className="flex items-center space-x-2">
-                      <Badge className="bg-yellow-500/20 text-yellow-300 border-yellow-500/30">WARNING</Badge>
-                      <span className="text-sm">→ Email + Dashboard</span>
+                      <Select
+                        value={notificationSettings.digestMode}
+                        onValueChange={(digestMode: NotificationSettings['digestMode']) =>
+                          setNotificationSettings(prev => ({ ...prev, digestMode }))
+                        }
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="off">Off</SelectItem>
+                          <SelectItem value="hourly">Hourly</SelectItem>
+                          <SelectItem value="daily">Daily</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {notificationSettings.digestMode === 'daily' && (
+                        <Input
+                          type="number"
+                          min={0}
+                          max={23}
+                          className="w-20"
+                          value={notificationSettings.digestHour}
+                          onChange={(e) =>
+                            setNotificationSettings(prev => ({
+                              ...prev,
+                              digestHour: Math.min(23, Math.max(0, parseInt(e.target.value) || 0))
+                            }))
+                          }
+                        />
+                      )}
                     </div>
                   </div>
-                  <div className="flex items-center justify-between p-3 border rounded-lg bg-blue-500/5">
-                    <div className="flex items-center space-x-2">
-                      <Badge className="bg-blue-500/20 text-blue-300 border-blue-500/30">INFO</Badge>
-                      <span className="text-sm">→ Dashboard</span>
+
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm">Message language</p>
+                      <p className="text-xs text-muted-foreground">Locale of email, SMS and push templates</p>
                     </div>
+                    <Input
+                      className="w-32"
+                      value={notificationSettings.locale}
+                      placeholder="en"
+                      onChange={(e) =>
+                        setNotificationSettings(prev => ({ ...prev, locale: e.target.value }))
+                      }
+                    />
                   </div>
                 </div>
               </div>
@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { AlertTriangle, Bell, Eye, Clock, CheckCircle, X, AlertCircle, TrendingUp, Filter, Settings, BarChart3 } from 'lucide-react';
+import { AlertTriangle, Bell, Eye, Clock, CheckCircle, X, AlertCircle, TrendingUp, Filter, Settings, BarChart3, ChevronDown, ChevronRight, Layers } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface Alert {
@@ -19,9 +20,27 @@ interface Alert {
   location?: string;
 }
 
+// Related alerts grouped under their probable root cause
+interface Incident {
+  id: string;
+  title: string;
+  status: 'open' | 'acknowledged' | 'resolved';
+  severity: 'info' | 'warning' | 'critical';
+  rootComponent: string | null;
+  components: string[];
+  location: string | null;
+  alertCount: number;
+  openedAt: string;
+  lastAlertAt: string;
+  alerts: Alert[];
+}
+
+type IncidentAction = 'acknowledge' | 'resolve';
+
 interface AlertDashboardProps {
   alerts: Alert[];
   onAlertAction: (alertId: string, action: string) => void;
+  onIncidentAction: (incidentId: string, action: IncidentAction) => void;
   onViewAll: () => void;
 }
 
@@ -32,10 +51,16 @@ interface AlertStats {
   warning: number;
   info: number;
   resolved: number;
-  averageResponseTime: number;
+  averageResponseTime: number | null;
 }
 
-export function AlertDashboard({ alerts, onAlertAction, onViewAll }: AlertDashboardProps) {
+interface ServerAlertStats {
+  meanTimeToAcknowledge: number | null;
+  meanTimeToResolve: number | null;
+  falsePositiveRate: number;
+}
+
+export function AlertDashboard({ alerts, onAlertAction, onIncidentAction, onViewAll }: AlertDashboardProps) {
   const [recentAlerts, setRecentAlerts] = useState<Alert[]>([]);
   const [unresolvedCount, setUnresolvedCount] = useState(0);
   const [stats, setStats] = useState<AlertStats>({
@@ -45,10 +70,20 @@ export function AlertDashboard({ alerts, onAlertAction, onViewAll }: AlertDashbo
     warning: 0,
     info: 0,
     resolved: 0,
-    averageResponseTime: 15
+    averageResponseTime: null
   });
   const [selectedFilter, setSelectedFilter] = useState<string>('all');
   
+  // Response times are computed server-side from acknowledgement timestamps
+  const { data: serverStats } = useQuery<ServerAlertStats>({
+    queryKey: ['/api/v1/alerts/stats?period=7d'],
+  });
+  
+  const { data: incidentData } = useQuery<{ incidents: Incident[] }>({
+    queryKey: ['/api/v1/incidents?status=open,acknowledged&limit=50'],
+  });
+  const incidents = incidentData?.incidents ?? [];
+  
   useEffect(() => {
     // Get recent alerts (last 5)
     const recent = alerts
@@ -70,10 +105,10 @@ export function AlertDashboard({ alerts, onAlertAction, onViewAll }: AlertDashbo
       warning: alerts.filter(alert => alert.severity === 'warning').length,
       info: alerts.filter(alert => alert.severity === 'info').length,
       resolved: alerts.filter(alert => alert.status === 'resolved').length,
-      averageResponseTime: 15 // Mock data - in real app would calculate from database
+      averageResponseTime: serverStats?.meanTimeToAcknowledge ?? null
     };
     setStats(newStats);
-  }, [alerts]);
+  }, [alerts, serverStats]);
   
   const getSeverityConfig = (severity: string | undefined) => {
     if (!severity) {
@@ -230,11 +265,12 @@ export function AlertDashboard({ alerts, onAlertAction, onViewAll }: AlertDashbo
         </CardHeader>
         <CardContent>
           <Tabs value={selectedFilter} onValueChange={setSelectedFilter} className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="all">All ({stats.total})</TabsTrigger>
               <TabsTrigger value="active">Active ({stats.active})</TabsTrigger>
               <TabsTrigger value="critical">Critical ({stats.critical})</TabsTrigger>
               <TabsTrigger value="resolved">Resolved ({stats.resolved})</TabsTrigger>
+              <TabsTrigger value="incidents">Incidents ({incidents.length})</TabsTrigger>
             </TabsList>
             
             <TabsContent value="all" className="mt-4">
@@ -261,6 +297,10 @@ export function AlertDashboard({ alerts, onAlertAction, onViewAll }: AlertDashbo
                 onAlertAction={onAlertAction} 
               />
             </TabsContent>
+            
+            <TabsContent value="incidents" className="mt-4">
+              <IncidentList incidents={incidents} onIncidentAction={onIncidentAction} />
+            </TabsContent>
           </Tabs>
           
           {recentAlerts.length > 0 && (
@@ -269,7 +309,7 @@ export function AlertDashboard({ alerts, onAlertAction, onViewAll }: AlertDashbo
                 <div className="flex items-center space-x-4 text-sm text-muted-foreground">
                   <span>Showing {recentAlerts.length} of {alerts.length} alerts</span>
                   <span>•</span>
-                  <span>Avg Response Time: {stats.averageResponseTime}min</span>
+                  <span>Avg Response Time: {stats.averageResponseTime !== null ? `${stats.averageResponseTime}min` : '—'}</span>
                 </div>
                 <div className="flex items-center space-x-2">
                   <Button
@@ -481,3 +521,152 @@ function AlertList({ alerts, onAlertAction }: { alerts: Alert[], onAlertAction:
     </div>
   );
 }
+
+const INCIDENT_SEVERITY_BADGES: Record<string, string> = {
+  critical: 'bg-red-500/20 text-red-300 border-red-500/30',
+  warning: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30',
+  info: 'bg-primary/20 text-primary border-primary/30',
+};
+
+const ALERT_STATUS_BADGES: Record<string, string> = {
+  active: 'bg-orange-500/20 text-orange-300 border-orange-500/30',
+  acknowledged: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+  resolved: 'bg-green-500/20 text-green-300 border-green-500/30',
+  dismissed: 'bg-gray-500/20 text-gray-300 border-gray-500/30',
+};
+
+const formatComponent = (component: string | null | undefined) => component ? component.replace(/_/g, ' ') : 'unknown';
+
+// Helper component for rendering incidents with their alerts
+function IncidentList({ incidents, onIncidentAction }: { incidents: Incident[], onIncidentAction: (incidentId: string, action: IncidentAction) => void }) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (incidentId: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(incidentId)) next.delete(incidentId);
+      else next.add(incidentId);
+      return next;
+    });
+  };
+
+  const formatTimestamp = (timestamp: Date | string | number) => {
+    const now = new Date();
+    const timestampDate = timestamp instanceof Date ? timestamp : new Date(timestamp);
+    const diff = now.getTime() - timestampDate.getTime();
+    const minutes = Math.floor(diff / 60000);
+    const hours = Math.floor(diff / 3600000);
+    
+    if (minutes < 1) return 'Just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    if (hours < 24) return `${hours}h ago`;
+    return timestampDate.toLocaleDateString();
+  };
+
+  return (
+    <div className="max-h-[400px] overflow-y-auto space-y-3 pr-2 scrollbar-thin scrollbar-thumb-border scrollbar-track-transparent hover:scrollbar-thumb-border/60">
+      {incidents.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <Layers className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p className="text-sm">No open incidents</p>
+          <p className="text-xs">Related alerts are grouped here as they come in</p>
+        </div>
+      ) : (
+        incidents.map((incident) => {
+          const isExpanded = expanded.has(incident.id);
+          const Chevron = isExpanded ? ChevronDown : ChevronRight;
+          
+          return (
+            <div key={incident.id} className="rounded-lg border border-border/60 bg-card/50">
+              <div className="p-4 flex items-start space-x-3 cursor-pointer" onClick={() => toggle(incident.id)}>
+                <Chevron className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-3 mb-2">
+                    <h4 className="text-sm font-semibold truncate leading-none">{incident.title}</h4>
+                    <Badge variant="outline" className={cn("text-xs px-2 py-1 leading-none", INCIDENT_SEVERITY_BADGES[incident.severity])}>
+                      {incident.severity.toUpperCase()}
+                    </Badge>
+                    {incident.status === 'acknowledged' && (
+                      <Badge variant="outline" className="bg-blue-500/20 text-blue-300 border-blue-500/30 text-xs px-2 py-1 leading-none">
+                        ACKNOWLEDGED
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm opacity-90 mb-2">
+                    Probable root cause: <span className="font-medium capitalize">{formatComponent(incident.rootComponent)}</span>
+                    {incident.components.length > 1 && (
+                      <span className="opacity-70"> — also affecting {incident.components.filter(component => component !== incident.rootComponent).map(formatComponent).join(', ')}</span>
+                    )}
+                  </p>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2 text-xs opacity-70">
+                      <Layers className="h-3 w-3" />
+                      <span>{incident.alertCount} {incident.alertCount === 1 ? 'alert' : 'alerts'}</span>
+                      <span>•</span>
+                      <Clock className="h-3 w-3" />
+                      <span className="font-mono">opened {formatTimestamp(incident.openedAt)}, last {formatTimestamp(incident.lastAlertAt)}</span>
+                      {incident.location && (
+                        <>
+                          <span>•</span>
+                          <span>{incident.location}</span>
+                        </>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {incident.status === 'open' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onIncidentAction(incident.id, 'acknowledge');
+                          }}
+                          className="h-8 px-3 text-xs"
+                        >
+                          Acknowledge
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onIncidentAction(incident.id, 'resolve');
+                        }}
+                        className="h-8 px-3 text-xs"
+                      >
+                        Resolve
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+              
+              {isExpanded && (
+                <div className="border-t border-border/40 px-4 py-3 space-y-2">
+                  {incident.alerts.map((alert) => (
+                    <div key={alert.id} className="flex items-center justify-between text-xs">
+                      <div className="flex items-center space-x-2 min-w-0">
+                        <Badge variant="outline" className={cn("px-2 py-0.5 leading-none", INCIDENT_SEVERITY_BADGES[alert.severity ?? 'info'])}>
+                          {alert.severity?.toUpperCase() || 'UNKNOWN'}
+                        </Badge>
+                        <span className="truncate">{alert.title}</span>
+                        <span className="opacity-60 capitalize">{formatComponent(alert.deviceId)}</span>
+                      </div>
+                      <div className="flex items-center space-x-2 flex-shrink-0">
+                        <Badge variant="outline" className={cn("px-2 py-0.5 leading-none", ALERT_STATUS_BADGES[alert.status])}>
+                          {alert.status.toUpperCase()}
+                        </Badge>
+                        <span className="font-mono opacity-70">{formatTimestamp(alert.timestamp)}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
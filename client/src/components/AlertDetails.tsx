@@ -1,8 +1,11 @@
 import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { 
   AlertTriangle, 
   Clock, 
@@ -15,10 +18,22 @@ import {
   X,
   MessageSquare,
   TrendingUp,
-  Activity
+  Activity,
+  Send,
+  ThumbsUp,
+  ThumbsDown
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
+// Mirrors FEEDBACK_LABELS in shared/alert-schema
+export type FeedbackLabel = 'real_issue' | 'useful' | 'false_positive';
+
+const FEEDBACK_OPTIONS: { label: FeedbackLabel; text: string; icon: typeof AlertTriangle }[] = [
+  { label: 'real_issue', text: 'Real issue', icon: AlertTriangle },
+  { label: 'useful', text: 'Useful', icon: ThumbsUp },
+  { label: 'false_positive', text: 'False positive', icon: ThumbsDown },
+];
+
 interface AlertDetailsProps {
   alert: {
     id: string;
@@ -33,10 +48,33 @@ interface AlertDetailsProps {
     location?: string;
     metadata?: Record<string, any>;
   };
-  onAction: (action: string, notes?: string) => void;
+  onAction: (action: string, notes?: string, label?: FeedbackLabel) => void;
   onClose: () => void;
 }
 
+// Row of the delivery log, see GET /api/notifications
+interface NotificationDelivery {
+  id: string;
+  channel: string;
+  status: string;
+  recipient: string;
+  recipientName: string | null;
+  createdAt: string;
+  sentAt: string | null;
+  deliveredAt: string | null;
+  errorMessage: string | null;
+  retryCount: number | null;
+}
+
+const DELIVERY_STATUS_BADGES: Record<string, string> = {
+  sent: 'bg-green-500/20 text-green-300 border-green-500/30',
+  delivered: 'bg-green-500/20 text-green-300 border-green-500/30',
+  pending: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+  digest_pending: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+  failed: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30',
+  dead_letter: 'bg-red-500/20 text-red-300 border-red-500/30',
+};
+
 interface TimelineEvent {
   id: string;
   timestamp: Date;
@@ -49,6 +87,7 @@ interface TimelineEvent {
 export function AlertDetails({ alert, onAction, onClose }: AlertDetailsProps) {
   const [notes, setNotes] = useState('');
   const [showNotes, setShowNotes] = useState(false);
+  const [resolving, setResolving] = useState(false);
   
   // Mock timeline events - in real app, this would come from API
   const timelineEvents: TimelineEvent[] = [
@@ -198,133 +237,149 @@ export function AlertDetails({ alert, onAction, onClose }: AlertDetailsProps) {
         </CardHeader>
         
         <CardContent className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
-          {/* Alert Information */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <Card>
-              <CardHeader className="pb-3">
-                <CardTitle className="text-sm font-medium flex items-center space-x-2">
-                  <Activity className="h-4 w-4" />
-                  <span>Alert Information</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <span className="text-sm text-muted-foreground">Status</span>
-                  <Badge variant="outline" className={config.badge}>
-                    {alert.status.toUpperCase()}
-                  </Badge>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-sm text-muted-foreground">Source</span>
-                  <span className="text-sm font-medium">{alert.source}</span>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-sm text-muted-foreground">Timestamp</span>
-                  <span className="text-sm font-medium">{formatTimestamp(alert.timestamp)}</span>
-                </div>
-                {alert.location && (
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-muted-foreground">Location</span>
-                    <span className="text-sm font-medium flex items-center space-x-1">
-                      <MapPin className="h-3 w-3" />
-                      <span>{alert.location}</span>
-                    </span>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-            
-            <Card>
-              <CardHeader className="pb-3">
-                <CardTitle className="text-sm font-medium flex items-center space-x-2">
-                  <DeviceIcon className="h-4 w-4" />
-                  <span>Device Information</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {alert.deviceId && (
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-muted-foreground">Device ID</span>
-                    <span className="text-sm font-mono">{alert.deviceId}</span>
-                  </div>
-                )}
-                <div className="flex items-center justify-between">
-                  <span className="text-sm text-muted-foreground">Component</span>
-                  <span className="text-sm font-medium">{alert.type}</span>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-sm text-muted-foreground">Severity</span>
-                  <span className="text-sm font-medium" style={{ color: config.color }}>
-                    {alert.severity?.toUpperCase() || 'UNKNOWN'}
-                  </span>
-                </div>
-                {alert.metadata && (
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-muted-foreground">Confidence</span>
-                    <span className="text-sm font-medium">
-                      {alert.metadata.confidence ? `${(alert.metadata.confidence * 100).toFixed(1)}%` : 'N/A'}
-                    </span>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          </div>
-          
-          {/* Description */}
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="text-sm font-medium">Description</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <p className="text-sm text-muted-foreground leading-relaxed">
-                {alert.description}
-              </p>
-            </CardContent>
-          </Card>
-          
-          {/* Timeline */}
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="text-sm font-medium flex items-center space-x-2">
-                <Clock className="h-4 w-4" />
-                <span>Event Timeline</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {timelineEvents.map((event, index) => (
-                  <div key={event.id} className="flex items-start space-x-3">
-                    <div className="flex flex-col items-center">
-                      <div className={cn(
-                        "w-2 h-2 rounded-full",
-                        event.type === 'ai' ? 'bg-purple-500' :
-                        event.type === 'user' ? 'bg-blue-500' : 'bg-gray-500'
-                      )} />
-                      {index < timelineEvents.length - 1 && (
-                        <div className="w-px h-8 bg-border mt-2" />
-                      )}
+          <Tabs defaultValue="details">
+            <TabsList>
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="delivery">
+                <Send className="h-3 w-3 mr-1" />
+                Delivery
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="details" className="space-y-6">
+              {/* Alert Information */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-sm font-medium flex items-center space-x-2">
+                      <Activity className="h-4 w-4" />
+                      <span>Alert Information</span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground">Status</span>
+                      <Badge variant="outline" className={config.badge}>
+                        {alert.status.toUpperCase()}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground">Source</span>
+                      <span className="text-sm font-medium">{alert.source}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground">Timestamp</span>
+                      <span className="text-sm font-medium">{formatTimestamp(alert.timestamp)}</span>
                     </div>
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center space-x-2 mb-1">
-                        <span className="text-sm font-medium">{event.action}</span>
-                        <Badge variant="outline" className="text-xs">
-                          {event.type.toUpperCase()}
-                        </Badge>
+                    {alert.location && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">Location</span>
+                        <span className="text-sm font-medium flex items-center space-x-1">
+                          <MapPin className="h-3 w-3" />
+                          <span>{alert.location}</span>
+                        </span>
                       </div>
-                      <p className="text-sm text-muted-foreground mb-1">{event.description}</p>
-                      <div className="flex items-center space-x-2 text-xs text-muted-foreground">
-                        <Clock className="h-3 w-3" />
-                        <span>{formatTimestamp(event.timestamp)}</span>
-                        <span>•</span>
-                        <span>{event.user}</span>
+                    )}
+                  </CardContent>
+                </Card>
+            
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-sm font-medium flex items-center space-x-2">
+                      <DeviceIcon className="h-4 w-4" />
+                      <span>Device Information</span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {alert.deviceId && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">Device ID</span>
+                        <span className="text-sm font-mono">{alert.deviceId}</span>
                       </div>
+                    )}
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground">Component</span>
+                      <span className="text-sm font-medium">{alert.type}</span>
                     </div>
-                  </div>
-                ))}
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground">Severity</span>
+                      <span className="text-sm font-medium" style={{ color: config.color }}>
+                        {alert.severity?.toUpperCase() || 'UNKNOWN'}
+                      </span>
+                    </div>
+                    {alert.metadata && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">Confidence</span>
+                        <span className="text-sm font-medium">
+                          {alert.metadata.confidence ? `${(alert.metadata.confidence * 100).toFixed(1)}%` : 'N/A'}
+                        </span>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
               </div>
-            </CardContent>
-          </Card>
           
+              {/* Description */}
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-medium">Description</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-muted-foreground leading-relaxed">
+                    {alert.description}
+                  </p>
+                </CardContent>
+              </Card>
+          
+              {/* Timeline */}
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-medium flex items-center space-x-2">
+                    <Clock className="h-4 w-4" />
+                    <span>Event Timeline</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {timelineEvents.map((event, index) => (
+                      <div key={event.id} className="flex items-start space-x-3">
+                        <div className="flex flex-col items-center">
+                          <div className={cn(
+                            "w-2 h-2 rounded-full",
+                            event.type === 'ai' ? 'bg-purple-500' :
+                            event.type === 'user' ? 'bg-blue-500' : 'bg-gray-500'
+                          )} />
+                          {index < timelineEvents.length - 1 && (
+                            <div className="w-px h-8 bg-border mt-2" />
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center space-x-2 mb-1">
+                            <span className="text-sm font-medium">{event.action}</span>
+                            <Badge variant="outline" className="text-xs">
+                              {event.type.toUpperCase()}
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-muted-foreground mb-1">{event.description}</p>
+                          <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                            <Clock className="h-3 w-3" />
+                            <span>{formatTimestamp(event.timestamp)}</span>
+                            <span>•</span>
+                            <span>{event.user}</span>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="delivery">
+              <DeliveryLog alertId={alert.id} formatTimestamp={formatTimestamp} />
+            </TabsContent>
+          </Tabs>
+
           {/* Actions */}
           <Card>
             <CardHeader className="pb-3">
@@ -347,7 +402,7 @@ export function AlertDetails({ alert, onAction, onClose }: AlertDetailsProps) {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => onAction('resolve')}
+                    onClick={() => setResolving(true)}
                     className="text-xs"
                   >
                     <CheckCircle className="h-4 w-4 mr-1" />
@@ -374,6 +429,48 @@ export function AlertDetails({ alert, onAction, onClose }: AlertDetailsProps) {
                 </Button>
               </div>
               
+              {(resolving || alert.status === 'resolved' || alert.status === 'dismissed') && (
+                <div className="space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    {resolving ? 'Was this a real issue?' : 'Was this alert useful?'}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {FEEDBACK_OPTIONS.map(option => (
+                      <Button
+                        key={option.label}
+                        variant={alert.metadata?.feedbackLabel === option.label ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => {
+                          if (resolving) {
+                            onAction('resolve', undefined, option.label);
+                            setResolving(false);
+                          } else {
+                            onAction('feedback', undefined, option.label);
+                          }
+                        }}
+                        className="text-xs"
+                      >
+                        <option.icon className="h-4 w-4 mr-1" />
+                        {option.text}
+                      </Button>
+                    ))}
+                    {resolving && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          onAction('resolve');
+                          setResolving(false);
+                        }}
+                        className="text-xs"
+                      >
+                        Resolve without label
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+              
               {showNotes && (
                 <div className="space-y-2">
                   <Textarea
@@ -410,3 +507,73 @@ export function AlertDetails({ alert, onAction, onClose }: AlertDetailsProps) {
     </div>
   );
 }
+
+/**
+ * Who was notified about the alert, on which channel and when
+ */
+function DeliveryLog({
+  alertId,
+  formatTimestamp
+}: {
+  alertId: string;
+  formatTimestamp: (timestamp: Date | string | number) => string;
+}) {
+  const { data, isLoading, error } = useQuery<{ notifications: NotificationDelivery[]; total: number }>({
+    queryKey: [`/api/notifications?alertId=${encodeURIComponent(alertId)}&limit=200`],
+    refetchInterval: 15000,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground py-4">Loading delivery log...</p>;
+  }
+  if (error) {
+    return <p className="text-sm text-red-300 py-4">Failed to load the delivery log.</p>;
+  }
+
+  const notifications = data?.notifications ?? [];
+  if (notifications.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">No notifications have been sent for this alert.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Channel</TableHead>
+          <TableHead>Recipient</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Sent</TableHead>
+          <TableHead className="text-right">Retries</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {notifications.map(notification => (
+          <TableRow key={notification.id}>
+            <TableCell className="text-sm capitalize">{notification.channel}</TableCell>
+            <TableCell className="text-sm">
+              <div>{notification.recipientName ?? notification.recipient}</div>
+              {notification.recipientName && notification.recipientName !== notification.recipient && (
+                <div className="text-xs text-muted-foreground font-mono">{notification.recipient}</div>
+              )}
+            </TableCell>
+            <TableCell>
+              <Badge variant="outline" className={DELIVERY_STATUS_BADGES[notification.status]}>
+                {notification.status.replace('_', ' ').toUpperCase()}
+              </Badge>
+              {notification.errorMessage && (
+                <p className="text-xs text-red-300 mt-1 max-w-xs break-words">{notification.errorMessage}</p>
+              )}
+            </TableCell>
+            <TableCell className="text-xs text-muted-foreground">
+              <div>{formatTimestamp(notification.sentAt ?? notification.createdAt)}</div>
+              {notification.deliveredAt && (
+                <div>Delivered {formatTimestamp(notification.deliveredAt)}</div>
+              )}
+            </TableCell>
+            <TableCell className="text-sm text-right">{notification.retryCount ?? 0}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -1,4 +1,6 @@
 import { useState, useEffect } from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -25,9 +27,8 @@ import {
 import { cn } from '@/lib/utils';
 
 interface AlertHistoryProps {
-  alerts: any[];
-  onExport: (format: 'csv' | 'json' | 'pdf') => void;
-  onFilter: (filters: AlertFilters) => void;
+  onExport: (format: 'csv' | 'json' | 'pdf', alertIds?: string[]) => void;
+  onFilter?: (filters: AlertFilters) => void;
 }
 
 interface AlertFilters {
@@ -36,74 +37,102 @@ interface AlertFilters {
   status: string;
   dateRange: string;
   search: string;
+  sort: string;
+}
+
+interface AlertPage {
+  alerts: any[];
+  total: number;
+  limit: number;
+  nextCursor: string | null;
 }
 
+const PAGE_SIZE = 50;
+
+const SORT_OPTIONS: Record<string, { sortBy: string; sortOrder: 'asc' | 'desc' }> = {
+  newest: { sortBy: 'timestamp', sortOrder: 'desc' },
+  oldest: { sortBy: 'timestamp', sortOrder: 'asc' },
+  severity: { sortBy: 'severity', sortOrder: 'desc' },
+  status: { sortBy: 'status', sortOrder: 'asc' },
+};
+
 interface AlertStats {
   total: number;
   active: number;
   resolved: number;
   critical: number;
-  averageResponseTime: number;
+  meanTimeToAcknowledge: number | null;
+  meanTimeToResolve: number | null;
   falsePositiveRate: number;
 }
 
-export function AlertHistory({ alerts, onExport, onFilter }: AlertHistoryProps) {
+export function AlertHistory({ onExport, onFilter }: AlertHistoryProps) {
   const [filters, setFilters] = useState<AlertFilters>({
     severity: 'all',
     type: 'all',
     status: 'all',
     dateRange: '7d',
-    search: ''
+    search: '',
+    sort: 'newest'
   });
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   
-  const [selectedAlerts, setSelectedAlerts] = useState<string[]>([]);
-  const [stats, setStats] = useState<AlertStats>({
-    total: 0,
-    active: 0,
-    resolved: 0,
-    critical: 0,
-    averageResponseTime: 0,
-    falsePositiveRate: 0
+  // Avoid a server round-trip on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(filters.search), 300);
+    return () => clearTimeout(timer);
+  }, [filters.search]);
+  
+  const queryParams = {
+    severity: filters.severity,
+    type: filters.type,
+    status: filters.status,
+    dateRange: filters.dateRange,
+    search: debouncedSearch,
+    ...SORT_OPTIONS[filters.sort]
+  };
+  
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: ['/api/v1/alerts', 'history', queryParams],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({
+        ...queryParams,
+        limit: String(PAGE_SIZE)
+      });
+      if (!queryParams.search) params.delete('search');
+      if (pageParam) params.set('cursor', pageParam);
+      
+      const res = await apiRequest('GET', `/api/v1/alerts?${params.toString()}`);
+      return await res.json() as AlertPage;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
   });
   
-  useEffect(() => {
-    // Calculate statistics
-    const total = alerts.length;
-    const active = alerts.filter(a => a.status === 'active').length;
-    const resolved = alerts.filter(a => a.status === 'resolved').length;
-    const critical = alerts.filter(a => a.severity === 'critical').length;
-    
-    // Calculate average response time (mock data)
-    const averageResponseTime = 15; // minutes
-    
-    // Calculate false positive rate (mock data)
-    const falsePositiveRate = 5.2; // percentage
-    
-    setStats({
-      total,
-      active,
-      resolved,
-      critical,
-      averageResponseTime,
-      falsePositiveRate
-    });
-  }, [alerts]);
+  const alerts = data?.pages.flatMap(page => page.alerts) ?? [];
+  const totalMatching = data?.pages[0]?.total ?? 0;
   
-  const filteredAlerts = alerts.filter(alert => {
-    const matchesSeverity = filters.severity === 'all' || alert.severity === filters.severity;
-    const matchesType = filters.type === 'all' || alert.type === filters.type;
-    const matchesStatus = filters.status === 'all' || alert.status === filters.status;
-    const matchesSearch = filters.search === '' || 
-      alert.title.toLowerCase().includes(filters.search.toLowerCase()) ||
-      alert.description.toLowerCase().includes(filters.search.toLowerCase());
-    
-    return matchesSeverity && matchesType && matchesStatus && matchesSearch;
+  const [selectedAlerts, setSelectedAlerts] = useState<string[]>([]);
+  
+  // Statistics cover the selected period, not just the pages loaded so far
+  const { data: stats } = useQuery<AlertStats>({
+    queryKey: [`/api/v1/alerts/stats?period=${filters.dateRange}`],
   });
   
+  // Filtering happens on the server, so everything loaded matches
+  const filteredAlerts = alerts;
+  
   const handleFilterChange = (key: keyof AlertFilters, value: string) => {
     const newFilters = { ...filters, [key]: value };
     setFilters(newFilters);
-    onFilter(newFilters);
+    setSelectedAlerts([]);
+    onFilter?.(newFilters);
   };
   
   const handleSelectAll = () => {
@@ -182,7 +211,7 @@ export function AlertHistory({ alerts, onExport, onFilter }: AlertHistoryProps)
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-muted-foreground">Total Alerts</p>
-                <p className="text-2xl font-bold">{stats.total}</p>
+                <p className="text-2xl font-bold">{stats?.total ?? 0}</p>
               </div>
               <AlertTriangle className="h-8 w-8 text-muted-foreground" />
             </div>
@@ -194,7 +223,7 @@ export function AlertHistory({ alerts, onExport, onFilter }: AlertHistoryProps)
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-muted-foreground">Active</p>
-                <p className="text-2xl font-bold text-red-300">{stats.active}</p>
+                <p className="text-2xl font-bold text-red-300">{stats?.active ?? 0}</p>
               </div>
               <Clock className="h-8 w-8 text-red-300" />
             </div>
@@ -206,7 +235,7 @@ export function AlertHistory({ alerts, onExport, onFilter }: AlertHistoryProps)
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-muted-foreground">Resolved</p>
-                <p className="text-2xl font-bold text-green-300">{stats.resolved}</p>
+                <p className="text-2xl font-bold text-green-300">{stats?.resolved ?? 0}</p>
               </div>
               <CheckCircle className="h-8 w-8 text-green-300" />
             </div>
@@ -218,7 +247,12 @@ export function AlertHistory({ alerts, onExport, onFilter }: AlertHistoryProps)
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-muted-foreground">Avg Response</p>
-                <p className="text-2xl font-bold">{stats.averageResponseTime}m</p>
+                <p className="text-2xl font-bold">
+                  {stats?.meanTimeToAcknowledge != null ? `${stats.meanTimeToAcknowledge}m` : '—'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  MTTR {stats?.meanTimeToResolve != null ? `${stats.meanTimeToResolve}m` : '—'} · FP {stats?.falsePositiveRate ?? 0}%
+                </p>
               </div>
               <TrendingUp className="h-8 w-8 text-primary" />
             </div>
@@ -255,7 +289,7 @@ export function AlertHistory({ alerts, onExport, onFilter }: AlertHistoryProps)
         </CardHeader>
         <CardContent>
           {/* Filters */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
             <div className="relative">
               <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
               <Input
@@ -317,11 +351,27 @@ export function AlertHistory({ alerts, onExport, onFilter }: AlertHistoryProps)
                 <SelectItem value="all">All Time</SelectItem>
               </SelectContent>
             </Select>
+            
+            <Select value={filters.sort} onValueChange={(value) => handleFilterChange('sort', value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Sort" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="newest">Newest First</SelectItem>
+                <SelectItem value="oldest">Oldest First</SelectItem>
+                <SelectItem value="severity">Severity</SelectItem>
+                <SelectItem value="status">Status</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
           
           {/* Alert List */}
           <div className="space-y-2">
-            {filteredAlerts.length === 0 ? (
+            {isLoading ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <p>Loading alerts...</p>
+              </div>
+            ) : filteredAlerts.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
                 <AlertTriangle className="h-12 w-12 mx-auto mb-4 opacity-50" />
                 <p>No alerts found matching your filters</p>
@@ -397,9 +447,20 @@ export function AlertHistory({ alerts, onExport, onFilter }: AlertHistoryProps)
           {filteredAlerts.length > 0 && (
             <div className="flex items-center justify-between mt-6 pt-4 border-t border-border/40">
               <div className="text-sm text-muted-foreground">
-                Showing {filteredAlerts.length} of {alerts.length} alerts
+                Showing {filteredAlerts.length} of {totalMatching} alerts
               </div>
               <div className="flex items-center space-x-2">
+                {hasNextPage && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    className="text-xs"
+                  >
+                    {isFetchingNextPage ? 'Loading...' : 'Load More'}
+                  </Button>
+                )}
                 <Button
                   variant="outline"
                   size="sm"
@@ -412,7 +473,7 @@ export function AlertHistory({ alerts, onExport, onFilter }: AlertHistoryProps)
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => onExport('json')}
+                    onClick={() => onExport('json', selectedAlerts)}
                     className="text-xs"
                   >
                     Export Selected ({selectedAlerts.length})
@@ -1,6 +1,11 @@
 import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { getCurrentUserId } from '@/lib/current-user';
+import { useToast } from '@/hooks/use-toast';
+import { useRealtime } from '@/hooks/use-realtime';
 import { AlertDashboard } from './AlertDashboard';
-import { AlertDetails } from './AlertDetails';
+import { AlertDetails, type FeedbackLabel } from './AlertDetails';
 import { AlertHistory } from './AlertHistory';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -8,17 +13,98 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Settings, Download, RefreshCw, Plus, BarChart3, Filter } from 'lucide-react';
 
+const ALERTS_API = '/api/v1/alerts';
+const INCIDENTS_API = '/api/v1/incidents';
+
+const ACTION_MESSAGES: Record<string, string> = {
+  acknowledge: 'Alert acknowledged',
+  resolve: 'Alert resolved',
+  dismiss: 'Alert dismissed',
+  reopen: 'Alert reopened',
+  add_notes: 'Notes added',
+  feedback: 'Feedback recorded',
+};
+
 interface AlertSystemIntegrationProps {
-  alerts: any[];
-  onAlertAction: (alertId: string, action: string, notes?: string) => void;
+  onAlertAction?: (alertId: string, action: string, notes?: string) => void;
 }
 
-export function AlertSystemIntegration({ alerts, onAlertAction }: AlertSystemIntegrationProps) {
+export function AlertSystemIntegration({ onAlertAction }: AlertSystemIntegrationProps) {
   const [selectedAlert, setSelectedAlert] = useState<any>(null);
   const [showHistory, setShowHistory] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  
+  // Open alerts, newest first
+  const { data } = useQuery<{ alerts: any[] }>({
+    queryKey: [`${ALERTS_API}?status=active,acknowledged&dateRange=all&limit=100`],
+  });
+  const alerts = data?.alerts ?? [];
+  
+  const refreshAlerts = () => {
+    queryClient.invalidateQueries({
+      predicate: query => {
+        const key = String(query.queryKey[0]);
+        return key.startsWith(ALERTS_API) || key.startsWith(INCIDENTS_API);
+      },
+    });
+  };
   
-  const handleAlertAction = (alertId: string, action: string, notes?: string) => {
-    onAlertAction(alertId, action, notes);
+  // Pick up alerts raised or updated elsewhere
+  useRealtime(['alerts'], refreshAlerts);
+  
+  const alertActionMutation = useMutation({
+    mutationFn: async ({ alertId, action, notes, label }: { alertId: string; action: string; notes?: string; label?: FeedbackLabel }) => {
+      const endpoint = action === 'add_notes' ? 'notes' : action;
+      const res = await apiRequest('POST', `${ALERTS_API}/${alertId}/${endpoint}`, { userId: getCurrentUserId(), notes, label });
+      return res.json();
+    },
+    onSuccess: (_, { alertId, action, notes }) => {
+      refreshAlerts();
+      onAlertAction?.(alertId, action, notes);
+      toast({ title: ACTION_MESSAGES[action] ?? 'Alert updated' });
+    },
+    onError: (error: Error, { action }) => {
+      toast({ title: `Failed to ${action.replace('_', ' ')} alert`, description: error.message, variant: 'destructive' });
+    },
+  });
+  
+  // Acknowledging or resolving an incident also updates its open alerts
+  const incidentActionMutation = useMutation({
+    mutationFn: async ({ incidentId, action }: { incidentId: string; action: 'acknowledge' | 'resolve' }) => {
+      const res = await apiRequest('POST', `${INCIDENTS_API}/${incidentId}/${action}`, { userId: getCurrentUserId() });
+      return res.json();
+    },
+    onSuccess: (_, { action }) => {
+      refreshAlerts();
+      toast({ title: action === 'acknowledge' ? 'Incident acknowledged' : 'Incident resolved' });
+    },
+    onError: (error: Error, { action }) => {
+      toast({ title: `Failed to ${action} incident`, description: error.message, variant: 'destructive' });
+    },
+  });
+  
+  const createAlertMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `${ALERTS_API}/manual`, {
+        title: 'Manual Test Alert',
+        description: 'This is a manually created test alert',
+        type: 'system_health',
+        severity: 'warning',
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      refreshAlerts();
+      toast({ title: 'Alert created' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to create alert', description: error.message, variant: 'destructive' });
+    },
+  });
+  
+  const handleAlertAction = (alertId: string, action: string, notes?: string, label?: FeedbackLabel) => {
+    alertActionMutation.mutate({ alertId, action, notes, label });
     
     // Close dialogs after action
     if (action === 'resolve' || action === 'dismiss') {
@@ -30,13 +116,23 @@ export function AlertSystemIntegration({ alerts, onAlertAction }: AlertSystemInt
     setShowHistory(true);
   };
   
-  const handleExport = (format: 'csv' | 'json' | 'pdf') => {
-    // Implement export functionality
-    console.log(`Exporting alerts as ${format}`);
+  const handleExport = async (format: 'csv' | 'json' | 'pdf', alertIds?: string[]) => {
+    try {
+      const res = await apiRequest('POST', `${ALERTS_API}/export`, { format, alertIds });
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `alerts.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: 'Export failed', description: (error as Error).message, variant: 'destructive' });
+    }
   };
   
   const handleFilter = (filters: any) => {
-    // Implement filtering
+    // Filtering is applied server-side by AlertHistory
     console.log('Applying filters:', filters);
   };
   
@@ -89,20 +185,8 @@ export function AlertSystemIntegration({ alerts, onAlertAction }: AlertSystemInt
             <Button
               variant="outline"
               size="sm"
-              onClick={() => {
-                // Simulate manual alert creation
-                const mockAlert = {
-                  id: `manual-${Date.now()}`,
-                  title: 'Manual Test Alert',
-                  description: 'This is a manually created test alert',
-                  type: 'system_health',
-                  severity: 'warning',
-                  status: 'active',
-                  timestamp: new Date(),
-                  source: 'manual'
-                };
-                console.log('Creating manual alert:', mockAlert);
-              }}
+              onClick={() => createAlertMutation.mutate()}
+              disabled={createAlertMutation.isPending}
               className="flex items-center justify-center space-x-2 h-10"
             >
               <Plus className="h-4 w-4" />
@@ -112,10 +196,7 @@ export function AlertSystemIntegration({ alerts, onAlertAction }: AlertSystemInt
             <Button
               variant="outline"
               size="sm"
-              onClick={() => {
-                // Refresh alerts
-                console.log('Refreshing alerts...');
-              }}
+              onClick={refreshAlerts}
               className="flex items-center justify-center space-x-2 h-10"
             >
               <RefreshCw className="h-4 w-4" />
@@ -137,7 +218,7 @@ export function AlertSystemIntegration({ alerts, onAlertAction }: AlertSystemInt
                     onClick={() => {
                       // Acknowledge all active alerts
                       activeAlerts.forEach(alert => {
-                        onAlertAction(alert.id, 'acknowledge', 'Bulk acknowledgment');
+                        handleAlertAction(alert.id, 'acknowledge', 'Bulk acknowledgment');
                       });
                     }}
                     className="text-xs"
@@ -151,7 +232,7 @@ export function AlertSystemIntegration({ alerts, onAlertAction }: AlertSystemInt
                       // Resolve all acknowledged alerts
                       const acknowledgedAlerts = alerts.filter(alert => alert.status === 'acknowledged');
                       acknowledgedAlerts.forEach(alert => {
-                        onAlertAction(alert.id, 'resolve', 'Bulk resolution');
+                        handleAlertAction(alert.id, 'resolve', 'Bulk resolution');
                       });
                     }}
                     className="text-xs"
@@ -169,6 +250,7 @@ export function AlertSystemIntegration({ alerts, onAlertAction }: AlertSystemInt
       <AlertDashboard
         alerts={alerts}
         onAlertAction={handleAlertAction}
+        onIncidentAction={(incidentId, action) => incidentActionMutation.mutate({ incidentId, action })}
         onViewAll={handleViewAll}
       />
 
@@ -224,7 +306,7 @@ export function AlertSystemIntegration({ alerts, onAlertAction }: AlertSystemInt
           {selectedAlert && (
             <AlertDetails
               alert={selectedAlert}
-              onAction={(action, notes) => handleAlertAction(selectedAlert.id, action, notes)}
+              onAction={(action, notes, label) => handleAlertAction(selectedAlert.id, action, notes, label)}
               onClose={() => setSelectedAlert(null)}
             />
           )}
@@ -235,7 +317,6 @@ export function AlertSystemIntegration({ alerts, onAlertAction }: AlertSystemInt
       <Dialog open={showHistory} onOpenChange={setShowHistory}>
         <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden">
           <AlertHistory
-            alerts={alerts}
             onExport={handleExport}
             onFilter={handleFilter}
           />
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from 'react';
+import { apiRequest } from '@/lib/queryClient';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+function isSupported(): boolean {
+  return typeof window !== 'undefined'
+    && 'serviceWorker' in navigator
+    && 'PushManager' in window
+    && 'Notification' in window;
+}
+
+function base64UrlToUint8Array(value: string): Uint8Array {
+  const padded = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+}
+
+async function saveSubscription(userId: string, subscription: PushSubscription): Promise<void> {
+  await apiRequest('POST', '/api/v1/push/subscriptions', { userId, subscription: subscription.toJSON() });
+}
+
+/**
+ * Browser push for alert notifications on this device. Registers the
+ * service worker and keeps the server's copy of the subscription current.
+ */
+export function usePushNotifications(userId: string) {
+  const supported = isSupported();
+  const [subscribed, setSubscribed] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!supported) return;
+    let cancelled = false;
+
+    navigator.serviceWorker.register(SERVICE_WORKER_URL)
+      .then(registration => registration.pushManager.getSubscription())
+      .then(async subscription => {
+        if (cancelled) return;
+        setSubscribed(!!subscription);
+        // The browser may have rotated the subscription, or another user signed in
+        if (subscription) await saveSubscription(userId, subscription);
+      })
+      .catch(error => console.error('Service worker registration failed:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [supported, userId]);
+
+  const subscribe = useCallback(async () => {
+    setBusy(true);
+    try {
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        throw new Error('Notification permission was not granted');
+      }
+
+      const res = await apiRequest('GET', '/api/v1/push/vapid-public-key');
+      const { publicKey } = await res.json();
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: base64UrlToUint8Array(publicKey),
+      });
+
+      await saveSubscription(userId, subscription);
+      setSubscribed(true);
+    } finally {
+      setBusy(false);
+    }
+  }, [userId]);
+
+  const unsubscribe = useCallback(async () => {
+    setBusy(true);
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription();
+      if (subscription) {
+        await apiRequest('DELETE', '/api/v1/push/subscriptions', { endpoint: subscription.endpoint });
+        await subscription.unsubscribe();
+      }
+      setSubscribed(false);
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  return { supported, subscribed, busy, subscribe, unsubscribe };
+}
@@ -0,0 +1,181 @@
+import { useEffect, useRef, useState } from 'react';
+import { getCurrentUserId } from '@/lib/current-user';
+
+export type RealtimeTopic = 'alerts' | 'metrics' | 'anomalies';
+
+export interface RealtimeEvent<T = any> {
+  topic: RealtimeTopic;
+  type: string;
+  data: T;
+  timestamp: string;
+}
+
+type EventListener = (event: RealtimeEvent) => void;
+type StatusListener = (connected: boolean) => void;
+
+const PING_INTERVAL_MS = 25000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * One shared socket for the whole app. Hooks register listeners and topics;
+ * the connection reconnects with backoff and re-subscribes on open.
+ */
+class RealtimeConnection {
+  private socket: WebSocket | null = null;
+  private eventListeners = new Set<EventListener>();
+  private statusListeners = new Set<StatusListener>();
+  private topicCounts = new Map<RealtimeTopic, number>();
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  connected = false;
+
+  subscribe(topics: RealtimeTopic[], onEvent: EventListener, onStatus: StatusListener): () => void {
+    this.eventListeners.add(onEvent);
+    this.statusListeners.add(onStatus);
+
+    const added = topics.filter(topic => {
+      const count = this.topicCounts.get(topic) ?? 0;
+      this.topicCounts.set(topic, count + 1);
+      return count === 0;
+    });
+
+    if (!this.socket) {
+      this.connect();
+    } else if (added.length > 0) {
+      this.send({ type: 'subscribe', topics: added });
+    }
+
+    return () => {
+      this.eventListeners.delete(onEvent);
+      this.statusListeners.delete(onStatus);
+
+      const removed = topics.filter(topic => {
+        const count = (this.topicCounts.get(topic) ?? 1) - 1;
+        if (count <= 0) {
+          this.topicCounts.delete(topic);
+          return true;
+        }
+        this.topicCounts.set(topic, count);
+        return false;
+      });
+
+      if (this.eventListeners.size === 0) {
+        this.disconnect();
+      } else if (removed.length > 0) {
+        this.send({ type: 'unsubscribe', topics: removed });
+      }
+    };
+  }
+
+  private connect() {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const userId = getCurrentUserId();
+    const topics = Array.from(this.topicCounts.keys()).join(',');
+    const socket = new WebSocket(
+      `${protocol}//${window.location.host}/ws?userId=${encodeURIComponent(userId)}&topics=${topics}`
+    );
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.setConnected(true);
+      this.pingTimer = setInterval(() => this.send({ type: 'ping' }), PING_INTERVAL_MS);
+    };
+
+    socket.onmessage = (message) => {
+      let event: RealtimeEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+      // Control messages (connected, pong, subscribed) carry no topic
+      if (!event.topic) return;
+      this.eventListeners.forEach(listener => listener(event));
+    };
+
+    socket.onclose = () => {
+      this.clearPing();
+      this.setConnected(false);
+      if (this.socket === socket) {
+        this.socket = null;
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  private scheduleReconnect() {
+    if (this.eventListeners.size === 0 || this.reconnectTimer) return;
+
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.socket && this.eventListeners.size > 0) this.connect();
+    }, delay);
+  }
+
+  private disconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.clearPing();
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.setConnected(false);
+  }
+
+  private clearPing() {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  private setConnected(connected: boolean) {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.statusListeners.forEach(listener => listener(connected));
+  }
+
+  private send(message: Record<string, unknown>) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+const connection = new RealtimeConnection();
+
+/**
+ * Subscribe to pushed events from the /ws endpoint.
+ * Returns whether the socket is currently connected so callers can fall back to polling.
+ */
+export function useRealtime(
+  topics: RealtimeTopic[],
+  onEvent: (event: RealtimeEvent) => void,
+  enabled: boolean = true
+) {
+  const [connected, setConnected] = useState(connection.connected);
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  const topicKey = topics.join(',');
+
+  useEffect(() => {
+    if (!enabled) return;
+    setConnected(connection.connected);
+    return connection.subscribe(
+      topicKey.split(',') as RealtimeTopic[],
+      (event) => {
+        if (topicKey.split(',').includes(event.topic)) handlerRef.current(event);
+      },
+      setConnected
+    );
+  }, [topicKey, enabled]);
+
+  return { connected: enabled && connected };
+}
@@ -0,0 +1,13 @@
+const STORAGE_KEY = 'userId';
+
+/**
+ * The signed-in user's id, sent with every alert action so the server can
+ * attribute acknowledgements, notes and feedback. Set when a role is picked.
+ */
+export function getCurrentUserId(): string {
+  return localStorage.getItem(STORAGE_KEY) || 'anonymous';
+}
+
+export function setCurrentUserId(userId: string): void {
+  localStorage.setItem(STORAGE_KEY, userId);
+}
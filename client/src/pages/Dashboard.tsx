@@ -30,9 +30,11 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Battery, Zap, Home, Sun, Wind, TrendingUp, AlertTriangle, CheckCircle, RefreshCw, Bell, Activity, Settings, RotateCcw } from 'lucide-react';
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, type ComponentProps } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
+import { useRealtime, type RealtimeEvent } from '@/hooks/use-realtime';
+import { getCurrentUserId, setCurrentUserId } from '@/lib/current-user';
 
 interface DashboardData {
   current: any;
@@ -52,6 +54,28 @@ interface DashboardData {
   };
 }
 
+type RealtimeAlert = ComponentProps<typeof RealtimeAlertsComponent>['alerts'][number];
+
+const REALTIME_SEVERITY: Record<string, RealtimeAlert['severity']> = {
+  critical: 'high',
+  warning: 'medium',
+  info: 'low',
+};
+
+// Map a pushed alert (alert system or legacy anomaly alert) to the realtime panel shape
+function toRealtimeAlert(data: any): RealtimeAlert {
+  const severity = REALTIME_SEVERITY[data.severity] ?? 'medium';
+  return {
+    id: data.id,
+    type: data.severity === 'critical' || data.severity === 'warning' || data.severity === 'info' ? data.severity : 'warning',
+    title: data.title,
+    message: data.description,
+    timestamp: new Date(data.timestamp),
+    severity,
+    source: data.source ?? data.type,
+  };
+}
+
 export default function Dashboard() {
   const [currentTime, setCurrentTime] = useState(new Date());
   const [isInitialized, setIsInitialized] = useState(false);
@@ -74,10 +98,30 @@ export default function Dashboard() {
     return () => clearInterval(timer);
   }, []);
 
+  const [realtimeAlerts, setRealtimeAlerts] = useState<RealtimeAlert[]>([]);
+
+  // Pushed events replace polling while the socket is connected
+  const { connected: realtimeConnected } = useRealtime(
+    ['alerts', 'metrics', 'anomalies'],
+    (event: RealtimeEvent) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/summary'] });
+
+      if (event.topic !== 'alerts') return;
+      if (event.type === 'alert') {
+        setRealtimeAlerts(prev => [toRealtimeAlert(event.data), ...prev.filter(alert => alert.id !== event.data.id)].slice(0, 20));
+      } else if (event.type === 'alert_updated' && event.data.status === 'acknowledged') {
+        setRealtimeAlerts(prev => prev.map(alert => alert.id === event.data.id ? { ...alert, acknowledged: true } : alert));
+      } else if (event.type === 'alert_updated' || event.type === 'alert_dismissed') {
+        setRealtimeAlerts(prev => prev.filter(alert => alert.id !== event.data.id));
+      }
+    },
+    isInitialized
+  );
+
   // Fetch dashboard data
   const { data: dashboardData, isLoading, error } = useQuery({
     queryKey: ['/api/dashboard/summary'],
-    refetchInterval: refreshRates.dashboard || false, // Use dynamic refresh rate
+    refetchInterval: realtimeConnected ? false : refreshRates.dashboard || false, // Poll only without a live connection
     enabled: isInitialized,
   });
 
@@ -85,6 +129,7 @@ export default function Dashboard() {
   const handleSystemInitialize = async (role: UserRole, location: MicrogridLocation) => {
     setUserRole(role);
     setMicrogridLocation(location);
+    setCurrentUserId(role);
     
     // Initialize system with user preferences
     const response = await fetch('/api/system/initialize', {
@@ -145,6 +190,8 @@ export default function Dashboard() {
     mutationFn: async (alertId: string) => {
       const response = await fetch(`/api/alerts/${alertId}/dismiss`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: getCurrentUserId() }),
       });
       if (!response.ok) throw new Error('Failed to dismiss alert');
       return response.json();
@@ -532,7 +579,7 @@ export default function Dashboard() {
           
           
           <RealtimeAlertsComponent
-            alerts={[]}
+            alerts={realtimeAlerts}
             title="Real-time System Alerts"
             maxAlerts={5}
             onAlertAction={handleAlertAction}
@@ -698,10 +745,7 @@ export default function Dashboard() {
               <RefreshRateSettings 
                 onRefreshRateChange={setRefreshRates}
               />
-              <AlertSystemIntegration
-                alerts={[]}
-                onAlertAction={handleAlertAction}
-              />
+              <AlertSystemIntegration />
             </div>
           </div>
           
@@ -0,0 +1,113 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type EnergyMetric } from "@shared/schema";
+import { AIAnomalyDetectionService } from "./ai-service";
+import { StatisticalAnomalyDetector } from "./statistical-detector";
+import { FixtureLlmProvider, LlmService, llmConfigFromEnv } from "./llm-provider";
+
+const HOUR = 60 * 60 * 1000;
+
+// Three weeks of hourly readings with a consumption peak at 12:00 UTC
+function middayPeaks(): EnergyMetric[] {
+  const start = Date.UTC(2026, 1, 9);
+  const metrics: EnergyMetric[] = [];
+  for (let i = 0; i <= 21 * 24 + 12; i++) {
+    const timestamp = new Date(start + i * HOUR);
+    metrics.push({
+      id: `m-${i}`,
+      timestamp,
+      consumption: (timestamp.getUTCHours() === 12 ? 200 : 100) + (i % 5),
+      generation: 50,
+      storage: 60,
+      gridExport: 5,
+      solarEfficiency: 85,
+      batteryHealth: 95
+    });
+  }
+  return metrics;
+}
+
+const fixtureService = (provider = new FixtureLlmProvider()) => new AIAnomalyDetectionService(
+  new StatisticalAnomalyDetector(),
+  new LlmService(provider, llmConfigFromEnv({ LLM_PROVIDER: 'fixture' })),
+  'llm'
+);
+
+describe('AIAnomalyDetectionService', () => {
+  it('returns the validated LLM answer for subtle anomalies', async () => {
+    const provider = new FixtureLlmProvider({
+      anomaly_analysis: JSON.stringify({
+        isAnomaly: true,
+        score: 0.72,
+        type: 'consumption',
+        severity: 'medium',
+        description: 'Overnight load is higher than usual',
+        affectedComponent: null
+      })
+    });
+
+    const result = await fixtureService(provider).analyzeEnergyPattern(middayPeaks().slice(0, 24));
+
+    assert.deepEqual(result, {
+      isAnomaly: true,
+      score: 0.72,
+      type: 'consumption',
+      severity: 'medium',
+      description: 'Overnight load is higher than usual',
+      affectedComponent: undefined,
+      detector: 'llm'
+    });
+    assert.equal(provider.requests[0].task, 'anomaly_analysis');
+    assert.equal(provider.requests[0].responseSchema?.name, 'anomaly_analysis');
+  });
+
+  it('falls back to the statistical detector when the answer breaks the schema', async () => {
+    const provider = new FixtureLlmProvider({
+      anomaly_analysis: JSON.stringify({ isAnomaly: 'maybe', score: 1.5 })
+    });
+
+    const result = await fixtureService(provider).analyzeEnergyPattern(middayPeaks().slice(0, 24));
+
+    assert.equal(provider.requests.length, 1);
+    assert.equal(result.detector, 'statistical');
+  });
+
+  it('answers obvious faults without asking the LLM', async () => {
+    const provider = new FixtureLlmProvider();
+    const metrics = middayPeaks().slice(0, 24);
+    metrics[metrics.length - 1] = { ...metrics[metrics.length - 1], storage: 3 };
+
+    const result = await fixtureService(provider).analyzeEnergyPattern(metrics);
+
+    assert.equal(result.detector, 'rules');
+    assert.equal(result.type, 'storage');
+    assert.deepEqual(provider.requests, []);
+  });
+
+  it('writes daily insights with the insights model', async () => {
+    const provider = new FixtureLlmProvider({ daily_insights: 'Shift laundry loads to midday.' });
+
+    const insights = await fixtureService(provider).generateDailyInsights(middayPeaks().slice(0, 24));
+
+    assert.equal(insights, 'Shift laundry loads to midday.');
+    assert.equal(provider.requests[0].task, 'daily_insights');
+  });
+
+  it('keeps the statistical baselines current while the LLM answers', async () => {
+    const metrics = middayPeaks();
+    const service = fixtureService();
+    for (let end = 24; end < metrics.length; end++) {
+      const result = await service.analyzeEnergyPattern(metrics.slice(end - 24, end));
+      assert.equal(result.detector, 'llm');
+    }
+    const untrained = fixtureService();
+
+    service.setMode('statistical');
+    untrained.setMode('statistical');
+    const window = metrics.slice(-24);
+
+    // The usual midday peak only looks anomalous without the learned baseline
+    assert.equal((await service.analyzeEnergyPattern(window)).isAnomaly, false);
+    assert.equal((await untrained.analyzeEnergyPattern(window)).isAnomaly, true);
+  });
+});
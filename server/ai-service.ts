@@ -1,22 +1,74 @@
-import OpenAI from "openai";
 import { type EnergyMetric, type InsertAnomaly } from "@shared/schema";
+import { statisticalAnomalyDetector, type StatisticalAnomalyDetector } from "./statistical-detector";
+import { llmService, type LlmResponseSchema, type LlmService } from "./llm-provider";
+import { z } from "zod";
 
-// Using OpenAI integration for AI-powered anomaly detection
-// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-const openai = process.env.OPENAI_API_KEY
-  ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
-  : null;
-  
-interface AnomalyAnalysisResult {
+// 'llm' uses the configured LLM provider when there is one; 'statistical' never leaves the site
+export type AnomalyDetectorMode = 'llm' | 'statistical';
+
+export interface AnomalyAnalysisResult {
   isAnomaly: boolean;
   score: number; // 0-1 confidence score
   type?: string;
   severity?: 'low' | 'medium' | 'high' | 'critical';
   description?: string;
   affectedComponent?: string;
+  detector?: 'rules' | 'llm' | 'statistical';
+}
+
+const ANOMALY_TYPES = ['consumption', 'generation', 'storage', 'device_fault'] as const;
+const ANOMALY_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+// The model's answer; every field is required (nullable where optional) for strict structured output
+const ANOMALY_RESPONSE_SCHEMA: LlmResponseSchema = {
+  name: 'anomaly_analysis',
+  schema: {
+    type: 'object',
+    properties: {
+      isAnomaly: { type: 'boolean' },
+      score: { type: 'number', minimum: 0, maximum: 1 },
+      type: { type: ['string', 'null'], enum: [...ANOMALY_TYPES, null] },
+      severity: { type: ['string', 'null'], enum: [...ANOMALY_SEVERITIES, null] },
+      description: { type: ['string', 'null'] },
+      affectedComponent: { type: ['string', 'null'] },
+    },
+    required: ['isAnomaly', 'score', 'type', 'severity', 'description', 'affectedComponent'],
+    additionalProperties: false,
+  },
+};
+
+// Mirrors ANOMALY_RESPONSE_SCHEMA; local models may leave out the null fields
+const anomalyResponseSchema = z.object({
+  isAnomaly: z.boolean(),
+  score: z.number().min(0).max(1),
+  type: z.enum(ANOMALY_TYPES).nullish(),
+  severity: z.enum(ANOMALY_SEVERITIES).nullish(),
+  description: z.string().nullish(),
+  affectedComponent: z.string().nullish(),
+}).strict();
+
+function parseAnomalyResponse(value: unknown): z.infer<typeof anomalyResponseSchema> {
+  const result = anomalyResponseSchema.safeParse(value);
+  if (!result.success) {
+    throw new Error(result.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`).join('; '));
+  }
+  return result.data;
+}
+
+/**
+ * Anything that can judge whether the latest of a series of readings is anomalous
+ */
+export interface AnomalyAnalyzer {
+  analyzeEnergyPattern(metrics: EnergyMetric[]): Promise<AnomalyAnalysisResult>;
 }
 
-export class AIAnomalyDetectionService {
+export class AIAnomalyDetectionService implements AnomalyAnalyzer {
+  constructor(
+    private statistical: StatisticalAnomalyDetector,
+    private llm: LlmService,
+    private mode: AnomalyDetectorMode = 'llm'
+  ) {}
+
   private readonly normalRanges = {
     consumption: { min: 80, max: 250 }, // kW
     generation: { min: 0, max: 120 }, // kW  
@@ -33,21 +85,63 @@ export class AIAnomalyDetectionService {
     const latest = metrics[metrics.length - 1];
     const historical = metrics.slice(-24); // Last 24 readings
 
+    // The local detector learns from every cycle, whichever detector answers,
+    // so its baselines are current when it is the fallback
+    this.statistical.warmUp(metrics.slice(0, -1));
+
     // Quick rule-based check for obvious anomalies
     const ruleBasedAnomaly = this.detectRuleBasedAnomalies(latest);
     if (ruleBasedAnomaly.isAnomaly) {
-      return ruleBasedAnomaly;
+      return { ...ruleBasedAnomaly, detector: 'rules' };
+    }
+
+    // Subtle anomalies: the LLM where available, the local detector otherwise
+    if (this.getDetector() === 'statistical') {
+      return this.statistical.analyze(metrics);
     }
 
-    // AI-powered pattern analysis for subtle anomalies
     try {
-      return await this.performAIAnalysis(latest, historical);
+      return { ...await this.performAIAnalysis(latest, historical), detector: 'llm' };
     } catch (error) {
-      console.error('AI analysis failed, falling back to rule-based:', error);
-      return { isAnomaly: false, score: 0 };
+      console.error('AI analysis failed, falling back to statistical detection:', error);
+      return this.statistical.analyze(metrics);
     }
   }
 
+  /**
+   * Which detector handles subtle anomalies
+   */
+  getDetector(): 'llm' | 'statistical' {
+    return this.mode === 'statistical' || !this.llm.isConfigured() ? 'statistical' : 'llm';
+  }
+
+  getMode(): AnomalyDetectorMode {
+    return this.mode;
+  }
+
+  setMode(mode: AnomalyDetectorMode): void {
+    this.mode = mode;
+  }
+
+  /**
+   * Time zone the statistical detector reads seasonal hours in; changing it
+   * drops the learned baselines, so warm up again afterwards
+   */
+  setTimeZone(timeZone: string): void {
+    this.statistical.setTimeZone(timeZone);
+  }
+
+  getTimeZone(): string {
+    return this.statistical.getTimeZone();
+  }
+
+  /**
+   * Seed the statistical detector's seasonal baselines from stored history
+   */
+  warmUp(metrics: EnergyMetric[]): void {
+    this.statistical.warmUp(metrics);
+  }
+
   private detectRuleBasedAnomalies(metric: EnergyMetric): AnomalyAnalysisResult {
     // Critical threshold violations
     if (metric.consumption > 300) {
@@ -100,30 +194,24 @@ export class AIAnomalyDetectionService {
   private async performAIAnalysis(current: EnergyMetric, historical: EnergyMetric[]): Promise<AnomalyAnalysisResult> {
     const prompt = this.buildAnalysisPrompt(current, historical);
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-5",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert energy systems analyst specializing in microgrid anomaly detection. Analyze energy patterns and detect unusual behavior that could indicate equipment issues, unauthorized usage, or system inefficiencies. Respond with JSON only."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    const result = await this.llm.completeJson('anomaly_analysis', [
+      {
+        role: "system",
+        content: "You are an expert energy systems analyst specializing in microgrid anomaly detection. Analyze energy patterns and detect unusual behavior that could indicate equipment issues, unauthorized usage, or system inefficiencies. Respond with JSON only."
+      },
+      {
+        role: "user",
+        content: prompt
+      }
+    ], ANOMALY_RESPONSE_SCHEMA, parseAnomalyResponse);
     
     return {
-      isAnomaly: result.isAnomaly || false,
-      score: Math.min(1, Math.max(0, result.score || 0)),
-      type: result.type,
-      severity: result.severity,
-      description: result.description,
-      affectedComponent: result.affectedComponent
+      isAnomaly: result.isAnomaly,
+      score: result.score,
+      type: result.type ?? undefined,
+      severity: result.severity ?? undefined,
+      description: result.description ?? undefined,
+      affectedComponent: result.affectedComponent ?? undefined
     };
   }
 
@@ -228,28 +316,34 @@ Provide insights on:
 4. Recommendations for improvement
 
 Keep response concise and actionable (max 200 words).`;
+    const summary = `Daily Summary: ${totalConsumption.toFixed(1)} kWh consumed, ${totalGeneration.toFixed(1)} kWh generated. Net energy: ${(totalGeneration - totalConsumption).toFixed(1)} kWh. System operating within normal parameters.`;
+
+    if (!this.llm.isConfigured()) {
+      return summary;
+    }
 
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-5",
-        messages: [
-          {
-            role: "system",
-            content: "You are an energy efficiency consultant. Provide clear, actionable insights for microgrid operators."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-      });
-
-      return response.choices[0].message.content || "Unable to generate insights at this time.";
+      const response = await this.llm.complete('daily_insights', [
+        {
+          role: "system",
+          content: "You are an energy efficiency consultant. Provide clear, actionable insights for microgrid operators."
+        },
+        {
+          role: "user",
+          content: prompt
+        }
+      ]);
+
+      return response.content || "Unable to generate insights at this time.";
     } catch (error) {
       console.error('Failed to generate AI insights:', error);
-      return `Daily Summary: ${totalConsumption.toFixed(1)} kWh consumed, ${totalGeneration.toFixed(1)} kWh generated. Net energy: ${(totalGeneration - totalConsumption).toFixed(1)} kWh. System operating within normal parameters.`;
+      return summary;
     }
   }
 }
 
-export const aiAnomalyService = new AIAnomalyDetectionService();
\ No newline at end of file
+export const aiAnomalyService = new AIAnomalyDetectionService(
+  statisticalAnomalyDetector,
+  llmService,
+  process.env.ANOMALY_DETECTOR === 'statistical' ? 'statistical' : 'llm'
+);
\ No newline at end of file
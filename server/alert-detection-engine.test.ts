@@ -0,0 +1,91 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { type EnergyMetric } from "@shared/schema";
+import { type AnomalyAnalysisResult, type AnomalyAnalyzer } from "./ai-service";
+import { AlertDetectionEngine, type AlertRule } from "./alert-detection-engine";
+
+const RULE: AlertRule = {
+  id: 'consumption-spike',
+  name: 'Consumption Spike Detection',
+  type: 'threshold',
+  severity: 'critical',
+  conditions: [{ metric: 'consumption', operator: '>', value: 250 }],
+  actions: [{ type: 'create_alert', config: {} }],
+  enabled: true
+};
+
+// Reports the same consumption spike the rule does
+class SpikeAnalyzer implements AnomalyAnalyzer {
+  async analyzeEnergyPattern(): Promise<AnomalyAnalysisResult> {
+    return { isAnomaly: true, score: 0.9, type: 'consumption', severity: 'critical', affectedComponent: 'grid_load', detector: 'llm' };
+  }
+}
+
+function metric(minute: number, consumption: number): EnergyMetric {
+  return {
+    id: `m-${minute}`,
+    timestamp: new Date(Date.UTC(2026, 0, 1, 12, minute)),
+    consumption,
+    generation: 100,
+    storage: 60,
+    gridExport: 0,
+    solarEfficiency: 85,
+    batteryHealth: 95
+  };
+}
+
+const ruleState = (engine: AlertDetectionEngine) =>
+  engine.getRuleStates().find(state => state.ruleId === RULE.id);
+
+describe('AlertDetectionEngine rule states', () => {
+  let engine: AlertDetectionEngine;
+
+  beforeEach(() => {
+    engine = new AlertDetectionEngine(new SpikeAnalyzer());
+    engine.setRules([RULE]);
+  });
+
+  it('raises the rule alert over a duplicate AI alert and binds it', async () => {
+    const { alerts } = await engine.evaluate([metric(0, 280)]);
+
+    assert.ok(alerts.some(alert => alert.metadata?.ruleId === RULE.id));
+    engine.bindAlert(RULE.id, 'alert-1');
+    assert.equal(ruleState(engine)?.status, 'firing');
+    assert.equal(ruleState(engine)?.alertId, 'alert-1');
+  });
+
+  it('keeps a rule pending while its alert is suppressed', async () => {
+    engine.setTuning({ aiConfidenceCutoffs: {}, suppressionMinutes: { [`rule:${RULE.id}`]: 30 } });
+    await engine.evaluate([metric(0, 280)]);
+    await engine.evaluate([metric(1, 200)]);
+
+    const { alerts } = await engine.evaluate([metric(2, 280)]);
+
+    assert.ok(!alerts.some(alert => alert.metadata?.ruleId === RULE.id));
+    assert.equal(ruleState(engine)?.status, 'pending');
+
+    const later = await engine.evaluate([metric(45, 280)]);
+    assert.ok(later.alerts.some(alert => alert.metadata?.ruleId === RULE.id));
+    assert.equal(ruleState(engine)?.status, 'firing');
+  });
+
+  it('leaves the live rule states alone when a fork runs', async () => {
+    await engine.evaluate([metric(0, 280)]);
+    engine.bindAlert(RULE.id, 'alert-1');
+
+    const { recoveries } = await engine.fork().evaluate([metric(1, 200)]);
+
+    assert.deepEqual(recoveries, []);
+    assert.equal(ruleState(engine)?.status, 'firing');
+    assert.equal(ruleState(engine)?.alertId, 'alert-1');
+  });
+
+  it('resolves the restored alert when the rule recovers after a restart', async () => {
+    engine.restoreFiring(RULE.id, 'alert-1', new Date(Date.UTC(2026, 0, 1, 11)));
+    engine.restoreFiring('deleted-rule', 'alert-2', new Date(Date.UTC(2026, 0, 1, 11)));
+
+    const { recoveries } = await engine.evaluate([metric(0, 200)]);
+
+    assert.deepEqual(recoveries.map(recovery => recovery.alertId), ['alert-1']);
+  });
+});
@@ -1,7 +1,8 @@
 import { type EnergyMetric } from "@shared/schema";
 import { type SensorData } from "@shared/alert-schema";
-import { type AlertDetectionResult, type AlertSeverity, type AlertType } from "@shared/alert-schema";
-import { aiAnomalyService } from "./ai-service";
+import { type AlertDetectionResult, type AlertSeverity, type AlertType, type InsertAlertSystem } from "@shared/alert-schema";
+import { aiAnomalyService, type AnomalyAnalyzer } from "./ai-service";
+import { compileExpression, ExpressionContext, type CompiledExpression } from "./rule-expressions";
 
 export interface AlertRule {
   id: string;
@@ -13,32 +14,158 @@ export interface AlertRule {
   enabled: boolean;
 }
 
-export interface RuleCondition {
+export type RuleCondition = MetricCondition | ExpressionCondition;
+
+export interface MetricCondition {
   metric: string;
-  operator: '>' | '<' | '>=' | '<=' | '==' | '!=' | 'contains' | 'pattern';
-  value: number | string;
-  duration?: number; // seconds
+  operator: '>' | '<' | '>=' | '<=' | '==' | '!=';
+  value: number;
+  duration?: number; // seconds the condition must hold continuously before the rule fires
+  clearValue?: number; // once firing, the rule only clears when the metric crosses back over this (hysteresis)
   confidence?: number; // for AI conditions
 }
 
+// Condition written in the rule expression language, see rule-expressions
+export interface ExpressionCondition {
+  expression: string;
+  clearExpression?: string; // once firing, the rule only clears when this holds (hysteresis)
+  duration?: number;
+}
+
+// send_notification takes no channels: on-call recipients are reached on the
+// channels their notification preferences pick for the alert
 export interface RuleAction {
   type: 'create_alert' | 'send_notification' | 'escalate' | 'log';
   config: Record<string, any>;
 }
 
+// Metrics a rule condition can test, read from the latest energy metric
+export const RULE_METRICS = ['consumption', 'generation', 'storage', 'solarEfficiency', 'batteryHealth'] as const;
+
+// Rules the rule store is seeded with on first start
+export const DEFAULT_DETECTION_RULES: AlertRule[] = [
+  {
+    id: 'consumption-spike',
+    name: 'Consumption Spike Detection',
+    type: 'threshold',
+    severity: 'critical',
+    conditions: [
+      { metric: 'consumption', operator: '>', value: 250 }
+    ],
+    actions: [
+      { type: 'create_alert', config: {} },
+      { type: 'send_notification', config: {} }
+    ],
+    enabled: true
+  },
+  {
+    id: 'battery-critical',
+    name: 'Battery Critical Level',
+    type: 'threshold',
+    severity: 'critical',
+    conditions: [
+      { metric: 'storage', operator: '<', value: 15 }
+    ],
+    actions: [
+      { type: 'create_alert', config: {} },
+      { type: 'escalate', config: { delay: 5 } }
+    ],
+    enabled: true
+  },
+  {
+    id: 'solar-degradation',
+    name: 'Solar Panel Degradation',
+    type: 'threshold',
+    severity: 'warning',
+    conditions: [
+      { metric: 'solarEfficiency', operator: '<', value: 70 }
+    ],
+    actions: [
+      { type: 'create_alert', config: {} }
+    ],
+    enabled: true
+  }
+];
+
+/**
+ * Per-rule state kept between detection cycles. A rule is pending while its
+ * conditions hold but not yet for their duration, and firing until they recover.
+ */
+export interface RuleState {
+  status: 'ok' | 'pending' | 'firing';
+  since: Date | null; // pending: when the conditions started to hold; firing: when the rule fired
+  alertId?: string; // alert raised for the current firing, see bindAlert
+  lastEvaluatedAt: Date;
+}
+
+export interface RuleRecovery {
+  ruleId: string;
+  ruleName: string;
+  alertId?: string;
+  autoResolve: boolean;
+  values: Record<string, number>;
+  recoveredAt: Date;
+}
+
+export interface DetectionCycleResult {
+  alerts: AlertDetectionResult[];
+  recoveries: RuleRecovery[];
+}
+
+/**
+ * Adjustments learned from operator feedback, see detection-tuning
+ */
+export interface DetectionTuning {
+  aiConfidenceCutoffs: Record<string, number>; // component -> minimum AI score that alerts
+  suppressionMinutes: Record<string, number>; // detection target -> minutes repeats are held back
+}
+
+/**
+ * What an alert is attributed to for tuning: the rule that raised it, or
+ * else the affected component
+ */
+export function detectionTarget(ruleId?: string | null, component?: string | null): string {
+  return ruleId ? `rule:${ruleId}` : `component:${component ?? 'system'}`;
+}
+
+/**
+ * Alert severity for an AI anomaly severity (low, medium, high, critical)
+ */
+export function anomalySeverityToAlertSeverity(aiSeverity: string): AlertSeverity {
+  switch (aiSeverity) {
+    case 'critical': return 'critical';
+    case 'high': return 'critical';
+    case 'medium': return 'warning';
+    case 'low': return 'info';
+    default: return 'warning';
+  }
+}
+
 export class AlertDetectionEngine {
   private rules: AlertRule[] = [];
-  private aiService: typeof aiAnomalyService;
+  private ruleStates: Map<string, RuleState> = new Map();
+  private expressions: Map<string, CompiledExpression> = new Map();
+  private tuning: DetectionTuning = { aiConfidenceCutoffs: {}, suppressionMinutes: {} };
+  private lastRaisedAt: Map<string, Date> = new Map();
+  private aiService: AnomalyAnalyzer;
   
-  constructor(aiService: typeof aiAnomalyService) {
+  constructor(aiService: AnomalyAnalyzer) {
     this.aiService = aiService;
-    this.initializeDefaultRules();
+    this.rules = DEFAULT_DETECTION_RULES;
   }
   
   /**
    * Main detection method - processes energy metrics and sensor data
    */
   async detectAnomalies(energyMetrics: EnergyMetric[], sensorData: SensorData[] = []): Promise<AlertDetectionResult[]> {
+    return (await this.evaluate(energyMetrics, sensorData)).alerts;
+  }
+  
+  /**
+   * One detection cycle: new alerts, plus the rules whose conditions recovered
+   * since the previous cycle. Rules only alert when they start firing.
+   */
+  async evaluate(energyMetrics: EnergyMetric[], sensorData: SensorData[] = []): Promise<DetectionCycleResult> {
     const alerts: AlertDetectionResult[] = [];
     
     // 1. AI-powered anomaly detection
@@ -46,7 +173,7 @@ export class AlertDetectionEngine {
     alerts.push(...aiAlerts);
     
     // 2. Rule-based detection
-    const ruleAlerts = await this.performRuleDetection(energyMetrics, sensorData);
+    const { alerts: ruleAlerts, recoveries, firing } = await this.performRuleDetection(energyMetrics, sensorData);
     alerts.push(...ruleAlerts);
     
     // 3. Threshold monitoring
@@ -57,7 +184,112 @@ export class AlertDetectionEngine {
     const patternAlerts = await this.performPatternAnalysis(energyMetrics);
     alerts.push(...patternAlerts);
     
-    return this.deduplicateAndPrioritizeAlerts(alerts);
+    const now = energyMetrics[energyMetrics.length - 1]?.timestamp ?? new Date();
+    const raised = this.suppressRepeats(this.deduplicateAndPrioritizeAlerts(alerts), now);
+    
+    // A rule only counts as firing once its alert is actually raised; a
+    // suppressed one stays where it was and fires when the window has passed
+    for (const alert of raised) {
+      const ruleId = alert.metadata?.ruleId;
+      const next = ruleId ? firing.get(ruleId) : undefined;
+      if (next) this.ruleStates.set(ruleId, next);
+    }
+    
+    return { alerts: raised, recoveries };
+  }
+  
+  /**
+   * A copy with the same rules, tuning and AI service but none of the state
+   * built up by previous cycles, for test runs that must not affect this one
+   */
+  fork(): AlertDetectionEngine {
+    const engine = new AlertDetectionEngine(this.aiService);
+    engine.setRules(this.rules);
+    engine.setTuning(this.tuning);
+    return engine;
+  }
+  
+  /**
+   * Currently loaded detection rules
+   */
+  getRules(): AlertRule[] {
+    return this.rules;
+  }
+  
+  /**
+   * Replace the loaded rules; takes effect from the next detection run
+   */
+  setRules(rules: AlertRule[]): void {
+    this.rules = rules;
+    this.expressions.clear();
+    
+    // Removed or disabled rules start over when they come back
+    const active = new Set(rules.filter(rule => rule.enabled).map(rule => rule.id));
+    for (const ruleId of Array.from(this.ruleStates.keys())) {
+      if (!active.has(ruleId)) this.ruleStates.delete(ruleId);
+    }
+  }
+  
+  /**
+   * Apply tuning learned from feedback; takes effect from the next detection run
+   */
+  setTuning(tuning: DetectionTuning): void {
+    this.tuning = tuning;
+  }
+  
+  getTuning(): DetectionTuning {
+    return this.tuning;
+  }
+  
+  /**
+   * State of every rule evaluated so far
+   */
+  getRuleStates(): Array<RuleState & { ruleId: string }> {
+    return Array.from(this.ruleStates.entries()).map(([ruleId, state]) => ({ ruleId, ...state }));
+  }
+  
+  /**
+   * Remember the alert raised for a firing rule so it can be resolved on recovery
+   */
+  bindAlert(ruleId: string, alertId: string): void {
+    const state = this.ruleStates.get(ruleId);
+    if (state?.status === 'firing') state.alertId = alertId;
+  }
+  
+  /**
+   * Pick up a rule that was firing before a restart, from the open alert it raised
+   */
+  restoreFiring(ruleId: string, alertId: string, since: Date): void {
+    if (!this.rules.some(rule => rule.id === ruleId && rule.enabled)) return;
+    this.ruleStates.set(ruleId, { status: 'firing', since, alertId, lastEvaluatedAt: since });
+  }
+  
+  /**
+   * Alert type produced by a detection rule
+   */
+  getRuleAlertType(rule: AlertRule): AlertType {
+    return this.inferTypeFromRule(rule);
+  }
+  
+  /**
+   * Convert a detection result into an alert record ready for the alert store
+   */
+  toAlertRecord(result: AlertDetectionResult, location?: string): InsertAlertSystem {
+    const detectionMethod = result.metadata?.detectionMethod;
+    
+    return {
+      title: result.metadata?.ruleName || `${this.formatAlertType(result.type)} ${result.severity === 'critical' ? 'Critical Alert' : 'Alert'}`,
+      description: result.description,
+      type: result.type,
+      severity: result.severity,
+      source: detectionMethod === 'ai_analysis' ? 'ai_detection' : 'system',
+      deviceId: result.affectedComponent ?? null,
+      location: location ?? null,
+      metadata: {
+        ...result.metadata,
+        confidence: result.confidence
+      }
+    };
   }
   
   /**
@@ -66,11 +298,12 @@ export class AlertDetectionEngine {
   private async performAIDetection(metrics: EnergyMetric[]): Promise<AlertDetectionResult[]> {
     try {
       const aiResult = await this.aiService.analyzeEnergyPattern(metrics);
+      const cutoff = this.tuning.aiConfidenceCutoffs[aiResult.affectedComponent ?? 'system'] ?? 0;
       
-      if (aiResult.isAnomaly) {
+      if (aiResult.isAnomaly && aiResult.score >= cutoff) {
         return [{
           isAlert: true,
-          severity: this.mapAISeverityToAlertSeverity(aiResult.severity || 'medium'),
+          severity: anomalySeverityToAlertSeverity(aiResult.severity || 'medium'),
           type: this.mapAITypeToAlertType(aiResult.type || 'unknown'),
           confidence: aiResult.score,
           description: aiResult.description || 'AI detected anomaly',
@@ -78,6 +311,7 @@ export class AlertDetectionEngine {
           metadata: {
             aiConfidence: aiResult.score,
             aiType: aiResult.type,
+            detector: aiResult.detector,
             detectionMethod: 'ai_analysis'
           }
         }];
@@ -92,22 +326,50 @@ export class AlertDetectionEngine {
   /**
    * Rule-based detection using configured rules
    */
-  private async performRuleDetection(energyMetrics: EnergyMetric[], sensorData: SensorData[]): Promise<AlertDetectionResult[]> {
+  private async performRuleDetection(
+    energyMetrics: EnergyMetric[],
+    sensorData: SensorData[]
+  ): Promise<DetectionCycleResult & { firing: Map<string, RuleState> }> {
     const alerts: AlertDetectionResult[] = [];
+    const recoveries: RuleRecovery[] = [];
+    const firing = new Map<string, RuleState>(); // committed by evaluate() once the alert is raised
+    const latest = energyMetrics[energyMetrics.length - 1];
+    if (!latest) return { alerts, recoveries, firing };
     
+    const context = new ExpressionContext(energyMetrics, sensorData);
     for (const rule of this.rules) {
       if (!rule.enabled) continue;
       
       try {
-        if (await this.evaluateRule(rule, energyMetrics, sensorData)) {
-          alerts.push(this.createAlertFromRule(rule, energyMetrics, sensorData));
+        const state = this.ruleStates.get(rule.id) ?? { status: 'ok', since: null, lastEvaluatedAt: latest.timestamp };
+        const next = this.evaluateRule(rule, state, energyMetrics, context);
+        
+        if (state.status !== 'firing' && next.status === 'firing') {
+          // Still pending until evaluate() sees the alert raised
+          const heldSince = state.since ?? latest.timestamp;
+          this.ruleStates.set(rule.id, { status: 'pending', since: heldSince, lastEvaluatedAt: latest.timestamp });
+          firing.set(rule.id, next);
+          alerts.push(this.createAlertFromRule(rule, energyMetrics, sensorData, heldSince));
+        } else {
+          this.ruleStates.set(rule.id, next);
+        }
+        
+        if (state.status === 'firing' && next.status === 'ok') {
+          recoveries.push({
+            ruleId: rule.id,
+            ruleName: rule.name,
+            alertId: state.alertId,
+            autoResolve: rule.actions.find(action => action.type === 'create_alert')?.config.autoResolve !== false,
+            values: this.conditionValues(rule, latest),
+            recoveredAt: latest.timestamp
+          });
         }
       } catch (error) {
         console.error(`Rule evaluation failed for ${rule.name}:`, error);
       }
     }
     
-    return alerts;
+    return { alerts, recoveries, firing };
   }
   
   /**
@@ -236,80 +498,152 @@ export class AlertDetectionEngine {
   }
   
   /**
-   * Evaluate a specific rule against data
+   * Advance a rule's state with the latest metrics. A rule fires once every
+   * condition has held for its duration, and clears only when a condition
+   * is no longer met at its clear threshold.
    */
-  private async evaluateRule(rule: AlertRule, energyMetrics: EnergyMetric[], sensorData: SensorData[]): Promise<boolean> {
+  private evaluateRule(rule: AlertRule, state: RuleState, energyMetrics: EnergyMetric[], context: ExpressionContext): RuleState {
+    const latest = energyMetrics[energyMetrics.length - 1];
+    
+    if (state.status === 'firing') {
+      const stillFiring = rule.conditions.every(condition =>
+        this.conditionHolds(condition, energyMetrics.length - 1, energyMetrics, context, true)
+      );
+      return stillFiring
+        ? { ...state, lastEvaluatedAt: latest.timestamp }
+        : { status: 'ok', since: null, lastEvaluatedAt: latest.timestamp };
+    }
+    
+    // When each condition started holding without interruption
+    const heldSince: Date[] = [];
     for (const condition of rule.conditions) {
-      if (!await this.evaluateCondition(condition, energyMetrics, sensorData)) {
-        return false;
-      }
+      const since = this.conditionHeldSince(condition, energyMetrics, context);
+      if (!since) return { status: 'ok', since: null, lastEvaluatedAt: latest.timestamp };
+      heldSince.push(since);
+    }
+    
+    let since = new Date(Math.max(...heldSince.map(date => date.getTime())));
+    // A run reaching back to the start of the window may have begun before it;
+    // an earlier cycle will have seen when
+    const windowStart = energyMetrics[0].timestamp.getTime();
+    if (state.status === 'pending' && state.since && state.since < since && since.getTime() === windowStart) {
+      since = state.since;
     }
-    return true;
+    
+    const heldFor = (latest.timestamp.getTime() - since.getTime()) / 1000;
+    const satisfied = rule.conditions.every(condition => heldFor >= (condition.duration ?? 0));
+    return satisfied
+      ? { status: 'firing', since: latest.timestamp, lastEvaluatedAt: latest.timestamp }
+      : { status: 'pending', since, lastEvaluatedAt: latest.timestamp };
   }
   
   /**
-   * Evaluate a single condition
+   * Timestamp of the first reading in the unbroken run of readings, ending
+   * with the latest one, that meet the condition (null if the latest doesn't)
    */
-  private async evaluateCondition(condition: RuleCondition, energyMetrics: EnergyMetric[], sensorData: SensorData[]): Promise<boolean> {
-    const latest = energyMetrics[energyMetrics.length - 1];
-    if (!latest) return false;
-    
-    let value: number;
-    switch (condition.metric) {
-      case 'consumption':
-        value = latest.consumption;
-        break;
-      case 'generation':
-        value = latest.generation;
-        break;
-      case 'storage':
-        value = latest.storage;
-        break;
-      case 'solarEfficiency':
-        value = latest.solarEfficiency;
-        break;
-      case 'batteryHealth':
-        value = latest.batteryHealth;
-        break;
-      default:
-        return false;
+  private conditionHeldSince(condition: RuleCondition, energyMetrics: EnergyMetric[], context: ExpressionContext): Date | null {
+    let since: Date | null = null;
+    for (let i = energyMetrics.length - 1; i >= 0; i--) {
+      if (!this.conditionHolds(condition, i, energyMetrics, context, false)) break;
+      since = energyMetrics[i].timestamp;
+    }
+    return since;
+  }
+  
+  /**
+   * Whether a condition holds at the i-th reading. While `firing`, metric
+   * conditions use their clear threshold and expression conditions hold
+   * until their clear expression does.
+   */
+  private conditionHolds(condition: RuleCondition, i: number, energyMetrics: EnergyMetric[], context: ExpressionContext, firing: boolean): boolean {
+    if ('expression' in condition) {
+      const at = energyMetrics[i].timestamp;
+      if (firing && condition.clearExpression) {
+        return !context.test(this.compiled(condition.clearExpression), at);
+      }
+      return context.test(this.compiled(condition.expression), at);
     }
     
+    const threshold = firing ? condition.clearValue ?? condition.value : condition.value;
+    return this.evaluateCondition(condition, energyMetrics[i], threshold);
+  }
+  
+  private compiled(expression: string): CompiledExpression {
+    let compiled = this.expressions.get(expression);
+    if (!compiled) {
+      compiled = compileExpression(expression, 'boolean');
+      this.expressions.set(expression, compiled);
+    }
+    return compiled;
+  }
+  
+  /**
+   * Evaluate a single condition against one reading
+   */
+  private evaluateCondition(condition: MetricCondition, metric: EnergyMetric, threshold: number): boolean {
+    const value = this.metricValue(metric, condition.metric);
+    if (value === undefined) return false;
+    
     switch (condition.operator) {
       case '>':
-        return value > (condition.value as number);
+        return value > threshold;
       case '<':
-        return value < (condition.value as number);
+        return value < threshold;
       case '>=':
-        return value >= (condition.value as number);
+        return value >= threshold;
       case '<=':
-        return value <= (condition.value as number);
+        return value <= threshold;
       case '==':
-        return value === (condition.value as number);
+        return value === threshold;
       case '!=':
-        return value !== (condition.value as number);
+        return value !== threshold;
       default:
         return false;
     }
   }
   
+  private metricValue(metric: EnergyMetric, name: string): number | undefined {
+    switch (name) {
+      case 'consumption': return metric.consumption;
+      case 'generation': return metric.generation;
+      case 'storage': return metric.storage;
+      case 'solarEfficiency': return metric.solarEfficiency;
+      case 'batteryHealth': return metric.batteryHealth;
+      default: return undefined;
+    }
+  }
+  
+  private conditionValues(rule: AlertRule, metric: EnergyMetric): Record<string, number> {
+    const values: Record<string, number> = {};
+    for (const condition of rule.conditions) {
+      if ('expression' in condition) continue;
+      const value = this.metricValue(metric, condition.metric);
+      if (value !== undefined) values[condition.metric] = value;
+    }
+    return values;
+  }
+  
   /**
    * Create alert from rule evaluation
    */
-  private createAlertFromRule(rule: AlertRule, energyMetrics: EnergyMetric[], sensorData: SensorData[]): AlertDetectionResult {
+  private createAlertFromRule(rule: AlertRule, energyMetrics: EnergyMetric[], sensorData: SensorData[], heldSince: Date): AlertDetectionResult {
     const latest = energyMetrics[energyMetrics.length - 1];
+    const heldForSeconds = Math.round((latest.timestamp.getTime() - heldSince.getTime()) / 1000);
     
     return {
       isAlert: true,
       severity: rule.severity,
       type: this.inferTypeFromRule(rule),
       confidence: 0.9, // Rule-based alerts have high confidence
-      description: `Rule triggered: ${rule.name}`,
+      description: heldForSeconds > 0
+        ? `Rule triggered: ${rule.name} (condition held for ${Math.round(heldForSeconds / 60)} min)`
+        : `Rule triggered: ${rule.name}`,
       affectedComponent: this.inferComponentFromRule(rule),
       metadata: {
         ruleId: rule.id,
         ruleName: rule.name,
         currentValues: latest,
+        heldSince: heldSince.toISOString(),
         detectionMethod: 'rule_based'
       }
     };
@@ -333,17 +667,22 @@ export class AlertDetectionEngine {
   }
   
   /**
-   * Deduplicate and prioritize alerts
+   * Deduplicate and prioritize alerts. Rule alerts are always kept, since
+   * their rule has just started firing; other detections are dropped when
+   * they repeat one already seen.
    */
   private deduplicateAndPrioritizeAlerts(alerts: AlertDetectionResult[]): AlertDetectionResult[] {
-    // Remove duplicates based on type and severity
-    const seen = new Set<string>();
-    const unique = alerts.filter(alert => {
-      const key = `${alert.type}-${alert.severity}-${alert.affectedComponent}`;
+    // Duplicates have the same type, severity and component
+    const keyOf = (alert: AlertDetectionResult) => `${alert.type}-${alert.severity}-${alert.affectedComponent}`;
+    const ruleAlerts = alerts.filter(alert => alert.metadata?.ruleId);
+    const seen = new Set(ruleAlerts.map(keyOf));
+    const unique = [...ruleAlerts, ...alerts.filter(alert => {
+      if (alert.metadata?.ruleId) return false;
+      const key = keyOf(alert);
       if (seen.has(key)) return false;
       seen.add(key);
       return true;
-    });
+    })];
     
     // Sort by severity (critical > warning > info)
     const severityOrder = { critical: 3, warning: 2, info: 1 };
@@ -353,65 +692,21 @@ export class AlertDetectionEngine {
   }
   
   /**
-   * Initialize default detection rules
+   * Drop alerts whose target already alerted within its suppression window
    */
-  private initializeDefaultRules(): void {
-    this.rules = [
-      {
-        id: 'consumption-spike',
-        name: 'Consumption Spike Detection',
-        type: 'threshold',
-        severity: 'critical',
-        conditions: [
-          { metric: 'consumption', operator: '>', value: 250 }
-        ],
-        actions: [
-          { type: 'create_alert', config: {} },
-          { type: 'send_notification', config: { channels: ['email', 'sms'] } }
-        ],
-        enabled: true
-      },
-      {
-        id: 'battery-critical',
-        name: 'Battery Critical Level',
-        type: 'threshold',
-        severity: 'critical',
-        conditions: [
-          { metric: 'storage', operator: '<', value: 15 }
-        ],
-        actions: [
-          { type: 'create_alert', config: {} },
-          { type: 'escalate', config: { delay: 5 } }
-        ],
-        enabled: true
-      },
-      {
-        id: 'solar-degradation',
-        name: 'Solar Panel Degradation',
-        type: 'threshold',
-        severity: 'warning',
-        conditions: [
-          { metric: 'solarEfficiency', operator: '<', value: 70 }
-        ],
-        actions: [
-          { type: 'create_alert', config: {} }
-        ],
-        enabled: true
-      }
-    ];
+  private suppressRepeats(alerts: AlertDetectionResult[], now: Date): AlertDetectionResult[] {
+    return alerts.filter(alert => {
+      const target = detectionTarget(alert.metadata?.ruleId, alert.affectedComponent);
+      const window = this.tuning.suppressionMinutes[target] ?? 0;
+      const last = this.lastRaisedAt.get(target);
+      if (window > 0 && last && now.getTime() - last.getTime() < window * 60 * 1000) return false;
+      
+      this.lastRaisedAt.set(target, now);
+      return true;
+    });
   }
   
   // Helper methods for mapping AI results to alert system
-  private mapAISeverityToAlertSeverity(aiSeverity: string): AlertSeverity {
-    switch (aiSeverity) {
-      case 'critical': return 'critical';
-      case 'high': return 'critical';
-      case 'medium': return 'warning';
-      case 'low': return 'info';
-      default: return 'warning';
-    }
-  }
-  
   private mapAITypeToAlertType(aiType: string): AlertType {
     switch (aiType) {
       case 'consumption': return 'consumption';
@@ -422,6 +717,13 @@ export class AlertDetectionEngine {
     }
   }
   
+  private formatAlertType(type: AlertType): string {
+    return type
+      .split('_')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+  
   private inferTypeFromRule(rule: AlertRule): AlertType {
     if (rule.name.toLowerCase().includes('consumption')) return 'consumption';
     if (rule.name.toLowerCase().includes('battery') || rule.name.toLowerCase().includes('storage')) return 'storage';
@@ -0,0 +1,69 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { type AlertSystem } from "@shared/alert-schema";
+import { type AnomalyAnalysisResult, type AnomalyAnalyzer } from "./ai-service";
+import { AlertDetectionEngine } from "./alert-detection-engine";
+import { AlertDetectionRunner } from "./alert-detection-runner";
+import { AlertLifecycle } from "./alert-lifecycle";
+import { MemAlertStore } from "./alert-store";
+import { IncidentService } from "./incidents";
+import { type NotificationService } from "./notification-service";
+import { MemStorage } from "./storage";
+
+class QuietAnalyzer implements AnomalyAnalyzer {
+  async analyzeEnergyPattern(): Promise<AnomalyAnalysisResult> {
+    return { isAnomaly: false, score: 0, type: 'consumption', severity: 'info', affectedComponent: 'grid_load', detector: 'llm' };
+  }
+}
+
+describe('AlertDetectionRunner', () => {
+  let store: MemAlertStore;
+  let notified: AlertSystem[];
+  let runner: AlertDetectionRunner;
+
+  beforeEach(async () => {
+    store = new MemAlertStore();
+    notified = [];
+    const notifications = {
+      sendAlertNotification: async (alert: AlertSystem) => { notified.push(alert); },
+    } as unknown as NotificationService;
+    const lifecycle = new AlertLifecycle(store);
+
+    const engine = new AlertDetectionEngine(new QuietAnalyzer());
+    engine.setRules([{
+      id: 'consumption-spike',
+      name: 'Consumption Spike Detection',
+      type: 'threshold',
+      severity: 'critical',
+      conditions: [{ metric: 'consumption', operator: '>', value: 250 }],
+      actions: [{ type: 'create_alert', config: {} }],
+      enabled: true
+    }]);
+
+    const metrics = new MemStorage();
+    await metrics.addEnergyMetric({
+      consumption: 280, generation: 100, storage: 60, gridExport: 0, solarEfficiency: 85, batteryHealth: 95
+    });
+
+    runner = new AlertDetectionRunner(engine, store, lifecycle, notifications, new IncidentService(store, lifecycle), metrics);
+  });
+
+  it('reports what a test cycle would raise without storing, correlating or notifying', async () => {
+    const cycle = await runner.runTestCycle();
+
+    assert.equal(cycle.raised.length, 1);
+    assert.match(cycle.raised[0].title, /^Test Alert: /);
+    assert.deepEqual(cycle.created, []);
+    assert.equal((await store.queryAlerts({})).total, 0);
+    assert.deepEqual(await store.getIncidents({}), []);
+    assert.deepEqual(notified, []);
+  });
+
+  it('stores, correlates and notifies the alerts of a live cycle', async () => {
+    const cycle = await runner.runCycle();
+
+    assert.equal(cycle.created.length, 1);
+    assert.ok(cycle.created[0].incidentId);
+    assert.deepEqual(notified.map(alert => alert.id), [cycle.created[0].id]);
+  });
+});
@@ -0,0 +1,160 @@
+import { type AlertSystem, type AlertDetectionResult, type InsertAlertSystem } from "@shared/alert-schema";
+import { alertDetectionEngine, type AlertDetectionEngine, type RuleRecovery } from "./alert-detection-engine";
+import { alertLifecycle, AlertTransitionError, type AlertLifecycle } from "./alert-lifecycle";
+import { alertStore, type AlertStore } from "./alert-store";
+import { incidentService, type IncidentService } from "./incidents";
+import { notificationService, type NotificationService } from "./notification-service";
+import { storage, type IStorage } from "./storage";
+
+// Metrics window handed to the engine each cycle
+const LOOKBACK_HOURS = 24;
+
+// Page size when reading open alerts back on startup
+const RESTORE_PAGE_SIZE = 200;
+
+export interface DetectionCycleOutcome {
+  results: AlertDetectionResult[];
+  // Alerts the cycle raised, including those a test run only reports
+  raised: InsertAlertSystem[];
+  created: AlertSystem[];
+  resolved: AlertSystem[];
+}
+
+/**
+ * Runs detection cycles: raises alerts for new detections and resolves the
+ * alerts of rules whose conditions recovered. Periodic runs are opt-in
+ * (DETECTION_INTERVAL_MS) since every cycle also asks the AI service.
+ */
+export class AlertDetectionRunner {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private engine: AlertDetectionEngine,
+    private store: AlertStore,
+    private lifecycle: AlertLifecycle,
+    private notifications: NotificationService,
+    private incidents: IncidentService,
+    private metrics: IStorage
+  ) {}
+
+  async runCycle(options: { titlePrefix?: string; engine?: AlertDetectionEngine; testRun?: boolean } = {}): Promise<DetectionCycleOutcome> {
+    const engine = options.engine ?? this.engine;
+    const energyMetrics = await this.metrics.getRecentEnergyMetrics(LOOKBACK_HOURS);
+    const sensorData = await this.store.getSensorData({
+      since: new Date(Date.now() - LOOKBACK_HOURS * 60 * 60 * 1000)
+    });
+
+    const { alerts: results, recoveries } = await engine.evaluate(energyMetrics, sensorData);
+
+    const raised: InsertAlertSystem[] = [];
+    const created: AlertSystem[] = [];
+    for (const result of results) {
+      if (!result.isAlert) continue;
+
+      const detected = engine.toAlertRecord(result);
+      const record = { ...detected, title: `${options.titlePrefix ?? ''}${detected.title}` };
+      raised.push(record);
+      // Test alerts are only reported: stored, they would join incidents, page on-call and escalate
+      if (options.testRun) continue;
+
+      const stored = await this.store.createAlert(record);
+      if (result.metadata?.ruleId) {
+        engine.bindAlert(result.metadata.ruleId, stored.id);
+      }
+      const { alert } = await this.incidents.correlate(stored);
+
+      await this.notifications.sendAlertNotification(alert, ['dashboard', 'websocket']);
+      created.push(alert);
+    }
+
+    const resolved: AlertSystem[] = [];
+    for (const recovery of recoveries) {
+      const alert = await this.resolveRecovered(recovery);
+      if (alert) resolved.push(alert);
+    }
+
+    return { results, raised, created, resolved };
+  }
+
+  /**
+   * One-off cycle on a copy of the engine, so a test run neither moves the
+   * live rule states nor resolves alerts the live rules raised. The alerts it
+   * would raise are returned, not stored.
+   */
+  runTestCycle(): Promise<DetectionCycleOutcome> {
+    return this.runCycle({ titlePrefix: 'Test Alert: ', engine: this.engine.fork(), testRun: true });
+  }
+
+  /**
+   * Rebind firing rules to their open alerts after a restart, so recoveries
+   * still resolve the alert they raised. Call once the rules are loaded.
+   */
+  async restoreRuleStates(): Promise<void> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.store.queryAlerts({
+        status: ['active', 'acknowledged'],
+        sortBy: 'timestamp',
+        sortOrder: 'asc',
+        limit: RESTORE_PAGE_SIZE,
+        cursor,
+      });
+      for (const alert of page.alerts) {
+        const metadata = alert.metadata as { ruleId?: unknown } | null;
+        if (typeof metadata?.ruleId !== 'string') continue;
+        // Oldest first, so the latest open alert of a rule wins
+        this.engine.restoreFiring(metadata.ruleId, alert.id, alert.timestamp);
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
+  start(intervalMs: number): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runCycle().catch(error => {
+        console.error('Detection cycle failed:', error);
+      });
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async resolveRecovered(recovery: RuleRecovery): Promise<AlertSystem | undefined> {
+    if (!recovery.autoResolve || !recovery.alertId) return undefined;
+
+    const values = Object.entries(recovery.values)
+      .map(([metric, value]) => `${metric} ${value.toFixed(1)}`)
+      .join(', ');
+
+    try {
+      return await this.lifecycle.transition(
+        recovery.alertId,
+        'resolve',
+        'system',
+        `Condition recovered${values ? ` (${values})` : ''}`,
+        { via: 'auto_resolve', ruleId: recovery.ruleId, values: recovery.values }
+      );
+    } catch (error) {
+      // Someone already resolved or dismissed it
+      if (error instanceof AlertTransitionError) return undefined;
+      throw error;
+    }
+  }
+}
+
+export const alertDetectionRunner = new AlertDetectionRunner(
+  alertDetectionEngine,
+  alertStore,
+  alertLifecycle,
+  notificationService,
+  incidentService,
+  storage
+);
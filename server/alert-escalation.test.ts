@@ -0,0 +1,133 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { type AlertSystem } from "@shared/alert-schema";
+import { MemAlertStore } from "./alert-store";
+import { AlertLifecycle } from "./alert-lifecycle";
+import { AlertEscalationEngine } from "./alert-escalation";
+import { AlertDetectionEngine, type AlertRule } from "./alert-detection-engine";
+import { type NotificationService } from "./notification-service";
+
+const silentAnalyzer = { analyzeEnergyPattern: async () => ({ isAnomaly: false, score: 0 }) };
+
+const LOW_STORAGE: AlertRule = {
+  id: 'battery-critical',
+  name: 'Battery critical',
+  type: 'threshold',
+  severity: 'critical',
+  conditions: [{ metric: 'storage', operator: '<', value: 10 }],
+  actions: [{ type: 'create_alert', config: {} }, { type: 'escalate', config: { delay: 10, channels: ['sms'] } }],
+  enabled: true
+};
+
+describe('AlertEscalationEngine', () => {
+  let store: MemAlertStore;
+  let lifecycle: AlertLifecycle;
+  let detection: AlertDetectionEngine;
+  let escalation: AlertEscalationEngine;
+  let sent: Array<{ alertId: string; channels: string[] }>;
+  let failFor: Set<string>;
+
+  beforeEach(async () => {
+    store = new MemAlertStore();
+    lifecycle = new AlertLifecycle(store);
+    detection = new AlertDetectionEngine(silentAnalyzer);
+    detection.setRules([LOW_STORAGE]);
+    sent = [];
+    failFor = new Set();
+    const notifications = {
+      sendEscalationNotification: async (alert: AlertSystem, channels: string[]) => {
+        if (failFor.has(alert.id)) throw new Error('SMS gateway down');
+        sent.push({ alertId: alert.id, channels });
+      },
+    } as unknown as NotificationService;
+    escalation = new AlertEscalationEngine(store, notifications, detection);
+  });
+
+  const raise = (overrides: { severity?: string; type?: string; metadata?: unknown } = {}) => store.createAlert({
+    title: 'Battery low',
+    description: 'Detected by test',
+    type: 'storage',
+    severity: 'critical',
+    source: 'system',
+    ...overrides,
+  });
+
+  const chain = async () => {
+    await store.createEscalationRule({ name: 'Shift lead', severity: 'critical', type: 'any', escalationDelay: 5, escalationChannels: ['email'] });
+    await store.createEscalationRule({ name: 'Site manager', severity: 'critical', type: 'storage', escalationDelay: 15, escalationChannels: ['sms'] });
+  };
+
+  const after = (alert: AlertSystem, minutes: number) => new Date(alert.timestamp.getTime() + minutes * 60_000);
+
+  it('fires each level once its delay has passed, in order', async () => {
+    await chain();
+    const alert = await raise();
+
+    assert.equal(await escalation.evaluate(after(alert, 4)), 0);
+    assert.equal(await escalation.evaluate(after(alert, 5)), 1);
+    assert.equal(await escalation.evaluate(after(alert, 14)), 0);
+    assert.equal(await escalation.evaluate(after(alert, 15)), 1);
+
+    assert.deepEqual(sent.map(send => send.channels), [['email'], ['sms']]);
+    const notes = (await store.getInteractionsForAlert(alert.id)).map(interaction => interaction.notes);
+    assert.deepEqual(notes, ['Escalated to level 1 (Shift lead)', 'Escalated to level 2 (Site manager)']);
+  });
+
+  it('fires every overdue level in one check and never repeats a level', async () => {
+    await chain();
+    const alert = await raise();
+
+    assert.equal(await escalation.evaluate(after(alert, 30)), 2);
+    assert.equal(await escalation.evaluate(after(alert, 60)), 0);
+    assert.equal(await escalation.evaluate(after(alert, 24 * 60)), 0);
+    assert.equal(sent.length, 2);
+  });
+
+  it('stops the chain once the alert is acknowledged and restarts it on re-open', async () => {
+    await chain();
+    const alert = await raise();
+    await escalation.evaluate(after(alert, 5));
+
+    await lifecycle.transition(alert.id, 'acknowledge', 'ops');
+    assert.equal(await escalation.evaluate(after(alert, 60)), 0);
+
+    await lifecycle.transition(alert.id, 'resolve', 'ops');
+    // Interactions are stamped with the wall clock; keep the re-open after the first escalation
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await lifecycle.transition(alert.id, 'reopen', 'ops');
+    const reopenedAt = new Date();
+    assert.equal(await escalation.evaluate(new Date(reopenedAt.getTime() + 6 * 60_000)), 1);
+    assert.deepEqual(sent.map(send => send.channels), [['email'], ['email']]);
+  });
+
+  it('keeps escalating other alerts when one of them fails', async () => {
+    await chain();
+    const broken = await raise();
+    const healthy = await raise();
+    failFor.add(broken.id);
+
+    assert.equal(await escalation.evaluate(after(healthy, 5)), 1);
+    assert.deepEqual(sent.map(send => send.alertId), [healthy.id]);
+
+    failFor.clear();
+    assert.equal(await escalation.evaluate(after(healthy, 5)), 1);
+    assert.deepEqual(sent.map(send => send.alertId), [healthy.id, broken.id]);
+  });
+
+  it('seeds one escalation per detection rule that only its alerts follow', async () => {
+    await store.createEscalationRule({
+      name: 'Other critical storage', severity: 'critical', type: detection.getRuleAlertType(LOW_STORAGE),
+      escalationDelay: 10, escalationChannels: ['email'], enabled: false
+    });
+
+    const seeded = await escalation.seedFromDetectionRules();
+    assert.deepEqual(seeded.map(rule => [rule.ruleId, rule.escalationDelay, rule.escalationChannels]), [['battery-critical', 10, ['sms']]]);
+    assert.deepEqual(await escalation.seedFromDetectionRules(), []);
+
+    const fromRule = await raise({ type: detection.getRuleAlertType(LOW_STORAGE), metadata: { ruleId: 'battery-critical' } });
+    const fromElsewhere = await raise({ type: detection.getRuleAlertType(LOW_STORAGE), metadata: { ruleId: 'storage-drain' } });
+
+    assert.equal((await escalation.getChain(fromRule)).length, 1);
+    assert.deepEqual(await escalation.getChain(fromElsewhere), []);
+  });
+});
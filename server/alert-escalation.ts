@@ -0,0 +1,190 @@
+import { type AlertSystem, type AlertEscalationRule, type AlertInteraction } from "@shared/alert-schema";
+import { alertStore, type AlertStore } from "./alert-store";
+import { alertDetectionEngine, type AlertDetectionEngine } from "./alert-detection-engine";
+import { notificationService, type NotificationService } from "./notification-service";
+import { realtimeHub } from "./realtime";
+import { webhookService } from "./webhooks";
+
+export interface EscalationStep {
+  level: number;
+  rule: AlertEscalationRule;
+}
+
+const CHECK_INTERVAL_MS = 30000;
+const MINUTE_MS = 60000;
+const DEFAULT_ESCALATION_CHANNELS = ['email', 'sms'];
+
+/**
+ * Escalates alerts that stay unacknowledged. Enabled rules matching an
+ * alert's severity and type (and detection rule, for seeded rules) form a
+ * chain ordered by delay; each level fires once, when the alert has been
+ * active for that many minutes. Acknowledging the alert stops the chain,
+ * re-opening it starts the chain again.
+ */
+export class AlertEscalationEngine {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private store: AlertStore,
+    private notifications: NotificationService,
+    private detectionEngine: AlertDetectionEngine
+  ) {}
+
+  /**
+   * Escalation chain that applies to an alert
+   */
+  async getChain(alert: AlertSystem): Promise<EscalationStep[]> {
+    const rules = await this.store.getEscalationRules();
+    const detectionRuleId = (alert.metadata as { ruleId?: unknown } | null)?.ruleId;
+
+    return rules
+      .filter(rule => rule.enabled)
+      .filter(rule => rule.severity === alert.severity)
+      .filter(rule => rule.type === 'any' || rule.type === alert.type)
+      .filter(rule => !rule.ruleId || rule.ruleId === detectionRuleId)
+      .sort((a, b) => a.escalationDelay - b.escalationDelay)
+      .map((rule, index) => ({ level: index + 1, rule }));
+  }
+
+  /**
+   * Fire every escalation level that is due for active alerts
+   * Returns the number of escalations sent
+   */
+  async evaluate(now: Date = new Date()): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      let fired = 0;
+      const alerts = await this.store.getAlertsByStatus(['active']);
+
+      for (const alert of alerts) {
+        // One failing alert must not hold up the escalations of the others
+        try {
+          fired += await this.evaluateAlert(alert, now);
+        } catch (error) {
+          console.error(`Escalation failed for alert ${alert.id}:`, error);
+        }
+      }
+
+      return fired;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Create escalation rules for detection rules that declare an escalate action
+   * (e.g. battery-critical) unless one was already seeded for the rule
+   */
+  async seedFromDetectionRules(): Promise<AlertEscalationRule[]> {
+    const existing = await this.store.getEscalationRules();
+    const created: AlertEscalationRule[] = [];
+
+    for (const rule of this.detectionEngine.getRules()) {
+      const action = rule.actions.find(action => action.type === 'escalate');
+      if (!action) continue;
+
+      if (existing.some(escalation => escalation.ruleId === rule.id)) continue;
+
+      created.push(await this.store.createEscalationRule({
+        name: `${rule.name} escalation`,
+        severity: rule.severity,
+        type: this.detectionEngine.getRuleAlertType(rule),
+        escalationDelay: action.config.delay ?? 15,
+        escalationChannels: action.config.channels ?? DEFAULT_ESCALATION_CHANNELS,
+        recipients: action.config.recipients ?? [],
+        ruleId: rule.id,
+        enabled: true,
+      }));
+    }
+
+    return created;
+  }
+
+  start(intervalMs: number = CHECK_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.evaluate().catch(error => {
+        console.error('Alert escalation check failed:', error);
+      });
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fire the due levels of one alert's chain that haven't fired yet
+   */
+  private async evaluateAlert(alert: AlertSystem, now: Date): Promise<number> {
+    const chain = await this.getChain(alert);
+    if (chain.length === 0) return 0;
+
+    const interactions = await this.store.getInteractionsForAlert(alert.id);
+    const { since, escalatedRuleIds } = this.chainProgress(alert, interactions);
+    const activeMinutes = (now.getTime() - since.getTime()) / MINUTE_MS;
+
+    let fired = 0;
+    for (const step of chain) {
+      if (escalatedRuleIds.has(step.rule.id)) continue;
+      if (activeMinutes < step.rule.escalationDelay) break;
+
+      await this.escalate(alert, step);
+      fired++;
+    }
+    return fired;
+  }
+
+  private async escalate(alert: AlertSystem, step: EscalationStep): Promise<void> {
+    const channels = step.rule.escalationChannels as string[];
+    const recipients = step.rule.recipients as string[];
+
+    await this.notifications.sendEscalationNotification(alert, channels, recipients);
+
+    await this.store.addInteraction({
+      alertId: alert.id,
+      userId: 'system',
+      action: 'escalate',
+      notes: `Escalated to level ${step.level} (${step.rule.name})`,
+      metadata: {
+        ruleId: step.rule.id,
+        level: step.level,
+        channels,
+        recipients,
+      },
+    });
+
+    realtimeHub.publish('alerts', 'alert_escalated', { id: alert.id, level: step.level, ruleId: step.rule.id });
+    await webhookService.dispatch('alert.escalated', alert, { level: step.level, ruleId: step.rule.id, ruleName: step.rule.name });
+  }
+
+  /**
+   * The chain restarts when an alert is re-opened, so only escalations
+   * recorded after the latest re-open count
+   */
+  private chainProgress(alert: AlertSystem, interactions: AlertInteraction[]): { since: Date; escalatedRuleIds: Set<string> } {
+    const reopens = interactions.filter(interaction => interaction.action === 'reopen');
+    const since = reopens.length > 0
+      ? new Date(Math.max(...reopens.map(interaction => interaction.timestamp.getTime())))
+      : alert.timestamp;
+
+    const escalatedRuleIds = new Set(
+      interactions
+        .filter(interaction => interaction.action === 'escalate' && interaction.timestamp >= since)
+        .map(interaction => (interaction.metadata as { ruleId?: string } | null)?.ruleId)
+        .filter((ruleId): ruleId is string => !!ruleId)
+    );
+
+    return { since, escalatedRuleIds };
+  }
+}
+
+export const alertEscalationEngine = new AlertEscalationEngine(alertStore, notificationService, alertDetectionEngine);
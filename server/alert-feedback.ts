@@ -0,0 +1,67 @@
+import { type AlertFeedback, type FeedbackLabel } from "@shared/alert-schema";
+import { alertStore, type AlertStore } from "./alert-store";
+import { AlertNotFoundError } from "./alert-lifecycle";
+import { realtimeHub } from "./realtime";
+
+/**
+ * Records operators' verdicts on alerts (real issue, useful, false positive)
+ * for the detection tuner, the alert timeline and the alert statistics.
+ */
+export class AlertFeedbackService {
+  constructor(private store: AlertStore) {}
+
+  /**
+   * Label an alert. Labels can be changed later; the latest one counts.
+   */
+  async record(alertId: string, userId: string, label: FeedbackLabel, notes?: string): Promise<AlertFeedback> {
+    const alert = await this.store.getAlert(alertId);
+    if (!alert) {
+      throw new AlertNotFoundError(alertId);
+    }
+
+    const metadata = (alert.metadata ?? {}) as Record<string, any>;
+    const feedback = await this.store.addFeedback({
+      alertId,
+      userId,
+      label,
+      ruleId: metadata.ruleId ?? null,
+      component: alert.deviceId,
+      detectionMethod: metadata.detectionMethod ?? null,
+      notes: notes ?? null,
+    });
+
+    await this.store.addInteraction({
+      alertId,
+      userId,
+      action: 'feedback',
+      notes: notes ?? null,
+      metadata: { label },
+    });
+
+    // Statistics read the false-positive flag off the alert itself
+    const updated = await this.store.mergeAlertMetadata(alertId, {
+      feedbackLabel: label,
+      falsePositive: label === 'false_positive',
+    });
+    if (updated) realtimeHub.publish('alerts', 'alert_updated', updated);
+
+    return feedback;
+  }
+
+  async getForAlert(alertId: string): Promise<AlertFeedback[]> {
+    return this.store.getFeedbackForAlert(alertId);
+  }
+
+  /**
+   * Latest label of every alert labeled since the given date, by alert id
+   */
+  async getLatestLabels(since: Date): Promise<Map<string, AlertFeedback>> {
+    const labels = new Map<string, AlertFeedback>();
+    for (const feedback of await this.store.getFeedbackSince(since)) {
+      labels.set(feedback.alertId, feedback);
+    }
+    return labels;
+  }
+}
+
+export const alertFeedbackService = new AlertFeedbackService(alertStore);
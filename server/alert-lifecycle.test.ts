@@ -0,0 +1,134 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { type AlertSystem } from "@shared/alert-schema";
+import { MemAlertStore } from "./alert-store";
+import { AlertLifecycle, AlertTransitionError, type AlertAction } from "./alert-lifecycle";
+import { AlertFeedbackService } from "./alert-feedback";
+
+describe('AlertLifecycle', () => {
+  let store: MemAlertStore;
+  let lifecycle: AlertLifecycle;
+  let alert: AlertSystem;
+
+  beforeEach(async () => {
+    store = new MemAlertStore();
+    lifecycle = new AlertLifecycle(store);
+    alert = await store.createAlert({
+      title: 'Inverter fault',
+      description: 'Detected by test',
+      type: 'device_fault',
+      severity: 'warning',
+      source: 'system',
+      deviceId: 'inverter',
+    });
+  });
+
+  const metadataOf = async (id: string) => (await store.getAlert(id))?.metadata as Record<string, unknown> | null;
+
+  const statusAfter = async (...actions: AlertAction[]) => {
+    for (const action of actions) await lifecycle.transition(alert.id, action, 'ops');
+    return (await store.getAlert(alert.id))?.status;
+  };
+
+  it('allows every transition in the lifecycle', async () => {
+    assert.equal(await statusAfter('acknowledge'), 'acknowledged');
+    assert.equal(await statusAfter('resolve'), 'resolved');
+    assert.equal(await statusAfter('reopen'), 'active');
+    assert.equal(await statusAfter('dismiss'), 'dismissed');
+    assert.equal(await statusAfter('reopen', 'acknowledge', 'dismiss'), 'dismissed');
+    assert.equal(await statusAfter('reopen', 'resolve'), 'resolved');
+  });
+
+  it('rejects transitions from statuses the action does not apply to', async () => {
+    await assert.rejects(lifecycle.transition(alert.id, 'reopen', 'ops'), (error: unknown) => {
+      assert.ok(error instanceof AlertTransitionError);
+      assert.equal(error.currentStatus, 'active');
+      assert.deepEqual(error.allowedFrom, ['resolved', 'dismissed']);
+      return true;
+    });
+
+    await lifecycle.transition(alert.id, 'acknowledge', 'ops');
+    await assert.rejects(lifecycle.transition(alert.id, 'acknowledge', 'ops'), AlertTransitionError);
+
+    await lifecycle.transition(alert.id, 'resolve', 'ops');
+    for (const action of ['acknowledge', 'resolve', 'dismiss'] as const) {
+      await assert.rejects(lifecycle.transition(alert.id, action, 'ops'), AlertTransitionError);
+    }
+    assert.equal((await store.getInteractionsForAlert(alert.id)).length, 2);
+  });
+
+  it('loses cleanly to a transition that lands after it read the alert', async () => {
+    const getAlert = store.getAlert.bind(store);
+    let raced = false;
+    // Another operator resolves the alert between this transition's read and its update
+    store.getAlert = async id => {
+      const snapshot = await getAlert(id);
+      if (!raced) {
+        raced = true;
+        await store.updateAlert(id, { status: 'resolved', resolvedBy: 'other' });
+      }
+      return snapshot;
+    };
+
+    await assert.rejects(lifecycle.transition(alert.id, 'acknowledge', 'ops'), (error: unknown) => {
+      assert.ok(error instanceof AlertTransitionError);
+      assert.equal(error.currentStatus, 'resolved');
+      return true;
+    });
+    store.getAlert = getAlert;
+
+    const current = await store.getAlert(alert.id);
+    assert.equal(current?.status, 'resolved');
+    assert.equal(current?.acknowledgedBy, null);
+    assert.deepEqual(await store.getInteractionsForAlert(alert.id), []);
+  });
+
+  it('clears the acknowledgement and resolution when an alert reopens', async () => {
+    await lifecycle.transition(alert.id, 'acknowledge', 'ops');
+    await lifecycle.transition(alert.id, 'resolve', 'ops', 'Reset the breaker', { falsePositive: true });
+
+    const reopened = await lifecycle.transition(alert.id, 'reopen', 'ops');
+
+    assert.equal(reopened.status, 'active');
+    assert.equal(reopened.acknowledgedAt, null);
+    assert.equal(reopened.acknowledgedBy, null);
+    assert.equal(reopened.resolvedAt, null);
+    assert.equal(reopened.resolvedBy, null);
+    assert.equal(reopened.resolutionNotes, null);
+    assert.equal((reopened.metadata as Record<string, unknown> | null)?.falsePositive, undefined);
+  });
+
+  it('keeps the false-positive feedback when the alert auto-resolves', async () => {
+    await new AlertFeedbackService(store).record(alert.id, 'ops', 'false_positive');
+
+    await lifecycle.transition(alert.id, 'resolve', 'system', 'Condition cleared', { via: 'auto_resolve' });
+
+    assert.equal((await metadataOf(alert.id))?.falsePositive, true);
+    assert.equal((await metadataOf(alert.id))?.feedbackLabel, 'false_positive');
+  });
+
+  it('sets the false-positive flag from the verdict or label given on resolve', async () => {
+    await lifecycle.transition(alert.id, 'resolve', 'ops', undefined, { falsePositive: true });
+    assert.equal((await metadataOf(alert.id))?.falsePositive, true);
+
+    await lifecycle.transition(alert.id, 'reopen', 'ops');
+    await lifecycle.transition(alert.id, 'resolve', 'ops', undefined, { label: 'real_issue', falsePositive: true });
+    assert.equal((await metadataOf(alert.id))?.falsePositive, false);
+  });
+
+  it('leaves metadata written since the transition read the alert alone', async () => {
+    await store.updateAlert(alert.id, { metadata: { ruleId: 'inverter-fault' } });
+    const getAlert = store.getAlert.bind(store);
+    // Feedback lands between the lifecycle's read and its conditional update
+    store.getAlert = async id => {
+      const snapshot = await getAlert(id);
+      await store.mergeAlertMetadata(id, { feedbackLabel: 'useful' });
+      return snapshot;
+    };
+
+    await lifecycle.transition(alert.id, 'acknowledge', 'ops');
+    store.getAlert = getAlert;
+
+    assert.deepEqual(await metadataOf(alert.id), { ruleId: 'inverter-fault', feedbackLabel: 'useful' });
+  });
+});
@@ -0,0 +1,228 @@
+import { type AlertSystem, type AlertStatus, type AlertInteraction, type WebhookEvent } from "@shared/alert-schema";
+import { alertStore, type AlertStatusChanges, type AlertStore } from "./alert-store";
+import { realtimeHub } from "./realtime";
+import { webhookService } from "./webhooks";
+
+export type AlertAction = 'acknowledge' | 'resolve' | 'dismiss' | 'reopen';
+
+// Told about every applied transition, with the metadata the caller recorded
+export type TransitionListener = (alert: AlertSystem, action: AlertAction, metadata?: Record<string, any>) => Promise<void>;
+
+export interface AlertTimelineEvent {
+  id: string;
+  timestamp: Date;
+  action: string;
+  userId: string;
+  description: string;
+  type: 'system' | 'user';
+  notes?: string | null;
+  metadata?: unknown;
+}
+
+// Allowed source statuses and resulting status for each lifecycle action
+const TRANSITIONS: Record<AlertAction, { from: AlertStatus[]; to: AlertStatus }> = {
+  acknowledge: { from: ['active'], to: 'acknowledged' },
+  resolve: { from: ['active', 'acknowledged'], to: 'resolved' },
+  dismiss: { from: ['active', 'acknowledged'], to: 'dismissed' },
+  reopen: { from: ['resolved', 'dismissed'], to: 'active' },
+};
+
+const WEBHOOK_EVENTS: Record<AlertAction, WebhookEvent> = {
+  acknowledge: 'alert.acknowledged',
+  resolve: 'alert.resolved',
+  dismiss: 'alert.dismissed',
+  reopen: 'alert.reopened',
+};
+
+const ACTION_DESCRIPTIONS: Record<string, string> = {
+  acknowledge: 'Alert acknowledged',
+  resolve: 'Alert resolved',
+  dismiss: 'Alert dismissed',
+  reopen: 'Alert reopened',
+  add_notes: 'Notes added',
+  escalate: 'Alert escalated',
+  feedback: 'Feedback recorded',
+};
+
+export class AlertNotFoundError extends Error {
+  constructor(public alertId: string) {
+    super(`Alert ${alertId} not found`);
+    this.name = 'AlertNotFoundError';
+  }
+}
+
+export class AlertTransitionError extends Error {
+  constructor(public alertId: string, public currentStatus: string, public action: AlertAction) {
+    super(`Cannot ${action} alert ${alertId} while it is ${currentStatus}`);
+    this.name = 'AlertTransitionError';
+  }
+
+  get allowedFrom(): AlertStatus[] {
+    return TRANSITIONS[this.action].from;
+  }
+}
+
+/**
+ * Enforces the alert lifecycle (active → acknowledged → resolved, plus
+ * dismissed and re-open) and records every action as an interaction.
+ */
+export class AlertLifecycle {
+  private listeners: TransitionListener[] = [];
+
+  constructor(private store: AlertStore) {}
+
+  /**
+   * Run a listener after every transition, e.g. to keep incidents in line
+   * with their alerts. Failures are logged; the transition still stands.
+   */
+  onTransition(listener: TransitionListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Apply a lifecycle action, stamping the relevant fields on the alert
+   */
+  async transition(
+    alertId: string,
+    action: AlertAction,
+    userId: string,
+    notes?: string,
+    metadata?: Record<string, any>
+  ): Promise<AlertSystem> {
+    const alert = await this.store.getAlert(alertId);
+    if (!alert) {
+      throw new AlertNotFoundError(alertId);
+    }
+
+    const transition = TRANSITIONS[action];
+    if (!transition.from.includes(alert.status as AlertStatus)) {
+      throw new AlertTransitionError(alertId, alert.status, action);
+    }
+
+    // Conditional update guards against a concurrent transition winning the race
+    const updated = await this.store.updateAlertIfStatus(
+      alertId,
+      transition.from,
+      { ...this.buildChanges(action, userId, notes), ...this.buildMetadataChanges(action, metadata) }
+    );
+    if (!updated) {
+      const current = await this.store.getAlert(alertId);
+      throw new AlertTransitionError(alertId, current?.status ?? 'unknown', action);
+    }
+
+    await this.store.addInteraction({
+      alertId,
+      userId,
+      action,
+      notes: notes ?? null,
+      metadata: { fromStatus: alert.status, toStatus: transition.to, ...metadata },
+    });
+
+    realtimeHub.publish('alerts', 'alert_updated', updated);
+    // Delivery is queued and retried; the caller shouldn't wait on remote endpoints
+    webhookService.dispatch(WEBHOOK_EVENTS[action], updated, { userId, notes: notes ?? null }).catch(error => {
+      console.error(`Failed to dispatch webhooks for alert ${alertId}:`, error);
+    });
+
+    for (const listener of this.listeners) {
+      try {
+        await listener(updated, action, metadata);
+      } catch (error) {
+        console.error(`Transition listener failed for alert ${alertId}:`, error);
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Attach free-form notes to an alert without changing its status
+   */
+  async addNotes(alertId: string, userId: string, notes: string): Promise<AlertInteraction> {
+    const alert = await this.store.getAlert(alertId);
+    if (!alert) {
+      throw new AlertNotFoundError(alertId);
+    }
+
+    return this.store.addInteraction({
+      alertId,
+      userId,
+      action: 'add_notes',
+      notes,
+      metadata: { status: alert.status },
+    });
+  }
+
+  /**
+   * Build the alert timeline from its creation and recorded interactions
+   */
+  async getTimeline(alert: AlertSystem): Promise<AlertTimelineEvent[]> {
+    const interactions = await this.store.getInteractionsForAlert(alert.id);
+
+    const created: AlertTimelineEvent = {
+      id: `${alert.id}-created`,
+      timestamp: alert.timestamp,
+      action: 'created',
+      userId: alert.source === 'manual' ? 'manual' : 'system',
+      description: alert.source === 'manual' ? 'Alert created manually' : 'Alert created by detection engine',
+      type: 'system',
+    };
+
+    return [
+      created,
+      ...interactions.map(interaction => ({
+        id: interaction.id,
+        timestamp: interaction.timestamp,
+        action: interaction.action,
+        userId: interaction.userId,
+        description: ACTION_DESCRIPTIONS[interaction.action] ?? interaction.action,
+        type: interaction.userId === 'system' ? 'system' as const : 'user' as const,
+        notes: interaction.notes,
+        metadata: interaction.metadata,
+      })),
+    ];
+  }
+
+  /**
+   * Keep the false-positive verdict on the alert itself so statistics can use it.
+   * A resolve only changes it when the caller gives a verdict or a feedback label,
+   * so auto-resolves and incident cascades keep the operator's earlier feedback.
+   * Only the changed keys are sent; acknowledge and dismiss leave metadata alone.
+   */
+  private buildMetadataChanges(action: AlertAction, metadata?: Record<string, any>): AlertStatusChanges {
+    if (action === 'resolve') {
+      const falsePositive = metadata?.label !== undefined
+        ? metadata.label === 'false_positive'
+        : metadata?.falsePositive;
+      return typeof falsePositive === 'boolean' ? { metadataPatch: { falsePositive } } : {};
+    }
+    if (action === 'reopen') {
+      return { metadataRemove: ['falsePositive'] };
+    }
+    return {};
+  }
+
+  private buildChanges(action: AlertAction, userId: string, notes?: string): Partial<AlertSystem> {
+    const now = new Date();
+
+    switch (action) {
+      case 'acknowledge':
+        return { status: 'acknowledged', acknowledgedAt: now, acknowledgedBy: userId };
+      case 'resolve':
+        return { status: 'resolved', resolvedAt: now, resolvedBy: userId, resolutionNotes: notes ?? null };
+      case 'dismiss':
+        return { status: 'dismissed' };
+      case 'reopen':
+        return {
+          status: 'active',
+          acknowledgedAt: null,
+          acknowledgedBy: null,
+          resolvedAt: null,
+          resolvedBy: null,
+          resolutionNotes: null,
+        };
+    }
+  }
+}
+
+export const alertLifecycle = new AlertLifecycle(alertStore);
@@ -1,94 +1,158 @@
-import type { Express } from "express";
-import { alertDetectionEngine } from "./alert-detection-engine";
+import type { Express, Response } from "express";
+import { alertDetectionRunner } from "./alert-detection-runner";
+import { alertLifecycle, AlertNotFoundError, AlertTransitionError } from "./alert-lifecycle";
 import { notificationService } from "./notification-service";
-import { storage } from "./storage";
+import { alertStore, InvalidCursorError, type AlertQuery } from "./alert-store";
+import { alertStatisticsService } from "./alert-statistics";
+import { alertFeedbackService } from "./alert-feedback";
+import { incidentService } from "./incidents";
+import { type AlertSystem, FEEDBACK_LABELS } from "@shared/alert-schema";
+import { listFilter } from "./query-filters";
 import { z } from "zod";
 
+const feedbackLabelSchema = z.enum(FEEDBACK_LABELS);
+
+// Comma-separated list filter where 'all' (or nothing) means no filtering
+const alertQuerySchema = z.object({
+  severity: listFilter,
+  type: listFilter,
+  status: listFilter,
+  source: listFilter,
+  location: listFilter,
+  deviceId: listFilter,
+  dateRange: z.string().default('7d'),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  search: z.string().optional(),
+  sortBy: z.enum(['timestamp', 'severity', 'status', 'type', 'title']).default('timestamp'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  cursor: z.string().optional()
+});
+
+// Export takes the list filters, but without paging and over every date by default
+const alertExportFiltersSchema = alertQuerySchema.pick({
+  severity: true,
+  type: true,
+  status: true,
+  source: true,
+  location: true,
+  deviceId: true,
+  from: true,
+  to: true,
+  search: true
+}).extend({
+  dateRange: z.string().default('all')
+});
+
 // Extended route registrations for Alert System
 export async function registerAlertRoutes(app: Express): Promise<void> {
+  alertStatisticsService.startNightlyRollup();
   
-  // Get all alerts with filtering and pagination
-  app.get("/api/alerts", async (req, res) => {
+  // Get alerts with server-side filtering, sorting and cursor pagination
+  app.get("/api/v1/alerts", async (req, res) => {
     try {
-      const {
-        severity,
-        type,
-        status,
-        limit = "50",
-        offset = "0",
-        search,
-        dateRange = "7d"
-      } = req.query;
-      
-      // Get alerts with filters (would implement proper filtering in storage)
-      const alerts = await storage.getActiveAlerts();
-      
-      // Apply client-side filtering for demo
-      let filteredAlerts = alerts;
+      const query = alertQuerySchema.parse(req.query);
+      const { from, to } = resolveDateRange(query.dateRange, query.from, query.to);
+      
+      const page = await alertStore.queryAlerts({
+        severity: query.severity,
+        type: query.type,
+        status: query.status,
+        source: query.source,
+        location: query.location,
+        deviceId: query.deviceId,
+        from,
+        to,
+        search: query.search,
+        sortBy: query.sortBy,
+        sortOrder: query.sortOrder,
+        limit: query.limit,
+        cursor: query.cursor
+      });
       
-      if (severity && severity !== 'all') {
-        filteredAlerts = filteredAlerts.filter(alert => 
-          (alert as any).severity === severity
-        );
+      res.json({
+        alerts: page.alerts,
+        total: page.total,
+        limit: query.limit,
+        nextCursor: page.nextCursor
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
       }
-      
-      if (type && type !== 'all') {
-        filteredAlerts = filteredAlerts.filter(alert => 
-          alert.type === type
-        );
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ error: error.message });
       }
+      console.error('Error fetching alerts:', error);
+      res.status(500).json({ error: 'Failed to fetch alerts' });
+    }
+  });
+  
+  // Get alert statistics computed over the requested period
+  app.get("/api/v1/alerts/stats", async (req, res) => {
+    try {
+      const { period = '7d' } = req.query;
+      const { from, to } = resolveDateRange(period as string);
       
-      if (status && status !== 'all') {
-        filteredAlerts = filteredAlerts.filter(alert => 
-          (alert as any).status === status
-        );
-      }
+      const stats = await alertStatisticsService.compute(from ?? new Date(0), to);
       
-      if (search) {
-        const searchTerm = (search as string).toLowerCase();
-        filteredAlerts = filteredAlerts.filter(alert => 
-          alert.title.toLowerCase().includes(searchTerm) ||
-          alert.description.toLowerCase().includes(searchTerm)
-        );
+      res.json({ period, ...stats });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid period', details: error.errors });
+      }
+      console.error('Error fetching alert statistics:', error);
+      res.status(500).json({ error: 'Failed to fetch alert statistics' });
+    }
+  });
+  
+  // Get nightly statistics rollups for trend charts
+  app.get("/api/v1/alerts/stats/history", async (req, res) => {
+    try {
+      const days = parseInt(req.query.days as string) || 30;
+      const history = await alertStatisticsService.getHistory(days);
+      res.json({ history });
+    } catch (error) {
+      console.error('Error fetching alert statistics history:', error);
+      res.status(500).json({ error: 'Failed to fetch alert statistics history' });
+    }
+  });
+  
+  // Re-run the daily rollup for a specific date (defaults to yesterday)
+  app.post("/api/v1/alerts/stats/rollup", async (req, res) => {
+    try {
+      const date = req.body.date ? new Date(req.body.date) : new Date(Date.now() - 24 * 60 * 60 * 1000);
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ error: 'Invalid date' });
       }
       
-      // Pagination
-      const limitNum = parseInt(limit as string);
-      const offsetNum = parseInt(offset as string);
-      const paginatedAlerts = filteredAlerts.slice(offsetNum, offsetNum + limitNum);
-      
-      res.json({
-        alerts: paginatedAlerts,
-        total: filteredAlerts.length,
-        limit: limitNum,
-        offset: offsetNum
-      });
+      const statistics = await alertStatisticsService.rollupDay(date);
+      res.json({ statistics });
     } catch (error) {
-      console.error('Error fetching alerts:', error);
-      res.status(500).json({ error: 'Failed to fetch alerts' });
+      console.error('Error rolling up alert statistics:', error);
+      res.status(500).json({ error: 'Failed to roll up alert statistics' });
     }
   });
   
   // Get alert by ID with full details
-  app.get("/api/alerts/:id", async (req, res) => {
+  app.get("/api/v1/alerts/:id", async (req, res) => {
     try {
       const { id } = req.params;
       
-      // In a real implementation, this would fetch from storage
-      const alerts = await storage.getActiveAlerts();
-      const alert = alerts.find(a => a.id === id);
+      const alert = await alertStore.getAlert(id);
       
       if (!alert) {
         return res.status(404).json({ error: 'Alert not found' });
       }
       
       // Get alert interactions/timeline
-      const interactions = await getAlertInteractions(id);
+      const timeline = await alertLifecycle.getTimeline(alert);
       
       res.json({
         alert,
-        interactions,
-        timeline: interactions // For now, same as interactions
+        interactions: timeline,
+        timeline
       });
     } catch (error) {
       console.error('Error fetching alert details:', error);
@@ -97,126 +161,111 @@ export async function registerAlertRoutes(app: Express): Promise<void> {
   });
   
   // Acknowledge alert
-  app.post("/api/alerts/:id/acknowledge", async (req, res) => {
+  app.post("/api/v1/alerts/:id/acknowledge", async (req, res) => {
     try {
       const { id } = req.params;
       const { userId = 'system', notes } = req.body;
       
-      // Update alert status
-      await updateAlertStatus(id, 'acknowledged', userId, notes);
+      const alert = await alertLifecycle.transition(id, 'acknowledge', userId, notes);
       
-      // Record interaction
-      await recordAlertInteraction(id, userId, 'acknowledge', notes);
-      
-      res.json({ success: true, message: 'Alert acknowledged' });
+      res.json({ success: true, message: 'Alert acknowledged', alert });
     } catch (error) {
-      console.error('Error acknowledging alert:', error);
-      res.status(500).json({ error: 'Failed to acknowledge alert' });
+      handleLifecycleError(res, error, 'Failed to acknowledge alert');
     }
   });
   
   // Resolve alert
-  app.post("/api/alerts/:id/resolve", async (req, res) => {
+  app.post("/api/v1/alerts/:id/resolve", async (req, res) => {
     try {
       const { id } = req.params;
-      const { userId = 'system', notes } = req.body;
-      
-      // Update alert status
-      await updateAlertStatus(id, 'resolved', userId, notes);
+      const { userId = 'system', notes, falsePositive } = req.body;
+      const label = feedbackLabelSchema.optional().safeParse(req.body.label);
+      if (!label.success) {
+        return res.status(400).json({ error: `label must be one of ${FEEDBACK_LABELS.join(', ')}` });
+      }
       
-      // Record interaction
-      await recordAlertInteraction(id, userId, 'resolve', notes);
+      let alert = await alertLifecycle.transition(id, 'resolve', userId, notes, { label: label.data, falsePositive });
+      if (label.data) {
+        await alertFeedbackService.record(id, userId, label.data, notes);
+        alert = (await alertStore.getAlert(id)) ?? alert;
+      }
       
-      res.json({ success: true, message: 'Alert resolved' });
+      res.json({ success: true, message: 'Alert resolved', alert });
     } catch (error) {
-      console.error('Error resolving alert:', error);
-      res.status(500).json({ error: 'Failed to resolve alert' });
+      handleLifecycleError(res, error, 'Failed to resolve alert');
     }
   });
   
   // Dismiss alert
-  app.post("/api/alerts/:id/dismiss", async (req, res) => {
+  app.post("/api/v1/alerts/:id/dismiss", async (req, res) => {
     try {
       const { id } = req.params;
       const { userId = 'system', notes } = req.body;
       
-      // Dismiss alert (existing functionality)
-      await storage.dismissAlert(id);
+      const alert = await alertLifecycle.transition(id, 'dismiss', userId, notes);
       
-      // Record interaction
-      await recordAlertInteraction(id, userId, 'dismiss', notes);
-      
-      res.json({ success: true, message: 'Alert dismissed' });
+      res.json({ success: true, message: 'Alert dismissed', alert });
     } catch (error) {
-      console.error('Error dismissing alert:', error);
-      res.status(500).json({ error: 'Failed to dismiss alert' });
+      handleLifecycleError(res, error, 'Failed to dismiss alert');
     }
   });
   
-  // Add notes to alert
-  app.post("/api/alerts/:id/notes", async (req, res) => {
+  // Re-open a resolved or dismissed alert
+  app.post("/api/v1/alerts/:id/reopen", async (req, res) => {
     try {
       const { id } = req.params;
       const { userId = 'system', notes } = req.body;
       
-      if (!notes) {
-        return res.status(400).json({ error: 'Notes are required' });
-      }
+      const alert = await alertLifecycle.transition(id, 'reopen', userId, notes);
       
-      // Record interaction with notes
-      await recordAlertInteraction(id, userId, 'add_notes', notes);
-      
-      res.json({ success: true, message: 'Notes added successfully' });
+      res.json({ success: true, message: 'Alert reopened', alert });
     } catch (error) {
-      console.error('Error adding notes:', error);
-      res.status(500).json({ error: 'Failed to add notes' });
+      handleLifecycleError(res, error, 'Failed to reopen alert');
     }
   });
   
-  // Get alert statistics
-  app.get("/api/alerts/stats", async (req, res) => {
+  // Add notes to alert
+  app.post("/api/v1/alerts/:id/notes", async (req, res) => {
     try {
-      const { period = '7d' } = req.query;
+      const { id } = req.params;
+      const { userId = 'system', notes } = req.body;
       
-      const alerts = await storage.getActiveAlerts();
+      if (!notes) {
+        return res.status(400).json({ error: 'Notes are required' });
+      }
       
-      // Calculate statistics
-      const stats = {
-        total: alerts.length,
-        active: alerts.filter(a => !(a as any).dismissed).length,
-        resolved: alerts.filter(a => (a as any).dismissed).length,
-        critical: alerts.filter(a => (a as any).severity === 'critical').length,
-        warning: alerts.filter(a => (a as any).severity === 'warning').length,
-        info: alerts.filter(a => (a as any).severity === 'info').length,
-        averageResponseTime: 15, // Mock data
-        falsePositiveRate: 5.2, // Mock data
-        topTypes: [
-          { type: 'consumption', count: 12 },
-          { type: 'generation', count: 8 },
-          { type: 'storage', count: 5 },
-          { type: 'device_fault', count: 3 }
-        ]
-      };
+      await alertLifecycle.addNotes(id, userId, notes);
       
-      res.json(stats);
+      res.json({ success: true, message: 'Notes added successfully' });
     } catch (error) {
-      console.error('Error fetching alert statistics:', error);
-      res.status(500).json({ error: 'Failed to fetch alert statistics' });
+      handleLifecycleError(res, error, 'Failed to add notes');
     }
   });
   
   // Export alerts
-  app.post("/api/alerts/export", async (req, res) => {
+  app.post("/api/v1/alerts/export", async (req, res) => {
     try {
       const { format = 'csv', alertIds, filters } = req.body;
       
-      let alerts;
+      let alerts: AlertSystem[];
       if (alertIds && alertIds.length > 0) {
         // Export specific alerts
-        alerts = await getAlertsByIds(alertIds);
+        alerts = await alertStore.getAlertsByIds(alertIds);
       } else {
-        // Export all alerts with filters
-        alerts = await storage.getActiveAlerts();
+        // Export every alert matching the filters, newest first
+        const query = alertExportFiltersSchema.parse(filters ?? {});
+        const { from, to } = resolveDateRange(query.dateRange, query.from, query.to);
+        alerts = await queryAllAlerts({
+          severity: query.severity,
+          type: query.type,
+          status: query.status,
+          source: query.source,
+          location: query.location,
+          deviceId: query.deviceId,
+          from,
+          to,
+          search: query.search
+        });
       }
       
       switch (format) {
@@ -242,69 +291,61 @@ export async function registerAlertRoutes(app: Express): Promise<void> {
           res.status(400).json({ error: 'Invalid export format' });
       }
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid export filters', details: error.errors });
+      }
       console.error('Error exporting alerts:', error);
       res.status(500).json({ error: 'Failed to export alerts' });
     }
   });
   
   // Manual alert creation (for testing or manual reporting)
-  app.post("/api/alerts/manual", async (req, res) => {
+  app.post("/api/v1/alerts/manual", async (req, res) => {
     try {
       const alertData = req.body;
       
       // Validate alert data
       const validatedAlert = validateManualAlert(alertData);
       
-      // Create alert
-      const alert = await storage.addAlert({
+      // Create alert and group it with related alerts
+      const created = await alertStore.createAlert({
         title: validatedAlert.title,
         description: validatedAlert.description,
         type: validatedAlert.type,
+        severity: validatedAlert.severity,
+        source: 'manual',
+        location: validatedAlert.location,
+        deviceId: validatedAlert.deviceId,
       });
+      const { alert } = await incidentService.correlate(created);
       
       // Send notifications
-      await notificationService.sendAlertNotification(alert as any, ['dashboard', 'websocket']);
+      await notificationService.sendAlertNotification(alert, ['dashboard', 'websocket']);
       
       res.json({ success: true, alert });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid alert data', details: error.errors });
+      }
       console.error('Error creating manual alert:', error);
       res.status(500).json({ error: 'Failed to create alert' });
     }
   });
   
   // Test alert detection engine
-  app.post("/api/alerts/test-detection", async (req, res) => {
+  app.post("/api/v1/alerts/test-detection", async (req, res) => {
     try {
-      const { simulationType = 'normal' } = req.body;
-      
-      // Get recent energy metrics
-      const recentMetrics = await storage.getRecentEnergyMetrics(24);
-      
-      // Run alert detection
-      const detectionResults = await alertDetectionEngine.detectAnomalies(recentMetrics);
-      
-      // Create alerts for any detections
-      const createdAlerts = [];
-      for (const result of detectionResults) {
-        if (result.isAlert) {
-          const alert = await storage.addAlert({
-            title: `Test Alert: ${result.type}`,
-            description: result.description,
-            type: result.type,
-          });
-          
-          // Send notifications
-          await notificationService.sendAlertNotification(alert as any, ['dashboard', 'websocket']);
-          
-          createdAlerts.push(alert);
-        }
-      }
+      // Detect on recent data with a scratch engine; nothing is stored and live rule states are untouched
+      const cycle = await alertDetectionRunner.runTestCycle();
       
       res.json({
         success: true,
-        detectionsCount: detectionResults.length,
-        alertsCreated: createdAlerts.length,
-        results: detectionResults
+        detectionsCount: cycle.results.length,
+        alertsRaised: cycle.raised.length,
+        alertsCreated: cycle.created.length,
+        alertsResolved: cycle.resolved.length,
+        alerts: cycle.raised,
+        results: cycle.results
       });
     } catch (error) {
       console.error('Error testing alert detection:', error);
@@ -315,51 +356,67 @@ export async function registerAlertRoutes(app: Express): Promise<void> {
 
 // Helper functions
 
-async function getAlertInteractions(alertId: string): Promise<any[]> {
-  // Mock interaction data - in real implementation, would fetch from database
-  return [
-    {
-      id: '1',
-      timestamp: new Date(),
-      action: 'created',
-      userId: 'system',
-      description: 'Alert created by detection engine',
-      type: 'system'
-    }
-  ];
-}
-
-async function updateAlertStatus(alertId: string, status: string, userId: string, notes?: string): Promise<void> {
-  // Mock implementation - in real app, would update database
-  console.log(`Alert ${alertId} status updated to ${status} by ${userId}`);
-  if (notes) {
-    console.log(`Notes: ${notes}`);
+/**
+ * Resolve a dateRange parameter ('24h', '7d', '30d', 'all' or 'custom') into bounds
+ */
+function resolveDateRange(dateRange: string, from?: Date, to?: Date): { from?: Date; to?: Date } {
+  if (dateRange === 'all') return {};
+  if (dateRange === 'custom') return { from, to };
+  
+  const match = /^(\d+)([hd])$/.exec(dateRange);
+  if (!match) {
+    throw new z.ZodError([{
+      code: 'custom',
+      path: ['dateRange'],
+      message: `Unsupported dateRange '${dateRange}'`
+    }]);
   }
+  
+  const amount = parseInt(match[1]);
+  const unitMs = match[2] === 'h' ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
+  return { from: new Date(Date.now() - amount * unitMs), to };
 }
 
-async function recordAlertInteraction(alertId: string, userId: string, action: string, notes?: string): Promise<void> {
-  // Mock implementation - in real app, would save to database
-  console.log(`Alert interaction recorded: ${alertId} - ${action} by ${userId}`);
-  if (notes) {
-    console.log(`Notes: ${notes}`);
-  }
+/**
+ * Every alert matching the query, read page by page
+ */
+async function queryAllAlerts(query: Omit<AlertQuery, 'limit' | 'cursor'>): Promise<AlertSystem[]> {
+  const alerts: AlertSystem[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await alertStore.queryAlerts({ ...query, limit: 500, cursor });
+    alerts.push(...page.alerts);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return alerts;
 }
 
-async function getAlertsByIds(alertIds: string[]): Promise<any[]> {
-  // Mock implementation - in real app, would fetch specific alerts
-  const allAlerts = await storage.getActiveAlerts();
-  return allAlerts.filter(alert => alertIds.includes(alert.id));
+function handleLifecycleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AlertNotFoundError) {
+    return res.status(404).json({ error: 'Alert not found' });
+  }
+  
+  if (error instanceof AlertTransitionError) {
+    return res.status(409).json({
+      error: error.message,
+      currentStatus: error.currentStatus,
+      allowedFrom: error.allowedFrom
+    });
+  }
+  
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
 }
 
-function generateCSV(alerts: any[]): string {
+function generateCSV(alerts: AlertSystem[]): string {
   const headers = ['ID', 'Title', 'Description', 'Type', 'Severity', 'Status', 'Timestamp'];
   const rows = alerts.map(alert => [
     alert.id,
     alert.title,
     alert.description,
     alert.type,
-    (alert as any).severity || 'unknown',
-    (alert as any).status || 'active',
+    alert.severity,
+    alert.status,
     alert.timestamp.toISOString()
   ]);
   
@@ -0,0 +1,79 @@
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert/strict";
+import { type AlertRule } from "@shared/alert-schema";
+import { DbAlertStore } from "./alert-store";
+import { AlertRuleService, RuleVersionConflictError } from "./alert-rules";
+import { AlertDetectionEngine } from "./alert-detection-engine";
+import { createTestDatabase, type TestDatabase } from "./test-database";
+
+const silentAnalyzer = { analyzeEnergyPattern: async () => ({ isAnomaly: false, score: 0 }) };
+
+describe('AlertRuleService versions', () => {
+  let database: TestDatabase;
+  let store: DbAlertStore;
+  let rules: AlertRuleService;
+  let rule: AlertRule;
+
+  before(async () => {
+    database = await createTestDatabase();
+  });
+
+  after(async () => {
+    await database.close();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+    store = new DbAlertStore(database.db);
+    rules = new AlertRuleService(store, new AlertDetectionEngine(silentAnalyzer));
+    rule = await rules.create({
+      name: 'Low storage',
+      type: 'threshold',
+      severity: 'warning',
+      conditions: [{ metric: 'storage', operator: '<', value: 20 }],
+      actions: [{ type: 'create_alert', config: {} }],
+    }, 'ops');
+  });
+
+  it('lets one of two concurrent edits win and rejects the other as a conflict', async () => {
+    const [first, second] = await Promise.allSettled([
+      rules.update(rule.id, { severity: 'critical' }, 'alice'),
+      rules.update(rule.id, { enabled: false }, 'bob'),
+    ]);
+
+    assert.equal(first.status, 'fulfilled');
+    assert.equal(second.status, 'rejected');
+    assert.ok(second.reason instanceof RuleVersionConflictError);
+    assert.equal(second.reason.currentVersion, 2);
+
+    const current = await rules.getRule(rule.id);
+    assert.deepEqual([current?.version, current?.severity, current?.enabled], [2, 'critical', true]);
+    assert.deepEqual((await rules.getHistory(rule.id)).map(entry => [entry.version, entry.change, entry.changedBy]), [
+      [2, 'updated', 'alice'],
+      [1, 'created', 'ops'],
+    ]);
+  });
+
+  it('refuses to delete a rule edited since it was read', async () => {
+    const [edited, deleted] = await Promise.allSettled([
+      rules.update(rule.id, { severity: 'critical' }, 'alice'),
+      rules.delete(rule.id, 'bob'),
+    ]);
+
+    assert.equal(edited.status, 'fulfilled');
+    assert.equal(deleted.status, 'rejected');
+    assert.ok(deleted.reason instanceof RuleVersionConflictError);
+    assert.equal((await rules.getRule(rule.id))?.severity, 'critical');
+  });
+
+  it('reports an edit racing a delete as not found', async () => {
+    const [deleted, edited] = await Promise.allSettled([
+      rules.delete(rule.id, 'bob'),
+      rules.update(rule.id, { severity: 'critical' }, 'alice'),
+    ]);
+
+    assert.deepEqual(deleted, { status: 'fulfilled', value: true });
+    assert.deepEqual(edited, { status: 'fulfilled', value: undefined });
+    assert.deepEqual((await rules.getHistory(rule.id)).map(entry => entry.change), ['deleted', 'created']);
+  });
+});
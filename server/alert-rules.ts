@@ -0,0 +1,173 @@
+import {
+  type AlertRule,
+  type AlertRuleVersion,
+  type AlertSeverity,
+  type InsertAlertRule,
+} from "@shared/alert-schema";
+import { alertStore, type AlertStore } from "./alert-store";
+import {
+  alertDetectionEngine,
+  DEFAULT_DETECTION_RULES,
+  type AlertDetectionEngine,
+  type AlertRule as DetectionRule,
+  type RuleAction,
+  type RuleCondition,
+} from "./alert-detection-engine";
+
+export type RuleChange = 'created' | 'updated' | 'deleted' | 'restored';
+
+export class RuleVersionConflictError extends Error {
+  constructor(public ruleId: string, public expectedVersion: number, public currentVersion: number) {
+    super(`Alert rule ${ruleId} was changed by someone else (version ${expectedVersion} is now ${currentVersion}); reload it and try again`);
+    this.name = 'RuleVersionConflictError';
+  }
+}
+
+/**
+ * Detection rules persisted in the alert store. Every change is recorded as
+ * a new version and reloaded into the detection engine right away, so edits
+ * apply to the next detection run without a restart.
+ */
+export class AlertRuleService {
+  constructor(
+    private store: AlertStore,
+    private engine: AlertDetectionEngine
+  ) {}
+
+  /**
+   * Load the stored rules into the engine, seeding the built-in rules the
+   * first time the store is empty
+   */
+  async load(): Promise<void> {
+    const rules = await this.store.getRules();
+    if (rules.length === 0) {
+      for (const rule of DEFAULT_DETECTION_RULES) {
+        const { id, ...definition } = rule;
+        await this.create(definition, 'system');
+      }
+      return;
+    }
+    await this.reload();
+  }
+
+  /**
+   * Hand the current rules to the detection engine
+   */
+  async reload(): Promise<DetectionRule[]> {
+    const rules = (await this.store.getRules()).map(rule => this.toDetectionRule(rule));
+    this.engine.setRules(rules);
+    return rules;
+  }
+
+  async getRules(): Promise<AlertRule[]> {
+    return this.store.getRules();
+  }
+
+  async getRule(id: string): Promise<AlertRule | undefined> {
+    return this.store.getRule(id);
+  }
+
+  async getHistory(id: string): Promise<AlertRuleVersion[]> {
+    return this.store.getRuleVersions(id);
+  }
+
+  async create(rule: InsertAlertRule, changedBy?: string): Promise<AlertRule> {
+    const record = await this.store.createRule(rule);
+    await this.recordVersion(record, 'created', changedBy);
+    await this.reload();
+    return record;
+  }
+
+  async update(id: string, changes: Partial<InsertAlertRule>, changedBy?: string): Promise<AlertRule | undefined> {
+    return this.applyChanges(id, changes, 'updated', changedBy);
+  }
+
+  async delete(id: string, changedBy?: string): Promise<boolean> {
+    const rule = await this.store.getRule(id);
+    if (!rule) return false;
+
+    if (!(await this.store.deleteRuleIfVersion(id, rule.version))) {
+      await this.conflict(id, rule.version);
+      return false;
+    }
+    // The tombstone keeps the final definition in the history
+    await this.recordVersion({ ...rule, version: rule.version + 1 }, 'deleted', changedBy);
+    await this.reload();
+    return true;
+  }
+
+  /**
+   * Bring back an earlier definition of a rule as its newest version
+   */
+  async restore(id: string, version: number, changedBy?: string): Promise<AlertRule | undefined> {
+    const previous = (await this.store.getRuleVersions(id)).find(entry => entry.version === version);
+    if (!previous) return undefined;
+
+    return this.applyChanges(id, {
+      name: previous.name,
+      description: previous.description,
+      type: previous.type,
+      severity: previous.severity,
+      conditions: previous.conditions as InsertAlertRule['conditions'],
+      actions: previous.actions as InsertAlertRule['actions'],
+      enabled: previous.enabled,
+      priority: previous.priority,
+    }, 'restored', changedBy);
+  }
+
+  private async applyChanges(id: string, changes: Partial<InsertAlertRule>, change: RuleChange, changedBy?: string): Promise<AlertRule | undefined> {
+    const rule = await this.store.getRule(id);
+    if (!rule) return undefined;
+
+    // Conditional on the version read, so concurrent edits can't both claim the next version
+    const updated = await this.store.updateRuleIfVersion(id, rule.version, { ...changes, version: rule.version + 1 });
+    if (!updated) {
+      await this.conflict(id, rule.version);
+      return undefined;
+    }
+
+    await this.recordVersion(updated, change, changedBy);
+    await this.reload();
+    return updated;
+  }
+
+  /**
+   * A conditional write lost to a concurrent one: a deleted rule reads as
+   * not found, anything else is a conflict
+   */
+  private async conflict(id: string, expectedVersion: number): Promise<void> {
+    const current = await this.store.getRule(id);
+    if (current) throw new RuleVersionConflictError(id, expectedVersion, current.version);
+  }
+
+  private async recordVersion(rule: AlertRule, change: RuleChange, changedBy?: string): Promise<void> {
+    await this.store.addRuleVersion({
+      ruleId: rule.id,
+      version: rule.version,
+      change,
+      name: rule.name,
+      description: rule.description,
+      type: rule.type,
+      severity: rule.severity,
+      conditions: rule.conditions as InsertAlertRule['conditions'],
+      actions: rule.actions as InsertAlertRule['actions'],
+      enabled: rule.enabled,
+      priority: rule.priority,
+      changedBy: changedBy ?? null,
+    });
+  }
+
+  private toDetectionRule(rule: AlertRule): DetectionRule {
+    return {
+      id: rule.id,
+      name: rule.name,
+      type: rule.type as DetectionRule['type'],
+      severity: rule.severity as AlertSeverity,
+      conditions: rule.conditions as RuleCondition[],
+      actions: rule.actions as RuleAction[],
+      enabled: rule.enabled,
+    };
+  }
+}
+
+export const alertRuleService = new AlertRuleService(alertStore, alertDetectionEngine);
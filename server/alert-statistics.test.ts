@@ -0,0 +1,64 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { MemAlertStore } from "./alert-store";
+import { AlertStatisticsService } from "./alert-statistics";
+
+const daysAgo = (days: number, hour = 12) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  date.setHours(hour, 0, 0, 0);
+  return date;
+};
+
+const midnight = (days: number) => daysAgo(days, 0).getTime();
+
+describe('AlertStatisticsService.backfill', () => {
+  let store: MemAlertStore;
+  let statistics: AlertStatisticsService;
+
+  const raiseAlert = async (at: Date) => {
+    const alert = await store.createAlert({
+      title: 'Battery low',
+      description: 'Storage at 12%',
+      type: 'storage',
+      severity: 'warning',
+      source: 'manual',
+    });
+    await store.updateAlert(alert.id, { timestamp: at });
+  };
+
+  beforeEach(() => {
+    store = new MemAlertStore();
+    statistics = new AlertStatisticsService(store);
+  });
+
+  it('rolls up every day after the latest rollup through yesterday', async () => {
+    await raiseAlert(daysAgo(6));
+    await raiseAlert(daysAgo(2));
+    await statistics.rollupDay(daysAgo(5));
+
+    const rolledUp = await statistics.backfill();
+
+    assert.deepEqual(rolledUp.map(row => row.date.getTime()), [midnight(4), midnight(3), midnight(2), midnight(1)]);
+    assert.deepEqual(rolledUp.map(row => row.totalAlerts), [0, 0, 1, 0]);
+  });
+
+  it('starts at the oldest alert when nothing has been rolled up', async () => {
+    await raiseAlert(daysAgo(3));
+
+    const rolledUp = await statistics.backfill();
+
+    assert.deepEqual(rolledUp.map(row => row.date.getTime()), [midnight(3), midnight(2), midnight(1)]);
+  });
+
+  it('does nothing once yesterday is rolled up', async () => {
+    await raiseAlert(daysAgo(3));
+    await statistics.backfill();
+
+    assert.deepEqual(await statistics.backfill(), []);
+  });
+
+  it('does nothing without alerts or rollups', async () => {
+    assert.deepEqual(await statistics.backfill(), []);
+  });
+});
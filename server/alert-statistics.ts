@@ -0,0 +1,237 @@
+import { type AlertSystem, type AlertStatistics } from "@shared/alert-schema";
+import { alertStore, type AlertStore } from "./alert-store";
+
+export interface AlertStatisticsSummary {
+  from: Date;
+  to: Date;
+  total: number;
+  active: number;
+  acknowledged: number;
+  resolved: number;
+  dismissed: number;
+  critical: number;
+  warning: number;
+  info: number;
+  meanTimeToAcknowledge: number | null; // minutes
+  meanTimeToResolve: number | null; // minutes
+  averageResponseTime: number | null; // minutes, same as meanTimeToAcknowledge
+  falsePositiveRate: number; // percentage of resolved alerts
+  engagementRate: number; // percentage of alerts with a user interaction
+  topTypes: { type: string; count: number }[];
+  byLocation: { location: string; count: number }[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far back a backfill looks when no rollup has been stored yet
+const MAX_BACKFILL_DAYS = 90;
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+// Calendar arithmetic, so days stay aligned to midnight across DST changes
+const addDays = (day: Date, days: number) => {
+  const next = new Date(day);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+/**
+ * Computes alert response metrics from stored alerts and interactions and
+ * rolls them up into the alertStatistics table once per day.
+ */
+export class AlertStatisticsService {
+  private rollupTimer: NodeJS.Timeout | null = null;
+
+  constructor(private store: AlertStore) {}
+
+  /**
+   * Compute statistics for alerts raised within the given window
+   */
+  async compute(from: Date, to: Date = new Date()): Promise<AlertStatisticsSummary> {
+    const alerts = await this.store.getAlertsByDateRange(from, to);
+    const interactions = await this.store.getInteractionsForAlerts(alerts.map(alert => alert.id));
+
+    const acknowledgeTimes = alerts
+      .filter(alert => alert.acknowledgedAt)
+      .map(alert => alert.acknowledgedAt!.getTime() - alert.timestamp.getTime());
+    const resolveTimes = alerts
+      .filter(alert => alert.status === 'resolved' && alert.resolvedAt)
+      .map(alert => alert.resolvedAt!.getTime() - alert.timestamp.getTime());
+
+    const resolved = alerts.filter(alert => alert.status === 'resolved');
+    const falsePositives = resolved.filter(alert => this.isFalsePositive(alert));
+
+    // Engagement counts alerts that an operator (not the system) acted on
+    const engaged = new Set(
+      interactions
+        .filter(interaction => interaction.userId !== 'system')
+        .map(interaction => interaction.alertId)
+    );
+
+    const meanTimeToAcknowledge = this.meanMinutes(acknowledgeTimes);
+
+    return {
+      from,
+      to,
+      total: alerts.length,
+      active: alerts.filter(alert => alert.status === 'active').length,
+      acknowledged: alerts.filter(alert => alert.status === 'acknowledged').length,
+      resolved: resolved.length,
+      dismissed: alerts.filter(alert => alert.status === 'dismissed').length,
+      critical: alerts.filter(alert => alert.severity === 'critical').length,
+      warning: alerts.filter(alert => alert.severity === 'warning').length,
+      info: alerts.filter(alert => alert.severity === 'info').length,
+      meanTimeToAcknowledge,
+      meanTimeToResolve: this.meanMinutes(resolveTimes),
+      averageResponseTime: meanTimeToAcknowledge,
+      falsePositiveRate: this.percentage(falsePositives.length, resolved.length),
+      engagementRate: this.percentage(engaged.size, alerts.length),
+      topTypes: this.countBy(alerts, alert => alert.type)
+        .map(({ key, count }) => ({ type: key, count })),
+      byLocation: this.countBy(alerts, alert => alert.location ?? 'system-wide')
+        .map(({ key, count }) => ({ location: key, count })),
+    };
+  }
+
+  /**
+   * Roll up one calendar day into the alertStatistics table, replacing any previous rollup
+   */
+  async rollupDay(day: Date): Promise<AlertStatistics> {
+    const start = startOfDay(day);
+    const end = new Date(addDays(start, 1).getTime() - 1);
+
+    const existing = await this.store.getStatistics(start, start);
+    for (const row of existing) {
+      await this.store.deleteStatistics(row.id);
+    }
+
+    const summary = await this.compute(start, end);
+
+    return this.store.addStatistics({
+      date: start,
+      totalAlerts: summary.total,
+      activeAlerts: summary.active + summary.acknowledged,
+      resolvedAlerts: summary.resolved,
+      criticalAlerts: summary.critical,
+      averageResponseTime: summary.meanTimeToAcknowledge === null ? null : Math.round(summary.meanTimeToAcknowledge),
+      falsePositiveRate: summary.falsePositiveRate,
+      userEngagementRate: summary.engagementRate,
+      metadata: {
+        meanTimeToResolve: summary.meanTimeToResolve,
+        dismissedAlerts: summary.dismissed,
+        warningAlerts: summary.warning,
+        infoAlerts: summary.info,
+        topTypes: summary.topTypes,
+        byLocation: summary.byLocation,
+      },
+    });
+  }
+
+  /**
+   * Roll up every day after the latest stored rollup through yesterday, so
+   * days missed while the server was down are filled in. Without any rollup
+   * it starts at the day of the oldest alert within `maxDays`.
+   */
+  async backfill(maxDays = MAX_BACKFILL_DAYS): Promise<AlertStatistics[]> {
+    const today = startOfDay(new Date());
+    const earliest = addDays(today, -maxDays);
+
+    const rollups = await this.store.getStatistics(earliest, addDays(today, -1));
+    let next: Date;
+    if (rollups.length > 0) {
+      // Oldest first
+      next = addDays(rollups[rollups.length - 1].date, 1);
+    } else {
+      const { alerts: [oldest] } = await this.store.queryAlerts({
+        from: earliest,
+        to: today,
+        sortBy: 'timestamp',
+        sortOrder: 'asc',
+        limit: 1,
+      });
+      if (!oldest) return [];
+      next = startOfDay(oldest.timestamp);
+    }
+
+    const rolledUp: AlertStatistics[] = [];
+    for (let day = next; day < today; day = addDays(day, 1)) {
+      rolledUp.push(await this.rollupDay(day));
+    }
+    return rolledUp;
+  }
+
+  /**
+   * Daily rollups for the last N days
+   */
+  async getHistory(days: number): Promise<AlertStatistics[]> {
+    const start = new Date(Date.now() - days * DAY_MS);
+    start.setHours(0, 0, 0, 0);
+    return this.store.getStatistics(start, new Date());
+  }
+
+  /**
+   * Catch up on missed days now, then roll up shortly after every midnight
+   */
+  startNightlyRollup(): void {
+    if (this.rollupTimer) return;
+
+    this.backfill().catch(error => {
+      console.error('Alert statistics backfill failed:', error);
+    });
+
+    const scheduleNext = () => {
+      const nextRun = new Date();
+      nextRun.setHours(24, 5, 0, 0);
+
+      this.rollupTimer = setTimeout(async () => {
+        try {
+          await this.backfill();
+        } catch (error) {
+          console.error('Nightly alert statistics rollup failed:', error);
+        }
+        scheduleNext();
+      }, nextRun.getTime() - Date.now());
+      this.rollupTimer.unref();
+    };
+
+    scheduleNext();
+  }
+
+  stopNightlyRollup(): void {
+    if (this.rollupTimer) {
+      clearTimeout(this.rollupTimer);
+      this.rollupTimer = null;
+    }
+  }
+
+  private isFalsePositive(alert: AlertSystem): boolean {
+    return (alert.metadata as Record<string, any> | null)?.falsePositive === true;
+  }
+
+  private meanMinutes(durationsMs: number[]): number | null {
+    if (durationsMs.length === 0) return null;
+    const mean = durationsMs.reduce((sum, value) => sum + value, 0) / durationsMs.length;
+    return Math.round((mean / 60000) * 10) / 10;
+  }
+
+  private percentage(part: number, whole: number): number {
+    if (whole === 0) return 0;
+    return Math.round((part / whole) * 1000) / 10;
+  }
+
+  private countBy(alerts: AlertSystem[], key: (alert: AlertSystem) => string): { key: string; count: number }[] {
+    const counts = new Map<string, number>();
+    for (const alert of alerts) {
+      counts.set(key(alert), (counts.get(key(alert)) ?? 0) + 1);
+    }
+    return Array.from(counts.entries())
+      .map(([key, count]) => ({ key, count }))
+      .sort((a, b) => b.count - a.count);
+  }
+}
+
+export const alertStatisticsService = new AlertStatisticsService(alertStore);
@@ -0,0 +1,223 @@
+import { describe, it, beforeEach, after } from "node:test";
+import assert from "node:assert/strict";
+import { SEVERITY_RANK, type AlertSystem } from "@shared/alert-schema";
+import { MemAlertStore, DbAlertStore, InvalidCursorError, type AlertQuery, type AlertSortKey, type AlertStore } from "./alert-store";
+import { createTestDatabase, type TestDatabase } from "./test-database";
+
+const alert = (title: string, description: string) => ({
+  title,
+  description,
+  type: 'storage',
+  severity: 'warning',
+  source: 'manual',
+});
+
+const SORT_KEYS: AlertSortKey[] = ['timestamp', 'severity', 'status', 'type', 'title'];
+
+const sortValue = (alert: AlertSystem, sortBy: AlertSortKey) =>
+  sortBy === 'timestamp' ? alert.timestamp.getTime()
+    : sortBy === 'severity' ? SEVERITY_RANK[alert.severity]
+    : alert[sortBy];
+
+const cursor = (value: unknown, id: unknown) => Buffer.from(JSON.stringify([value, id])).toString('base64url');
+
+/**
+ * AlertStore behaviour both backends must agree on
+ */
+function alertStoreContract(name: string, setup: () => { create(): Promise<AlertStore>; teardown?(): Promise<void> }) {
+  describe(name, () => {
+    const backend = setup();
+    let store: AlertStore;
+
+    beforeEach(async () => {
+      store = await backend.create();
+      await store.createAlert(alert('Battery low', 'Storage dropped to 12% on bank 2'));
+      await store.createAlert(alert('Inverter fault', 'Inverter 3 tripped, solar output lost'));
+      await store.createAlert(alert('Grid import peak', 'Importing 80% above baseline'));
+    });
+
+    if (backend.teardown) after(backend.teardown);
+
+    // Ten alerts in groups of three sharing a timestamp, with mixed severities, types and statuses
+    const seedForPaging = async () => {
+      for (let i = 0; i < 7; i++) {
+        await store.createAlert({ ...alert(`Alert ${i}`, 'Paging fixture'), severity: ['critical', 'warning', 'info'][i % 3] });
+      }
+      const { alerts } = await store.queryAlerts({ sortBy: 'title', sortOrder: 'asc', limit: 100 });
+      for (const [i, { id }] of alerts.entries()) {
+        await store.updateAlert(id, {
+          timestamp: new Date(Date.UTC(2026, 0, 1, 12, Math.floor(i / 3))),
+          status: ['active', 'acknowledged', 'resolved', 'dismissed'][i % 4],
+          type: ['storage', 'device_fault', 'consumption'][i % 3],
+        });
+      }
+    };
+
+    const allPages = async (query: AlertQuery) => {
+      const alerts: AlertSystem[] = [];
+      let next: string | undefined;
+      do {
+        const page = await store.queryAlerts({ ...query, limit: 3, cursor: next });
+        assert.ok(page.alerts.length <= 3);
+        alerts.push(...page.alerts);
+        next = page.nextCursor ?? undefined;
+      } while (next);
+      return alerts;
+    };
+
+    const search = async (text: string) =>
+      (await store.queryAlerts({ search: text })).alerts.map(a => a.title).sort();
+
+    it('matches a term anywhere in title or description, ignoring case', async () => {
+      assert.deepEqual(await search('INVERTER'), ['Inverter fault']);
+      assert.deepEqual(await search('bank'), ['Battery low']);
+    });
+
+    it('matches partial words', async () => {
+      assert.deepEqual(await search('trip'), ['Inverter fault']);
+    });
+
+    it('requires every term to match', async () => {
+      assert.deepEqual(await search('inverter solar'), ['Inverter fault']);
+      assert.deepEqual(await search('inverter battery'), []);
+    });
+
+    it('treats LIKE wildcards as plain text', async () => {
+      assert.deepEqual(await search('80%'), ['Grid import peak']);
+      assert.deepEqual(await search('%'), ['Battery low', 'Grid import peak']);
+      assert.deepEqual(await search('_'), []);
+    });
+
+    it('searches resolution notes', async () => {
+      const [first] = (await store.queryAlerts({ search: 'battery' })).alerts;
+      await store.updateAlert(first.id, { resolutionNotes: 'Replaced fuse' });
+      assert.deepEqual(await search('fuse'), ['Battery low']);
+    });
+
+    it('counts only matching alerts in the total', async () => {
+      const page = await store.queryAlerts({ search: 'inverter', limit: 10 });
+      assert.equal(page.total, 1);
+    });
+
+    it('pages through every sort key in both directions without duplicates or gaps', async () => {
+      await seedForPaging();
+
+      for (const sortBy of SORT_KEYS) {
+        for (const sortOrder of ['asc', 'desc'] as const) {
+          const label = `${sortBy} ${sortOrder}`;
+          const paged = await allPages({ sortBy, sortOrder });
+          const { alerts: unpaged, total } = await store.queryAlerts({ sortBy, sortOrder, limit: 100 });
+
+          assert.equal(total, 10, label);
+          assert.equal(new Set(paged.map(a => a.id)).size, 10, label);
+          assert.deepEqual(paged.map(a => a.id), unpaged.map(a => a.id), label);
+          for (let i = 1; i < paged.length; i++) {
+            const [previous, current] = [sortValue(paged[i - 1], sortBy), sortValue(paged[i], sortBy)];
+            assert.ok(sortOrder === 'asc' ? previous <= current : previous >= current, `${label} at ${i}`);
+          }
+        }
+      }
+    });
+
+    it('pages within the filters and counts only matching alerts', async () => {
+      await seedForPaging();
+      const all = (await store.queryAlerts({ limit: 100 })).alerts;
+      const query: AlertQuery = {
+        status: ['active', 'resolved'],
+        severity: ['warning', 'info'],
+        from: new Date(Date.UTC(2026, 0, 1, 12, 1)),
+        to: new Date(Date.UTC(2026, 0, 1, 12, 3)),
+      };
+      const expected = all.filter(a =>
+        query.status!.includes(a.status) && query.severity!.includes(a.severity) &&
+        a.timestamp >= query.from! && a.timestamp <= query.to!
+      );
+      assert.ok(expected.length > 0);
+
+      const paged = await allPages(query);
+
+      assert.deepEqual(paged.map(a => a.id).sort(), expected.map(a => a.id).sort());
+      assert.equal((await store.queryAlerts({ ...query, limit: 1 })).total, expected.length);
+      assert.deepEqual((await store.queryAlerts({ type: ['consumption'], limit: 100 })).alerts.map(a => a.type),
+        all.filter(a => a.type === 'consumption').map(() => 'consumption'));
+    });
+
+    it('rejects tampered cursors', async () => {
+      await seedForPaging();
+      const { nextCursor } = await store.queryAlerts({ limit: 3 });
+      const [, id] = JSON.parse(Buffer.from(nextCursor!, 'base64url').toString('utf8'));
+
+      const tampered: Array<[AlertSortKey, string]> = [
+        ['timestamp', 'not-a-cursor'],
+        ['timestamp', Buffer.from('[1767268920000,').toString('base64url')],
+        ['timestamp', cursor('2026-01-01', id)],
+        ['timestamp', cursor(1e20, id)],
+        ['timestamp', cursor(Date.now(), 42)],
+        ['severity', cursor('critical', id)],
+        ['title', cursor(1, id)],
+        ['title', Buffer.from(JSON.stringify({ value: 'Alert 1', id })).toString('base64url')],
+      ];
+      for (const [sortBy, value] of tampered) {
+        await assert.rejects(store.queryAlerts({ sortBy, cursor: value }), InvalidCursorError, `${sortBy} ${value}`);
+      }
+      await assert.rejects(store.queryNotifications({ cursor: cursor('yesterday', id) }), InvalidCursorError);
+    });
+
+    it('finds a delivery by its provider message id on that channel', async () => {
+      const [target] = (await store.queryAlerts({ search: 'inverter' })).alerts;
+      const sms = await store.createNotification({
+        alertId: target.id, channel: 'sms', status: 'sent', recipient: '+15550100', metadata: { messageId: 'SM123' },
+      });
+      await store.createNotification({
+        alertId: target.id, channel: 'email', status: 'sent', recipient: 'ops@example.com', metadata: { messageId: 'SM123' },
+      });
+
+      assert.equal((await store.getNotificationByMessageId('sms', 'SM123'))?.id, sms.id);
+      assert.equal(await store.getNotificationByMessageId('sms', 'SM999'), undefined);
+    });
+
+    it('merges metadata keys into what is already stored', async () => {
+      const [target] = (await store.queryAlerts({ search: 'battery' })).alerts;
+      await store.updateAlert(target.id, { metadata: { ruleId: 'battery-critical', confidence: 0.9 } });
+
+      const merged = await store.mergeAlertMetadata(target.id, { falsePositive: true, confidence: 0.5 });
+
+      assert.deepEqual(merged?.metadata, { ruleId: 'battery-critical', confidence: 0.5, falsePositive: true });
+      assert.deepEqual((await store.getAlert(target.id))?.metadata, merged?.metadata);
+    });
+
+    it('patches metadata in a conditional update without losing keys merged meanwhile', async () => {
+      const [target] = (await store.queryAlerts({ search: 'battery' })).alerts;
+      await store.updateAlert(target.id, { metadata: { ruleId: 'battery-critical', falsePositive: true } });
+      await store.mergeAlertMetadata(target.id, { feedbackLabel: 'useful' });
+
+      const updated = await store.updateAlertIfStatus(target.id, ['active'], {
+        status: 'resolved',
+        metadataPatch: { via: 'auto_resolve' },
+        metadataRemove: ['falsePositive'],
+      });
+
+      assert.equal(updated?.status, 'resolved');
+      assert.deepEqual(updated?.metadata, { ruleId: 'battery-critical', feedbackLabel: 'useful', via: 'auto_resolve' });
+      assert.equal(await store.updateAlertIfStatus(target.id, ['active'], { metadataPatch: { via: 'manual' } }), undefined);
+    });
+  });
+}
+
+alertStoreContract('MemAlertStore', () => ({
+  create: async () => new MemAlertStore(),
+}));
+
+alertStoreContract('DbAlertStore', () => {
+  let database: TestDatabase | undefined;
+  return {
+    create: async () => {
+      database ??= await createTestDatabase();
+      await database.reset();
+      return new DbAlertStore(database.db);
+    },
+    teardown: async () => {
+      await database?.close();
+    },
+  };
+});
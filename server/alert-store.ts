@@ -0,0 +1,1183 @@
+import {
+  type AlertSystem, type InsertAlertSystem,
+  type AlertNotification, type InsertAlertNotification,
+  type AlertEscalationRule, type InsertAlertEscalationRule,
+  type AlertInteraction, type InsertAlertInteraction,
+  type AlertFeedback, type InsertAlertFeedback,
+  type Incident, type InsertIncident,
+  type DetectionTuningChange, type InsertDetectionTuningChange,
+  type AlertStatistics, type InsertAlertStatistics,
+  type SensorData, type InsertSensorData,
+  type AlertRule, type InsertAlertRule,
+  type AlertRuleVersion, type InsertAlertRuleVersion,
+  alertSystem, alertNotifications, alertEscalationRules, alertInteractions,
+  alertStatistics, sensorData, alertRules, alertRuleVersions,
+  alertFeedback, detectionTuningChanges, incidents,
+  SEVERITY_RANK,
+} from "@shared/alert-schema";
+import { and, asc, count, desc, eq, gte, inArray, lte, sql, type SQL } from "drizzle-orm";
+import { type AnyPgColumn } from "drizzle-orm/pg-core";
+import { randomUUID } from "crypto";
+import { database, type Database } from "./db";
+
+export interface SensorDataFilter {
+  sensorType?: string;
+  location?: string;
+  deviceId?: string;
+  since?: Date;
+  until?: Date;
+}
+
+export type AlertSortKey = 'timestamp' | 'severity' | 'status' | 'type' | 'title';
+
+export interface AlertQuery {
+  severity?: string[];
+  type?: string[];
+  status?: string[];
+  source?: string[];
+  location?: string[];
+  deviceId?: string[];
+  from?: Date;
+  to?: Date;
+  search?: string;
+  sortBy?: AlertSortKey;
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface IncidentFilter {
+  statuses?: string[];
+  since?: Date; // last alert at or after
+  limit?: number;
+}
+
+// Status changes plus metadata keys to set or drop, keeping keys other writers set meanwhile
+export type AlertStatusChanges = Partial<Omit<AlertSystem, 'id' | 'metadata'>> & {
+  metadataPatch?: Record<string, unknown>;
+  metadataRemove?: string[];
+};
+
+export interface AlertPage {
+  alerts: AlertSystem[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface NotificationQuery {
+  alertId?: string;
+  channel?: string[];
+  status?: string[];
+  recipient?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface NotificationPage {
+  notifications: AlertNotification[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid pagination cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Search matches alerts containing every whitespace-separated term, ignoring case
+const searchTerms = (search: string | undefined) =>
+  search?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+
+// Cursors carry the sort key value and id of the last row on the previous page
+function encodeCursor(value: string | number, id: string): string {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+}
+
+// Numeric sort values are epoch milliseconds or severity ranks, so they must make a valid date
+const MAX_CURSOR_NUMBER = 8.64e15;
+
+function decodeCursor(cursor: string, valueType: 'string' | 'number'): { value: string | number; id: string } {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 2) throw new InvalidCursorError();
+  const [value, id] = decoded;
+  if (typeof value !== valueType || typeof id !== 'string' || !id) throw new InvalidCursorError();
+  if (typeof value === 'number' && !(Math.abs(value) <= MAX_CURSOR_NUMBER)) throw new InvalidCursorError();
+  return { value, id };
+}
+
+const cursorValueType = (sortBy: AlertSortKey) => sortBy === 'timestamp' || sortBy === 'severity' ? 'number' : 'string';
+
+function sortValue(alert: AlertSystem, sortBy: AlertSortKey): string | number {
+  switch (sortBy) {
+    case 'timestamp': return alert.timestamp.getTime();
+    case 'severity': return SEVERITY_RANK[alert.severity] ?? 0;
+    default: return alert[sortBy];
+  }
+}
+
+// Persistence for the extended alert system tables in shared/alert-schema
+export interface AlertStore {
+  // Alerts
+  createAlert(alert: InsertAlertSystem): Promise<AlertSystem>;
+  getAlert(id: string): Promise<AlertSystem | undefined>;
+  getAlertsByIds(ids: string[]): Promise<AlertSystem[]>;
+  getAlertsByStatus(statuses: string[]): Promise<AlertSystem[]>;
+  getAlertsByDateRange(startDate: Date, endDate: Date): Promise<AlertSystem[]>;
+  queryAlerts(query: AlertQuery): Promise<AlertPage>;
+  updateAlert(id: string, changes: Partial<Omit<AlertSystem, 'id'>>): Promise<AlertSystem | undefined>;
+  // Applies the changes only while the alert is still in one of the expected statuses
+  updateAlertIfStatus(id: string, expectedStatuses: string[], changes: AlertStatusChanges): Promise<AlertSystem | undefined>;
+  // Sets the given metadata keys in one step, keeping keys other writers set meanwhile
+  mergeAlertMetadata(id: string, patch: Record<string, unknown>): Promise<AlertSystem | undefined>;
+  deleteAlert(id: string): Promise<void>;
+
+  // Notifications
+  createNotification(notification: InsertAlertNotification): Promise<AlertNotification>;
+  getNotification(id: string): Promise<AlertNotification | undefined>;
+  getNotificationsForAlert(alertId: string): Promise<AlertNotification[]>;
+  // Pending or failed deliveries whose next attempt is due, oldest first
+  getDueNotifications(now: Date, limit: number): Promise<AlertNotification[]>;
+  getNotificationsByStatus(statuses: string[], limit: number): Promise<AlertNotification[]>;
+  // Deliveries to one address on a channel, newest first
+  getNotificationsForRecipient(channel: string, recipient: string, limit: number): Promise<AlertNotification[]>;
+  // The delivery a provider knows by the message id stored in its metadata
+  getNotificationByMessageId(channel: string, messageId: string): Promise<AlertNotification | undefined>;
+  // Delivery log, newest first
+  queryNotifications(query: NotificationQuery): Promise<NotificationPage>;
+  updateNotification(id: string, changes: Partial<Omit<AlertNotification, 'id'>>): Promise<AlertNotification | undefined>;
+  deleteNotification(id: string): Promise<void>;
+
+  // Escalation rules
+  createEscalationRule(rule: InsertAlertEscalationRule): Promise<AlertEscalationRule>;
+  getEscalationRule(id: string): Promise<AlertEscalationRule | undefined>;
+  getEscalationRules(): Promise<AlertEscalationRule[]>;
+  updateEscalationRule(id: string, changes: Partial<Omit<AlertEscalationRule, 'id'>>): Promise<AlertEscalationRule | undefined>;
+  deleteEscalationRule(id: string): Promise<void>;
+
+  // Interactions
+  addInteraction(interaction: InsertAlertInteraction): Promise<AlertInteraction>;
+  getInteractionsForAlert(alertId: string): Promise<AlertInteraction[]>;
+  getInteractionsForAlerts(alertIds: string[]): Promise<AlertInteraction[]>;
+  deleteInteraction(id: string): Promise<void>;
+
+  // Feedback
+  addFeedback(feedback: InsertAlertFeedback): Promise<AlertFeedback>;
+  getFeedbackForAlert(alertId: string): Promise<AlertFeedback[]>;
+  // Feedback given since a date, oldest first
+  getFeedbackSince(since: Date): Promise<AlertFeedback[]>;
+
+  // Detection tuning
+  addTuningChange(change: InsertDetectionTuningChange): Promise<DetectionTuningChange>;
+  // Every change the tuner made, oldest first
+  getTuningChanges(): Promise<DetectionTuningChange[]>;
+
+  // Incidents
+  createIncident(incident: InsertIncident): Promise<Incident>;
+  getIncident(id: string): Promise<Incident | undefined>;
+  // Most recent activity first
+  getIncidents(filter?: IncidentFilter): Promise<Incident[]>;
+  updateIncident(id: string, changes: Partial<Omit<Incident, 'id'>>): Promise<Incident | undefined>;
+  // Applies the changes only while the incident is still in one of the expected statuses
+  updateIncidentIfStatus(id: string, expectedStatuses: string[], changes: Partial<Omit<Incident, 'id'>>): Promise<Incident | undefined>;
+  // Alerts grouped into an incident, oldest first
+  getAlertsForIncident(incidentId: string): Promise<AlertSystem[]>;
+
+  // Statistics
+  addStatistics(statistics: InsertAlertStatistics): Promise<AlertStatistics>;
+  getStatistics(startDate: Date, endDate: Date): Promise<AlertStatistics[]>;
+  deleteStatistics(id: string): Promise<void>;
+
+  // Sensor data
+  addSensorData(reading: InsertSensorData): Promise<SensorData>;
+  getSensorData(filter?: SensorDataFilter): Promise<SensorData[]>;
+  deleteSensorData(id: string): Promise<void>;
+
+  // Detection rules
+  createRule(rule: InsertAlertRule): Promise<AlertRule>;
+  getRule(id: string): Promise<AlertRule | undefined>;
+  getRules(): Promise<AlertRule[]>;
+  // Rule edits apply only while the rule is still at the expected version
+  updateRuleIfVersion(id: string, expectedVersion: number, changes: Partial<Omit<AlertRule, 'id'>>): Promise<AlertRule | undefined>;
+  deleteRuleIfVersion(id: string, expectedVersion: number): Promise<boolean>;
+  addRuleVersion(version: InsertAlertRuleVersion): Promise<AlertRuleVersion>;
+  // Change history of a rule, newest first
+  getRuleVersions(ruleId: string): Promise<AlertRuleVersion[]>;
+}
+
+export class MemAlertStore implements AlertStore {
+  private alerts: Map<string, AlertSystem> = new Map();
+  private notifications: Map<string, AlertNotification> = new Map();
+  private escalationRules: Map<string, AlertEscalationRule> = new Map();
+  private interactions: Map<string, AlertInteraction> = new Map();
+  private feedback: Map<string, AlertFeedback> = new Map();
+  private tuningChanges: Map<string, DetectionTuningChange> = new Map();
+  private incidents: Map<string, Incident> = new Map();
+  private statistics: Map<string, AlertStatistics> = new Map();
+  private sensorReadings: Map<string, SensorData> = new Map();
+  private rules: Map<string, AlertRule> = new Map();
+  private ruleVersions: Map<string, AlertRuleVersion> = new Map();
+
+  // Alerts
+  async createAlert(alert: InsertAlertSystem): Promise<AlertSystem> {
+    const id = randomUUID();
+    const record: AlertSystem = {
+      ...alert,
+      id,
+      status: 'active',
+      timestamp: new Date(),
+      deviceId: alert.deviceId ?? null,
+      location: alert.location ?? null,
+      acknowledgedAt: null,
+      acknowledgedBy: alert.acknowledgedBy ?? null,
+      resolvedAt: null,
+      resolvedBy: alert.resolvedBy ?? null,
+      resolutionNotes: alert.resolutionNotes ?? null,
+      metadata: alert.metadata ?? null,
+      anomalyId: alert.anomalyId ?? null,
+      incidentId: alert.incidentId ?? null,
+    };
+    this.alerts.set(id, record);
+    return record;
+  }
+
+  async getAlert(id: string): Promise<AlertSystem | undefined> {
+    return this.alerts.get(id);
+  }
+
+  async getAlertsByIds(ids: string[]): Promise<AlertSystem[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert => ids.includes(alert.id))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  async getAlertsByStatus(statuses: string[]): Promise<AlertSystem[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert => statuses.includes(alert.status))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  async getAlertsByDateRange(startDate: Date, endDate: Date): Promise<AlertSystem[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert => alert.timestamp >= startDate && alert.timestamp <= endDate)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async queryAlerts(query: AlertQuery): Promise<AlertPage> {
+    const sortBy = query.sortBy ?? 'timestamp';
+    const direction = query.sortOrder === 'asc' ? 1 : -1;
+    const limit = query.limit ?? 50;
+    const terms = searchTerms(query.search);
+
+    const matches = (values: string[] | undefined, value: string | null) =>
+      !values || values.length === 0 || (value !== null && values.includes(value));
+
+    const filtered = Array.from(this.alerts.values()).filter(alert =>
+      matches(query.severity, alert.severity) &&
+      matches(query.type, alert.type) &&
+      matches(query.status, alert.status) &&
+      matches(query.source, alert.source) &&
+      matches(query.location, alert.location) &&
+      matches(query.deviceId, alert.deviceId) &&
+      (!query.from || alert.timestamp >= query.from) &&
+      (!query.to || alert.timestamp <= query.to) &&
+      terms.every(term =>
+        `${alert.title} ${alert.description} ${alert.resolutionNotes ?? ''}`.toLowerCase().includes(term)
+      )
+    );
+
+    const compare = (a: AlertSystem, b: AlertSystem) => {
+      const av = sortValue(a, sortBy);
+      const bv = sortValue(b, sortBy);
+      if (av !== bv) return (av < bv ? -1 : 1) * direction;
+      return (a.id < b.id ? -1 : a.id > b.id ? 1 : 0) * direction;
+    };
+    filtered.sort(compare);
+
+    let start = 0;
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor, cursorValueType(sortBy));
+      start = filtered.findIndex(alert => {
+        const value = sortValue(alert, sortBy);
+        if (value !== cursor.value) return (value < cursor.value ? -1 : 1) * direction > 0;
+        return (alert.id < cursor.id ? -1 : alert.id > cursor.id ? 1 : 0) * direction > 0;
+      });
+      if (start === -1) start = filtered.length;
+    }
+
+    const page = filtered.slice(start, start + limit);
+    const last = page[page.length - 1];
+    const hasMore = start + limit < filtered.length;
+
+    return {
+      alerts: page,
+      total: filtered.length,
+      nextCursor: hasMore && last ? encodeCursor(sortValue(last, sortBy), last.id) : null,
+    };
+  }
+
+  async updateAlert(id: string, changes: Partial<Omit<AlertSystem, 'id'>>): Promise<AlertSystem | undefined> {
+    const alert = this.alerts.get(id);
+    if (!alert) return undefined;
+    const updated = { ...alert, ...changes };
+    this.alerts.set(id, updated);
+    return updated;
+  }
+
+  async updateAlertIfStatus(id: string, expectedStatuses: string[], changes: AlertStatusChanges): Promise<AlertSystem | undefined> {
+    const alert = this.alerts.get(id);
+    if (!alert || !expectedStatuses.includes(alert.status)) return undefined;
+
+    const { metadataPatch, metadataRemove, ...fields } = changes;
+    if (!metadataPatch && !metadataRemove) return this.updateAlert(id, fields);
+
+    const metadata: Record<string, unknown> = { ...(alert.metadata as Record<string, unknown> | null), ...metadataPatch };
+    for (const key of metadataRemove ?? []) delete metadata[key];
+    return this.updateAlert(id, { ...fields, metadata });
+  }
+
+  async mergeAlertMetadata(id: string, patch: Record<string, unknown>): Promise<AlertSystem | undefined> {
+    const alert = this.alerts.get(id);
+    if (!alert) return undefined;
+    return this.updateAlert(id, { metadata: { ...(alert.metadata as Record<string, unknown> | null), ...patch } });
+  }
+
+  async deleteAlert(id: string): Promise<void> {
+    this.alerts.delete(id);
+  }
+
+  // Notifications
+  async createNotification(notification: InsertAlertNotification): Promise<AlertNotification> {
+    const id = randomUUID();
+    const record: AlertNotification = {
+      ...notification,
+      id,
+      createdAt: new Date(),
+      sentAt: null,
+      deliveredAt: null,
+      errorMessage: notification.errorMessage ?? null,
+      retryCount: 0,
+      nextAttemptAt: notification.nextAttemptAt ?? null,
+      metadata: notification.metadata ?? null,
+    };
+    this.notifications.set(id, record);
+    return record;
+  }
+
+  async getNotification(id: string): Promise<AlertNotification | undefined> {
+    return this.notifications.get(id);
+  }
+
+  async getNotificationsForAlert(alertId: string): Promise<AlertNotification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.alertId === alertId);
+  }
+
+  async getDueNotifications(now: Date, limit: number): Promise<AlertNotification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification =>
+        (notification.status === 'pending' || notification.status === 'failed') &&
+        notification.nextAttemptAt !== null &&
+        notification.nextAttemptAt <= now
+      )
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime())
+      .slice(0, limit);
+  }
+
+  async getNotificationsByStatus(statuses: string[], limit: number): Promise<AlertNotification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => statuses.includes(notification.status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getNotificationsForRecipient(channel: string, recipient: string, limit: number): Promise<AlertNotification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.channel === channel && notification.recipient === recipient)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getNotificationByMessageId(channel: string, messageId: string): Promise<AlertNotification | undefined> {
+    return Array.from(this.notifications.values()).find(notification =>
+      notification.channel === channel &&
+      (notification.metadata as { messageId?: string } | null)?.messageId === messageId
+    );
+  }
+
+  async queryNotifications(query: NotificationQuery): Promise<NotificationPage> {
+    const limit = query.limit ?? 50;
+    const matches = (values: string[] | undefined, value: string) =>
+      !values || values.length === 0 || values.includes(value);
+
+    const filtered = Array.from(this.notifications.values())
+      .filter(notification =>
+        (!query.alertId || notification.alertId === query.alertId) &&
+        matches(query.channel, notification.channel) &&
+        matches(query.status, notification.status) &&
+        (!query.recipient || notification.recipient === query.recipient) &&
+        (!query.from || notification.createdAt >= query.from) &&
+        (!query.to || notification.createdAt <= query.to)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0));
+
+    let start = 0;
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor, 'number');
+      start = filtered.findIndex(notification => {
+        const value = notification.createdAt.getTime();
+        return value !== cursor.value ? value < (cursor.value as number) : notification.id < cursor.id;
+      });
+      if (start === -1) start = filtered.length;
+    }
+
+    const page = filtered.slice(start, start + limit);
+    const last = page[page.length - 1];
+    return {
+      notifications: page,
+      total: filtered.length,
+      nextCursor: start + limit < filtered.length && last ? encodeCursor(last.createdAt.getTime(), last.id) : null,
+    };
+  }
+
+  async updateNotification(id: string, changes: Partial<Omit<AlertNotification, 'id'>>): Promise<AlertNotification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification) return undefined;
+    const updated = { ...notification, ...changes };
+    this.notifications.set(id, updated);
+    return updated;
+  }
+
+  async deleteNotification(id: string): Promise<void> {
+    this.notifications.delete(id);
+  }
+
+  // Escalation rules
+  async createEscalationRule(rule: InsertAlertEscalationRule): Promise<AlertEscalationRule> {
+    const id = randomUUID();
+    const record: AlertEscalationRule = {
+      ...rule,
+      id,
+      recipients: rule.recipients ?? [],
+      ruleId: rule.ruleId ?? null,
+      enabled: rule.enabled ?? true,
+      createdAt: new Date(),
+    };
+    this.escalationRules.set(id, record);
+    return record;
+  }
+
+  async getEscalationRule(id: string): Promise<AlertEscalationRule | undefined> {
+    return this.escalationRules.get(id);
+  }
+
+  async getEscalationRules(): Promise<AlertEscalationRule[]> {
+    return Array.from(this.escalationRules.values())
+      .sort((a, b) => a.escalationDelay - b.escalationDelay);
+  }
+
+  async updateEscalationRule(id: string, changes: Partial<Omit<AlertEscalationRule, 'id'>>): Promise<AlertEscalationRule | undefined> {
+    const rule = this.escalationRules.get(id);
+    if (!rule) return undefined;
+    const updated = { ...rule, ...changes };
+    this.escalationRules.set(id, updated);
+    return updated;
+  }
+
+  async deleteEscalationRule(id: string): Promise<void> {
+    this.escalationRules.delete(id);
+  }
+
+  // Interactions
+  async addInteraction(interaction: InsertAlertInteraction): Promise<AlertInteraction> {
+    const id = randomUUID();
+    const record: AlertInteraction = {
+      ...interaction,
+      id,
+      timestamp: new Date(),
+      notes: interaction.notes ?? null,
+      metadata: interaction.metadata ?? null,
+    };
+    this.interactions.set(id, record);
+    return record;
+  }
+
+  async getInteractionsForAlert(alertId: string): Promise<AlertInteraction[]> {
+    return Array.from(this.interactions.values())
+      .filter(interaction => interaction.alertId === alertId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async getInteractionsForAlerts(alertIds: string[]): Promise<AlertInteraction[]> {
+    return Array.from(this.interactions.values())
+      .filter(interaction => alertIds.includes(interaction.alertId))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async deleteInteraction(id: string): Promise<void> {
+    this.interactions.delete(id);
+  }
+
+  // Feedback
+  async addFeedback(feedback: InsertAlertFeedback): Promise<AlertFeedback> {
+    const id = randomUUID();
+    const record: AlertFeedback = {
+      ...feedback,
+      id,
+      ruleId: feedback.ruleId ?? null,
+      component: feedback.component ?? null,
+      detectionMethod: feedback.detectionMethod ?? null,
+      notes: feedback.notes ?? null,
+      createdAt: new Date(),
+    };
+    this.feedback.set(id, record);
+    return record;
+  }
+
+  async getFeedbackForAlert(alertId: string): Promise<AlertFeedback[]> {
+    return Array.from(this.feedback.values())
+      .filter(feedback => feedback.alertId === alertId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getFeedbackSince(since: Date): Promise<AlertFeedback[]> {
+    return Array.from(this.feedback.values())
+      .filter(feedback => feedback.createdAt >= since)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Detection tuning
+  async addTuningChange(change: InsertDetectionTuningChange): Promise<DetectionTuningChange> {
+    const id = randomUUID();
+    const record: DetectionTuningChange = {
+      ...change,
+      id,
+      previousValue: change.previousValue ?? null,
+      newValue: change.newValue ?? null,
+      precision: change.precision ?? null,
+      changedBy: change.changedBy ?? null,
+      createdAt: new Date(),
+    };
+    this.tuningChanges.set(id, record);
+    return record;
+  }
+
+  async getTuningChanges(): Promise<DetectionTuningChange[]> {
+    return Array.from(this.tuningChanges.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Incidents
+  async createIncident(incident: InsertIncident): Promise<Incident> {
+    const id = randomUUID();
+    const now = new Date();
+    const record: Incident = {
+      ...incident,
+      id,
+      status: 'open',
+      rootComponent: incident.rootComponent ?? null,
+      components: incident.components ?? [],
+      location: incident.location ?? null,
+      alertCount: incident.alertCount ?? 0,
+      openedAt: incident.openedAt ?? now,
+      lastAlertAt: incident.lastAlertAt ?? now,
+      acknowledgedAt: null,
+      acknowledgedBy: incident.acknowledgedBy ?? null,
+      resolvedAt: null,
+      resolvedBy: incident.resolvedBy ?? null,
+      resolutionNotes: incident.resolutionNotes ?? null,
+    };
+    this.incidents.set(id, record);
+    return record;
+  }
+
+  async getIncident(id: string): Promise<Incident | undefined> {
+    return this.incidents.get(id);
+  }
+
+  async getIncidents(filter: IncidentFilter = {}): Promise<Incident[]> {
+    const { statuses, since, limit } = filter;
+    const matching = Array.from(this.incidents.values())
+      .filter(incident => !statuses || statuses.length === 0 || statuses.includes(incident.status))
+      .filter(incident => !since || incident.lastAlertAt >= since)
+      .sort((a, b) => b.lastAlertAt.getTime() - a.lastAlertAt.getTime());
+    return limit ? matching.slice(0, limit) : matching;
+  }
+
+  async updateIncident(id: string, changes: Partial<Omit<Incident, 'id'>>): Promise<Incident | undefined> {
+    const incident = this.incidents.get(id);
+    if (!incident) return undefined;
+    const updated = { ...incident, ...changes };
+    this.incidents.set(id, updated);
+    return updated;
+  }
+
+  async updateIncidentIfStatus(id: string, expectedStatuses: string[], changes: Partial<Omit<Incident, 'id'>>): Promise<Incident | undefined> {
+    const incident = this.incidents.get(id);
+    if (!incident || !expectedStatuses.includes(incident.status)) return undefined;
+    return this.updateIncident(id, changes);
+  }
+
+  async getAlertsForIncident(incidentId: string): Promise<AlertSystem[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert => alert.incidentId === incidentId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  // Statistics
+  async addStatistics(statistics: InsertAlertStatistics): Promise<AlertStatistics> {
+    const id = randomUUID();
+    const record: AlertStatistics = {
+      ...statistics,
+      id,
+      averageResponseTime: statistics.averageResponseTime ?? null,
+      falsePositiveRate: statistics.falsePositiveRate ?? null,
+      userEngagementRate: statistics.userEngagementRate ?? null,
+      metadata: statistics.metadata ?? null,
+    };
+    this.statistics.set(id, record);
+    return record;
+  }
+
+  async getStatistics(startDate: Date, endDate: Date): Promise<AlertStatistics[]> {
+    return Array.from(this.statistics.values())
+      .filter(stat => stat.date >= startDate && stat.date <= endDate)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  async deleteStatistics(id: string): Promise<void> {
+    this.statistics.delete(id);
+  }
+
+  // Sensor data
+  async addSensorData(reading: InsertSensorData): Promise<SensorData> {
+    const id = randomUUID();
+    const record: SensorData = {
+      ...reading,
+      id,
+      timestamp: new Date(),
+      quality: reading.quality ?? 'good',
+      metadata: reading.metadata ?? null,
+    };
+    this.sensorReadings.set(id, record);
+    return record;
+  }
+
+  async getSensorData(filter: SensorDataFilter = {}): Promise<SensorData[]> {
+    return Array.from(this.sensorReadings.values())
+      .filter(reading =>
+        (!filter.sensorType || reading.sensorType === filter.sensorType) &&
+        (!filter.location || reading.location === filter.location) &&
+        (!filter.deviceId || reading.deviceId === filter.deviceId) &&
+        (!filter.since || reading.timestamp >= filter.since) &&
+        (!filter.until || reading.timestamp <= filter.until)
+      )
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async deleteSensorData(id: string): Promise<void> {
+    this.sensorReadings.delete(id);
+  }
+
+  // Detection rules
+  async createRule(rule: InsertAlertRule): Promise<AlertRule> {
+    const id = randomUUID();
+    const now = new Date();
+    const record: AlertRule = {
+      ...rule,
+      id,
+      description: rule.description ?? null,
+      enabled: rule.enabled ?? true,
+      priority: rule.priority ?? 0,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.rules.set(id, record);
+    return record;
+  }
+
+  async getRule(id: string): Promise<AlertRule | undefined> {
+    return this.rules.get(id);
+  }
+
+  async getRules(): Promise<AlertRule[]> {
+    return Array.from(this.rules.values())
+      .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+  }
+
+  async updateRuleIfVersion(id: string, expectedVersion: number, changes: Partial<Omit<AlertRule, 'id'>>): Promise<AlertRule | undefined> {
+    const rule = this.rules.get(id);
+    if (!rule || rule.version !== expectedVersion) return undefined;
+    const updated = { ...rule, ...changes, updatedAt: new Date() };
+    this.rules.set(id, updated);
+    return updated;
+  }
+
+  async deleteRuleIfVersion(id: string, expectedVersion: number): Promise<boolean> {
+    if (this.rules.get(id)?.version !== expectedVersion) return false;
+    return this.rules.delete(id);
+  }
+
+  async addRuleVersion(version: InsertAlertRuleVersion): Promise<AlertRuleVersion> {
+    const id = randomUUID();
+    const record: AlertRuleVersion = {
+      ...version,
+      id,
+      description: version.description ?? null,
+      priority: version.priority ?? 0,
+      changedBy: version.changedBy ?? null,
+      changedAt: new Date(),
+    };
+    this.ruleVersions.set(id, record);
+    return record;
+  }
+
+  async getRuleVersions(ruleId: string): Promise<AlertRuleVersion[]> {
+    return Array.from(this.ruleVersions.values())
+      .filter(version => version.ruleId === ruleId)
+      .sort((a, b) => b.version - a.version);
+  }
+}
+
+// PostgreSQL-backed alert store over the Drizzle tables in shared/alert-schema
+export class DbAlertStore implements AlertStore {
+  constructor(private db: Database) {}
+
+  // Alerts
+  async createAlert(alert: InsertAlertSystem): Promise<AlertSystem> {
+    const [record] = await this.db.insert(alertSystem).values(alert).returning();
+    return record;
+  }
+
+  async getAlert(id: string): Promise<AlertSystem | undefined> {
+    const [record] = await this.db.select().from(alertSystem).where(eq(alertSystem.id, id));
+    return record;
+  }
+
+  async getAlertsByIds(ids: string[]): Promise<AlertSystem[]> {
+    if (ids.length === 0) return [];
+    return this.db.select().from(alertSystem)
+      .where(inArray(alertSystem.id, ids))
+      .orderBy(desc(alertSystem.timestamp));
+  }
+
+  async getAlertsByStatus(statuses: string[]): Promise<AlertSystem[]> {
+    if (statuses.length === 0) return [];
+    return this.db.select().from(alertSystem)
+      .where(inArray(alertSystem.status, statuses))
+      .orderBy(desc(alertSystem.timestamp));
+  }
+
+  async getAlertsByDateRange(startDate: Date, endDate: Date): Promise<AlertSystem[]> {
+    return this.db.select().from(alertSystem)
+      .where(and(gte(alertSystem.timestamp, startDate), lte(alertSystem.timestamp, endDate)))
+      .orderBy(asc(alertSystem.timestamp));
+  }
+
+  async queryAlerts(query: AlertQuery): Promise<AlertPage> {
+    const sortBy = query.sortBy ?? 'timestamp';
+    const descending = query.sortOrder !== 'asc';
+    const limit = query.limit ?? 50;
+
+    const conditions: SQL[] = [];
+    const addListFilter = (values: string[] | undefined, column: AnyPgColumn) => {
+      if (values && values.length > 0) conditions.push(inArray(column, values));
+    };
+    addListFilter(query.severity, alertSystem.severity);
+    addListFilter(query.type, alertSystem.type);
+    addListFilter(query.status, alertSystem.status);
+    addListFilter(query.source, alertSystem.source);
+    addListFilter(query.location, alertSystem.location);
+    addListFilter(query.deviceId, alertSystem.deviceId);
+    if (query.from) conditions.push(gte(alertSystem.timestamp, query.from));
+    if (query.to) conditions.push(lte(alertSystem.timestamp, query.to));
+    for (const term of searchTerms(query.search)) {
+      const pattern = `%${term.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+      conditions.push(sql`(${alertSystem.title} || ' ' || ${alertSystem.description} || ' ' || coalesce(${alertSystem.resolutionNotes}, '')) ilike ${pattern}`);
+    }
+
+    const [{ total }] = await this.db.select({ total: count() }).from(alertSystem).where(and(...conditions));
+
+    const sortExpression = this.sortExpression(sortBy);
+    const pageConditions = [...conditions];
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor, cursorValueType(sortBy));
+      const value = sortBy === 'timestamp' ? new Date(cursor.value) : cursor.value;
+      // Row comparison keeps ordering stable when several alerts share a sort value
+      pageConditions.push(descending
+        ? sql`(${sortExpression}, ${alertSystem.id}) < (${value}, ${cursor.id})`
+        : sql`(${sortExpression}, ${alertSystem.id}) > (${value}, ${cursor.id})`);
+    }
+
+    const order = descending ? desc : asc;
+    const rows = await this.db.select().from(alertSystem)
+      .where(and(...pageConditions))
+      .orderBy(order(sortExpression), order(alertSystem.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      alerts: page,
+      total,
+      nextCursor: rows.length > limit && last ? encodeCursor(sortValue(last, sortBy), last.id) : null,
+    };
+  }
+
+  private sortExpression(sortBy: AlertSortKey): SQL | AnyPgColumn {
+    switch (sortBy) {
+      // Truncated to match the millisecond precision of JavaScript dates in cursors
+      case 'timestamp': return sql`date_trunc('milliseconds', ${alertSystem.timestamp})`;
+      case 'severity':
+        return sql`CASE ${alertSystem.severity} WHEN 'critical' THEN 3 WHEN 'warning' THEN 2 WHEN 'info' THEN 1 ELSE 0 END`;
+      case 'status': return alertSystem.status;
+      case 'type': return alertSystem.type;
+      case 'title': return alertSystem.title;
+    }
+  }
+
+  async updateAlert(id: string, changes: Partial<Omit<AlertSystem, 'id'>>): Promise<AlertSystem | undefined> {
+    const [record] = await this.db.update(alertSystem).set(changes)
+      .where(eq(alertSystem.id, id))
+      .returning();
+    return record;
+  }
+
+  async updateAlertIfStatus(id: string, expectedStatuses: string[], changes: AlertStatusChanges): Promise<AlertSystem | undefined> {
+    const { metadataPatch, metadataRemove, ...fields } = changes;
+    let metadata: SQL | undefined;
+    if (metadataPatch || metadataRemove) {
+      // Merged in the database so a concurrent mergeAlertMetadata isn't overwritten
+      metadata = sql`coalesce(${alertSystem.metadata}, '{}'::jsonb)`;
+      for (const key of metadataRemove ?? []) metadata = sql`(${metadata} - ${key}::text)`;
+      metadata = sql`${metadata} || ${JSON.stringify(metadataPatch ?? {})}::jsonb`;
+    }
+
+    const [record] = await this.db.update(alertSystem).set(metadata ? { ...fields, metadata } : fields)
+      .where(and(eq(alertSystem.id, id), inArray(alertSystem.status, expectedStatuses)))
+      .returning();
+    return record;
+  }
+
+  async mergeAlertMetadata(id: string, patch: Record<string, unknown>): Promise<AlertSystem | undefined> {
+    const [record] = await this.db.update(alertSystem)
+      .set({ metadata: sql`coalesce(${alertSystem.metadata}, '{}'::jsonb) || ${JSON.stringify(patch)}::jsonb` })
+      .where(eq(alertSystem.id, id))
+      .returning();
+    return record;
+  }
+
+  async deleteAlert(id: string): Promise<void> {
+    await this.db.delete(alertSystem).where(eq(alertSystem.id, id));
+  }
+
+  // Notifications
+  async createNotification(notification: InsertAlertNotification): Promise<AlertNotification> {
+    const [record] = await this.db.insert(alertNotifications).values(notification).returning();
+    return record;
+  }
+
+  async getNotification(id: string): Promise<AlertNotification | undefined> {
+    const [record] = await this.db.select().from(alertNotifications).where(eq(alertNotifications.id, id));
+    return record;
+  }
+
+  async getNotificationsForAlert(alertId: string): Promise<AlertNotification[]> {
+    return this.db.select().from(alertNotifications).where(eq(alertNotifications.alertId, alertId));
+  }
+
+  async getDueNotifications(now: Date, limit: number): Promise<AlertNotification[]> {
+    return this.db.select().from(alertNotifications)
+      .where(and(
+        inArray(alertNotifications.status, ['pending', 'failed']),
+        lte(alertNotifications.nextAttemptAt, now)
+      ))
+      .orderBy(asc(alertNotifications.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async getNotificationsByStatus(statuses: string[], limit: number): Promise<AlertNotification[]> {
+    return this.db.select().from(alertNotifications)
+      .where(inArray(alertNotifications.status, statuses))
+      .orderBy(desc(alertNotifications.createdAt))
+      .limit(limit);
+  }
+
+  async getNotificationsForRecipient(channel: string, recipient: string, limit: number): Promise<AlertNotification[]> {
+    return this.db.select().from(alertNotifications)
+      .where(and(eq(alertNotifications.channel, channel), eq(alertNotifications.recipient, recipient)))
+      .orderBy(desc(alertNotifications.createdAt))
+      .limit(limit);
+  }
+
+  async getNotificationByMessageId(channel: string, messageId: string): Promise<AlertNotification | undefined> {
+    const [notification] = await this.db.select().from(alertNotifications)
+      .where(and(
+        eq(alertNotifications.channel, channel),
+        sql`${alertNotifications.metadata}->>'messageId' = ${messageId}`
+      ))
+      .limit(1);
+    return notification;
+  }
+
+  async queryNotifications(query: NotificationQuery): Promise<NotificationPage> {
+    const limit = query.limit ?? 50;
+
+    const conditions: SQL[] = [];
+    if (query.alertId) conditions.push(eq(alertNotifications.alertId, query.alertId));
+    if (query.channel && query.channel.length > 0) conditions.push(inArray(alertNotifications.channel, query.channel));
+    if (query.status && query.status.length > 0) conditions.push(inArray(alertNotifications.status, query.status));
+    if (query.recipient) conditions.push(eq(alertNotifications.recipient, query.recipient));
+    if (query.from) conditions.push(gte(alertNotifications.createdAt, query.from));
+    if (query.to) conditions.push(lte(alertNotifications.createdAt, query.to));
+
+    const [{ total }] = await this.db.select({ total: count() }).from(alertNotifications).where(and(...conditions));
+
+    // Truncated to match the millisecond precision of JavaScript dates in cursors
+    const createdAt = sql`date_trunc('milliseconds', ${alertNotifications.createdAt})`;
+    const pageConditions = [...conditions];
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor, 'number');
+      pageConditions.push(sql`(${createdAt}, ${alertNotifications.id}) < (${new Date(cursor.value)}, ${cursor.id})`);
+    }
+
+    const rows = await this.db.select().from(alertNotifications)
+      .where(and(...pageConditions))
+      .orderBy(desc(createdAt), desc(alertNotifications.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      notifications: page,
+      total,
+      nextCursor: rows.length > limit && last ? encodeCursor(last.createdAt.getTime(), last.id) : null,
+    };
+  }
+
+  async updateNotification(id: string, changes: Partial<Omit<AlertNotification, 'id'>>): Promise<AlertNotification | undefined> {
+    const [record] = await this.db.update(alertNotifications).set(changes)
+      .where(eq(alertNotifications.id, id))
+      .returning();
+    return record;
+  }
+
+  async deleteNotification(id: string): Promise<void> {
+    await this.db.delete(alertNotifications).where(eq(alertNotifications.id, id));
+  }
+
+  // Escalation rules
+  async createEscalationRule(rule: InsertAlertEscalationRule): Promise<AlertEscalationRule> {
+    const [record] = await this.db.insert(alertEscalationRules).values(rule).returning();
+    return record;
+  }
+
+  async getEscalationRule(id: string): Promise<AlertEscalationRule | undefined> {
+    const [record] = await this.db.select().from(alertEscalationRules).where(eq(alertEscalationRules.id, id));
+    return record;
+  }
+
+  async getEscalationRules(): Promise<AlertEscalationRule[]> {
+    return this.db.select().from(alertEscalationRules).orderBy(asc(alertEscalationRules.escalationDelay));
+  }
+
+  async updateEscalationRule(id: string, changes: Partial<Omit<AlertEscalationRule, 'id'>>): Promise<AlertEscalationRule | undefined> {
+    const [record] = await this.db.update(alertEscalationRules).set(changes)
+      .where(eq(alertEscalationRules.id, id))
+      .returning();
+    return record;
+  }
+
+  async deleteEscalationRule(id: string): Promise<void> {
+    await this.db.delete(alertEscalationRules).where(eq(alertEscalationRules.id, id));
+  }
+
+  // Interactions
+  async addInteraction(interaction: InsertAlertInteraction): Promise<AlertInteraction> {
+    const [record] = await this.db.insert(alertInteractions).values(interaction).returning();
+    return record;
+  }
+
+  async getInteractionsForAlert(alertId: string): Promise<AlertInteraction[]> {
+    return this.db.select().from(alertInteractions)
+      .where(eq(alertInteractions.alertId, alertId))
+      .orderBy(asc(alertInteractions.timestamp));
+  }
+
+  async getInteractionsForAlerts(alertIds: string[]): Promise<AlertInteraction[]> {
+    if (alertIds.length === 0) return [];
+    return this.db.select().from(alertInteractions)
+      .where(inArray(alertInteractions.alertId, alertIds))
+      .orderBy(asc(alertInteractions.timestamp));
+  }
+
+  async deleteInteraction(id: string): Promise<void> {
+    await this.db.delete(alertInteractions).where(eq(alertInteractions.id, id));
+  }
+
+  // Feedback
+  async addFeedback(feedback: InsertAlertFeedback): Promise<AlertFeedback> {
+    const [record] = await this.db.insert(alertFeedback).values(feedback).returning();
+    return record;
+  }
+
+  async getFeedbackForAlert(alertId: string): Promise<AlertFeedback[]> {
+    return this.db.select().from(alertFeedback)
+      .where(eq(alertFeedback.alertId, alertId))
+      .orderBy(asc(alertFeedback.createdAt));
+  }
+
+  async getFeedbackSince(since: Date): Promise<AlertFeedback[]> {
+    return this.db.select().from(alertFeedback)
+      .where(gte(alertFeedback.createdAt, since))
+      .orderBy(asc(alertFeedback.createdAt));
+  }
+
+  // Detection tuning
+  async addTuningChange(change: InsertDetectionTuningChange): Promise<DetectionTuningChange> {
+    const [record] = await this.db.insert(detectionTuningChanges).values(change).returning();
+    return record;
+  }
+
+  async getTuningChanges(): Promise<DetectionTuningChange[]> {
+    return this.db.select().from(detectionTuningChanges)
+      .orderBy(asc(detectionTuningChanges.createdAt));
+  }
+
+  // Incidents
+  async createIncident(incident: InsertIncident): Promise<Incident> {
+    const [record] = await this.db.insert(incidents).values(incident).returning();
+    return record;
+  }
+
+  async getIncident(id: string): Promise<Incident | undefined> {
+    const [record] = await this.db.select().from(incidents).where(eq(incidents.id, id));
+    return record;
+  }
+
+  async getIncidents(filter: IncidentFilter = {}): Promise<Incident[]> {
+    const { statuses, since, limit } = filter;
+    const conditions: SQL[] = [];
+    if (statuses && statuses.length > 0) conditions.push(inArray(incidents.status, statuses));
+    if (since) conditions.push(gte(incidents.lastAlertAt, since));
+
+    const query = this.db.select().from(incidents)
+      .where(and(...conditions))
+      .orderBy(desc(incidents.lastAlertAt));
+    return limit ? query.limit(limit) : query;
+  }
+
+  async updateIncident(id: string, changes: Partial<Omit<Incident, 'id'>>): Promise<Incident | undefined> {
+    const [record] = await this.db.update(incidents).set(changes)
+      .where(eq(incidents.id, id))
+      .returning();
+    return record;
+  }
+
+  async updateIncidentIfStatus(id: string, expectedStatuses: string[], changes: Partial<Omit<Incident, 'id'>>): Promise<Incident | undefined> {
+    const [record] = await this.db.update(incidents).set(changes)
+      .where(and(eq(incidents.id, id), inArray(incidents.status, expectedStatuses)))
+      .returning();
+    return record;
+  }
+
+  async getAlertsForIncident(incidentId: string): Promise<AlertSystem[]> {
+    return this.db.select().from(alertSystem)
+      .where(eq(alertSystem.incidentId, incidentId))
+      .orderBy(asc(alertSystem.timestamp));
+  }
+
+  // Statistics
+  async addStatistics(statistics: InsertAlertStatistics): Promise<AlertStatistics> {
+    const [record] = await this.db.insert(alertStatistics).values(statistics).returning();
+    return record;
+  }
+
+  async getStatistics(startDate: Date, endDate: Date): Promise<AlertStatistics[]> {
+    return this.db.select().from(alertStatistics)
+      .where(and(gte(alertStatistics.date, startDate), lte(alertStatistics.date, endDate)))
+      .orderBy(asc(alertStatistics.date));
+  }
+
+  async deleteStatistics(id: string): Promise<void> {
+    await this.db.delete(alertStatistics).where(eq(alertStatistics.id, id));
+  }
+
+  // Sensor data
+  async addSensorData(reading: InsertSensorData): Promise<SensorData> {
+    const [record] = await this.db.insert(sensorData).values(reading).returning();
+    return record;
+  }
+
+  async getSensorData(filter: SensorDataFilter = {}): Promise<SensorData[]> {
+    const conditions: SQL[] = [];
+    if (filter.sensorType) conditions.push(eq(sensorData.sensorType, filter.sensorType));
+    if (filter.location) conditions.push(eq(sensorData.location, filter.location));
+    if (filter.deviceId) conditions.push(eq(sensorData.deviceId, filter.deviceId));
+    if (filter.since) conditions.push(gte(sensorData.timestamp, filter.since));
+    if (filter.until) conditions.push(lte(sensorData.timestamp, filter.until));
+
+    return this.db.select().from(sensorData)
+      .where(and(...conditions))
+      .orderBy(asc(sensorData.timestamp));
+  }
+
+  async deleteSensorData(id: string): Promise<void> {
+    await this.db.delete(sensorData).where(eq(sensorData.id, id));
+  }
+
+  // Detection rules
+  async createRule(rule: InsertAlertRule): Promise<AlertRule> {
+    const [record] = await this.db.insert(alertRules).values(rule).returning();
+    return record;
+  }
+
+  async getRule(id: string): Promise<AlertRule | undefined> {
+    const [record] = await this.db.select().from(alertRules).where(eq(alertRules.id, id));
+    return record;
+  }
+
+  async getRules(): Promise<AlertRule[]> {
+    return this.db.select().from(alertRules).orderBy(desc(alertRules.priority));
+  }
+
+  async updateRuleIfVersion(id: string, expectedVersion: number, changes: Partial<Omit<AlertRule, 'id'>>): Promise<AlertRule | undefined> {
+    const [record] = await this.db.update(alertRules).set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(alertRules.id, id), eq(alertRules.version, expectedVersion)))
+      .returning();
+    return record;
+  }
+
+  async deleteRuleIfVersion(id: string, expectedVersion: number): Promise<boolean> {
+    const deleted = await this.db.delete(alertRules)
+      .where(and(eq(alertRules.id, id), eq(alertRules.version, expectedVersion)))
+      .returning({ id: alertRules.id });
+    return deleted.length > 0;
+  }
+
+  async addRuleVersion(version: InsertAlertRuleVersion): Promise<AlertRuleVersion> {
+    const [record] = await this.db.insert(alertRuleVersions).values(version).returning();
+    return record;
+  }
+
+  async getRuleVersions(ruleId: string): Promise<AlertRuleVersion[]> {
+    return this.db.select().from(alertRuleVersions)
+      .where(eq(alertRuleVersions.ruleId, ruleId))
+      .orderBy(desc(alertRuleVersions.version));
+  }
+}
+
+export const alertStore: AlertStore = database
+  ? new DbAlertStore(database.db)
+  : new MemAlertStore();
@@ -0,0 +1,24 @@
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import pg from "pg";
+import * as energySchema from "@shared/schema";
+import * as alertSchema from "@shared/alert-schema";
+
+const schema = { ...energySchema, ...alertSchema };
+
+export type Database = NodePgDatabase<typeof schema>;
+
+/**
+ * Create a Drizzle client for the given Postgres connection string.
+ * Uses the plain node-postgres driver so the same code runs against
+ * Neon, a managed Postgres instance or a local development database.
+ */
+export function createDatabase(connectionString: string): { db: Database; pool: pg.Pool } {
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzle(pool, { schema });
+  return { db, pool };
+}
+
+// Shared connection, only created when the database has been provisioned
+export const database = process.env.DATABASE_URL
+  ? createDatabase(process.env.DATABASE_URL)
+  : null;
@@ -0,0 +1,281 @@
+import { type EnergyMetric } from "@shared/schema";
+import { AIAnomalyDetectionService, type AnomalyAnalyzer } from "./ai-service";
+import { AlertDetectionEngine } from "./alert-detection-engine";
+import { StatisticalAnomalyDetector } from "./statistical-detector";
+import { LlmService, llmConfig, llmService } from "./llm-provider";
+import {
+  generateScenario,
+  SCENARIO_KINDS,
+  DEFAULT_SCENARIO_OPTIONS,
+  type Scenario,
+  type ScenarioKind,
+  type ScenarioOptions,
+} from "./detection-scenarios";
+
+const MINUTE = 60 * 1000;
+
+// Detectors see the same 24 hours of readings they get in production
+const WINDOW_MS = 24 * 60 * MINUTE;
+
+/**
+ * A detector under evaluation. `create` returns a fresh instance per
+ * scenario, since detectors learn from what they've seen.
+ */
+export interface EvaluatedDetector {
+  name: string;
+  description: string;
+  create(): (window: EnergyMetric[]) => Promise<boolean>;
+}
+
+// Nothing is ever anomalous, to isolate the engine's own rules
+const silentAnalyzer: AnomalyAnalyzer = {
+  analyzeEnergyPattern: async () => ({ isAnomaly: false, score: 0 }),
+};
+
+const offlineAiService = () =>
+  new AIAnomalyDetectionService(new StatisticalAnomalyDetector(), new LlmService(null, llmConfig), 'statistical');
+
+export const DETECTORS: EvaluatedDetector[] = [
+  {
+    name: 'statistical',
+    description: 'Statistical detector on its own',
+    create: () => {
+      const detector = new StatisticalAnomalyDetector();
+      return async window => detector.analyze(window).isAnomaly;
+    },
+  },
+  {
+    name: 'ai-service',
+    description: 'AIAnomalyDetectionService offline: obvious-fault checks, then the statistical detector',
+    create: () => {
+      const service = offlineAiService();
+      return async window => (await service.analyzeEnergyPattern(window)).isAnomaly;
+    },
+  },
+  {
+    name: 'engine-rules',
+    description: 'AlertDetectionEngine without AI: detection rules, thresholds and trend patterns',
+    create: () => {
+      const engine = new AlertDetectionEngine(silentAnalyzer);
+      return async window => (await engine.detectAnomalies(window)).some(result => result.isAlert);
+    },
+  },
+  {
+    name: 'engine',
+    description: 'AlertDetectionEngine with the offline AI service, as deployed without an LLM',
+    create: () => {
+      const engine = new AlertDetectionEngine(offlineAiService());
+      return async window => (await engine.detectAnomalies(window)).some(result => result.isAlert);
+    },
+  },
+];
+
+// Calls the configured LLM at every step, so it only runs when asked for
+export const LLM_DETECTOR: EvaluatedDetector = {
+  name: 'ai-service-llm',
+  description: 'AIAnomalyDetectionService with the configured LLM provider (statistical fallback on errors)',
+  create: () => {
+    const service = new AIAnomalyDetectionService(new StatisticalAnomalyDetector(), llmService, 'llm');
+    return async window => (await service.analyzeEnergyPattern(window)).isAnomaly;
+  },
+};
+
+export interface DetectionScore {
+  events: number;
+  detected: number;
+  alarms: number;
+  falseAlarms: number;
+  precision: number | null; // null without any alarms
+  recall: number | null; // null without any labeled events
+  f1: number | null;
+  meanLatencyMinutes: number | null;
+  falseAlarmsPerDay: number | null; // per day of unlabeled time
+}
+
+export interface ScenarioResult extends DetectionScore {
+  detector: string;
+  scenario: ScenarioKind;
+}
+
+export interface EvaluationReport {
+  generatedAt: string;
+  options: Omit<ScenarioOptions, 'start'> & { start: string; graceMinutes: number };
+  detectors: Array<{ name: string; description: string }>;
+  results: ScenarioResult[];
+  summary: Array<DetectionScore & { detector: string }>;
+}
+
+export interface EvaluationOptions extends Partial<ScenarioOptions> {
+  detectors?: EvaluatedDetector[];
+  scenarios?: ScenarioKind[];
+  graceMinutes?: number; // how long after an anomaly ends a detection still counts
+}
+
+interface Tally {
+  events: number;
+  detected: number;
+  alarms: number;
+  falseAlarms: number;
+  latencies: number[];
+  normalMs: number;
+}
+
+const emptyTally = (): Tally => ({ events: 0, detected: 0, alarms: 0, falseAlarms: 0, latencies: [], normalMs: 0 });
+
+function score(tally: Tally): DetectionScore {
+  const precision = tally.alarms > 0 ? (tally.alarms - tally.falseAlarms) / tally.alarms : null;
+  const recall = tally.events > 0 ? tally.detected / tally.events : null;
+  const f1 = precision !== null && recall !== null && precision + recall > 0
+    ? (2 * precision * recall) / (precision + recall)
+    : precision !== null && recall !== null ? 0 : null;
+  const normalDays = tally.normalMs / (24 * 60 * MINUTE);
+
+  return {
+    events: tally.events,
+    detected: tally.detected,
+    alarms: tally.alarms,
+    falseAlarms: tally.falseAlarms,
+    precision,
+    recall,
+    f1,
+    meanLatencyMinutes: tally.latencies.length > 0
+      ? tally.latencies.reduce((sum, latency) => sum + latency, 0) / tally.latencies.length
+      : null,
+    falseAlarmsPerDay: normalDays > 0 ? tally.falseAlarms / normalDays : null,
+  };
+}
+
+/**
+ * Replay a scenario through a detector reading by reading and compare what
+ * it flagged with the labels. Consecutive flagged readings form one alarm;
+ * an alarm is false when it overlaps no labeled anomaly (plus grace).
+ */
+async function evaluateScenario(detector: EvaluatedDetector, scenario: Scenario, graceMs: number): Promise<Tally> {
+  const detect = detector.create();
+  const { metrics, labels, warmupEnd } = scenario;
+
+  const flagged: Date[] = [];
+  let windowStart = 0;
+  for (let i = 0; i < metrics.length; i++) {
+    const now = metrics[i].timestamp.getTime();
+    while (metrics[windowStart].timestamp.getTime() <= now - WINDOW_MS) windowStart++;
+    if (await detect(metrics.slice(windowStart, i + 1)) && metrics[i].timestamp >= warmupEnd) {
+      flagged.push(metrics[i].timestamp);
+    }
+  }
+
+  const step = metrics.length > 1 ? metrics[1].timestamp.getTime() - metrics[0].timestamp.getTime() : MINUTE;
+  const alarms: Array<{ start: number; end: number }> = [];
+  for (const time of flagged.map(date => date.getTime())) {
+    const last = alarms[alarms.length - 1];
+    if (last && time - last.end <= step) last.end = time;
+    else alarms.push({ start: time, end: time });
+  }
+
+  const overlapsLabel = (start: number, end: number) =>
+    labels.some(label => start <= label.end.getTime() + graceMs && end >= label.start.getTime());
+
+  const tally = emptyTally();
+  tally.events = labels.length;
+  tally.alarms = alarms.length;
+  tally.falseAlarms = alarms.filter(alarm => !overlapsLabel(alarm.start, alarm.end)).length;
+
+  for (const label of labels) {
+    const first = flagged.find(date => date >= label.start && date.getTime() <= label.end.getTime() + graceMs);
+    if (first) {
+      tally.detected++;
+      tally.latencies.push((first.getTime() - label.start.getTime()) / MINUTE);
+    }
+  }
+
+  const scoredMs = metrics[metrics.length - 1].timestamp.getTime() - warmupEnd.getTime();
+  const labeledMs = labels.reduce((total, label) => total + label.end.getTime() - label.start.getTime() + graceMs, 0);
+  tally.normalMs = Math.max(0, scoredMs - labeledMs);
+
+  return tally;
+}
+
+/**
+ * Run every detector over every scenario and score them
+ */
+export async function runEvaluation(
+  options: EvaluationOptions = {},
+  onProgress?: (detector: string, scenario: ScenarioKind) => void
+): Promise<EvaluationReport> {
+  const { detectors = DETECTORS, scenarios = SCENARIO_KINDS, graceMinutes = 60, ...overrides } = options;
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  const scenarioOptions: ScenarioOptions = { ...DEFAULT_SCENARIO_OPTIONS, ...defined };
+  const graceMs = graceMinutes * MINUTE;
+
+  const generated = scenarios.map(kind => generateScenario(kind, scenarioOptions));
+  const results: ScenarioResult[] = [];
+  const summary: EvaluationReport['summary'] = [];
+
+  for (const detector of detectors) {
+    const total = emptyTally();
+    for (const scenario of generated) {
+      onProgress?.(detector.name, scenario.kind);
+      const tally = await evaluateScenario(detector, scenario, graceMs);
+      results.push({ detector: detector.name, scenario: scenario.kind, ...score(tally) });
+
+      total.events += tally.events;
+      total.detected += tally.detected;
+      total.alarms += tally.alarms;
+      total.falseAlarms += tally.falseAlarms;
+      total.latencies.push(...tally.latencies);
+      total.normalMs += tally.normalMs;
+    }
+    summary.push({ detector: detector.name, ...score(total) });
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    options: { ...scenarioOptions, start: scenarioOptions.start.toISOString(), graceMinutes },
+    detectors: detectors.map(({ name, description }) => ({ name, description })),
+    results,
+    summary,
+  };
+}
+
+export interface Regression {
+  detector: string;
+  scenario: ScenarioKind | 'all';
+  metric: 'f1' | 'recall' | 'falseAlarmsPerDay';
+  baseline: number;
+  current: number;
+}
+
+/**
+ * Where a report got worse than a baseline report by more than `tolerance`
+ * (F1 and recall in absolute terms, false alarms per day relative to 1/day)
+ */
+export function compareReports(current: EvaluationReport, baseline: EvaluationReport, tolerance = 0.05): Regression[] {
+  const regressions: Regression[] = [];
+  // Totals are only comparable when both reports ran the same scenarios
+  const scenarios = (report: EvaluationReport) => Array.from(new Set(report.results.map(result => result.scenario))).sort().join();
+  const sameScenarios = scenarios(current) === scenarios(baseline);
+  const rows = (report: EvaluationReport) => [
+    ...report.results.map(result => ({ ...result, scenario: result.scenario as Regression['scenario'] })),
+    ...(sameScenarios ? report.summary.map(entry => ({ ...entry, scenario: 'all' as const })) : []),
+  ];
+
+  const before = new Map(rows(baseline).map(row => [`${row.detector}/${row.scenario}`, row]));
+  for (const row of rows(current)) {
+    const previous = before.get(`${row.detector}/${row.scenario}`);
+    if (!previous) continue;
+
+    for (const metric of ['f1', 'recall'] as const) {
+      const was = previous[metric];
+      const now = row[metric];
+      if (was !== null && now !== null && was - now > tolerance) {
+        regressions.push({ detector: row.detector, scenario: row.scenario, metric, baseline: was, current: now });
+      }
+    }
+    const was = previous.falseAlarmsPerDay;
+    const now = row.falseAlarmsPerDay;
+    if (was !== null && now !== null && now - was > tolerance * Math.max(1, was)) {
+      regressions.push({ detector: row.detector, scenario: row.scenario, metric: 'falseAlarmsPerDay', baseline: was, current: now });
+    }
+  }
+  return regressions;
+}
@@ -0,0 +1,199 @@
+import { type EnergyMetric } from "@shared/schema";
+import { EnergyDataSimulator } from "./storage";
+
+export const ANOMALY_KINDS = ['spike', 'drift', 'stuck_sensor', 'inverter_trip', 'battery_fade', 'theft'] as const;
+
+export type AnomalyKind = typeof ANOMALY_KINDS[number];
+
+// 'normal' has no anomalies and only measures false alarms
+export type ScenarioKind = AnomalyKind | 'normal';
+
+export const SCENARIO_KINDS: ScenarioKind[] = [...ANOMALY_KINDS, 'normal'];
+
+export interface AnomalyLabel {
+  kind: AnomalyKind;
+  start: Date;
+  end: Date;
+  description: string;
+}
+
+export interface Scenario {
+  kind: ScenarioKind;
+  metrics: EnergyMetric[];
+  labels: AnomalyLabel[];
+  warmupEnd: Date; // no anomalies before this; detectors are learning
+}
+
+export interface ScenarioOptions {
+  days: number;
+  warmupDays: number;
+  stepMinutes: number;
+  seed: number;
+  start: Date;
+}
+
+export const DEFAULT_SCENARIO_OPTIONS: ScenarioOptions = {
+  days: 5,
+  warmupDays: 2,
+  stepMinutes: 10,
+  seed: 1,
+  start: new Date(2025, 0, 6), // a Monday, local midnight
+};
+
+const HOUR = 60 * 60 * 1000;
+
+// Deterministic PRNG so every run of a scenario is identical
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * A labeled run of simulated readings: normal days from the energy
+ * simulator with anomalies of one kind injected after the warm-up days
+ */
+export function generateScenario(kind: ScenarioKind, options: Partial<ScenarioOptions> = {}): Scenario {
+  const { days, warmupDays, stepMinutes, seed, start } = { ...DEFAULT_SCENARIO_OPTIONS, ...options };
+  const random = mulberry32(seed * 1000 + SCENARIO_KINDS.indexOf(kind));
+  const simulator = new EnergyDataSimulator();
+  const step = stepMinutes * 60 * 1000;
+  const steps = Math.floor((days * 24 * HOUR) / step);
+
+  const metrics: EnergyMetric[] = Array.from({ length: steps }, (_, i) => {
+    const timestamp = new Date(start.getTime() + i * step);
+    return { id: `${kind}-${i}`, timestamp, ...simulator.generateRealisticMetric(timestamp, random) };
+  });
+
+  const warmupEnd = new Date(start.getTime() + warmupDays * 24 * HOUR);
+  const firstIndex = metrics.findIndex(metric => metric.timestamp >= warmupEnd);
+  const scoredDays = days - warmupDays;
+  const labels = kind === 'normal' || firstIndex === -1
+    ? []
+    : INJECTORS[kind]({ metrics, from: firstIndex, scoredDays, step, random });
+
+  // Keep the energy balance consistent with whatever was changed
+  for (const metric of metrics) {
+    metric.gridExport = round(Math.max(0, metric.generation - metric.consumption));
+  }
+
+  return { kind, metrics, labels, warmupEnd };
+}
+
+interface InjectionContext {
+  metrics: EnergyMetric[];
+  from: number; // first index after the warm-up
+  scoredDays: number;
+  step: number; // ms between readings
+  random: () => number;
+}
+
+type Injector = (context: InjectionContext) => AnomalyLabel[];
+
+const stepsIn = (context: InjectionContext, hours: number) => Math.max(1, Math.round((hours * HOUR) / context.step));
+
+// Index of the first reading at or after the given hour on a scored day
+function indexAt(context: InjectionContext, day: number, hour: number): number {
+  const dayStart = context.metrics[context.from].timestamp.getTime() + day * 24 * HOUR;
+  const target = dayStart + hour * HOUR;
+  const index = context.metrics.findIndex(metric => metric.timestamp.getTime() >= target);
+  return index === -1 ? context.metrics.length - 1 : index;
+}
+
+function label(context: InjectionContext, kind: AnomalyKind, first: number, last: number, description: string): AnomalyLabel {
+  return {
+    kind,
+    start: context.metrics[first].timestamp,
+    end: context.metrics[Math.min(last, context.metrics.length - 1)].timestamp,
+    description,
+  };
+}
+
+const INJECTORS: Record<AnomalyKind, Injector> = {
+  // Short consumption spikes, a few per scored day
+  spike: context => {
+    const labels: AnomalyLabel[] = [];
+    for (let day = 0; day < context.scoredDays; day++) {
+      for (const hour of [3 + context.random() * 6, 13 + context.random() * 8]) {
+        const first = indexAt(context, day, hour);
+        const last = first + (context.random() < 0.5 ? 0 : 1);
+        const factor = 2 + context.random() * 0.5;
+        for (let i = first; i <= last && i < context.metrics.length; i++) {
+          context.metrics[i].consumption = round(context.metrics[i].consumption * factor);
+        }
+        labels.push(label(context, 'spike', first, last, `Consumption x${factor.toFixed(1)}`));
+      }
+    }
+    return labels;
+  },
+
+  // Consumption creeps up over half a day, then stays high for a few hours
+  drift: context => {
+    const first = indexAt(context, 0, 6);
+    const ramp = stepsIn(context, 12);
+    const hold = stepsIn(context, 6);
+    for (let i = first; i < first + ramp + hold && i < context.metrics.length; i++) {
+      const progress = Math.min(1, (i - first) / ramp);
+      context.metrics[i].consumption = round(context.metrics[i].consumption * (1 + 0.4 * progress));
+    }
+    return [label(context, 'drift', first, first + ramp + hold - 1, 'Consumption drifts up 40% over 12 hours')];
+  },
+
+  // A sensor keeps reporting its last value
+  stuck_sensor: context => {
+    const features = ['generation', 'storage', 'consumption'] as const;
+    return Array.from({ length: Math.min(3, context.scoredDays * 2) }, (_, n) => {
+      const feature = features[n % features.length];
+      const first = indexAt(context, Math.floor(n / 2), n % 2 === 0 ? 9 : 15);
+      const last = first + stepsIn(context, 3 + context.random() * 3) - 1;
+      const frozen = context.metrics[first][feature];
+      for (let i = first; i <= last && i < context.metrics.length; i++) {
+        context.metrics[i][feature] = frozen;
+      }
+      return label(context, 'stuck_sensor', first, last, `${feature} stuck at ${frozen}`);
+    });
+  },
+
+  // The inverter trips in daylight: no generation until it's reset
+  inverter_trip: context => {
+    return Array.from({ length: Math.min(3, context.scoredDays) }, (_, day) => {
+      const first = indexAt(context, day, 10 + context.random() * 4);
+      const last = first + stepsIn(context, 0.5 + context.random()) - 1;
+      for (let i = first; i <= last && i < context.metrics.length; i++) {
+        context.metrics[i].generation = 0;
+        context.metrics[i].solarEfficiency = 0;
+      }
+      return label(context, 'inverter_trip', first, last, 'Inverter tripped, generation 0 kW');
+    });
+  },
+
+  // Battery health declines steadily over the scored days
+  battery_fade: context => {
+    const first = context.from;
+    const last = context.metrics.length - 1;
+    for (let i = first; i <= last; i++) {
+      const progress = (i - first) / Math.max(1, last - first);
+      context.metrics[i].batteryHealth = round(context.metrics[i].batteryHealth - 12 * progress);
+    }
+    return [label(context, 'battery_fade', first, last, 'Battery health fades by 12 points')];
+  },
+
+  // An unmetered load draws power every night
+  theft: context => {
+    return Array.from({ length: context.scoredDays }, (_, day) => {
+      const first = indexAt(context, day, 1);
+      const last = indexAt(context, day, 4) - 1;
+      const load = 25 + context.random() * 10;
+      for (let i = first; i <= last; i++) {
+        context.metrics[i].consumption = round(context.metrics[i].consumption + load);
+      }
+      return label(context, 'theft', first, last, `Extra ${load.toFixed(0)} kW load overnight`);
+    });
+  },
+};
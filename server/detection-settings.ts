@@ -0,0 +1,111 @@
+import { type DetectionSettings, detectionSettings } from "@shared/alert-schema";
+import { eq } from "drizzle-orm";
+import { aiAnomalyService, type AIAnomalyDetectionService, type AnomalyDetectorMode } from "./ai-service";
+import { storage, type IStorage } from "./storage";
+import { database, type Database } from "./db";
+
+const SETTINGS_ID = 'site';
+
+// History the statistical detector's seasonal baselines are built from
+const WARM_UP_HOURS = 24 * 28;
+
+export type DetectionSettingsChanges = Partial<Pick<DetectionSettings, 'anomalyDetector' | 'timeZone'>>;
+
+export interface DetectionSettingsStore {
+  getSettings(): Promise<DetectionSettings | undefined>;
+  saveSettings(settings: Omit<DetectionSettings, 'id' | 'updatedAt'>): Promise<DetectionSettings>;
+}
+
+export class MemDetectionSettingsStore implements DetectionSettingsStore {
+  private settings: DetectionSettings | undefined;
+
+  async getSettings(): Promise<DetectionSettings | undefined> {
+    return this.settings;
+  }
+
+  async saveSettings(settings: Omit<DetectionSettings, 'id' | 'updatedAt'>): Promise<DetectionSettings> {
+    this.settings = { ...settings, id: SETTINGS_ID, updatedAt: new Date() };
+    return this.settings;
+  }
+}
+
+export class DbDetectionSettingsStore implements DetectionSettingsStore {
+  constructor(private db: Database) {}
+
+  async getSettings(): Promise<DetectionSettings | undefined> {
+    const [settings] = await this.db.select().from(detectionSettings).where(eq(detectionSettings.id, SETTINGS_ID));
+    return settings;
+  }
+
+  async saveSettings(settings: Omit<DetectionSettings, 'id' | 'updatedAt'>): Promise<DetectionSettings> {
+    const record = { ...settings, updatedAt: new Date() };
+    const [saved] = await this.db.insert(detectionSettings)
+      .values({ ...record, id: SETTINGS_ID })
+      .onConflictDoUpdate({ target: detectionSettings.id, set: record })
+      .returning();
+    return saved;
+  }
+}
+
+/**
+ * Which detector analyses subtle anomalies at this site and the time zone its
+ * seasonal baselines use. Saved settings override ANOMALY_DETECTOR and
+ * SITE_TIMEZONE, and apply to the next detection run without a restart.
+ */
+export class DetectionSettingsService {
+  constructor(
+    private store: DetectionSettingsStore,
+    private analyzer: AIAnomalyDetectionService,
+    private metrics: IStorage
+  ) {}
+
+  /**
+   * Apply the saved settings and build the seasonal baselines, e.g. on startup
+   */
+  async load(): Promise<DetectionSettings> {
+    const settings = await this.getSettings();
+    this.apply(settings);
+    await this.warmUp();
+    return settings;
+  }
+
+  async getSettings(): Promise<DetectionSettings> {
+    return await this.store.getSettings() ?? {
+      id: SETTINGS_ID,
+      anomalyDetector: this.analyzer.getMode(),
+      timeZone: this.analyzer.getTimeZone(),
+      updatedBy: null,
+      updatedAt: new Date(0),
+    };
+  }
+
+  async update(changes: DetectionSettingsChanges, changedBy?: string): Promise<DetectionSettings> {
+    const current = await this.getSettings();
+    const settings = await this.store.saveSettings({
+      anomalyDetector: changes.anomalyDetector ?? current.anomalyDetector,
+      timeZone: changes.timeZone ?? current.timeZone,
+      updatedBy: changedBy ?? null,
+    });
+
+    const timeZoneChanged = settings.timeZone !== this.analyzer.getTimeZone();
+    this.apply(settings);
+    // Baselines learned in the old time zone were dropped
+    if (timeZoneChanged) await this.warmUp();
+    return settings;
+  }
+
+  private apply(settings: DetectionSettings): void {
+    this.analyzer.setMode(settings.anomalyDetector as AnomalyDetectorMode);
+    this.analyzer.setTimeZone(settings.timeZone);
+  }
+
+  private async warmUp(): Promise<void> {
+    this.analyzer.warmUp(await this.metrics.getRecentEnergyMetrics(WARM_UP_HOURS));
+  }
+}
+
+export const detectionSettingsStore: DetectionSettingsStore = database
+  ? new DbDetectionSettingsStore(database.db)
+  : new MemDetectionSettingsStore();
+
+export const detectionSettingsService = new DetectionSettingsService(detectionSettingsStore, aiAnomalyService, storage);
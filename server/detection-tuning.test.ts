@@ -0,0 +1,61 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { MemAlertStore } from "./alert-store";
+import { AlertRuleService } from "./alert-rules";
+import { AlertFeedbackService } from "./alert-feedback";
+import { AlertDetectionEngine } from "./alert-detection-engine";
+import { DetectionTuner } from "./detection-tuning";
+
+const silentAnalyzer = { analyzeEnergyPattern: async () => ({ isAnomaly: false, score: 0 }) };
+
+describe('DetectionTuner AI cutoffs', () => {
+  let store: MemAlertStore;
+  let feedback: AlertFeedbackService;
+  let tuner: DetectionTuner;
+
+  beforeEach(() => {
+    store = new MemAlertStore();
+    const engine = new AlertDetectionEngine(silentAnalyzer);
+    feedback = new AlertFeedbackService(store);
+    tuner = new DetectionTuner(store, new AlertRuleService(store, engine), engine, feedback);
+  });
+
+  const labelAiAlert = async (aiConfidence: number, real: boolean) => {
+    const alert = await store.createAlert({
+      title: 'Battery anomaly',
+      description: 'AI detected anomaly',
+      type: 'storage',
+      severity: 'warning',
+      source: 'ai_detection',
+      deviceId: 'battery_system',
+      metadata: { detectionMethod: 'ai_analysis', aiConfidence },
+    });
+    await feedback.record(alert.id, 'ops', real ? 'real_issue' : 'false_positive');
+  };
+
+  it('never rounds the cutoff above a real alert\'s score', async () => {
+    await labelAiAlert(0.806, true);
+    await labelAiAlert(0.85, true);
+    await labelAiAlert(0.9, true);
+    await labelAiAlert(0.804, false);
+    await labelAiAlert(0.6, false);
+
+    const run = await tuner.run({ dryRun: true });
+
+    const cutoff = run.adjustments.find(adjustment => adjustment.kind === 'ai_cutoff')?.newValue as number;
+    assert.ok(cutoff > 0.804, `cutoff ${cutoff} should stop the false positive`);
+    assert.ok(cutoff <= 0.806, `cutoff ${cutoff} should keep the real alert`);
+  });
+
+  it('rounds the cutoff to two decimals when that still separates', async () => {
+    await labelAiAlert(0.9, true);
+    await labelAiAlert(0.92, true);
+    await labelAiAlert(0.95, true);
+    await labelAiAlert(0.7, false);
+    await labelAiAlert(0.5, false);
+
+    const run = await tuner.run({ dryRun: true });
+
+    assert.equal(run.adjustments.find(adjustment => adjustment.kind === 'ai_cutoff')?.newValue, 0.8);
+  });
+});
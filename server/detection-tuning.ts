@@ -0,0 +1,470 @@
+import { randomUUID } from "crypto";
+import { type AlertSystem, type DetectionTuningChange, type FeedbackLabel, type InsertAlertRule } from "@shared/alert-schema";
+import { alertStore, type AlertStore } from "./alert-store";
+import { alertRuleService, type AlertRuleService } from "./alert-rules";
+import { alertFeedbackService, type AlertFeedbackService } from "./alert-feedback";
+import {
+  alertDetectionEngine,
+  detectionTarget,
+  type AlertDetectionEngine,
+  type DetectionTuning,
+  type MetricCondition,
+  type RuleCondition,
+} from "./alert-detection-engine";
+
+export type TuningKind = 'threshold' | 'ai_cutoff' | 'suppression';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Nothing about a target changes before it has this many labeled alerts
+const MIN_LABELS = 5;
+// Thresholds and AI cutoffs of targets at or above this precision are left alone
+const TARGET_PRECISION = 0.8;
+// A rule threshold moves at most this fraction of its value per run
+const MAX_THRESHOLD_STEP = 0.25;
+const MAX_AI_CUTOFF = 0.95;
+// False-positive repeats needed before a suppression window is set
+const MIN_REPEATS = 3;
+const MAX_SUPPRESSION_MINUTES = 240;
+
+// A rule threshold before or after tuning
+export interface ThresholdSetting {
+  condition: number; // index into the rule's conditions
+  metric: string;
+  value: number;
+  clearValue: number | null;
+}
+
+export interface TuningAdjustment {
+  target: string;
+  kind: TuningKind;
+  previousValue: ThresholdSetting | number; // thresholds, or the AI cutoff / suppression minutes
+  newValue: ThresholdSetting | number;
+  reason: string;
+  precision: number;
+  sampleSize: number;
+}
+
+export interface TuningRun {
+  runId: string;
+  dryRun: boolean;
+  since: Date;
+  labeled: number;
+  adjustments: TuningAdjustment[];
+  skipped: Array<{ target: string; reason: string }>;
+}
+
+export interface PrecisionSummary {
+  labeled: number;
+  falsePositives: number;
+  precision: number | null;
+}
+
+export interface TuningReportEntry {
+  target: string;
+  name: string;
+  tunedAt: Date | null; // latest change; alerts raised before it count as before tuning
+  kinds: TuningKind[];
+  before: PrecisionSummary;
+  after: PrecisionSummary;
+  change: number | null; // precision after minus before
+}
+
+interface LabeledAlert {
+  alert: AlertSystem;
+  label: FeedbackLabel;
+  positive: boolean; // real issues and useful alerts
+  target: string;
+}
+
+type Direction = 'above' | 'below';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const targetOf = (alert: AlertSystem) =>
+  detectionTarget((alert.metadata as Record<string, any> | null)?.ruleId, alert.deviceId);
+
+function summarize(samples: LabeledAlert[]): PrecisionSummary {
+  const falsePositives = samples.filter(sample => !sample.positive).length;
+  return {
+    labeled: samples.length,
+    falsePositives,
+    precision: samples.length > 0 ? round((samples.length - falsePositives) / samples.length) : null,
+  };
+}
+
+/**
+ * Tightest threshold that stops the false positives it can without losing
+ * any real alert. With `above`, values over the threshold alert. Returns
+ * null when every false positive is at least as extreme as a real one.
+ */
+function separatingThreshold(positives: number[], negatives: number[], direction: Direction): number | null {
+  if (direction === 'below') {
+    const mirrored = separatingThreshold(positives.map(value => -value), negatives.map(value => -value), 'above');
+    return mirrored === null ? null : -mirrored;
+  }
+
+  const lowestReal = positives.length > 0 ? Math.min(...positives) : Infinity;
+  const separable = negatives.filter(value => value < lowestReal);
+  if (separable.length === 0) return null;
+
+  const highestFalse = Math.max(...separable);
+  const threshold = Number.isFinite(lowestReal)
+    ? (highestFalse + lowestReal) / 2
+    : highestFalse + Math.max(Math.abs(highestFalse) * 0.01, 0.01);
+
+  // Two decimals read better, but only while they still fall strictly between
+  const rounded = round(threshold);
+  return rounded > highestFalse && rounded < lowestReal ? rounded : threshold;
+}
+
+function fires(value: number, operator: MetricCondition['operator'], threshold: number): boolean {
+  switch (operator) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+    default: return true;
+  }
+}
+
+/**
+ * Learns from operator feedback: raises rule thresholds and per-component AI
+ * confidence cutoffs where labeled alerts were mostly false positives, and
+ * holds back quick repeats that kept turning out false. It only tightens;
+ * labels say nothing about alerts that were never raised.
+ */
+export class DetectionTuner {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private store: AlertStore,
+    private rules: AlertRuleService,
+    private engine: AlertDetectionEngine,
+    private feedback: AlertFeedbackService
+  ) {}
+
+  /**
+   * Hand the AI cutoffs and suppression windows recorded so far to the engine
+   * (rule thresholds are stored in the rules themselves)
+   */
+  async load(): Promise<DetectionTuning> {
+    const tuning: DetectionTuning = { aiConfidenceCutoffs: {}, suppressionMinutes: {} };
+    for (const change of await this.store.getTuningChanges()) {
+      if (change.kind === 'ai_cutoff') {
+        tuning.aiConfidenceCutoffs[change.target.replace(/^component:/, '')] = change.newValue as number;
+      } else if (change.kind === 'suppression') {
+        tuning.suppressionMinutes[change.target] = change.newValue as number;
+      }
+    }
+    this.engine.setTuning(tuning);
+    return tuning;
+  }
+
+  async getChanges(): Promise<DetectionTuningChange[]> {
+    return this.store.getTuningChanges();
+  }
+
+  /**
+   * Tune every target with enough labeled alerts in the last `days`. A dry
+   * run reports the adjustments without applying them.
+   */
+  async run(options: { days?: number; dryRun?: boolean; changedBy?: string } = {}): Promise<TuningRun> {
+    const { days = 30, dryRun = false, changedBy = 'feedback-tuner' } = options;
+    const since = new Date(Date.now() - days * DAY);
+    const labeled = await this.loadLabeled(since);
+    const tuning = this.engine.getTuning();
+
+    // Repeats are judged against every alert of a target, labeled or not
+    const historyFrom = new Date(Math.min(since.getTime(), ...labeled.map(sample => sample.alert.timestamp.getTime())));
+    const history = await this.store.getAlertsByDateRange(historyFrom, new Date());
+
+    const run: TuningRun = { runId: randomUUID(), dryRun, since, labeled: labeled.length, adjustments: [], skipped: [] };
+    const byTarget = new Map<string, LabeledAlert[]>();
+    for (const sample of labeled) {
+      byTarget.set(sample.target, [...(byTarget.get(sample.target) ?? []), sample]);
+    }
+
+    for (const [target, samples] of Array.from(byTarget.entries())) {
+      if (samples.length < MIN_LABELS) {
+        run.skipped.push({ target, reason: `${samples.length} of ${MIN_LABELS} labeled alerts needed` });
+        continue;
+      }
+
+      const outcomes = [
+        target.startsWith('rule:')
+          ? await this.tuneThreshold(target, samples)
+          : this.tuneAiCutoff(target, samples, tuning),
+        this.tuneSuppression(target, samples, history, tuning),
+      ];
+      for (const outcome of outcomes) {
+        if (typeof outcome === 'string') run.skipped.push({ target, reason: outcome });
+        else if (outcome) run.adjustments.push(outcome);
+      }
+    }
+
+    if (!dryRun && run.adjustments.length > 0) {
+      for (const adjustment of run.adjustments) {
+        await this.apply(adjustment, changedBy);
+        await this.store.addTuningChange({
+          runId: run.runId,
+          target: adjustment.target,
+          kind: adjustment.kind,
+          previousValue: adjustment.previousValue,
+          newValue: adjustment.newValue,
+          reason: adjustment.reason,
+          precision: adjustment.precision,
+          sampleSize: adjustment.sampleSize,
+          changedBy,
+        });
+      }
+      await this.load();
+    }
+
+    return run;
+  }
+
+  /**
+   * Precision of every rule, and of every other tuned or labeled target,
+   * before and after its latest tuning change
+   */
+  async report(days = 90): Promise<TuningReportEntry[]> {
+    const labeled = await this.loadLabeled(new Date(Date.now() - days * DAY));
+    const changes = await this.store.getTuningChanges();
+    const rules = await this.rules.getRules();
+    const names = new Map(rules.map(rule => [`rule:${rule.id}`, rule.name]));
+
+    const targets = new Set([
+      ...rules.map(rule => `rule:${rule.id}`),
+      ...changes.map(change => change.target),
+      ...labeled.map(sample => sample.target),
+    ]);
+
+    return Array.from(targets).map(target => {
+      const tuned = changes.filter(change => change.target === target);
+      const tunedAt = tuned.length > 0 ? tuned[tuned.length - 1].createdAt : null;
+      const samples = labeled.filter(sample => sample.target === target);
+      const before = summarize(samples.filter(sample => !tunedAt || sample.alert.timestamp < tunedAt));
+      const after = summarize(tunedAt ? samples.filter(sample => sample.alert.timestamp >= tunedAt) : []);
+
+      return {
+        target,
+        name: names.get(target) ?? (target.startsWith('rule:') ? 'Deleted rule' : target.replace(/^component:/, '')),
+        tunedAt,
+        kinds: Array.from(new Set(tuned.map(change => change.kind as TuningKind))),
+        before,
+        after,
+        change: before.precision !== null && after.precision !== null ? round(after.precision - before.precision) : null,
+      };
+    }).sort((a, b) =>
+      (b.tunedAt?.getTime() ?? 0) - (a.tunedAt?.getTime() ?? 0) || b.before.labeled - a.before.labeled
+    );
+  }
+
+  /**
+   * Tune periodically with the default options
+   */
+  start(intervalMs: number): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch(error => {
+        console.error('Detection tuning failed:', error);
+      });
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async loadLabeled(since: Date): Promise<LabeledAlert[]> {
+    const labels = await this.feedback.getLatestLabels(since);
+    const alerts = await this.store.getAlertsByIds(Array.from(labels.keys()));
+
+    return alerts.map(alert => {
+      const label = labels.get(alert.id)!.label as FeedbackLabel;
+      return { alert, label, positive: label !== 'false_positive', target: targetOf(alert) };
+    });
+  }
+
+  /**
+   * Raise (or lower, for `<` conditions) the rule threshold that stops the
+   * most false positives while every real alert would still have fired
+   */
+  private async tuneThreshold(target: string, labeled: LabeledAlert[]): Promise<TuningAdjustment | string | null> {
+    const rule = await this.rules.getRule(target.replace(/^rule:/, ''));
+    if (!rule) return 'Rule no longer exists';
+
+    // Only alerts the rule would still raise say anything about its current thresholds
+    const conditions = rule.conditions as RuleCondition[];
+    const valueOf = (sample: LabeledAlert, metric: string): unknown =>
+      (sample.alert.metadata as Record<string, any> | null)?.currentValues?.[metric];
+    const samples = labeled.filter(sample => conditions.every(condition => {
+      if ('expression' in condition || typeof condition.value !== 'number') return true;
+      const value = valueOf(sample, condition.metric);
+      return typeof value !== 'number' || fires(value, condition.operator, condition.value);
+    }));
+    if (samples.length < MIN_LABELS) return null;
+
+    const { precision, falsePositives } = summarize(samples);
+    if (precision! >= TARGET_PRECISION) return null;
+
+    let best: { index: number; condition: MetricCondition; previous: number; threshold: number; excluded: number } | null = null;
+    for (let index = 0; index < conditions.length; index++) {
+      const condition = conditions[index];
+      if ('expression' in condition || typeof condition.value !== 'number') continue;
+      const direction: Direction | null = condition.operator === '>' || condition.operator === '>='
+        ? 'above'
+        : condition.operator === '<' || condition.operator === '<=' ? 'below' : null;
+      if (!direction) continue;
+
+      const valuesOf = (positive: boolean) => samples
+        .filter(sample => sample.positive === positive)
+        .map(sample => valueOf(sample, condition.metric))
+        .filter((value): value is number => typeof value === 'number');
+      const falseValues = valuesOf(false);
+
+      const separating = separatingThreshold(valuesOf(true), falseValues, direction);
+      if (separating === null) continue;
+
+      const step = MAX_THRESHOLD_STEP * Math.max(Math.abs(condition.value), 1);
+      const threshold = direction === 'above'
+        ? Math.min(separating, round(condition.value + step))
+        : Math.max(separating, round(condition.value - step));
+      if (direction === 'above' ? threshold <= condition.value : threshold >= condition.value) continue;
+
+      const excluded = falseValues.filter(value => !fires(value, condition.operator, threshold)).length;
+      if (!best || excluded > best.excluded) best = { index, condition, previous: condition.value, threshold, excluded };
+    }
+
+    if (!best) return 'False positives are not separable from real alerts by any threshold';
+    const { index, condition, previous, threshold, excluded } = best;
+    const shift = threshold - previous;
+
+    return {
+      target,
+      kind: 'threshold',
+      previousValue: { condition: index, metric: condition.metric, value: previous, clearValue: condition.clearValue ?? null },
+      newValue: {
+        condition: index,
+        metric: condition.metric,
+        value: threshold,
+        clearValue: condition.clearValue === undefined ? null : round(condition.clearValue + shift),
+      },
+      reason: `${falsePositives} of ${samples.length} labeled alerts were false positives; ` +
+        `${condition.metric} ${condition.operator} ${threshold} would have stopped ${excluded} of them and kept every real one`,
+      precision: precision!,
+      sampleSize: samples.length,
+    };
+  }
+
+  /**
+   * Raise the minimum AI confidence for a component above the scores of its
+   * false positives, staying below every real alert's score
+   */
+  private tuneAiCutoff(target: string, labeled: LabeledAlert[], tuning: DetectionTuning): TuningAdjustment | string | null {
+    const component = target.replace(/^component:/, '');
+    const current = tuning.aiConfidenceCutoffs[component] ?? 0;
+    const confidence = (sample: LabeledAlert) => (sample.alert.metadata as Record<string, any>).aiConfidence as number;
+
+    // Alerts below the current cutoff would no longer be raised
+    const scored = labeled
+      .filter(sample => {
+        const metadata = sample.alert.metadata as Record<string, any> | null;
+        return metadata?.detectionMethod === 'ai_analysis' && typeof metadata.aiConfidence === 'number';
+      })
+      .filter(sample => confidence(sample) >= current);
+    if (scored.length === 0) return null;
+    if (scored.length < MIN_LABELS) return `${scored.length} of ${MIN_LABELS} labeled AI alerts needed`;
+
+    const { precision, falsePositives } = summarize(scored);
+    if (precision! >= TARGET_PRECISION) return null;
+
+    const separating = separatingThreshold(
+      scored.filter(sample => sample.positive).map(confidence),
+      scored.filter(sample => !sample.positive).map(confidence),
+      'above'
+    );
+    if (separating === null) return 'AI false positives score as high as real issues';
+
+    const cutoff = Math.min(separating, MAX_AI_CUTOFF);
+    if (cutoff <= current) return null;
+
+    return {
+      target,
+      kind: 'ai_cutoff',
+      previousValue: current,
+      newValue: cutoff,
+      reason: `${falsePositives} of ${scored.length} labeled AI alerts for ${component} were false positives, ` +
+        `scoring below the real ones`,
+      precision: precision!,
+      sampleSize: scored.length,
+    };
+  }
+
+  /**
+   * Hold back alerts that follow the previous alert of the same target
+   * quickly when such repeats were mostly false, but never long enough to
+   * have held back a real one
+   */
+  private tuneSuppression(target: string, samples: LabeledAlert[], history: AlertSystem[], tuning: DetectionTuning): TuningAdjustment | null {
+    const labels = new Map(samples.map(sample => [sample.alert.id, sample]));
+    const alerts = history
+      .filter(alert => targetOf(alert) === target)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    // Minutes since the previous alert of the target, for labeled repeats
+    const falseGaps: number[] = [];
+    const realGaps: number[] = [];
+    for (let i = 1; i < alerts.length; i++) {
+      const sample = labels.get(alerts[i].id);
+      const gap = (alerts[i].timestamp.getTime() - alerts[i - 1].timestamp.getTime()) / MINUTE;
+      if (!sample || gap > MAX_SUPPRESSION_MINUTES) continue;
+      (sample.positive ? realGaps : falseGaps).push(gap);
+    }
+    if (falseGaps.length < MIN_REPEATS || falseGaps.length <= realGaps.length) return null;
+
+    falseGaps.sort((a, b) => a - b);
+    const typical = falseGaps[Math.floor((falseGaps.length - 1) * 0.75)];
+    let window = Math.min(Math.ceil((typical + 1) / 5) * 5, MAX_SUPPRESSION_MINUTES);
+    if (realGaps.length > 0) window = Math.min(window, Math.floor(Math.min(...realGaps) / 5) * 5);
+
+    const current = tuning.suppressionMinutes[target] ?? 0;
+    const suppressed = falseGaps.filter(gap => gap < window).length;
+    if (suppressed === 0 || window <= current) return null;
+
+    const { precision } = summarize(samples);
+    return {
+      target,
+      kind: 'suppression',
+      previousValue: current,
+      newValue: window,
+      reason: `${falseGaps.length} false positives followed another alert within ${MAX_SUPPRESSION_MINUTES} minutes; ` +
+        `a ${window} minute window would have held back ${suppressed} of them`,
+      precision: precision!,
+      sampleSize: samples.length,
+    };
+  }
+
+  private async apply(adjustment: TuningAdjustment, changedBy: string): Promise<void> {
+    if (adjustment.kind !== 'threshold') return;
+
+    const ruleId = adjustment.target.replace(/^rule:/, '');
+    const rule = await this.rules.getRule(ruleId);
+    if (!rule) return;
+
+    const { condition: index, value, clearValue } = adjustment.newValue as ThresholdSetting;
+    const conditions = (rule.conditions as RuleCondition[]).map((condition, i) =>
+      i === index ? { ...condition, value, ...(clearValue === null ? {} : { clearValue }) } : condition
+    );
+    await this.rules.update(ruleId, { conditions: conditions as InsertAlertRule['conditions'] }, changedBy);
+  }
+}
+
+export const detectionTuner = new DetectionTuner(alertStore, alertRuleService, alertDetectionEngine, alertFeedbackService);
@@ -0,0 +1,114 @@
+import nodemailer, { type Transporter } from "nodemailer";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailDeliveryResult {
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+}
+
+/**
+ * Anything that can deliver an email. The SMTP transport is the default;
+ * tests or other providers can be plugged into NotificationService instead.
+ */
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<EmailDeliveryResult>;
+  verify(): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS (usually port 465)
+  requireTLS: boolean; // fail unless STARTTLS succeeds
+  ignoreTLS: boolean; // never upgrade, e.g. for a local mail catcher
+  rejectUnauthorized: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs: number;
+}
+
+export class EmailRejectedError extends Error {
+  constructor(public recipient: string, public response?: string) {
+    super(`SMTP server rejected recipient ${recipient}${response ? `: ${response}` : ''}`);
+    this.name = 'EmailRejectedError';
+  }
+}
+
+/**
+ * Read SMTP settings from the environment. With nothing set this targets a
+ * plain SMTP server on localhost:587 without authentication.
+ */
+export function smtpConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SmtpConfig {
+  const secure = env.SMTP_SECURE === 'true';
+
+  return {
+    host: env.SMTP_HOST || 'localhost',
+    port: parseInt(env.SMTP_PORT || (secure ? '465' : '587')),
+    secure,
+    requireTLS: env.SMTP_REQUIRE_TLS === 'true',
+    ignoreTLS: env.SMTP_IGNORE_TLS === 'true',
+    rejectUnauthorized: env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false',
+    user: env.SMTP_USER || undefined,
+    pass: env.SMTP_PASS || undefined,
+    from: env.SMTP_FROM || 'AI Energy Management <alerts@energymgmt.local>',
+    timeoutMs: parseInt(env.SMTP_TIMEOUT_MS || '10000'),
+  };
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  private transporter: Transporter;
+
+  constructor(private config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      requireTLS: config.requireTLS,
+      ignoreTLS: config.ignoreTLS,
+      // Only authenticate when credentials are configured; local sinks accept anonymous mail
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+      tls: { rejectUnauthorized: config.rejectUnauthorized },
+      connectionTimeout: config.timeoutMs,
+      greetingTimeout: config.timeoutMs,
+      socketTimeout: config.timeoutMs,
+    });
+  }
+
+  /**
+   * Send a multipart text/HTML message
+   */
+  async send(message: EmailMessage): Promise<EmailDeliveryResult> {
+    const info = await this.transporter.sendMail({
+      from: this.config.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+
+    const accepted = info.accepted.map(String);
+    const rejected = info.rejected.map(String);
+    if (accepted.length === 0) {
+      throw new EmailRejectedError(message.to, info.response);
+    }
+
+    return { messageId: info.messageId, accepted, rejected };
+  }
+
+  /**
+   * Check connectivity and authentication against the SMTP server
+   */
+  async verify(): Promise<void> {
+    await this.transporter.verify();
+  }
+}
+
+export const emailTransport: EmailTransport = new SmtpEmailTransport(smtpConfigFromEnv());
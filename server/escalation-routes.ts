@@ -0,0 +1,105 @@
+import type { Express } from "express";
+import { insertAlertEscalationRuleSchema } from "@shared/alert-schema";
+import { alertEscalationEngine } from "./alert-escalation";
+import { alertStore } from "./alert-store";
+import { z } from "zod";
+
+const escalationRuleSchema = insertAlertEscalationRuleSchema.extend({
+  severity: z.enum(['info', 'warning', 'critical']),
+  type: z.enum(['consumption', 'generation', 'storage', 'device_fault', 'system_health', 'anomaly', 'any']),
+  escalationDelay: z.number().int().min(0),
+  escalationChannels: z.array(z.string().min(1)).min(1),
+  recipients: z.array(z.string().min(1)).optional(),
+});
+
+export async function registerEscalationRoutes(app: Express): Promise<void> {
+  await alertEscalationEngine.seedFromDetectionRules();
+  alertEscalationEngine.start();
+
+  app.get("/api/v1/escalation-rules", async (req, res) => {
+    try {
+      const rules = await alertStore.getEscalationRules();
+      res.json({ rules });
+    } catch (error) {
+      console.error('Error fetching escalation rules:', error);
+      res.status(500).json({ error: 'Failed to fetch escalation rules' });
+    }
+  });
+
+  app.get("/api/v1/escalation-rules/:id", async (req, res) => {
+    try {
+      const rule = await alertStore.getEscalationRule(req.params.id);
+      if (!rule) {
+        return res.status(404).json({ error: 'Escalation rule not found' });
+      }
+      res.json({ rule });
+    } catch (error) {
+      console.error('Error fetching escalation rule:', error);
+      res.status(500).json({ error: 'Failed to fetch escalation rule' });
+    }
+  });
+
+  app.post("/api/v1/escalation-rules", async (req, res) => {
+    try {
+      const data = escalationRuleSchema.parse(req.body);
+      const rule = await alertStore.createEscalationRule(data);
+      res.status(201).json({ rule });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid escalation rule', details: error.errors });
+      }
+      console.error('Error creating escalation rule:', error);
+      res.status(500).json({ error: 'Failed to create escalation rule' });
+    }
+  });
+
+  app.put("/api/v1/escalation-rules/:id", async (req, res) => {
+    try {
+      const changes = escalationRuleSchema.partial().parse(req.body);
+      const rule = await alertStore.updateEscalationRule(req.params.id, changes);
+      if (!rule) {
+        return res.status(404).json({ error: 'Escalation rule not found' });
+      }
+      res.json({ rule });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid escalation rule', details: error.errors });
+      }
+      console.error('Error updating escalation rule:', error);
+      res.status(500).json({ error: 'Failed to update escalation rule' });
+    }
+  });
+
+  app.delete("/api/v1/escalation-rules/:id", async (req, res) => {
+    try {
+      const rule = await alertStore.getEscalationRule(req.params.id);
+      if (!rule) {
+        return res.status(404).json({ error: 'Escalation rule not found' });
+      }
+      await alertStore.deleteEscalationRule(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting escalation rule:', error);
+      res.status(500).json({ error: 'Failed to delete escalation rule' });
+    }
+  });
+
+  // Escalation chain that applies to an alert
+  app.get("/api/v1/alerts/:id/escalation", async (req, res) => {
+    try {
+      const alert = await alertStore.getAlert(req.params.id);
+      if (!alert) {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+
+      const chain = await alertEscalationEngine.getChain(alert);
+      const interactions = await alertStore.getInteractionsForAlert(alert.id);
+      const escalations = interactions.filter(interaction => interaction.action === 'escalate');
+
+      res.json({ chain, escalations });
+    } catch (error) {
+      console.error('Error fetching alert escalation:', error);
+      res.status(500).json({ error: 'Failed to fetch alert escalation' });
+    }
+  });
+}
@@ -0,0 +1,161 @@
+import { readFile, writeFile } from "fs/promises";
+import {
+  runEvaluation,
+  compareReports,
+  DETECTORS,
+  LLM_DETECTOR,
+  type DetectionScore,
+  type EvaluationReport,
+} from "./detection-evaluation";
+import { SCENARIO_KINDS, type ScenarioKind } from "./detection-scenarios";
+
+/**
+ * Evaluate the anomaly detectors against labeled scenarios.
+ *
+ *   npm run evaluate:detection -- [--days 5] [--seed 1] [--detectors statistical,engine]
+ *     [--scenarios spike,drift] [--llm] [--json report.json] [--compare baseline.json]
+ *
+ * With --compare, exits 1 when any F1, recall or false alarm rate is worse
+ * than the baseline report.
+ */
+
+const USAGE = `Usage: npm run evaluate:detection -- [options]
+  --days <n>            Days per scenario, including warm-up (default 5)
+  --warmup-days <n>     Days before any anomaly is injected (default 2)
+  --step <minutes>      Minutes between readings (default 10)
+  --seed <n>            Scenario seed (default 1)
+  --detectors <a,b>     Detectors to run: ${DETECTORS.map(detector => detector.name).join(', ')}
+  --scenarios <a,b>     Scenarios to run: ${SCENARIO_KINDS.join(', ')}
+  --llm                 Also run the configured LLM provider (one request per reading)
+  --json <file>         Write the report as JSON
+  --compare <file>      Compare with a baseline JSON report; exit 1 on regressions
+  --tolerance <x>       Allowed drop before a change counts as a regression (default 0.05)`;
+
+function parseArgs(argv: string[]): Map<string, string | true> {
+  const args = new Map<string, string | true>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) throw new Error(`Unexpected argument "${arg}"`);
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      args.set(arg.slice(2), next);
+      i++;
+    } else {
+      args.set(arg.slice(2), true);
+    }
+  }
+  return args;
+}
+
+function numberArg(args: Map<string, string | true>, name: string): number | undefined {
+  const value = args.get(name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (value === true || !Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`--${name} must be a positive number`);
+  }
+  return parsed;
+}
+
+function listArg(args: Map<string, string | true>, name: string, allowed: readonly string[]): string[] | undefined {
+  const value = args.get(name);
+  if (value === undefined) return undefined;
+  if (value === true) throw new Error(`--${name} needs a comma-separated list`);
+  const items = value.split(',').map(item => item.trim()).filter(Boolean);
+  const unknown = items.filter(item => !allowed.includes(item));
+  if (unknown.length > 0) throw new Error(`Unknown ${name}: ${unknown.join(', ')}`);
+  return items;
+}
+
+const percent = (value: number | null) => value === null ? '-' : `${(value * 100).toFixed(0)}%`;
+const fixed = (value: number | null, digits = 1) => value === null ? '-' : value.toFixed(digits);
+
+function printTable(title: string, rows: Array<DetectionScore & { label: string }>) {
+  const header = ['', 'events', 'detected', 'alarms', 'false', 'precision', 'recall', 'F1', 'latency (min)', 'false/day'];
+  const body = rows.map(row => [
+    row.label,
+    String(row.events),
+    String(row.detected),
+    String(row.alarms),
+    String(row.falseAlarms),
+    percent(row.precision),
+    percent(row.recall),
+    fixed(row.f1, 2),
+    fixed(row.meanLatencyMinutes, 0),
+    fixed(row.falseAlarmsPerDay, 2),
+  ]);
+  const widths = header.map((cell, column) => Math.max(cell.length, ...body.map(row => row[column].length)));
+  const line = (cells: string[]) =>
+    cells.map((cell, column) => column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])).join('  ');
+
+  console.log(`\n${title}`);
+  console.log(line(header));
+  body.forEach(row => console.log(line(row)));
+}
+
+function printReport(report: EvaluationReport) {
+  for (const detector of report.detectors) {
+    printTable(
+      `${detector.name} — ${detector.description}`,
+      report.results
+        .filter(result => result.detector === detector.name)
+        .map(result => ({ ...result, label: result.scenario }))
+    );
+  }
+  printTable('Summary', report.summary.map(entry => ({ ...entry, label: entry.detector })));
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.has('help')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const detectorNames = listArg(args, 'detectors', DETECTORS.map(detector => detector.name));
+  const detectors = DETECTORS.filter(detector => !detectorNames || detectorNames.includes(detector.name));
+  if (args.has('llm')) detectors.push(LLM_DETECTOR);
+
+  const report = await runEvaluation(
+    {
+      detectors,
+      scenarios: listArg(args, 'scenarios', SCENARIO_KINDS) as ScenarioKind[] | undefined,
+      days: numberArg(args, 'days'),
+      warmupDays: numberArg(args, 'warmup-days'),
+      stepMinutes: numberArg(args, 'step'),
+      seed: numberArg(args, 'seed'),
+    },
+    (detector, scenario) => process.stderr.write(`Evaluating ${detector} on ${scenario}...\n`)
+  );
+  printReport(report);
+
+  const jsonPath = args.get('json');
+  if (typeof jsonPath === 'string') {
+    await writeFile(jsonPath, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\nReport written to ${jsonPath}`);
+  }
+
+  const baselinePath = args.get('compare');
+  if (typeof baselinePath === 'string') {
+    const baseline = JSON.parse(await readFile(baselinePath, 'utf8')) as EvaluationReport;
+    if (JSON.stringify(baseline.options) !== JSON.stringify(report.options)) {
+      console.warn(`\nWarning: ${baselinePath} was generated with different options, so scores may not be comparable`);
+    }
+    const regressions = compareReports(report, baseline, numberArg(args, 'tolerance'));
+    if (regressions.length === 0) {
+      console.log(`\nNo regressions against ${baselinePath}`);
+    } else {
+      console.log(`\n${regressions.length} regression(s) against ${baselinePath}:`);
+      for (const regression of regressions) {
+        console.log(`  ${regression.detector} / ${regression.scenario}: ${regression.metric} ${fixed(regression.baseline, 2)} -> ${fixed(regression.current, 2)}`);
+      }
+      process.exitCode = 1;
+    }
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(USAGE);
+  process.exitCode = 1;
+});
@@ -0,0 +1,98 @@
+import type { Express } from "express";
+import { FEEDBACK_LABELS } from "@shared/alert-schema";
+import { alertFeedbackService } from "./alert-feedback";
+import { AlertNotFoundError } from "./alert-lifecycle";
+import { alertDetectionEngine } from "./alert-detection-engine";
+import { detectionTuner } from "./detection-tuning";
+import { z } from "zod";
+
+const feedbackSchema = z.object({
+  userId: z.string().min(1).default('system'),
+  label: z.enum(FEEDBACK_LABELS),
+  notes: z.string().max(2000).optional()
+});
+
+const tuningRunSchema = z.object({
+  days: z.number().int().min(1).max(365).default(30),
+  dryRun: z.boolean().default(false),
+  changedBy: z.string().min(1).optional()
+});
+
+export async function registerFeedbackRoutes(app: Express): Promise<void> {
+  await detectionTuner.load();
+
+  // Periodic tuning is off unless an interval is configured
+  const tuningInterval = Number(process.env.FEEDBACK_TUNING_INTERVAL_MS);
+  if (tuningInterval > 0) {
+    detectionTuner.start(tuningInterval);
+  }
+
+  // Label an alert as a real issue, useful or a false positive
+  app.post("/api/v1/alerts/:id/feedback", async (req, res) => {
+    try {
+      const { userId, label, notes } = feedbackSchema.parse(req.body);
+      const feedback = await alertFeedbackService.record(req.params.id, userId, label, notes);
+      res.status(201).json({ feedback });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid feedback', details: error.errors });
+      }
+      if (error instanceof AlertNotFoundError) {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+      console.error('Error recording alert feedback:', error);
+      res.status(500).json({ error: 'Failed to record alert feedback' });
+    }
+  });
+
+  app.get("/api/v1/alerts/:id/feedback", async (req, res) => {
+    try {
+      const feedback = await alertFeedbackService.getForAlert(req.params.id);
+      res.json({ feedback });
+    } catch (error) {
+      console.error('Error fetching alert feedback:', error);
+      res.status(500).json({ error: 'Failed to fetch alert feedback' });
+    }
+  });
+
+  // AI cutoffs and suppression windows in effect, and every change the tuner made
+  app.get("/api/v1/detection-tuning", async (req, res) => {
+    try {
+      const changes = await detectionTuner.getChanges();
+      res.json({ tuning: alertDetectionEngine.getTuning(), changes });
+    } catch (error) {
+      console.error('Error fetching detection tuning:', error);
+      res.status(500).json({ error: 'Failed to fetch detection tuning' });
+    }
+  });
+
+  // Tune from the labeled history now; dryRun only reports what would change
+  app.post("/api/v1/detection-tuning/run", async (req, res) => {
+    try {
+      const options = tuningRunSchema.parse(req.body ?? {});
+      const run = await detectionTuner.run(options);
+      res.json(run);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid tuning run', details: error.errors });
+      }
+      console.error('Error running detection tuning:', error);
+      res.status(500).json({ error: 'Failed to run detection tuning' });
+    }
+  });
+
+  // Precision of each rule before and after it was last tuned
+  app.get("/api/v1/detection-tuning/report", async (req, res) => {
+    try {
+      const days = z.coerce.number().int().min(1).max(365).default(90).parse(req.query.days);
+      const report = await detectionTuner.report(days);
+      res.json({ report });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid report window', details: error.errors });
+      }
+      console.error('Error building detection tuning report:', error);
+      res.status(500).json({ error: 'Failed to build detection tuning report' });
+    }
+  });
+}
@@ -0,0 +1,81 @@
+import type { Express, Response } from "express";
+import { type IncidentStatus } from "@shared/alert-schema";
+import { incidentService, IncidentNotFoundError, IncidentTransitionError, type IncidentAction } from "./incidents";
+import { z } from "zod";
+
+const INCIDENT_STATUSES = ['open', 'acknowledged', 'resolved'] as const;
+
+const listQuerySchema = z.object({
+  status: z.string().optional()
+    .transform(value => value ? value.split(',').map(status => status.trim()).filter(Boolean) : undefined)
+    .pipe(z.array(z.enum(INCIDENT_STATUSES)).optional()),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+const transitionSchema = z.object({
+  userId: z.string().min(1).default('system'),
+  notes: z.string().max(2000).optional()
+});
+
+export async function registerIncidentRoutes(app: Express): Promise<void> {
+  // Incidents with their alerts, most recent activity first
+  app.get("/api/v1/incidents", async (req, res) => {
+    try {
+      const { status, limit } = listQuerySchema.parse(req.query);
+      const incidents = await incidentService.list({ statuses: status as IncidentStatus[] | undefined, limit });
+      res.json({ incidents });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid incident query', details: error.errors });
+      }
+      console.error('Error fetching incidents:', error);
+      res.status(500).json({ error: 'Failed to fetch incidents' });
+    }
+  });
+
+  app.get("/api/v1/incidents/:id", async (req, res) => {
+    try {
+      const incident = await incidentService.get(req.params.id);
+      res.json({ incident });
+    } catch (error) {
+      handleIncidentError(res, error, 'Failed to fetch incident');
+    }
+  });
+
+  // Acknowledging or resolving an incident does the same to its open alerts
+  const actions: Array<[IncidentAction, string]> = [
+    ['acknowledge', 'Incident acknowledged'],
+    ['resolve', 'Incident resolved'],
+  ];
+  for (const [action, message] of actions) {
+    app.post(`/api/v1/incidents/:id/${action}`, async (req, res) => {
+      try {
+        const { userId, notes } = transitionSchema.parse(req.body ?? {});
+        const incident = await incidentService.transition(req.params.id, action, userId, notes);
+        res.json({ success: true, message, incident });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ error: 'Invalid incident action', details: error.errors });
+        }
+        handleIncidentError(res, error, `Failed to ${action} incident`);
+      }
+    });
+  }
+}
+
+function handleIncidentError(res: Response, error: unknown, message: string) {
+  if (error instanceof IncidentNotFoundError) {
+    return res.status(404).json({ error: 'Incident not found' });
+  }
+
+  if (error instanceof IncidentTransitionError) {
+    return res.status(409).json({
+      error: error.message,
+      currentStatus: error.currentStatus,
+      allowedFrom: error.allowedFrom
+    });
+  }
+
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
@@ -0,0 +1,91 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { type AlertSystem } from "@shared/alert-schema";
+import { MemAlertStore } from "./alert-store";
+import { AlertLifecycle } from "./alert-lifecycle";
+import { IncidentService, IncidentTransitionError } from "./incidents";
+
+describe('IncidentService', () => {
+  let store: MemAlertStore;
+  let lifecycle: AlertLifecycle;
+  let incidents: IncidentService;
+
+  const raise = async (deviceId: string): Promise<AlertSystem> => {
+    const alert = await store.createAlert({
+      title: `${deviceId} fault`,
+      description: 'Detected by test',
+      type: 'device_fault',
+      severity: 'warning',
+      source: 'manual',
+      deviceId,
+    });
+    return (await incidents.correlate(alert)).alert;
+  };
+
+  beforeEach(() => {
+    store = new MemAlertStore();
+    lifecycle = new AlertLifecycle(store);
+    incidents = new IncidentService(store, lifecycle);
+  });
+
+  it('resolves the incident when its last alert is resolved', async () => {
+    const inverter = await raise('inverter');
+    const solar = await raise('solar_panels');
+
+    await lifecycle.transition(inverter.id, 'resolve', 'ops');
+    assert.equal((await incidents.get(inverter.incidentId!)).status, 'open');
+    await lifecycle.transition(solar.id, 'dismiss', 'ops');
+
+    const incident = await store.getIncident(inverter.incidentId!);
+    assert.equal(incident?.status, 'resolved');
+    assert.equal(incident?.resolvedBy, 'system');
+    assert.deepEqual(await incidents.list({ statuses: ['open'] }), []);
+  });
+
+  it('reopens a resolved incident when one of its alerts reopens', async () => {
+    const alert = await raise('battery_system');
+    await lifecycle.transition(alert.id, 'resolve', 'ops');
+
+    await lifecycle.transition(alert.id, 'reopen', 'ops');
+
+    const incident = await store.getIncident(alert.incidentId!);
+    assert.equal(incident?.status, 'open');
+    assert.equal(incident?.resolvedAt, null);
+  });
+
+  it('applies the limit to incidents that match the status filter', async () => {
+    const closed = await raise('inverter');
+    await lifecycle.transition(closed.id, 'resolve', 'ops');
+    const open = await raise('grid_load');
+
+    const listed = await incidents.list({ statuses: ['open'], limit: 1 });
+
+    assert.deepEqual(listed.map(incident => incident.id), [open.incidentId]);
+  });
+
+  it('keeps the operator as resolver when resolving the incident closes its alerts', async () => {
+    const inverter = await raise('inverter');
+    await raise('solar_panels');
+
+    const incident = await incidents.transition(inverter.incidentId!, 'resolve', 'ops', 'Replaced inverter');
+
+    assert.equal(incident.status, 'resolved');
+    assert.equal(incident.resolvedBy, 'ops');
+    assert.deepEqual(incident.alerts.map(alert => alert.status), ['resolved', 'resolved']);
+    assert.equal((await store.getIncident(incident.id))?.resolvedBy, 'ops');
+  });
+
+  it('lets only one of two concurrent transitions through', async () => {
+    const alert = await raise('inverter');
+
+    const results = await Promise.allSettled([
+      incidents.transition(alert.incidentId!, 'acknowledge', 'ops'),
+      incidents.transition(alert.incidentId!, 'acknowledge', 'oncall'),
+    ]);
+
+    assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+    const [rejected] = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    assert.ok(rejected.reason instanceof IncidentTransitionError);
+    assert.equal(rejected.reason.currentStatus, 'acknowledged');
+  });
+});
@@ -0,0 +1,252 @@
+import { type AlertSystem, type Incident, type IncidentStatus, SEVERITY_RANK } from "@shared/alert-schema";
+import { alertStore, type AlertStore } from "./alert-store";
+import { alertLifecycle, AlertTransitionError, type AlertAction, type AlertLifecycle } from "./alert-lifecycle";
+import { realtimeHub } from "./realtime";
+
+export type IncidentAction = 'acknowledge' | 'resolve';
+
+export type IncidentWithAlerts = Incident & { alerts: AlertSystem[] };
+
+export interface CorrelationResult {
+  alert: AlertSystem;
+  incident: Incident;
+  created: boolean;
+}
+
+/**
+ * Which components a fault propagates to. A failing inverter starves solar
+ * generation, which drains storage, which pushes load onto the grid.
+ */
+export const COMPONENT_TOPOLOGY: Record<string, string[]> = {
+  inverter: ['solar_panels'],
+  solar_panels: ['battery_system', 'grid_connection'],
+  battery_system: ['grid_connection'],
+  grid_load: ['battery_system', 'grid_connection'],
+};
+
+const DEFAULT_WINDOW_MINUTES = 30;
+
+const OPEN_STATUSES: IncidentStatus[] = ['open', 'acknowledged'];
+const OPEN_ALERT_STATUSES = ['active', 'acknowledged'];
+
+// Allowed source statuses and resulting status for each incident action
+const TRANSITIONS: Record<IncidentAction, { from: IncidentStatus[]; to: IncidentStatus }> = {
+  acknowledge: { from: ['open'], to: 'acknowledged' },
+  resolve: { from: ['open', 'acknowledged'], to: 'resolved' },
+};
+
+// Child alert statuses each incident action carries over to
+const CASCADES: Record<IncidentAction, { action: AlertAction; from: string[] }> = {
+  acknowledge: { action: 'acknowledge', from: ['active'] },
+  resolve: { action: 'resolve', from: OPEN_ALERT_STATUSES },
+};
+
+export class IncidentNotFoundError extends Error {
+  constructor(public incidentId: string) {
+    super(`Incident ${incidentId} not found`);
+    this.name = 'IncidentNotFoundError';
+  }
+}
+
+export class IncidentTransitionError extends Error {
+  constructor(public incidentId: string, public currentStatus: string, public action: IncidentAction) {
+    super(`Cannot ${action} incident ${incidentId} while it is ${currentStatus}`);
+    this.name = 'IncidentTransitionError';
+  }
+
+  get allowedFrom(): IncidentStatus[] {
+    return TRANSITIONS[this.action].from;
+  }
+}
+
+const componentOf = (alert: AlertSystem) => alert.deviceId ?? 'system';
+
+/**
+ * Whether a fault in `from` can show up downstream in `to`
+ */
+function reaches(from: string, to: string, seen = new Set<string>()): boolean {
+  for (const next of COMPONENT_TOPOLOGY[from] ?? []) {
+    if (next === to) return true;
+    if (seen.has(next)) continue;
+    seen.add(next);
+    if (reaches(next, to, seen)) return true;
+  }
+  return false;
+}
+
+export function componentsRelated(a: string, b: string): boolean {
+  return a === b || reaches(a, b) || reaches(b, a);
+}
+
+/**
+ * Groups related alerts into incidents: alerts at the same location within
+ * the correlation window whose components are the same or connected in the
+ * component topology. The most upstream component is the probable root cause.
+ */
+export class IncidentService {
+  private windowMs: number;
+
+  constructor(
+    private store: AlertStore,
+    private lifecycle: AlertLifecycle,
+    windowMinutes = DEFAULT_WINDOW_MINUTES
+  ) {
+    this.windowMs = windowMinutes * 60 * 1000;
+    // Alerts are also handled one by one; every transition settles their incident
+    lifecycle.onTransition(async (alert, _action, metadata) => {
+      // The incident's own transition already set its status
+      if (metadata?.via === 'incident') return;
+      if (alert.incidentId) await this.settle(alert.incidentId);
+    });
+  }
+
+  /**
+   * Attach a new alert to the open incident it belongs to, or open one for it
+   */
+  async correlate(alert: AlertSystem): Promise<CorrelationResult> {
+    const component = componentOf(alert);
+    const candidates = await this.store.getIncidents({
+      statuses: OPEN_STATUSES,
+      since: new Date(alert.timestamp.getTime() - this.windowMs),
+    });
+
+    // Most recent first; an incident on the same component beats a related one
+    const local = candidates.filter(incident => (incident.location ?? null) === (alert.location ?? null));
+    const match =
+      local.find(incident => (incident.components as string[]).includes(component)) ??
+      local.find(incident => (incident.components as string[]).some(other => componentsRelated(component, other)));
+
+    if (!match) {
+      const incident = await this.store.createIncident({
+        ...this.summarize([alert]),
+        location: alert.location ?? null,
+        openedAt: alert.timestamp,
+      });
+      const updated = await this.store.updateAlert(alert.id, { incidentId: incident.id });
+      realtimeHub.publish('alerts', 'incident_updated', incident);
+      return { alert: updated ?? alert, incident, created: true };
+    }
+
+    const updated = await this.store.updateAlert(alert.id, { incidentId: match.id });
+    const alerts = await this.store.getAlertsForIncident(match.id);
+    const incident = await this.store.updateIncident(match.id, this.summarize(alerts)) ?? match;
+    realtimeHub.publish('alerts', 'incident_updated', incident);
+    return { alert: updated ?? alert, incident, created: false };
+  }
+
+  async get(incidentId: string): Promise<IncidentWithAlerts> {
+    const incident = await this.store.getIncident(incidentId);
+    if (!incident) {
+      throw new IncidentNotFoundError(incidentId);
+    }
+    return { ...incident, alerts: await this.store.getAlertsForIncident(incidentId) };
+  }
+
+  /**
+   * Incidents with their alerts, most recent activity first
+   */
+  async list(options: { statuses?: IncidentStatus[]; limit?: number } = {}): Promise<IncidentWithAlerts[]> {
+    const incidents = await this.store.getIncidents(options);
+    const withAlerts: IncidentWithAlerts[] = [];
+    for (const incident of incidents) {
+      withAlerts.push({ ...incident, alerts: await this.store.getAlertsForIncident(incident.id) });
+    }
+    return withAlerts;
+  }
+
+  /**
+   * Acknowledge or resolve an incident and, with it, its open alerts
+   */
+  async transition(incidentId: string, action: IncidentAction, userId: string, notes?: string): Promise<IncidentWithAlerts> {
+    const incident = await this.store.getIncident(incidentId);
+    if (!incident) {
+      throw new IncidentNotFoundError(incidentId);
+    }
+
+    const transition = TRANSITIONS[action];
+    if (!transition.from.includes(incident.status as IncidentStatus)) {
+      throw new IncidentTransitionError(incidentId, incident.status, action);
+    }
+
+    // Conditional update guards against a concurrent transition winning the race
+    const now = new Date();
+    const updated = await this.store.updateIncidentIfStatus(incidentId, transition.from, action === 'acknowledge'
+      ? { status: transition.to, acknowledgedAt: now, acknowledgedBy: userId }
+      : { status: transition.to, resolvedAt: now, resolvedBy: userId, resolutionNotes: notes ?? null }
+    );
+    if (!updated) {
+      const current = await this.store.getIncident(incidentId);
+      throw new IncidentTransitionError(incidentId, current?.status ?? 'unknown', action);
+    }
+
+    const cascade = CASCADES[action];
+    for (const alert of await this.store.getAlertsForIncident(incidentId)) {
+      if (!cascade.from.includes(alert.status)) continue;
+      try {
+        await this.lifecycle.transition(alert.id, cascade.action, userId, notes, { via: 'incident', incidentId });
+      } catch (error) {
+        // Someone changed the alert in the meantime
+        if (!(error instanceof AlertTransitionError)) throw error;
+      }
+    }
+
+    realtimeHub.publish('alerts', 'incident_updated', updated);
+    return { ...updated, alerts: await this.store.getAlertsForIncident(incidentId) };
+  }
+
+  /**
+   * Bring an incident's status in line with its alerts: resolved once they
+   * all are, open again if one reopens
+   */
+  private async settle(incidentId: string): Promise<void> {
+    const alerts = await this.store.getAlertsForIncident(incidentId);
+    const anyOpen = alerts.some(alert => OPEN_ALERT_STATUSES.includes(alert.status));
+
+    // Conditional, so a concurrent incident transition isn't overwritten
+    const updated = anyOpen
+      ? await this.store.updateIncidentIfStatus(incidentId, ['resolved'], {
+          status: 'open',
+          acknowledgedAt: null,
+          acknowledgedBy: null,
+          resolvedAt: null,
+          resolvedBy: null,
+          resolutionNotes: null,
+        })
+      : alerts.length > 0
+        ? await this.store.updateIncidentIfStatus(incidentId, OPEN_STATUSES, {
+            status: 'resolved', resolvedAt: new Date(), resolvedBy: 'system', resolutionNotes: 'All alerts closed'
+          })
+        : undefined;
+    if (updated) realtimeHub.publish('alerts', 'incident_updated', updated);
+  }
+
+  /**
+   * Severity, components and root cause of an incident from its alerts (oldest first)
+   */
+  private summarize(alerts: AlertSystem[]) {
+    const components = Array.from(new Set(alerts.map(componentOf)));
+    // Upstream of everything else in the incident; ties go to the earliest alert
+    const rootComponent = components.find(component =>
+      !components.some(other => other !== component && reaches(other, component))
+    ) ?? components[0];
+    const rootAlert = alerts.find(alert => componentOf(alert) === rootComponent) ?? alerts[0];
+    const worst = alerts.reduce((max, alert) =>
+      (SEVERITY_RANK[alert.severity] ?? 0) > (SEVERITY_RANK[max.severity] ?? 0) ? alert : max
+    );
+
+    return {
+      title: rootAlert.title,
+      severity: worst.severity,
+      rootComponent,
+      components,
+      alertCount: alerts.length,
+      lastAlertAt: alerts.reduce((latest, alert) => alert.timestamp > latest ? alert.timestamp : latest, alerts[0].timestamp),
+    };
+  }
+}
+
+export const incidentService = new IncidentService(
+  alertStore,
+  alertLifecycle,
+  Number(process.env.INCIDENT_WINDOW_MINUTES) || DEFAULT_WINDOW_MINUTES
+);
@@ -0,0 +1,83 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  FixtureLlmProvider,
+  LlmNotConfiguredError,
+  LlmResponseError,
+  LlmService,
+  createLlmProvider,
+  llmConfigFromEnv
+} from "./llm-provider";
+
+const question = [{ role: 'user' as const, content: 'How is the battery doing?' }];
+
+describe('llmConfigFromEnv', () => {
+  it('picks the provider from the credentials that are set', () => {
+    assert.equal(llmConfigFromEnv({ OPENAI_API_KEY: 'sk-test' }).provider, 'openai');
+    assert.equal(llmConfigFromEnv({ LLM_BASE_URL: 'http://localhost:11434/v1' }).provider, 'openai-compatible');
+    assert.equal(llmConfigFromEnv({}).provider, 'none');
+    assert.equal(createLlmProvider(llmConfigFromEnv({ LLM_PROVIDER: 'fixture' }))?.name, 'fixture');
+  });
+
+  it('lets each task override the default model', () => {
+    const config = llmConfigFromEnv({ LLM_MODEL: 'llama3.1', LLM_MODEL_INSIGHTS: 'qwen2.5' });
+
+    assert.deepEqual(config.models, { anomaly_analysis: 'llama3.1', daily_insights: 'qwen2.5' });
+  });
+});
+
+describe('LlmService', () => {
+  it('sends each task to its model and totals tokens and cost', async () => {
+    const provider = new FixtureLlmProvider({ daily_insights: 'Battery is fine.' });
+    const service = new LlmService(provider, llmConfigFromEnv({
+      LLM_PROVIDER: 'fixture',
+      LLM_MODEL_INSIGHTS: 'insights-model',
+      LLM_PRICE_INPUT_PER_MTOK: '2',
+      LLM_PRICE_OUTPUT_PER_MTOK: '8'
+    }));
+
+    const completion = await service.complete('daily_insights', question);
+
+    assert.equal(completion.content, 'Battery is fine.');
+    assert.equal(provider.requests[0].model, 'insights-model');
+    const { tasks, total } = service.getUsage();
+    assert.equal(tasks.daily_insights.requests, 1);
+    assert.equal(tasks.daily_insights.promptTokens, completion.promptTokens);
+    assert.equal(total.costUsd, (completion.promptTokens * 2 + completion.completionTokens * 8) / 1_000_000);
+    assert.equal(tasks.anomaly_analysis.requests, 0);
+  });
+
+  it('leaves cost out when no prices are configured', async () => {
+    const service = new LlmService(new FixtureLlmProvider(), llmConfigFromEnv({ LLM_PROVIDER: 'fixture' }));
+
+    await service.complete('daily_insights', question);
+
+    assert.equal(service.getUsage().total.costUsd, null);
+  });
+
+  it('rejects answers that are not JSON or fail validation, counting them as failures', async () => {
+    const provider = new FixtureLlmProvider({ anomaly_analysis: 'Looks fine to me' });
+    const service = new LlmService(provider, llmConfigFromEnv({ LLM_PROVIDER: 'fixture' }));
+    const schema = { name: 'answer', schema: { type: 'object' } };
+    const validate = (value: unknown) => {
+      if (typeof (value as { ok?: unknown }).ok !== 'boolean') throw new Error('ok: Required');
+      return value as { ok: boolean };
+    };
+
+    await assert.rejects(service.completeJson('anomaly_analysis', question, schema, validate), LlmResponseError);
+    provider.setFixture('anomaly_analysis', '{"ok":"yes"}');
+    await assert.rejects(service.completeJson('anomaly_analysis', question, schema, validate), /ok: Required/);
+    provider.setFixture('anomaly_analysis', '{"ok":true}');
+    assert.deepEqual(await service.completeJson('anomaly_analysis', question, schema, validate), { ok: true });
+
+    assert.equal(provider.requests[0].responseSchema, schema);
+    assert.equal(service.getUsage().tasks.anomaly_analysis.failures, 2);
+  });
+
+  it('refuses to complete without a provider', async () => {
+    const service = new LlmService(null, llmConfigFromEnv({}));
+
+    assert.equal(service.isConfigured(), false);
+    await assert.rejects(service.complete('daily_insights', question), LlmNotConfiguredError);
+  });
+});
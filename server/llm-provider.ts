@@ -0,0 +1,394 @@
+import OpenAI from "openai";
+
+// What the model is asked to do; each task can use its own model
+export type LlmTask = 'anomaly_analysis' | 'daily_insights';
+
+export const LLM_TASKS: LlmTask[] = ['anomaly_analysis', 'daily_insights'];
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * JSON schema the response has to follow. Sent to the model as a structured
+ * output constraint; callers still validate what comes back.
+ */
+export interface LlmResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  model: string;
+  messages: LlmMessage[];
+  responseSchema?: LlmResponseSchema;
+  maxTokens?: number;
+}
+
+export interface LlmCompletion {
+  content: string;
+  model: string;
+  provider: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Anything that can complete a chat. OpenAI and OpenAI-compatible servers
+ * (llama.cpp, Ollama, vLLM, ...) are built in; the fixture provider answers
+ * deterministically without a model.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+}
+
+export interface LlmConfig {
+  provider: 'openai' | 'openai-compatible' | 'fixture' | 'none';
+  apiKey?: string;
+  baseUrl?: string;
+  timeoutMs: number;
+  models: Record<LlmTask, string>;
+  // USD per million tokens; unset means cost isn't tracked
+  pricing: {
+    inputPerMillion?: number;
+    outputPerMillion?: number;
+  };
+}
+
+export class LlmProviderError extends Error {
+  constructor(public provider: string, public statusCode: number, public responseBody: string) {
+    super(`${provider} LLM provider responded with ${statusCode}${responseBody ? `: ${responseBody}` : ''}`);
+    this.name = 'LlmProviderError';
+  }
+}
+
+/**
+ * The model answered, but not with what was asked for
+ */
+export class LlmResponseError extends Error {
+  constructor(message: string, public content: string) {
+    super(message);
+    this.name = 'LlmResponseError';
+  }
+}
+
+export class LlmNotConfiguredError extends Error {
+  constructor() {
+    super('No LLM provider configured (set OPENAI_API_KEY, or LLM_PROVIDER and LLM_BASE_URL)');
+    this.name = 'LlmNotConfiguredError';
+  }
+}
+
+// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
+const DEFAULT_MODEL = "gpt-5";
+
+const parsePrice = (value: string | undefined) => (value ? parseFloat(value) : undefined);
+
+/**
+ * Read LLM settings from the environment. OPENAI_API_KEY alone selects
+ * OpenAI; LLM_BASE_URL alone selects an OpenAI-compatible server.
+ */
+export function llmConfigFromEnv(env: NodeJS.ProcessEnv = process.env): LlmConfig {
+  const provider = (env.LLM_PROVIDER as LlmConfig['provider'] | undefined)
+    ?? (env.OPENAI_API_KEY ? 'openai' : env.LLM_BASE_URL ? 'openai-compatible' : 'none');
+  const model = env.LLM_MODEL || DEFAULT_MODEL;
+
+  return {
+    provider,
+    apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY || undefined,
+    baseUrl: env.LLM_BASE_URL || undefined,
+    timeoutMs: parseInt(env.LLM_TIMEOUT_MS || '30000'),
+    models: {
+      anomaly_analysis: env.LLM_MODEL_ANOMALY || model,
+      daily_insights: env.LLM_MODEL_INSIGHTS || model,
+    },
+    pricing: {
+      inputPerMillion: parsePrice(env.LLM_PRICE_INPUT_PER_MTOK),
+      outputPerMillion: parsePrice(env.LLM_PRICE_OUTPUT_PER_MTOK),
+    },
+  };
+}
+
+/**
+ * OpenAI Chat Completions through the official SDK
+ */
+export class OpenAiLlmProvider implements LlmProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(config: LlmConfig) {
+    if (!config.apiKey) {
+      throw new Error('OpenAI LLM provider requires OPENAI_API_KEY');
+    }
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseUrl,
+      timeout: config.timeoutMs,
+      maxRetries: 1,
+    });
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    try {
+      const response = await this.client.chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        max_completion_tokens: request.maxTokens,
+        response_format: request.responseSchema
+          ? { type: 'json_schema', json_schema: { ...request.responseSchema, strict: true } }
+          : undefined,
+      });
+
+      return {
+        content: response.choices[0]?.message.content ?? '',
+        model: response.model,
+        provider: this.name,
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: response.usage?.completion_tokens ?? 0,
+      };
+    } catch (error) {
+      if (error instanceof OpenAI.APIError && error.status) {
+        throw new LlmProviderError(this.name, error.status, error.message.slice(0, 500));
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Any server exposing /chat/completions the way OpenAI does, e.g. a local
+ * llama.cpp or Ollama server (LLM_BASE_URL=http://localhost:11434/v1)
+ */
+export class OpenAiCompatibleLlmProvider implements LlmProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(private config: LlmConfig) {
+    if (!config.baseUrl) {
+      throw new Error('OpenAI-compatible LLM provider requires LLM_BASE_URL');
+    }
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+
+    const response = await fetch(`${this.config.baseUrl!.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        response_format: request.responseSchema
+          ? { type: 'json_schema', json_schema: { ...request.responseSchema, strict: true } }
+          : undefined,
+      }),
+      signal: AbortSignal.timeout(this.config.timeoutMs),
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new LlmProviderError(this.name, response.status, text.slice(0, 500));
+    }
+
+    let result: {
+      model?: string;
+      choices?: Array<{ message?: { content?: string | null } }>;
+      usage?: { prompt_tokens?: number; completion_tokens?: number };
+    };
+    try {
+      result = JSON.parse(text);
+    } catch {
+      throw new LlmResponseError(`${this.name} LLM provider returned a body that isn't JSON`, text.slice(0, 500));
+    }
+
+    return {
+      content: result.choices?.[0]?.message?.content ?? '',
+      model: result.model ?? request.model,
+      provider: this.name,
+      promptTokens: result.usage?.prompt_tokens ?? 0,
+      completionTokens: result.usage?.completion_tokens ?? 0,
+    };
+  }
+}
+
+type Fixture = string | ((request: LlmRequest) => string);
+
+// Rough token count for providers that don't report usage
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Deterministic answers per task, for tests and demos without a model.
+ * Every request is kept so tests can inspect the prompts.
+ */
+export class FixtureLlmProvider implements LlmProvider {
+  readonly name = 'fixture';
+  readonly requests: LlmRequest[] = [];
+
+  constructor(private fixtures: Partial<Record<LlmTask, Fixture>> = {}) {}
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    this.requests.push(request);
+
+    const fixture = this.fixtures[request.task] ?? FIXTURE_DEFAULTS[request.task];
+    const content = typeof fixture === 'function' ? fixture(request) : fixture;
+    return {
+      content,
+      model: request.model,
+      provider: this.name,
+      promptTokens: request.messages.reduce((total, message) => total + estimateTokens(message.content), 0),
+      completionTokens: estimateTokens(content),
+    };
+  }
+
+  setFixture(task: LlmTask, fixture: Fixture): void {
+    this.fixtures[task] = fixture;
+  }
+}
+
+const FIXTURE_DEFAULTS: Record<LlmTask, string> = {
+  anomaly_analysis: JSON.stringify({
+    isAnomaly: false,
+    score: 0.1,
+    type: null,
+    severity: null,
+    description: 'Readings are consistent with recent history (fixture response).',
+    affectedComponent: null,
+  }),
+  daily_insights: 'Energy use was in line with generation today. (fixture response)',
+};
+
+export function createLlmProvider(config: LlmConfig): LlmProvider | null {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAiLlmProvider(config);
+    case 'openai-compatible':
+      return new OpenAiCompatibleLlmProvider(config);
+    case 'fixture':
+      return new FixtureLlmProvider();
+    default:
+      return null;
+  }
+}
+
+export interface LlmUsageTotals {
+  requests: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number | null; // null when no pricing is configured
+}
+
+const emptyTotals = (): LlmUsageTotals => ({
+  requests: 0, failures: 0, promptTokens: 0, completionTokens: 0, costUsd: null
+});
+
+/**
+ * Front for the configured provider: picks the model for each task and
+ * keeps token and cost totals per task since startup
+ */
+export class LlmService {
+  private usage = new Map<LlmTask, LlmUsageTotals>();
+
+  constructor(private provider: LlmProvider | null, private config: LlmConfig) {}
+
+  isConfigured(): boolean {
+    return this.provider !== null;
+  }
+
+  get providerName(): string {
+    return this.provider?.name ?? 'none';
+  }
+
+  modelFor(task: LlmTask): string {
+    return this.config.models[task];
+  }
+
+  async complete(
+    task: LlmTask,
+    messages: LlmMessage[],
+    options: { responseSchema?: LlmResponseSchema; maxTokens?: number } = {}
+  ): Promise<LlmCompletion> {
+    if (!this.provider) throw new LlmNotConfiguredError();
+
+    const totals = this.totals(task);
+    totals.requests++;
+    try {
+      const completion = await this.provider.complete({ task, model: this.modelFor(task), messages, ...options });
+      totals.promptTokens += completion.promptTokens;
+      totals.completionTokens += completion.completionTokens;
+
+      const cost = this.cost(completion);
+      if (cost !== null) totals.costUsd = (totals.costUsd ?? 0) + cost;
+      return completion;
+    } catch (error) {
+      totals.failures++;
+      throw error;
+    }
+  }
+
+  /**
+   * Complete a request whose answer must be JSON following the given schema.
+   * `validate` returns the parsed value or throws.
+   */
+  async completeJson<T>(
+    task: LlmTask,
+    messages: LlmMessage[],
+    responseSchema: LlmResponseSchema,
+    validate: (value: unknown) => T
+  ): Promise<T> {
+    const completion = await this.complete(task, messages, { responseSchema });
+
+    let value: unknown;
+    try {
+      value = JSON.parse(completion.content);
+    } catch {
+      this.totals(task).failures++;
+      throw new LlmResponseError(`${completion.provider} returned a ${task} response that isn't JSON`, completion.content.slice(0, 500));
+    }
+
+    try {
+      return validate(value);
+    } catch (error) {
+      this.totals(task).failures++;
+      throw new LlmResponseError(
+        `${completion.provider} returned an invalid ${task} response: ${error instanceof Error ? error.message : String(error)}`,
+        completion.content.slice(0, 500)
+      );
+    }
+  }
+
+  getUsage(): { provider: string; models: Record<LlmTask, string>; tasks: Record<LlmTask, LlmUsageTotals>; total: LlmUsageTotals } {
+    const tasks = Object.fromEntries(LLM_TASKS.map(task => [task, { ...this.totals(task) }])) as Record<LlmTask, LlmUsageTotals>;
+    const total = emptyTotals();
+    for (const totals of Object.values(tasks)) {
+      total.requests += totals.requests;
+      total.failures += totals.failures;
+      total.promptTokens += totals.promptTokens;
+      total.completionTokens += totals.completionTokens;
+      if (totals.costUsd !== null) total.costUsd = (total.costUsd ?? 0) + totals.costUsd;
+    }
+    return { provider: this.providerName, models: this.config.models, tasks, total };
+  }
+
+  private totals(task: LlmTask): LlmUsageTotals {
+    let totals = this.usage.get(task);
+    if (!totals) {
+      totals = emptyTotals();
+      this.usage.set(task, totals);
+    }
+    return totals;
+  }
+
+  private cost(completion: LlmCompletion): number | null {
+    const { inputPerMillion, outputPerMillion } = this.config.pricing;
+    if (inputPerMillion === undefined && outputPerMillion === undefined) return null;
+    return (completion.promptTokens * (inputPerMillion ?? 0) + completion.completionTokens * (outputPerMillion ?? 0)) / 1_000_000;
+  }
+}
+
+export const llmConfig = llmConfigFromEnv();
+export const llmService = new LlmService(createLlmProvider(llmConfig), llmConfig);
@@ -0,0 +1,73 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { type AlertSystem } from "@shared/alert-schema";
+import { MemAlertStore } from "./alert-store";
+import { NotificationDigestWorker } from "./notification-digest";
+import { NotificationPreferencesService, defaultPreferences } from "./notification-preferences";
+import { MemNotificationSettingsStore } from "./notification-settings-store";
+
+describe('NotificationDigestWorker', () => {
+  let store: MemAlertStore;
+  let preferences: NotificationPreferencesService;
+  let worker: NotificationDigestWorker;
+  let sent: Array<{ recipient: string; subject: string; body: string }>;
+
+  const now = new Date('2026-01-16T09:00:00Z');
+
+  beforeEach(() => {
+    store = new MemAlertStore();
+    preferences = new NotificationPreferencesService(new MemNotificationSettingsStore());
+    sent = [];
+    worker = new NotificationDigestWorker(store, preferences, async (recipient, template) => {
+      sent.push({ recipient, subject: template.subject, body: template.body });
+      return { messageId: `digest-${sent.length}` };
+    });
+  });
+
+  const raise = (title: string) => store.createAlert({
+    title, description: 'Detected by test', type: 'storage', severity: 'warning', source: 'system',
+  });
+
+  const holdBack = (alert: AlertSystem, userId: string, recipient: string) => store.createNotification({
+    alertId: alert.id, channel: 'email', status: 'digest_pending', recipient, metadata: { userId, reason: 'digest mode' },
+  });
+
+  it('groups held-back alerts into one email per user, listing each alert once', async () => {
+    const battery = await raise('Battery low');
+    const inverter = await raise('Inverter fault');
+    await holdBack(battery, 'alice', 'alice@example.com');
+    await holdBack(inverter, 'alice', 'alice@example.com');
+    // The same alert held back again, e.g. after a re-open
+    await holdBack(battery, 'alice', 'alice@example.com');
+    await holdBack(inverter, 'bob', 'bob@example.com');
+
+    const results = await worker.processDue(now);
+
+    assert.deepEqual(
+      results.map(result => [result.userId, result.recipient, result.alerts]).sort(),
+      [['alice', 'alice@example.com', 2], ['bob', 'bob@example.com', 1]]
+    );
+    const alice = sent.find(email => email.recipient === 'alice@example.com');
+    assert.equal(alice?.subject, 'Alert digest: 2 alerts');
+    assert.equal(alice?.body.match(/Battery low/g)?.length, 1);
+    assert.ok(alice?.body.includes('Inverter fault'));
+
+    assert.deepEqual(await store.getNotificationsByStatus(['digest_pending'], 10), []);
+    const delivered = await store.getNotificationsForAlert(battery.id);
+    assert.ok(delivered.every(notification => notification.status === 'sent' && notification.sentAt?.getTime() === now.getTime()));
+
+    assert.deepEqual(await worker.processDue(now), []);
+  });
+
+  it('keeps a user\'s alerts pending until their digest is due', async () => {
+    await preferences.savePreferences({ ...defaultPreferences('alice'), digestMode: 'daily', digestHour: 8, timezone: 'America/New_York' });
+    await holdBack(await raise('Battery low'), 'alice', 'alice@example.com');
+
+    // 04:00 in New York
+    assert.deepEqual(await worker.processDue(now), []);
+    assert.equal((await store.getNotificationsByStatus(['digest_pending'], 10)).length, 1);
+
+    const results = await worker.processDue(new Date('2026-01-16T13:00:00Z'));
+    assert.deepEqual(results.map(result => result.alerts), [1]);
+  });
+});
@@ -0,0 +1,151 @@
+import { type AlertSystem, type AlertNotification } from "@shared/alert-schema";
+import { alertStore, type AlertStore } from "./alert-store";
+import { notificationService } from "./notification-service";
+import { notificationPreferencesService, type NotificationPreferencesService } from "./notification-preferences";
+import { escapeHtml } from "./notification-templates";
+
+export type DigestSender = (
+  recipient: string,
+  template: { subject: string; body: string; html: string }
+) => Promise<{ messageId: string }>;
+
+export interface DigestResult {
+  userId: string;
+  recipient: string;
+  alerts: number;
+  messageId: string;
+}
+
+const POLL_INTERVAL_MS = 60 * 1000;
+const BATCH_SIZE = 500;
+
+/**
+ * Sends the alerts held back by digest mode or quiet hours as one email per
+ * user. Held-back deliveries are alertNotifications rows in the
+ * digest_pending state, tagged with the user id in their metadata.
+ */
+export class NotificationDigestWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  constructor(
+    private store: AlertStore,
+    private preferences: NotificationPreferencesService,
+    private send: DigestSender
+  ) {}
+
+  start(intervalMs: number = POLL_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => {
+        console.error('Notification digest worker failed:', error);
+      });
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send a digest to every user whose digest is due
+   */
+  async processDue(now: Date = new Date()): Promise<DigestResult[]> {
+    if (this.processing) return [];
+    this.processing = true;
+
+    try {
+      const pending = await this.store.getNotificationsByStatus(['digest_pending'], BATCH_SIZE);
+      const byUser = new Map<string, AlertNotification[]>();
+      for (const notification of pending) {
+        const userId = (notification.metadata as { userId?: string } | null)?.userId;
+        if (!userId) continue;
+        byUser.set(userId, [...(byUser.get(userId) ?? []), notification]);
+      }
+
+      const results: DigestResult[] = [];
+      for (const [userId, notifications] of Array.from(byUser.entries())) {
+        const preferences = await this.preferences.getPreferences(userId);
+        if (!this.preferences.isDigestDue(preferences, now)) continue;
+
+        try {
+          results.push(await this.sendDigest(userId, notifications, now));
+        } catch (error) {
+          console.error(`Failed to send notification digest to ${userId}:`, error);
+        }
+      }
+      return results;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async sendDigest(userId: string, notifications: AlertNotification[], now: Date): Promise<DigestResult> {
+    // One user has a single digest address; take the latest if it changed
+    const recipient = notifications[notifications.length - 1].recipient;
+
+    const alerts: AlertSystem[] = [];
+    const seen = new Set<string>();
+    for (const notification of notifications) {
+      if (seen.has(notification.alertId)) continue;
+      seen.add(notification.alertId);
+      const alert = await this.store.getAlert(notification.alertId);
+      if (alert) alerts.push(alert);
+    }
+
+    const { messageId } = await this.send(recipient, this.renderDigest(alerts, now));
+
+    for (const notification of notifications) {
+      await this.store.updateNotification(notification.id, {
+        status: 'sent',
+        sentAt: now,
+        metadata: { ...(notification.metadata as Record<string, unknown>), messageId, digest: true },
+      });
+    }
+    await this.preferences.updateLastDigestAt(userId, now);
+
+    return { userId, recipient, alerts: alerts.length, messageId };
+  }
+
+  renderDigest(alerts: AlertSystem[], now: Date): { subject: string; body: string; html: string } {
+    const subject = `Alert digest: ${alerts.length} alert${alerts.length === 1 ? '' : 's'}`;
+    const line = (alert: AlertSystem) =>
+      `[${alert.severity.toUpperCase()}] ${alert.title} - ${alert.location || 'System'} (${alert.status}, ${alert.timestamp.toLocaleString()})`;
+
+    const body = `
+Energy Management Alert Digest
+Generated: ${now.toLocaleString()}
+
+${alerts.map(line).join('\n')}
+
+Alerts that are still active can be acknowledged from the dashboard.
+    `.trim();
+
+    const html = `
+<html>
+<body style="font-family: Arial, sans-serif; margin: 0; padding: 20px; background-color: #f5f5f5;">
+  <div style="max-width: 600px; margin: 0 auto; background-color: white; border-radius: 8px; padding: 20px;">
+    <h2 style="margin-top: 0;">Energy Management Alert Digest</h2>
+    <p style="color: #6b7280;">${escapeHtml(now.toLocaleString())}</p>
+    <ul style="padding-left: 20px;">
+      ${alerts.map(alert => `<li style="margin-bottom: 8px;">${escapeHtml(line(alert))}</li>`).join('\n      ')}
+    </ul>
+  </div>
+</body>
+</html>
+    `.trim();
+
+    return { subject, body, html };
+  }
+}
+
+export const notificationDigestWorker = new NotificationDigestWorker(
+  alertStore,
+  notificationPreferencesService,
+  (recipient, template) => notificationService.sendEmail(recipient, template)
+);
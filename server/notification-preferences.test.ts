@@ -0,0 +1,70 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { type NotificationRecipient } from "@shared/alert-schema";
+import { NotificationPreferencesService, defaultPreferences } from "./notification-preferences";
+import { MemNotificationSettingsStore } from "./notification-settings-store";
+import { sampleAlert } from "./notification-templates";
+
+const recipient: NotificationRecipient = {
+  id: 'r-1',
+  userId: 'ops',
+  name: 'Ops',
+  email: 'ops@example.com',
+  phone: '+15550100',
+  preferences: { email: true, sms: true, push: true, dashboard: true },
+  createdAt: new Date(0),
+};
+
+// Berlin is UTC+1 in January and UTC+2 in July
+const BERLIN_NIGHTS = { ...defaultPreferences('ops'), quietHoursStart: '22:00', quietHoursEnd: '07:00', timezone: 'Europe/Berlin' };
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+describe('NotificationPreferencesService', () => {
+  let service: NotificationPreferencesService;
+
+  beforeEach(() => {
+    service = new NotificationPreferencesService(new MemNotificationSettingsStore());
+  });
+
+  it('applies a quiet-hours window across midnight in the user time zone', () => {
+    assert.equal(service.isQuietHours(BERLIN_NIGHTS, utc('2026-01-15T20:59')), false); // 21:59 local
+    assert.equal(service.isQuietHours(BERLIN_NIGHTS, utc('2026-01-15T21:00')), true); // 22:00
+    assert.equal(service.isQuietHours(BERLIN_NIGHTS, utc('2026-01-15T23:30')), true); // 00:30 next day
+    assert.equal(service.isQuietHours(BERLIN_NIGHTS, utc('2026-01-16T05:59')), true); // 06:59
+    assert.equal(service.isQuietHours(BERLIN_NIGHTS, utc('2026-01-16T06:00')), false); // 07:00
+
+    // Summer time moves the window an hour earlier in UTC
+    assert.equal(service.isQuietHours(BERLIN_NIGHTS, utc('2026-07-15T20:00')), true); // 22:00
+    assert.equal(service.isQuietHours(BERLIN_NIGHTS, utc('2026-07-16T05:00')), false); // 07:00
+  });
+
+  it('holds non-critical alerts back for the digest during quiet hours', () => {
+    const night = utc('2026-01-15T23:30');
+    const warning = sampleAlert({ severity: 'warning' });
+
+    assert.deepEqual(service.planDelivery(warning, recipient, BERLIN_NIGHTS, night), [
+      { channel: 'email', action: 'digest', reason: 'quiet hours' },
+      { channel: 'push', action: 'skip', reason: 'quiet hours' },
+    ]);
+    assert.deepEqual(service.planDelivery(warning, recipient, BERLIN_NIGHTS, utc('2026-01-16T08:00')), [
+      { channel: 'email', action: 'send' },
+      { channel: 'push', action: 'send' },
+    ]);
+    assert.deepEqual(
+      service.planDelivery(sampleAlert({ severity: 'critical' }), recipient, BERLIN_NIGHTS, night).map(decision => decision.action),
+      ['send', 'send', 'send']
+    );
+  });
+
+  it('sends a daily digest once per local day, after the digest hour and outside quiet hours', () => {
+    const daily = { ...BERLIN_NIGHTS, digestMode: 'daily', digestHour: 8 };
+
+    assert.equal(service.isDigestDue(daily, utc('2026-01-16T06:30')), false); // 07:30 local
+    assert.equal(service.isDigestDue(daily, utc('2026-01-16T07:00')), true); // 08:00
+    assert.equal(service.isDigestDue({ ...daily, lastDigestAt: utc('2026-01-16T07:00') }, utc('2026-01-16T20:00')), false);
+    // 23:30 UTC is already the next day in Berlin, but inside quiet hours
+    assert.equal(service.isDigestDue({ ...daily, lastDigestAt: utc('2026-01-16T07:00') }, utc('2026-01-16T23:30')), false);
+    assert.equal(service.isDigestDue({ ...daily, lastDigestAt: utc('2026-01-16T07:00') }, utc('2026-01-17T07:00')), true);
+  });
+});
@@ -0,0 +1,175 @@
+import {
+  type AlertSystem,
+  type AlertSeverity,
+  type NotificationRecipient,
+  type NotificationPreferences,
+  type InsertNotificationPreferences,
+  type RecipientPreferences,
+  type OutboundChannel,
+  SEVERITY_RANK,
+} from "@shared/alert-schema";
+import { notificationSettingsStore, type NotificationSettingsStore } from "./notification-settings-store";
+
+export type DeliveryAction = 'send' | 'digest' | 'skip';
+
+// Stored preferences, or defaults (without id/lastDigestAt) for users who never saved any
+export type EffectivePreferences = InsertNotificationPreferences & Partial<NotificationPreferences>;
+
+export interface DeliveryDecision {
+  channel: OutboundChannel;
+  action: DeliveryAction;
+  reason?: string;
+}
+
+// Matches the severity routing used before preferences were configurable
+export const DEFAULT_CHANNELS_BY_SEVERITY: Record<AlertSeverity, OutboundChannel[]> = {
+  critical: ['email', 'sms', 'push'],
+  warning: ['email', 'push'],
+  info: ['push'],
+};
+
+export function defaultPreferences(userId: string): InsertNotificationPreferences {
+  return {
+    userId,
+    channelsBySeverity: DEFAULT_CHANNELS_BY_SEVERITY,
+    minimumSeverity: 'info',
+    mutedTypes: [],
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    timezone: 'UTC',
+    digestMode: 'off',
+    digestHour: 8,
+    locale: process.env.NOTIFICATION_DEFAULT_LOCALE || 'en',
+  };
+}
+
+export function isTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Hour and minute of the instant in the given IANA time zone
+ */
+export function localTime(at: Date, timezone: string): { hour: number; minute: number; date: string } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '00';
+
+  return {
+    hour: parseInt(part('hour')),
+    minute: parseInt(part('minute')),
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+  };
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Decides per channel whether a recipient gets an alert now, in their next
+ * digest, or not at all. Critical alerts always go out immediately on the
+ * channels the user chose for critical alerts.
+ */
+export class NotificationPreferencesService {
+  constructor(private store: NotificationSettingsStore) {}
+
+  async getPreferences(userId: string): Promise<EffectivePreferences> {
+    const stored = await this.store.getPreferences(userId);
+    return (stored as EffectivePreferences | undefined) ?? defaultPreferences(userId);
+  }
+
+  async savePreferences(preferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    return this.store.savePreferences(preferences);
+  }
+
+  async updateLastDigestAt(userId: string, at: Date): Promise<void> {
+    await this.store.updatePreferences(userId, { lastDigestAt: at });
+  }
+
+  planDelivery(
+    alert: AlertSystem,
+    recipient: NotificationRecipient,
+    preferences: InsertNotificationPreferences,
+    now: Date = new Date()
+  ): DeliveryDecision[] {
+    const severity = alert.severity as AlertSeverity;
+    const channelsBySeverity = preferences.channelsBySeverity as Record<AlertSeverity, OutboundChannel[]>;
+    const optedIn = recipient.preferences as RecipientPreferences;
+    const channels = (channelsBySeverity[severity] ?? []).filter(channel => optedIn[channel]);
+    const critical = severity === 'critical';
+
+    return channels.map((channel): DeliveryDecision => {
+      if (!critical && SEVERITY_RANK[severity] < SEVERITY_RANK[(preferences.minimumSeverity ?? 'info') as AlertSeverity]) {
+        return { channel, action: 'skip', reason: 'below minimum severity' };
+      }
+      if (!critical && (preferences.mutedTypes as string[] | undefined ?? []).includes(alert.type)) {
+        return { channel, action: 'skip', reason: 'alert type muted' };
+      }
+      if (critical) {
+        return { channel, action: 'send' };
+      }
+
+      // Non-critical alerts are batched into one email instead of interrupting
+      const batched = (preferences.digestMode ?? 'off') !== 'off';
+      const quiet = this.isQuietHours(preferences, now);
+      if (batched || quiet) {
+        return channel === 'email'
+          ? { channel, action: 'digest', reason: batched ? 'digest mode' : 'quiet hours' }
+          : { channel, action: 'skip', reason: batched ? 'included in email digest' : 'quiet hours' };
+      }
+
+      return { channel, action: 'send' };
+    });
+  }
+
+  isQuietHours(preferences: InsertNotificationPreferences, at: Date = new Date()): boolean {
+    if (!preferences.quietHoursStart || !preferences.quietHoursEnd) return false;
+
+    const { hour, minute } = localTime(at, preferences.timezone ?? 'UTC');
+    const now = hour * 60 + minute;
+    const start = minutesOfDay(preferences.quietHoursStart);
+    const end = minutesOfDay(preferences.quietHoursEnd);
+
+    // Windows such as 22:00-07:00 wrap past midnight
+    return start <= end ? now >= start && now < end : now >= start || now < end;
+  }
+
+  /**
+   * Whether pending digest entries should be sent now
+   */
+  isDigestDue(preferences: EffectivePreferences, at: Date = new Date()): boolean {
+    if (this.isQuietHours(preferences, at)) return false;
+
+    const lastDigestAt = preferences.lastDigestAt ?? null;
+    const timezone = preferences.timezone ?? 'UTC';
+
+    switch (preferences.digestMode) {
+      case 'hourly':
+        return !lastDigestAt || at.getTime() - lastDigestAt.getTime() >= 60 * 60 * 1000;
+      case 'daily': {
+        const local = localTime(at, timezone);
+        const sentToday = lastDigestAt !== null && localTime(lastDigestAt, timezone).date === local.date;
+        return local.hour >= (preferences.digestHour ?? 8) && !sentToday;
+      }
+      default:
+        // Alerts held back during quiet hours go out once they end
+        return true;
+    }
+  }
+}
+
+export const notificationPreferencesService = new NotificationPreferencesService(notificationSettingsStore);
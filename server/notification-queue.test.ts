@@ -0,0 +1,90 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { setImmediate as nextTick } from "node:timers/promises";
+import { type AlertSystem } from "@shared/alert-schema";
+import { MemAlertStore } from "./alert-store";
+import { NotificationQueue } from "./notification-queue";
+
+describe('NotificationQueue.enqueue', () => {
+  let store: MemAlertStore;
+  let queue: NotificationQueue;
+  let alert: AlertSystem;
+
+  beforeEach(async () => {
+    store = new MemAlertStore();
+    queue = new NotificationQueue(store, { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 5000 });
+    alert = await store.createAlert({
+      title: 'Battery low',
+      description: 'Storage at 12%',
+      type: 'storage',
+      severity: 'warning',
+      source: 'manual',
+    });
+  });
+
+  it('returns the pending delivery without waiting for the sender', async () => {
+    let release!: () => void;
+    const sending = new Promise<void>(resolve => { release = resolve; });
+    queue.registerSender('sms', () => sending);
+
+    const notification = await queue.enqueue(alert, 'sms', '+15550100');
+
+    assert.equal(notification.status, 'pending');
+    release();
+  });
+
+  it('makes the first attempt on the next tick', async () => {
+    const sent: string[] = [];
+    queue.registerSender('email', async (_alert, recipient) => { sent.push(recipient); });
+
+    const notification = await queue.enqueue(alert, 'email', 'ops@example.com');
+    assert.deepEqual(sent, []);
+
+    await nextTick();
+    await nextTick();
+
+    assert.deepEqual(sent, ['ops@example.com']);
+    assert.equal((await store.getNotification(notification.id))?.status, 'sent');
+  });
+
+  it('marks the delivery delivered when the sender confirms receipt', async () => {
+    queue.registerSender('webhook', async () => ({ metadata: { statusCode: 200 }, delivered: true }));
+
+    const notification = await queue.enqueue(alert, 'webhook', 'endpoint-1');
+    await nextTick();
+    await nextTick();
+
+    const delivered = await store.getNotification(notification.id);
+    assert.equal(delivered?.status, 'delivered');
+    assert.ok(delivered?.deliveredAt);
+    assert.equal((delivered?.metadata as { statusCode?: number }).statusCode, 200);
+  });
+
+  it('records a provider receipt for a sent delivery by message id', async () => {
+    queue.registerSender('sms', async () => ({ metadata: { messageId: 'SM123' } }));
+
+    const notification = await queue.enqueue(alert, 'sms', '+15550100');
+    await nextTick();
+    await nextTick();
+    assert.equal((await store.getNotification(notification.id))?.status, 'sent');
+
+    const receipt = await queue.confirmDelivery('sms', 'SM123');
+
+    assert.equal(receipt?.id, notification.id);
+    assert.equal(receipt?.status, 'delivered');
+    assert.ok(receipt?.deliveredAt);
+  });
+
+  it('schedules a retry when the first attempt fails', async () => {
+    queue.registerSender('push', async () => { throw new Error('Provider unavailable'); });
+
+    const notification = await queue.enqueue(alert, 'push', 'device-1');
+    await nextTick();
+    await nextTick();
+
+    const failed = await store.getNotification(notification.id);
+    assert.equal(failed?.status, 'failed');
+    assert.equal(failed?.retryCount, 1);
+    assert.equal(failed?.errorMessage, 'Provider unavailable');
+  });
+});
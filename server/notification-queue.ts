@@ -0,0 +1,236 @@
+import { type AlertSystem, type AlertNotification } from "@shared/alert-schema";
+import { alertStore, type AlertStore } from "./alert-store";
+
+export type QueuedChannel = 'email' | 'sms' | 'push' | 'webhook';
+
+export interface SendResult {
+  // Stored as delivery metadata
+  metadata?: Record<string, unknown>;
+  // The recipient's endpoint confirmed receipt (webhook or push 2xx); other
+  // sends stay 'sent' until a provider receipt arrives
+  delivered?: boolean;
+}
+
+/**
+ * Delivers one queued notification. Throwing marks the attempt as failed.
+ */
+export type NotificationSender = (
+  alert: AlertSystem,
+  recipient: string,
+  notification: AlertNotification
+) => Promise<SendResult | void>;
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export class NotificationNotFoundError extends Error {
+  constructor(public notificationId: string) {
+    super(`Notification ${notificationId} not found`);
+    this.name = 'NotificationNotFoundError';
+  }
+}
+
+export class NotificationNotDeadLetteredError extends Error {
+  constructor(public notificationId: string, public status: string) {
+    super(`Notification ${notificationId} is ${status}, only dead-lettered notifications can be re-driven`);
+    this.name = 'NotificationNotDeadLetteredError';
+  }
+}
+
+const POLL_INTERVAL_MS = 5000;
+const BATCH_SIZE = 50;
+
+export function retryPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): RetryPolicy {
+  return {
+    maxRetries: parseInt(env.NOTIFICATION_MAX_RETRIES || '5'),
+    baseDelayMs: parseInt(env.NOTIFICATION_RETRY_BASE_MS || '30000'),
+    maxDelayMs: parseInt(env.NOTIFICATION_RETRY_MAX_MS || '3600000'),
+  };
+}
+
+/**
+ * Persistent outbound queue for email, SMS, push and webhook deliveries.
+ * Every delivery is an alertNotifications row; failures are retried with
+ * exponential backoff and jitter and end up in the dead_letter state once
+ * the retry limit is reached.
+ */
+export class NotificationQueue {
+  private senders: Map<QueuedChannel, NotificationSender> = new Map();
+  private inFlight: Set<string> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  constructor(private store: AlertStore, private policy: RetryPolicy = retryPolicyFromEnv()) {}
+
+  registerSender(channel: QueuedChannel, sender: NotificationSender): void {
+    this.senders.set(channel, sender);
+  }
+
+  /**
+   * Persist a delivery and return; the first attempt runs on the next tick
+   * so a slow provider never holds up the caller
+   */
+  async enqueue(
+    alert: AlertSystem,
+    channel: QueuedChannel,
+    recipient: string,
+    metadata?: Record<string, unknown>
+  ): Promise<AlertNotification> {
+    const notification = await this.store.createNotification({
+      alertId: alert.id,
+      channel,
+      status: 'pending',
+      recipient,
+      nextAttemptAt: new Date(),
+      metadata,
+    });
+
+    this.kick(notification);
+    return notification;
+  }
+
+  /**
+   * Retry every delivery whose next attempt is due
+   */
+  async processDue(now: Date = new Date()): Promise<number> {
+    if (this.processing) return 0;
+    this.processing = true;
+
+    try {
+      const due = await this.store.getDueNotifications(now, BATCH_SIZE);
+      for (const notification of due) {
+        await this.attempt(notification);
+      }
+      return due.length;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Record a provider's receipt (e.g. a Twilio status callback) for the
+   * delivery it knows by message id
+   */
+  async confirmDelivery(channel: QueuedChannel, messageId: string, at: Date = new Date()): Promise<AlertNotification | undefined> {
+    const notification = await this.store.getNotificationByMessageId(channel, messageId);
+    if (!notification || notification.status === 'delivered') return notification;
+
+    return this.store.updateNotification(notification.id, { status: 'delivered', deliveredAt: at });
+  }
+
+  async getDeadLetters(limit: number = 100): Promise<AlertNotification[]> {
+    return this.store.getNotificationsByStatus(['dead_letter'], limit);
+  }
+
+  /**
+   * Give a dead-lettered delivery a fresh set of retries and attempt it now
+   */
+  async redrive(id: string): Promise<AlertNotification> {
+    const notification = await this.store.getNotification(id);
+    if (!notification) {
+      throw new NotificationNotFoundError(id);
+    }
+    if (notification.status !== 'dead_letter') {
+      throw new NotificationNotDeadLetteredError(id, notification.status);
+    }
+
+    const reset = await this.store.updateNotification(id, {
+      status: 'pending',
+      retryCount: 0,
+      nextAttemptAt: new Date(),
+    });
+
+    return this.attempt(reset!);
+  }
+
+  startWorker(intervalMs: number = POLL_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => {
+        console.error('Notification retry worker failed:', error);
+      });
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stopWorker(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Delay before the given retry: exponential growth capped at maxDelayMs,
+   * with the upper half randomised so retries from one outage spread out
+   */
+  backoffDelay(retryCount: number): number {
+    const exponential = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** (retryCount - 1));
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  private kick(notification: AlertNotification): void {
+    setImmediate(() => {
+      this.attempt(notification).catch(error => {
+        console.error(`Notification ${notification.id} attempt failed:`, error);
+      });
+    });
+  }
+
+  private async attempt(notification: AlertNotification): Promise<AlertNotification> {
+    if (this.inFlight.has(notification.id)) return notification;
+    this.inFlight.add(notification.id);
+
+    try {
+      const sender = this.senders.get(notification.channel as QueuedChannel);
+      const target = await this.store.getAlert(notification.alertId);
+
+      try {
+        if (!sender) throw new Error(`No sender registered for channel ${notification.channel}`);
+        if (!target) throw new Error(`Alert ${notification.alertId} no longer exists`);
+
+        const result = await sender(target, notification.recipient, notification);
+        const now = new Date();
+        const sent = await this.store.updateNotification(notification.id, {
+          status: result?.delivered ? 'delivered' : 'sent',
+          sentAt: now,
+          deliveredAt: result?.delivered ? now : null,
+          errorMessage: null,
+          nextAttemptAt: null,
+          metadata: { ...(notification.metadata as Record<string, unknown> | null), ...result?.metadata },
+        });
+        return sent ?? notification;
+      } catch (error) {
+        return this.recordFailure(notification, error as Error);
+      }
+    } finally {
+      this.inFlight.delete(notification.id);
+    }
+  }
+
+  private async recordFailure(notification: AlertNotification, error: Error): Promise<AlertNotification> {
+    const retryCount = (notification.retryCount ?? 0) + 1;
+    const exhausted = retryCount > this.policy.maxRetries;
+
+    if (exhausted) {
+      console.error(
+        `Notification ${notification.id} (${notification.channel} to ${notification.recipient}) dead-lettered after ${retryCount} attempts:`,
+        error.message
+      );
+    }
+
+    const updated = await this.store.updateNotification(notification.id, {
+      status: exhausted ? 'dead_letter' : 'failed',
+      retryCount,
+      errorMessage: error.message,
+      nextAttemptAt: exhausted ? null : new Date(Date.now() + this.backoffDelay(retryCount)),
+    });
+    return updated ?? notification;
+  }
+}
+
+export const notificationQueue = new NotificationQueue(alertStore);
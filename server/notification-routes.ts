@@ -0,0 +1,204 @@
+import type { Express } from "express";
+import { insertNotificationPreferencesSchema, type AlertNotification } from "@shared/alert-schema";
+import { alertStore, InvalidCursorError } from "./alert-store";
+import { onCallStore } from "./oncall-store";
+import { notificationSettingsStore } from "./notification-settings-store";
+import { webhookStore } from "./webhook-store";
+import { normalizePhone } from "./sms-replies";
+import {
+  notificationQueue,
+  NotificationNotFoundError,
+  NotificationNotDeadLetteredError
+} from "./notification-queue";
+import { notificationPreferencesService, isTimeZone } from "./notification-preferences";
+import { notificationDigestWorker } from "./notification-digest";
+import { canonicalLocale } from "./notification-templates";
+import { listFilter } from "./query-filters";
+import { z } from "zod";
+
+const severitySchema = z.enum(['info', 'warning', 'critical']);
+const channelsSchema = z.array(z.enum(['email', 'sms', 'push']));
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm');
+
+const preferencesSchema = insertNotificationPreferencesSchema.omit({ userId: true }).extend({
+  channelsBySeverity: z.object({
+    info: channelsSchema,
+    warning: channelsSchema,
+    critical: channelsSchema
+  }),
+  minimumSeverity: severitySchema.optional(),
+  mutedTypes: z.array(z.string().min(1)).optional(),
+  quietHoursStart: timeOfDaySchema.nullish(),
+  quietHoursEnd: timeOfDaySchema.nullish(),
+  timezone: z.string().refine(isTimeZone, 'Unknown time zone').optional(),
+  digestMode: z.enum(['off', 'hourly', 'daily']).optional(),
+  digestHour: z.number().int().min(0).max(23).optional(),
+  locale: z.string().refine(locale => canonicalLocale(locale) !== null, 'Invalid locale')
+    .transform(locale => canonicalLocale(locale)!).optional()
+}).refine(preferences => !preferences.quietHoursStart === !preferences.quietHoursEnd, {
+  message: 'quietHoursStart and quietHoursEnd must be set together',
+  path: ['quietHoursEnd']
+});
+
+// Comma-separated list filter where 'all' (or nothing) means no filtering
+const deliveryLogQuerySchema = z.object({
+  alertId: z.string().optional(),
+  channel: listFilter,
+  status: listFilter,
+  recipient: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  cursor: z.string().optional()
+});
+
+/**
+ * Who each delivery went to. Queue rows store addresses (email, phone, push
+ * subscription id, webhook endpoint id), so they are mapped back to users
+ * and endpoint names where possible.
+ */
+async function describeRecipients(notifications: AlertNotification[]) {
+  const recipients = await onCallStore.getRecipients();
+  const byEmail = new Map(recipients.filter(r => r.email).map(r => [r.email!.toLowerCase(), r]));
+  const byPhone = new Map(recipients.filter(r => r.phone).map(r => [normalizePhone(r.phone!), r]));
+  const byUserId = new Map(recipients.map(r => [r.userId, r]));
+
+  return Promise.all(notifications.map(async notification => {
+    const metadata = (notification.metadata ?? {}) as { userId?: string };
+    let userId = metadata.userId ?? null;
+    let recipientName: string | null = null;
+
+    switch (notification.channel) {
+      case 'email':
+        userId ??= byEmail.get(notification.recipient.toLowerCase())?.userId ?? null;
+        break;
+      case 'sms':
+        userId ??= byPhone.get(normalizePhone(notification.recipient))?.userId ?? null;
+        break;
+      case 'push':
+        userId ??= (await notificationSettingsStore.getPushSubscription(notification.recipient))?.userId ?? null;
+        break;
+      case 'websocket':
+        userId ??= notification.recipient;
+        break;
+      case 'webhook':
+        recipientName = (await webhookStore.getEndpoint(notification.recipient))?.name ?? null;
+        break;
+    }
+    if (userId) recipientName = byUserId.get(userId)?.name ?? userId;
+
+    return { ...notification, userId, recipientName };
+  }));
+}
+
+export async function registerNotificationRoutes(app: Express): Promise<void> {
+  notificationQueue.startWorker();
+  notificationDigestWorker.start();
+
+  // Delivery log: every notification per alert, channel and recipient
+  app.get("/api/notifications", async (req, res) => {
+    try {
+      const query = deliveryLogQuerySchema.parse(req.query);
+      const page = await alertStore.queryNotifications(query);
+
+      res.json({
+        notifications: await describeRecipients(page.notifications),
+        total: page.total,
+        limit: query.limit,
+        nextCursor: page.nextCursor
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      }
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error fetching notification log:', error);
+      res.status(500).json({ error: 'Failed to fetch notification log' });
+    }
+  });
+
+  // Deliveries that exhausted their retries
+  app.get("/api/v1/notifications/dead-letter", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const notifications = await notificationQueue.getDeadLetters(limit);
+
+      res.json({ notifications, total: notifications.length });
+    } catch (error) {
+      console.error('Error fetching dead-lettered notifications:', error);
+      res.status(500).json({ error: 'Failed to fetch dead-lettered notifications' });
+    }
+  });
+
+  // Re-drive every dead-lettered delivery
+  app.post("/api/v1/notifications/dead-letter/redrive", async (req, res) => {
+    try {
+      const deadLetters = await notificationQueue.getDeadLetters(500);
+      const notifications = [];
+      for (const notification of deadLetters) {
+        notifications.push(await notificationQueue.redrive(notification.id));
+      }
+
+      res.json({
+        success: true,
+        redriven: notifications.length,
+        sent: notifications.filter(notification => notification.status === 'sent' || notification.status === 'delivered').length,
+        notifications
+      });
+    } catch (error) {
+      console.error('Error re-driving dead-lettered notifications:', error);
+      res.status(500).json({ error: 'Failed to re-drive notifications' });
+    }
+  });
+
+  // Re-drive a single dead-lettered delivery
+  app.post("/api/v1/notifications/:id/redrive", async (req, res) => {
+    try {
+      const notification = await notificationQueue.redrive(req.params.id);
+
+      res.json({ success: true, notification });
+    } catch (error) {
+      if (error instanceof NotificationNotFoundError) {
+        return res.status(404).json({ error: 'Notification not found' });
+      }
+      if (error instanceof NotificationNotDeadLetteredError) {
+        return res.status(409).json({ error: error.message, status: error.status });
+      }
+      console.error('Error re-driving notification:', error);
+      res.status(500).json({ error: 'Failed to re-drive notification' });
+    }
+  });
+
+  // Per-user delivery preferences (defaults when the user never saved any)
+  app.get("/api/v1/notification-preferences/:userId", async (req, res) => {
+    try {
+      const preferences = await notificationPreferencesService.getPreferences(req.params.userId);
+      const quietHoursActive = notificationPreferencesService.isQuietHours(preferences);
+
+      res.json({ preferences, quietHoursActive });
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+      res.status(500).json({ error: 'Failed to fetch notification preferences' });
+    }
+  });
+
+  app.put("/api/v1/notification-preferences/:userId", async (req, res) => {
+    try {
+      const data = preferencesSchema.parse(req.body);
+      const preferences = await notificationPreferencesService.savePreferences({
+        ...data,
+        userId: req.params.userId
+      });
+
+      res.json({ preferences });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid notification preferences', details: error.errors });
+      }
+      console.error('Error saving notification preferences:', error);
+      res.status(500).json({ error: 'Failed to save notification preferences' });
+    }
+  });
+}
@@ -1,75 +1,122 @@
-import { type AlertSystem, type AlertSeverity } from "@shared/alert-schema";
-import { WebSocket } from 'ws';
-
-export interface NotificationChannel {
-  type: 'dashboard' | 'email' | 'sms' | 'push' | 'websocket';
-  config: Record<string, any>;
-  enabled: boolean;
-}
-
-export interface NotificationRecipient {
-  userId: string;
-  email?: string;
-  phone?: string;
-  preferences: {
-    email: boolean;
-    sms: boolean;
-    push: boolean;
-    dashboard: boolean;
-  };
-}
+import {
+  type AlertSystem,
+  type AlertNotification,
+  type NotificationRecipient,
+  type RecipientPreferences,
+  type OutboundChannel
+} from "@shared/alert-schema";
+import { alertStore } from "./alert-store";
+import { realtimeHub } from "./realtime";
+import { notificationQueue } from "./notification-queue";
+import { onCallService } from "./oncall";
+import { notificationSettingsStore } from "./notification-settings-store";
+import { notificationPreferencesService } from "./notification-preferences";
+import { webhookService } from "./webhooks";
+import { emailTransport as defaultEmailTransport, type EmailTransport } from "./email-transport";
+import { webPushSender, PushSubscriptionGoneError, type WebPushOptions } from "./web-push";
+import { notificationTemplateService, type RenderOptions } from "./notification-templates";
+import { smsProvider as defaultSmsProvider, smsConfig, truncateSms, type SmsProvider } from "./sms-provider";
+import { randomInt } from "crypto";
 
 export class NotificationService {
-  private channels: Map<string, NotificationChannel> = new Map();
-  private websocketConnections: Map<string, WebSocket> = new Map();
-  private recipients: Map<string, NotificationRecipient> = new Map();
+  constructor(
+    private emailTransport: EmailTransport = defaultEmailTransport,
+    private smsProvider: SmsProvider = defaultSmsProvider
+  ) {
+    this.registerQueueSenders();
+  }
+  
+  /**
+   * Replace the email transport (e.g. with a different provider)
+   */
+  setEmailTransport(transport: EmailTransport): void {
+    this.emailTransport = transport;
+  }
   
-  constructor() {
-    this.initializeDefaultChannels();
-    this.initializeDefaultRecipients();
+  /**
+   * Replace the SMS provider (e.g. with the loopback simulator in tests)
+   */
+  setSmsProvider(provider: SmsProvider): void {
+    this.smsProvider = provider;
   }
   
   /**
    * Send alert notification through appropriate channels
    */
   async sendAlertNotification(alert: AlertSystem, channels: string[] = ['dashboard', 'websocket']): Promise<void> {
-    const severity = alert.severity as AlertSeverity;
-    
-    // Determine notification channels based on severity
-    const notificationChannels = this.determineNotificationChannels(severity, channels);
+    // Real-time channels reach everyone looking at the dashboard
+    const realtimeChannels = channels.filter(channel => channel === 'dashboard' || channel === 'websocket');
     
-    // Send notifications through each channel
-    const promises = notificationChannels.map(channel => 
-      this.sendToChannel(alert, channel)
-    );
-    
-    await Promise.allSettled(promises);
+    await Promise.allSettled([
+      ...realtimeChannels.map(channel => this.sendToChannel(alert, channel)),
+      this.sendToRecipients(alert),
+      webhookService.dispatch('alert.created', alert)
+    ]);
   }
   
   /**
-   * Determine notification channels based on alert severity
+   * Email, SMS and push to the on-call recipients, following each user's
+   * preferences (channels per severity, muted types, quiet hours, digest)
    */
-  private determineNotificationChannels(severity: AlertSeverity, requestedChannels: string[]): string[] {
-    const channels: string[] = [];
-    
-    // Always include dashboard and websocket for real-time updates
-    if (requestedChannels.includes('dashboard')) channels.push('dashboard');
-    if (requestedChannels.includes('websocket')) channels.push('websocket');
+  private async sendToRecipients(alert: AlertSystem): Promise<void> {
+    const recipients = await onCallService.getRecipientsForAlert(alert);
+    const now = new Date();
     
-    // Add additional channels based on severity
-    switch (severity) {
-      case 'critical':
-        channels.push('email', 'sms', 'push');
-        break;
-      case 'warning':
-        channels.push('email', 'push');
-        break;
-      case 'info':
-        channels.push('push');
-        break;
+    for (const recipient of recipients) {
+      try {
+        const preferences = await notificationPreferencesService.getPreferences(recipient.userId);
+        const decisions = notificationPreferencesService.planDelivery(alert, recipient, preferences, now);
+        
+        for (const decision of decisions) {
+          if (decision.action === 'skip') continue;
+          
+          if (decision.action === 'digest') {
+            const address = recipient.email;
+            if (!address) continue;
+            
+            await alertStore.createNotification({
+              alertId: alert.id,
+              channel: decision.channel,
+              status: 'digest_pending',
+              recipient: address,
+              metadata: { userId: recipient.userId, reason: decision.reason },
+            });
+          } else {
+            for (const address of await this.addressesFor(recipient, decision.channel)) {
+              await notificationQueue.enqueue(alert, decision.channel, address, {
+                locale: preferences.locale,
+                timezone: preferences.timezone
+              });
+            }
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to notify ${recipient.userId} about alert ${alert.id}:`, error);
+      }
     }
+  }
+  
+  /**
+   * Send an escalation to explicit channels, bypassing severity-based routing.
+   * Recipients may be user ids, email addresses or phone numbers; without
+   * recipients each channel's default recipients are used.
+   */
+  async sendEscalationNotification(alert: AlertSystem, channels: string[], recipients: string[] = []): Promise<void> {
+    const sends = channels.map(async channel => {
+      if (channel !== 'email' && channel !== 'sms' && channel !== 'push') {
+        return this.sendToChannel(alert, channel);
+      }
+      
+      const targets = recipients.length > 0
+        ? (await Promise.all(recipients.map(recipient => this.resolveRecipient(channel, recipient)))).flat()
+        : await this.getDefaultRecipients(channel, alert);
+      
+      for (const target of targets) {
+        await notificationQueue.enqueue(alert, channel, target);
+      }
+    });
     
-    return channels;
+    await Promise.allSettled(sends);
   }
   
   /**
@@ -81,15 +128,6 @@ export class NotificationService {
         case 'dashboard':
           await this.sendDashboardNotification(alert);
           break;
-        case 'email':
-          await this.sendEmailNotification(alert);
-          break;
-        case 'sms':
-          await this.sendSMSNotification(alert);
-          break;
-        case 'push':
-          await this.sendPushNotification(alert);
-          break;
         case 'websocket':
           await this.sendWebSocketNotification(alert);
           break;
@@ -114,225 +152,154 @@ export class NotificationService {
   }
   
   /**
-   * Email notification
-   */
-  private async sendEmailNotification(alert: AlertSystem): Promise<void> {
-    const recipients = this.getEmailRecipients(alert.severity as AlertSeverity);
-    
-    for (const recipient of recipients) {
-      try {
-        const emailTemplate = this.generateEmailTemplate(alert);
-        await this.sendEmail(recipient, emailTemplate);
-        await this.recordNotification(alert.id, 'email', 'sent', new Date(), recipient);
-      } catch (error) {
-        await this.recordNotification(alert.id, 'email', 'failed', new Date(), recipient, (error as Error).message);
-      }
-    }
-  }
-  
-  /**
-   * SMS notification for critical alerts
+   * Outbound channels are delivered (and retried) by the notification queue
    */
-  private async sendSMSNotification(alert: AlertSystem): Promise<void> {
-    if (alert.severity !== 'critical') return;
-    
-    const recipients = this.getSMSRecipients();
-    
-    for (const recipient of recipients) {
-      try {
-        const smsMessage = this.generateSMSMessage(alert);
-        await this.sendSMS(recipient, smsMessage);
-        await this.recordNotification(alert.id, 'sms', 'sent', new Date(), recipient);
-      } catch (error) {
-        await this.recordNotification(alert.id, 'sms', 'failed', new Date(), recipient, (error as Error).message);
-      }
-    }
-  }
-  
-  /**
-   * Push notification
-   */
-  private async sendPushNotification(alert: AlertSystem): Promise<void> {
-    const recipients = this.getPushRecipients(alert.severity as AlertSeverity);
-    
-    for (const recipient of recipients) {
-      try {
-        const pushMessage = this.generatePushMessage(alert);
-        await this.sendPush(recipient, pushMessage);
-        await this.recordNotification(alert.id, 'push', 'sent', new Date(), recipient);
-      } catch (error) {
-        await this.recordNotification(alert.id, 'push', 'failed', new Date(), recipient, (error as Error).message);
-      }
-    }
+  private registerQueueSenders(): void {
+    notificationQueue.registerSender('email', async (alert, recipient, notification) => {
+      const template = await notificationTemplateService.render('email', alert, this.renderOptions(notification));
+      const result = await this.sendEmail(recipient, template);
+      return { metadata: { ...result, template: { locale: template.locale, version: template.version } } };
+    });
+    notificationQueue.registerSender('sms', async (alert, recipient, notification) => ({
+      metadata: await this.sendSMS(recipient, alert, notification)
+    }));
+    notificationQueue.registerSender('push', async (alert, recipient, notification) => {
+      const template = await notificationTemplateService.render('push', alert, this.renderOptions(notification));
+      const message = {
+        title: template.subject,
+        body: template.body,
+        data: {
+          alertId: alert.id,
+          severity: alert.severity,
+          type: alert.type,
+          timestamp: alert.timestamp.toISOString(),
+          url: `/?alert=${alert.id}`
+        }
+      };
+      const result = await this.sendPush(recipient, message, {
+        urgency: alert.severity === 'critical' ? 'high' : alert.severity === 'warning' ? 'normal' : 'low',
+        // A newer message about the same alert replaces one still waiting at the push service
+        topic: alert.id.replace(/-/g, '').slice(0, 32),
+      });
+      // The push service accepted it unless the subscription was gone
+      return {
+        metadata: { ...result, template: { locale: template.locale, version: template.version } },
+        delivered: result.skipped === undefined,
+      };
+    });
   }
   
   /**
    * WebSocket real-time notification
    */
   private async sendWebSocketNotification(alert: AlertSystem): Promise<void> {
-    const message = {
-      type: 'alert',
-      data: {
-        id: alert.id,
-        title: alert.title,
-        description: alert.description,
-        severity: alert.severity,
-        type: alert.type,
-        timestamp: alert.timestamp,
-        source: alert.source,
-        deviceId: alert.deviceId,
-        location: alert.location
-      },
-      timestamp: new Date().toISOString()
+    const data = {
+      id: alert.id,
+      title: alert.title,
+      description: alert.description,
+      severity: alert.severity,
+      type: alert.type,
+      timestamp: alert.timestamp,
+      source: alert.source,
+      deviceId: alert.deviceId,
+      location: alert.location
     };
     
-    // Broadcast to all connected clients
-    for (const [userId, ws] of Array.from(this.websocketConnections.entries())) {
-      if (ws.readyState === WebSocket.OPEN) {
-        try {
-          ws.send(JSON.stringify(message));
-          await this.recordNotification(alert.id, 'websocket', 'sent', new Date(), userId);
-        } catch (error) {
-          console.error(`Failed to send WebSocket notification to ${userId}:`, error);
-        }
-      }
+    // Broadcast to every client subscribed to the alerts topic
+    const deliveredTo = realtimeHub.publish('alerts', 'alert', data);
+    for (const userId of deliveredTo) {
+      await this.recordNotification(alert.id, 'websocket', 'sent', new Date(), userId);
     }
   }
   
   /**
-   * Add WebSocket connection
+   * Locale and time zone of the user a queued notification is for
    */
-  addWebSocketConnection(userId: string, ws: WebSocket): void {
-    this.websocketConnections.set(userId, ws);
-    
-    ws.on('close', () => {
-      this.websocketConnections.delete(userId);
-    });
+  private renderOptions(notification: AlertNotification): RenderOptions {
+    const metadata = (notification.metadata ?? {}) as { locale?: string; timezone?: string };
+    return { locale: metadata.locale, timezone: metadata.timezone };
   }
   
   /**
-   * Remove WebSocket connection
+   * Queue recipients for a user on the channel; push goes to each of the
+   * user's browser subscriptions
    */
-  removeWebSocketConnection(userId: string): void {
-    this.websocketConnections.delete(userId);
+  private async addressesFor(recipient: NotificationRecipient, channel: OutboundChannel): Promise<string[]> {
+    switch (channel) {
+      case 'email':
+        return recipient.email ? [recipient.email] : [];
+      case 'sms':
+        return recipient.phone ? [recipient.phone] : [];
+      case 'push':
+        return (await notificationSettingsStore.getPushSubscriptions(recipient.userId)).map(subscription => subscription.id);
+    }
   }
   
   /**
-   * Generate email template
+   * Map a user id to its addresses for the channel, or accept a raw address
    */
-  private generateEmailTemplate(alert: AlertSystem): { subject: string; body: string; html: string } {
-    const severityColor = this.getSeverityColor(alert.severity as AlertSeverity);
-    const severityIcon = this.getSeverityIcon(alert.severity as AlertSeverity);
+  private async resolveRecipient(channel: 'email' | 'sms' | 'push', recipient: string): Promise<string[]> {
+    const known = await onCallService.getRecipient(recipient);
+    if (known) return this.addressesFor(known, channel);
     
-    return {
-      subject: `[${alert.severity.toUpperCase()}] ${alert.title}`,
-      body: `
-Energy Management System Alert
-
-${severityIcon} ${alert.title}
-
-Description: ${alert.description}
-Severity: ${alert.severity.toUpperCase()}
-Type: ${alert.type}
-Location: ${alert.location || 'System-wide'}
-Time: ${alert.timestamp.toLocaleString()}
-
-Please check the dashboard for more details and take appropriate action.
-
----
-AI Energy Management System
-      `.trim(),
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <div style="background: ${severityColor}; color: white; padding: 20px; text-align: center;">
-            <h1 style="margin: 0; font-size: 24px;">${severityIcon} ${alert.title}</h1>
-          </div>
-          <div style="padding: 20px; background: #f8f9fa;">
-            <p><strong>Description:</strong> ${alert.description}</p>
-            <p><strong>Severity:</strong> <span style="color: ${severityColor}; font-weight: bold;">${alert.severity.toUpperCase()}</span></p>
-            <p><strong>Type:</strong> ${alert.type}</p>
-            <p><strong>Location:</strong> ${alert.location || 'System-wide'}</p>
-            <p><strong>Time:</strong> ${alert.timestamp.toLocaleString()}</p>
-            <div style="margin-top: 20px; text-align: center;">
-              <a href="${process.env.DASHBOARD_URL || 'http://localhost:5000'}" 
-                 style="background: #00E0A1; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px;">
-                View Dashboard
-              </a>
-            </div>
-          </div>
-        </div>
-      `
-    };
+    switch (channel) {
+      case 'email':
+        return recipient.includes('@') ? [recipient] : [];
+      case 'sms':
+        return /^\+?\d[\d\s-]+$/.test(recipient) ? [recipient] : [];
+      case 'push':
+        return (await notificationSettingsStore.getPushSubscriptions(recipient)).map(subscription => subscription.id);
+    }
   }
   
-  /**
-   * Generate SMS message
-   */
-  private generateSMSMessage(alert: AlertSystem): string {
-    return `[${alert.severity.toUpperCase()}] ${alert.title}: ${alert.description} - ${alert.location || 'System'}`;
+  private async getDefaultRecipients(channel: 'email' | 'sms' | 'push', alert: AlertSystem): Promise<string[]> {
+    switch (channel) {
+      case 'email':
+        return this.getEmailRecipients(alert);
+      case 'sms':
+        return this.getSMSRecipients(alert);
+      case 'push':
+        return this.getPushRecipients(alert);
+    }
   }
   
   /**
-   * Generate push notification message
+   * Recipients on call for the alert's location who opted into the channel
    */
-  private generatePushMessage(alert: AlertSystem): { title: string; body: string; data: any } {
-    return {
-      title: `Energy Alert: ${alert.title}`,
-      body: alert.description,
-      data: {
-        alertId: alert.id,
-        severity: alert.severity,
-        type: alert.type,
-        timestamp: alert.timestamp.toISOString()
-      }
-    };
+  private async getOnCallRecipients(alert: AlertSystem, channel: keyof RecipientPreferences): Promise<NotificationRecipient[]> {
+    const recipients = await onCallService.getRecipientsForAlert(alert);
+    return recipients.filter(recipient => (recipient.preferences as RecipientPreferences)[channel]);
   }
   
   /**
    * Get email recipients based on severity
    */
-  private getEmailRecipients(severity: AlertSeverity): string[] {
-    const recipients: string[] = [];
+  private async getEmailRecipients(alert: AlertSystem): Promise<string[]> {
+    if (alert.severity !== 'critical' && alert.severity !== 'warning') return [];
     
-    for (const [userId, recipient] of Array.from(this.recipients.entries())) {
-      if (recipient.email && recipient.preferences.email) {
-        if (severity === 'critical' || severity === 'warning') {
-          recipients.push(recipient.email);
-        }
-      }
-    }
-    
-    return recipients;
+    const recipients = await this.getOnCallRecipients(alert, 'email');
+    return recipients
+      .map(recipient => recipient.email)
+      .filter((email): email is string => !!email);
   }
   
   /**
-   * Get SMS recipients (only for critical alerts)
+   * Get SMS recipients
    */
-  private getSMSRecipients(): string[] {
-    const recipients: string[] = [];
-    
-    for (const [userId, recipient] of Array.from(this.recipients.entries())) {
-      if (recipient.phone && recipient.preferences.sms) {
-        recipients.push(recipient.phone);
-      }
-    }
-    
-    return recipients;
+  private async getSMSRecipients(alert: AlertSystem): Promise<string[]> {
+    const recipients = await this.getOnCallRecipients(alert, 'sms');
+    return recipients
+      .map(recipient => recipient.phone)
+      .filter((phone): phone is string => !!phone);
   }
   
   /**
-   * Get push notification recipients
+   * Get push subscriptions of the on-call recipients
    */
-  private getPushRecipients(severity: AlertSeverity): string[] {
-    const recipients: string[] = [];
-    
-    for (const [userId, recipient] of Array.from(this.recipients.entries())) {
-      if (recipient.preferences.push) {
-        recipients.push(userId);
-      }
-    }
-    
-    return recipients;
+  private async getPushRecipients(alert: AlertSystem): Promise<string[]> {
+    const recipients = await this.getOnCallRecipients(alert, 'push');
+    const subscriptions = await Promise.all(recipients.map(recipient => this.addressesFor(recipient, 'push')));
+    return subscriptions.flat();
   }
   
   /**
@@ -346,129 +313,99 @@ AI Energy Management System
     recipient?: string, 
     errorMessage?: string
   ): Promise<void> {
-    // This would typically save to the database
-    console.log(`Notification recorded: ${alertId} via ${channel} to ${recipient || 'all'} - ${status}`);
+    try {
+      const notification = await alertStore.createNotification({
+        alertId,
+        channel,
+        status,
+        recipient: recipient || 'all',
+        errorMessage: errorMessage ?? null,
+      });
+      
+      if (status === 'sent') {
+        await alertStore.updateNotification(notification.id, { sentAt });
+      }
+    } catch (error) {
+      console.error(`Failed to record ${channel} notification for alert ${alertId}:`, error);
+    }
   }
   
   /**
-   * Initialize default notification channels
+   * Deliver an email through the configured transport (also used for digests)
    */
-  private initializeDefaultChannels(): void {
-    this.channels.set('dashboard', {
-      type: 'dashboard',
-      config: {},
-      enabled: true
-    });
-    
-    this.channels.set('email', {
-      type: 'email',
-      config: {
-        smtp: {
-          host: process.env.SMTP_HOST || 'localhost',
-          port: parseInt(process.env.SMTP_PORT || '587'),
-          secure: false,
-          auth: {
-            user: process.env.SMTP_USER,
-            pass: process.env.SMTP_PASS
-          }
-        }
-      },
-      enabled: true
-    });
-    
-    this.channels.set('sms', {
-      type: 'sms',
-      config: {
-        provider: 'twilio',
-        accountSid: process.env.TWILIO_ACCOUNT_SID,
-        authToken: process.env.TWILIO_AUTH_TOKEN,
-        from: process.env.TWILIO_FROM_NUMBER
-      },
-      enabled: true
-    });
-    
-    this.channels.set('push', {
-      type: 'push',
-      config: {
-        vapidKeys: {
-          publicKey: process.env.VAPID_PUBLIC_KEY,
-          privateKey: process.env.VAPID_PRIVATE_KEY
-        }
-      },
-      enabled: true
-    });
-    
-    this.channels.set('websocket', {
-      type: 'websocket',
-      config: {},
-      enabled: true
+  async sendEmail(
+    recipient: string,
+    template: { subject: string; body: string; html: string }
+  ): Promise<{ messageId: string }> {
+    const result = await this.emailTransport.send({
+      to: recipient,
+      subject: template.subject,
+      text: template.body,
+      html: template.html
     });
+    console.log(`Email sent to ${recipient}: ${template.subject} (${result.messageId})`);
+    return { messageId: result.messageId };
   }
   
   /**
-   * Initialize default recipients
+   * Encrypted Web Push to one browser subscription
    */
-  private initializeDefaultRecipients(): void {
-    this.recipients.set('admin', {
-      userId: 'admin',
-      email: process.env.ADMIN_EMAIL || 'admin@energymgmt.com',
-      phone: process.env.ADMIN_PHONE || '+1234567890',
-      preferences: {
-        email: true,
-        sms: true,
-        push: true,
-        dashboard: true
-      }
-    });
+  private async sendPush(
+    subscriptionId: string,
+    message: { title: string; body: string; data: any },
+    options: WebPushOptions
+  ): Promise<Record<string, unknown>> {
+    const subscription = await notificationSettingsStore.getPushSubscription(subscriptionId);
+    if (!subscription) {
+      return { skipped: 'subscription removed' };
+    }
     
-    this.recipients.set('operator', {
-      userId: 'operator',
-      email: process.env.OPERATOR_EMAIL || 'operator@energymgmt.com',
-      phone: process.env.OPERATOR_PHONE || '+1234567891',
-      preferences: {
-        email: true,
-        sms: false,
-        push: true,
-        dashboard: true
+    try {
+      // The service worker acknowledges on behalf of the subscription's user
+      const payload = { ...message, data: { ...message.data, userId: subscription.userId } };
+      const { statusCode } = await webPushSender.send(subscription, JSON.stringify(payload), options);
+      console.log(`Push notification sent to ${subscription.userId}: ${message.title}`);
+      return { statusCode, userId: subscription.userId };
+    } catch (error) {
+      // Unsubscribed or expired in the browser; retrying would never succeed
+      if (error instanceof PushSubscriptionGoneError) {
+        await notificationSettingsStore.deletePushSubscription(subscription.id);
+        return { skipped: 'subscription expired', statusCode: error.statusCode, userId: subscription.userId };
       }
-    });
-  }
-  
-  /**
-   * Get severity color for UI
-   */
-  private getSeverityColor(severity: AlertSeverity): string {
-    switch (severity) {
-      case 'critical': return '#DC3545';
-      case 'warning': return '#FFC107';
-      case 'info': return '#00E0A1';
-      default: return '#6C757D';
+      throw error;
     }
   }
   
   /**
-   * Get severity icon
+   * Text message with a reply code; "ACK <code>" from the same number
+   * acknowledges the alert (see sms-replies.ts)
    */
-  private getSeverityIcon(severity: AlertSeverity): string {
-    switch (severity) {
-      case 'critical': return '🚨';
-      case 'warning': return '⚠️';
-      case 'info': return 'ℹ️';
-      default: return '📋';
+  private async sendSMS(
+    recipient: string,
+    alert: AlertSystem,
+    notification: AlertNotification
+  ): Promise<Record<string, unknown>> {
+    // Stored before sending so a retry after a timeout reuses the code the
+    // recipient may already have received
+    const metadata = (notification.metadata ?? {}) as { ackCode?: string };
+    let ackCode = metadata.ackCode;
+    if (!ackCode) {
+      ackCode = String(randomInt(100000, 1000000));
+      await alertStore.updateNotification(notification.id, { metadata: { ...metadata, ackCode } });
     }
-  }
-  
-  // Placeholder methods for actual implementation
-  private async sendEmail(recipient: string, template: any): Promise<void> {
-    console.log(`Email sent to ${recipient}: ${template.subject}`);
-  }
-  
-  private async sendSMS(recipient: string, message: string): Promise<void> {
-    console.log(`SMS sent to ${recipient}: ${message}`);
-  }
-  
-  private async sendPush(recipient: string, message: any): Promise<void> {
-    console.log(`Push notification sent to ${recipient}: ${message.title}`);
+    const suffix = alert.status === 'active' ? ` Reply ACK ${ackCode}` : '';
+    const template = await notificationTemplateService.render('sms', alert, this.renderOptions(notification));
+    const body = truncateSms(template.body, smsConfig.maxSegments, suffix);
+    
+    const result = await this.smsProvider.send({ to: recipient, body });
+    console.log(`SMS sent to ${recipient} via ${result.provider} (${result.segments} segment(s))`);
+    return {
+      ackCode,
+      messageId: result.messageId,
+      provider: result.provider,
+      segments: result.segments,
+      template: { locale: template.locale, version: template.version }
+    };
   }
 }
 
@@ -0,0 +1,157 @@
+import {
+  type NotificationPreferences, type InsertNotificationPreferences,
+  type PushSubscription, type InsertPushSubscription,
+  notificationPreferences, pushSubscriptions,
+} from "@shared/alert-schema";
+import { asc, eq } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { database, type Database } from "./db";
+
+export interface NotificationSettingsStore {
+  // Notification preferences
+  getPreferences(userId: string): Promise<NotificationPreferences | undefined>;
+  savePreferences(preferences: InsertNotificationPreferences): Promise<NotificationPreferences>;
+  updatePreferences(userId: string, changes: Partial<Omit<NotificationPreferences, 'id' | 'userId'>>): Promise<NotificationPreferences | undefined>;
+
+  // Push subscriptions (re-subscribing the same endpoint replaces its keys and owner)
+  savePushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription>;
+  getPushSubscription(id: string): Promise<PushSubscription | undefined>;
+  getPushSubscriptions(userId: string): Promise<PushSubscription[]>;
+  deletePushSubscription(id: string): Promise<void>;
+  deletePushSubscriptionByEndpoint(endpoint: string): Promise<void>;
+}
+
+export class MemNotificationSettingsStore implements NotificationSettingsStore {
+  private preferences: Map<string, NotificationPreferences> = new Map();
+  private pushSubscriptions: Map<string, PushSubscription> = new Map();
+
+  // Notification preferences
+  async getPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    return this.preferences.get(userId);
+  }
+
+  async savePreferences(preferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    const existing = this.preferences.get(preferences.userId);
+    const record: NotificationPreferences = {
+      id: existing?.id ?? randomUUID(),
+      userId: preferences.userId,
+      channelsBySeverity: preferences.channelsBySeverity,
+      minimumSeverity: preferences.minimumSeverity ?? 'info',
+      mutedTypes: preferences.mutedTypes ?? [],
+      quietHoursStart: preferences.quietHoursStart ?? null,
+      quietHoursEnd: preferences.quietHoursEnd ?? null,
+      timezone: preferences.timezone ?? 'UTC',
+      digestMode: preferences.digestMode ?? 'off',
+      digestHour: preferences.digestHour ?? 8,
+      locale: preferences.locale ?? 'en',
+      lastDigestAt: existing?.lastDigestAt ?? null,
+      updatedAt: new Date(),
+    };
+    this.preferences.set(preferences.userId, record);
+    return record;
+  }
+
+  async updatePreferences(userId: string, changes: Partial<Omit<NotificationPreferences, 'id' | 'userId'>>): Promise<NotificationPreferences | undefined> {
+    const preferences = this.preferences.get(userId);
+    if (!preferences) return undefined;
+    const updated = { ...preferences, ...changes };
+    this.preferences.set(userId, updated);
+    return updated;
+  }
+
+  // Push subscriptions
+  async savePushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription> {
+    const existing = Array.from(this.pushSubscriptions.values()).find(s => s.endpoint === subscription.endpoint);
+    const record: PushSubscription = {
+      ...subscription,
+      id: existing?.id ?? randomUUID(),
+      userAgent: subscription.userAgent ?? null,
+      expiresAt: subscription.expiresAt ?? null,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    this.pushSubscriptions.set(record.id, record);
+    return record;
+  }
+
+  async getPushSubscription(id: string): Promise<PushSubscription | undefined> {
+    return this.pushSubscriptions.get(id);
+  }
+
+  async getPushSubscriptions(userId: string): Promise<PushSubscription[]> {
+    return Array.from(this.pushSubscriptions.values())
+      .filter(subscription => subscription.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async deletePushSubscription(id: string): Promise<void> {
+    this.pushSubscriptions.delete(id);
+  }
+
+  async deletePushSubscriptionByEndpoint(endpoint: string): Promise<void> {
+    const existing = Array.from(this.pushSubscriptions.values()).find(s => s.endpoint === endpoint);
+    if (existing) this.pushSubscriptions.delete(existing.id);
+  }
+}
+
+// PostgreSQL-backed notification settings over the Drizzle tables in shared/alert-schema
+export class DbNotificationSettingsStore implements NotificationSettingsStore {
+  constructor(private db: Database) {}
+
+  // Notification preferences
+  async getPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    const [record] = await this.db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+    return record;
+  }
+
+  async savePreferences(preferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    const { userId, ...values } = preferences;
+    const [record] = await this.db.insert(notificationPreferences)
+      .values(preferences)
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return record;
+  }
+
+  async updatePreferences(userId: string, changes: Partial<Omit<NotificationPreferences, 'id' | 'userId'>>): Promise<NotificationPreferences | undefined> {
+    const [record] = await this.db.update(notificationPreferences).set(changes)
+      .where(eq(notificationPreferences.userId, userId))
+      .returning();
+    return record;
+  }
+
+  // Push subscriptions
+  async savePushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription> {
+    const { endpoint, ...values } = subscription;
+    const [record] = await this.db.insert(pushSubscriptions)
+      .values(subscription)
+      .onConflictDoUpdate({ target: pushSubscriptions.endpoint, set: values })
+      .returning();
+    return record;
+  }
+
+  async getPushSubscription(id: string): Promise<PushSubscription | undefined> {
+    const [record] = await this.db.select().from(pushSubscriptions).where(eq(pushSubscriptions.id, id));
+    return record;
+  }
+
+  async getPushSubscriptions(userId: string): Promise<PushSubscription[]> {
+    return this.db.select().from(pushSubscriptions)
+      .where(eq(pushSubscriptions.userId, userId))
+      .orderBy(asc(pushSubscriptions.createdAt));
+  }
+
+  async deletePushSubscription(id: string): Promise<void> {
+    await this.db.delete(pushSubscriptions).where(eq(pushSubscriptions.id, id));
+  }
+
+  async deletePushSubscriptionByEndpoint(endpoint: string): Promise<void> {
+    await this.db.delete(pushSubscriptions).where(eq(pushSubscriptions.endpoint, endpoint));
+  }
+}
+
+export const notificationSettingsStore: NotificationSettingsStore = database
+  ? new DbNotificationSettingsStore(database.db)
+  : new MemNotificationSettingsStore();
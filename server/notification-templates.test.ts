@@ -0,0 +1,127 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import {
+  NotificationTemplateService,
+  TemplateSyntaxError,
+  TemplateValidationError,
+  canonicalLocale,
+  localeFallbacks,
+  parseTemplate,
+  renderTemplate,
+  sampleAlert,
+} from "./notification-templates";
+import { MemTemplateStore } from "./template-store";
+
+const SCRIPT = '<script>alert("x")</script>';
+
+function rejects(source: string, message: string, position: number) {
+  assert.throws(() => parseTemplate(source), (error: unknown) => {
+    assert.ok(error instanceof TemplateSyntaxError);
+    assert.equal(error.message, `${message} (at character ${position})`);
+    return true;
+  });
+}
+
+describe('template language', () => {
+  const context = { alert: { title: 'Inverter fault', location: null, tags: [] as string[] }, count: 3 };
+
+  it('interpolates dotted paths and applies filters left to right', () => {
+    assert.equal(renderTemplate('{{alert.title}} x{{ count }}', context), 'Inverter fault x3');
+    assert.equal(renderTemplate('{{ alert.title | upper }} / {{ alert.title | lower }}', context), 'INVERTER FAULT / inverter fault');
+    assert.equal(renderTemplate('{{ alert.missing.deeper }}|', context), '|');
+    assert.equal(renderTemplate('{{ alert.location | default:"Site-wide" | upper }}', context), 'SITE-WIDE');
+    assert.equal(renderTemplate('{{ alert.title | default:"n/a" }}', context), 'Inverter fault');
+    assert.equal(renderTemplate('{{ alert.location | default:"say \\"hi\\"" }}', context), 'say "hi"');
+  });
+
+  it('truncates with an ellipsis inside the given length', () => {
+    assert.equal(renderTemplate('{{ alert.title | truncate:8 }}', context), 'Inver...');
+    assert.equal(renderTemplate('{{ alert.title | truncate:14 }}', context), 'Inverter fault');
+    assert.equal(renderTemplate('{{ alert.title | truncate:2 }}', context), '...');
+  });
+
+  it('renders {{#if}} blocks by whether the value is empty', () => {
+    const template = '{{#if alert.location}}at {{ alert.location }}{{else}}site-wide{{/if}}';
+    assert.equal(renderTemplate(template, context), 'site-wide');
+    assert.equal(renderTemplate(template, { alert: { location: 'Roof' } }), 'at Roof');
+    assert.equal(renderTemplate('{{#if alert.tags}}tagged{{/if}}.', context), '.');
+    assert.equal(
+      renderTemplate('{{#if count}}{{#if alert.location}}A{{else}}B{{/if}}C{{else}}D{{/if}}', context),
+      'BC'
+    );
+  });
+
+  it('rejects malformed templates with the position of the tag', () => {
+    rejects('Hi {{ alert.title | shout }}', 'Unknown filter "shout"', 3);
+    rejects('{{ alert.title | truncate }}', 'truncate needs a length, e.g. truncate:160', 0);
+    rejects('{{ alert.title | default }}', 'default needs a quoted value, e.g. default:"n/a"', 0);
+    rejects('{{ alert..title }}', 'Invalid variable "alert..title"', 0);
+    rejects('ok {{#if alert.title}} open', '{{#if}} is never closed', 3);
+    rejects('{{#if a}}x{{else}}y{{else}}z{{/if}}', '{{else}} without a matching {{#if}}', 19);
+    rejects('done {{/if}}', '{{/if}} without a matching {{#if}}', 5);
+    rejects('{{ alert.title }} and {{ alert', 'Unclosed {{', 22);
+  });
+});
+
+describe('NotificationTemplateService', () => {
+  let store: MemTemplateStore;
+  let service: NotificationTemplateService;
+  const alert = sampleAlert({ title: 'Fault <b>2</b>', description: SCRIPT });
+
+  beforeEach(() => {
+    store = new MemTemplateStore();
+    service = new NotificationTemplateService(store);
+  });
+
+  it('escapes interpolated values in email HTML and leaves SMS and push text raw', async () => {
+    const email = await service.render('email', alert);
+    assert.ok(!email.html.includes('<script>'));
+    assert.ok(email.html.includes('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;'));
+    assert.ok(email.html.includes('Fault &lt;b&gt;2&lt;/b&gt;'));
+    // The template's own markup is kept
+    assert.ok(email.html.startsWith('<div style="font-family'));
+    assert.ok(email.body.includes(`Description: ${SCRIPT}`));
+
+    assert.ok((await service.render('sms', alert)).body.includes(SCRIPT));
+    assert.equal((await service.render('push', alert)).body, SCRIPT);
+  });
+
+  it('falls back from a regional locale to its language, then to the default', async () => {
+    await service.save('sms', 'de', { body: 'Alarm: {{ alert.title }}' });
+    await service.save('push', 'en', { subject: 'Alert', body: '{{ alert.title }}' });
+
+    assert.equal(canonicalLocale('de-at'), 'de-AT');
+    assert.equal(canonicalLocale('not a locale'), null);
+    assert.deepEqual(localeFallbacks('de-AT'), ['de-AT', 'de', 'en']);
+
+    const german = await service.render('sms', alert, { locale: canonicalLocale('de-at')! });
+    assert.deepEqual([german.locale, german.version, german.body], ['de', 1, 'Alarm: Fault <b>2</b>']);
+
+    const french = await service.render('sms', alert, { locale: 'fr-CA' });
+    assert.deepEqual([french.locale, french.version], ['en', null]);
+    const frenchPush = await service.render('push', alert, { locale: 'fr-CA' });
+    assert.deepEqual([frenchPush.locale, frenchPush.version], ['en', 1]);
+  });
+
+  it('keeps published versions unchanged when the template is edited or restored', async () => {
+    const first = await service.save('sms', 'en', { body: 'v1 {{ alert.title }}' }, 'ops');
+    const published = { ...first };
+
+    await service.save('sms', 'en', { body: 'v2 {{ alert.title }}' }, 'ops');
+    const restored = await service.restore('sms', 'en', 1, 'admin');
+
+    assert.equal(restored?.version, 3);
+    assert.equal(restored?.body, published.body);
+    assert.notEqual(restored?.id, published.id);
+    assert.deepEqual(await store.getVersion('sms', 'en', 1), published);
+    assert.deepEqual((await service.getVersions('sms', 'en')).map(version => version.body), [
+      'v1 {{ alert.title }}', 'v2 {{ alert.title }}', 'v1 {{ alert.title }}'
+    ]);
+  });
+
+  it('rejects templates that do not parse or miss required parts on save', async () => {
+    await assert.rejects(service.save('email', 'en', { body: 'Hi', html: '<p>Hi</p>' }), TemplateValidationError);
+    await assert.rejects(service.save('sms', 'en', { body: '{{#if alert.title}}' }), TemplateSyntaxError);
+    assert.deepEqual(await service.getTemplates(), []);
+  });
+});
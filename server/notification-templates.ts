@@ -0,0 +1,450 @@
+import {
+  type AlertSystem,
+  type AlertSeverity,
+  type NotificationTemplate,
+} from "@shared/alert-schema";
+import { templateStore, type TemplateStore } from "./template-store";
+
+export type TemplateChannel = 'email' | 'sms' | 'push';
+
+export const TEMPLATE_CHANNELS: TemplateChannel[] = ['email', 'sms', 'push'];
+
+/**
+ * Template text for one channel. `subject` is the email subject or push
+ * title; `html` is only used by email.
+ */
+export interface TemplateSource {
+  subject?: string | null;
+  body: string;
+  html?: string | null;
+}
+
+export interface RenderedTemplate {
+  subject: string;
+  body: string;
+  html: string;
+  // Which template produced the message; version is null for the built-in default
+  locale: string;
+  version: number | null;
+}
+
+export interface RenderOptions {
+  locale?: string;
+  timezone?: string;
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (at character ${position})`);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+export class TemplateValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateValidationError';
+  }
+}
+
+// Built-in English templates, used until an admin saves one for the channel
+export const DEFAULT_TEMPLATES: Record<TemplateChannel, TemplateSource> = {
+  email: {
+    subject: '[{{ alert.severity | upper }}] {{ alert.title }}',
+    body: `Energy Management System Alert
+
+{{ severity.icon }} {{ alert.title }}
+
+Description: {{ alert.description }}
+Severity: {{ alert.severity | upper }}
+Type: {{ alert.type }}
+Location: {{ alert.location | default:"System-wide" }}
+Time: {{ alert.timestamp | date }}
+
+Please check the dashboard for more details and take appropriate action.
+
+---
+AI Energy Management System`,
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <div style="background: {{ severity.color }}; color: white; padding: 20px; text-align: center;">
+    <h1 style="margin: 0; font-size: 24px;">{{ severity.icon }} {{ alert.title }}</h1>
+  </div>
+  <div style="padding: 20px; background: #f8f9fa;">
+    <p><strong>Description:</strong> {{ alert.description }}</p>
+    <p><strong>Severity:</strong> <span style="color: {{ severity.color }}; font-weight: bold;">{{ alert.severity | upper }}</span></p>
+    <p><strong>Type:</strong> {{ alert.type }}</p>
+    <p><strong>Location:</strong> {{ alert.location | default:"System-wide" }}</p>
+    <p><strong>Time:</strong> {{ alert.timestamp | date }}</p>
+    <div style="margin-top: 20px; text-align: center;">
+      <a href="{{ alertUrl }}"
+         style="background: #00E0A1; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px;">
+        View Dashboard
+      </a>
+    </div>
+  </div>
+</div>`,
+  },
+  sms: {
+    body: '[{{ alert.severity | upper }}] {{ alert.title }}: {{ alert.description }} - {{ alert.location | default:"System" }}',
+  },
+  push: {
+    subject: 'Energy Alert: {{ alert.title }}',
+    // Push services cap the encrypted payload at 4 KB
+    body: '{{ alert.description | truncate:500 }}',
+  },
+};
+
+const DEFAULT_LOCALE = 'en';
+
+const SEVERITY_STYLE: Record<AlertSeverity, { color: string; icon: string }> = {
+  critical: { color: '#DC3545', icon: '🚨' },
+  warning: { color: '#FFC107', icon: '⚠️' },
+  info: { color: '#00E0A1', icon: 'ℹ️' },
+};
+
+// ---- Template language ----------------------------------------------------
+//
+//   {{ alert.title }}                     value lookup by dotted path
+//   {{ alert.location | default:"n/a" }}  filters: upper, lower, date, default:"x", truncate:N
+//   {{#if alert.location}}…{{else}}…{{/if}}
+
+type Filter = { name: string; arg?: string | number };
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; path: string[]; filters: Filter[] }
+  | { kind: 'if'; path: string[]; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+const FILTERS = new Set(['upper', 'lower', 'date', 'default', 'truncate']);
+const PATH = /^[A-Za-z_][\w]*(\.[A-Za-z_][\w]*)*$/;
+
+function parsePath(expression: string, position: number): string[] {
+  if (!PATH.test(expression)) {
+    throw new TemplateSyntaxError(`Invalid variable "${expression}"`, position);
+  }
+  return expression.split('.');
+}
+
+function parseFilter(source: string, position: number): Filter {
+  const match = /^(\w+)(?::\s*(?:"((?:[^"\\]|\\.)*)"|(-?\d+)))?$/.exec(source.trim());
+  if (!match || !FILTERS.has(match[1])) {
+    throw new TemplateSyntaxError(`Unknown filter "${source.trim()}"`, position);
+  }
+  const [, name, text, number] = match;
+  if (name === 'truncate' && number === undefined) {
+    throw new TemplateSyntaxError('truncate needs a length, e.g. truncate:160', position);
+  }
+  if (name === 'default' && text === undefined) {
+    throw new TemplateSyntaxError('default needs a quoted value, e.g. default:"n/a"', position);
+  }
+  return { name, arg: number !== undefined ? parseInt(number) : text?.replace(/\\(.)/g, '$1') };
+}
+
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open {{#if}} blocks
+  const stack: Array<{ node: Extract<TemplateNode, { kind: 'if' }>; position: number; sawElse: boolean }> = [];
+  let current = root;
+  const tag = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tag.exec(source)) !== null) {
+    if (match.index > last) current.push({ kind: 'text', text: source.slice(last, match.index) });
+    last = tag.lastIndex;
+    const expression = match[1];
+    const position = match.index;
+
+    if (expression.startsWith('#if')) {
+      const node: TemplateNode = { kind: 'if', path: parsePath(expression.slice(3).trim(), position), then: [], otherwise: [] };
+      current.push(node);
+      stack.push({ node, position, sawElse: false });
+      current = node.then;
+    } else if (expression === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.sawElse) throw new TemplateSyntaxError('{{else}} without a matching {{#if}}', position);
+      open.sawElse = true;
+      current = open.node.otherwise;
+    } else if (expression === '/if') {
+      if (!stack.pop()) throw new TemplateSyntaxError('{{/if}} without a matching {{#if}}', position);
+      const parent = stack[stack.length - 1];
+      current = parent ? (parent.sawElse ? parent.node.otherwise : parent.node.then) : root;
+    } else {
+      const [path, ...filters] = expression.split('|');
+      current.push({
+        kind: 'value',
+        path: parsePath(path.trim(), position),
+        filters: filters.map(filter => parseFilter(filter, position)),
+      });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new TemplateSyntaxError('{{#if}} is never closed', stack[stack.length - 1].position);
+  }
+  if (source.indexOf('{{', last) !== -1) {
+    throw new TemplateSyntaxError('Unclosed {{', source.indexOf('{{', last));
+  }
+  if (last < source.length) root.push({ kind: 'text', text: source.slice(last) });
+  return root;
+}
+
+function lookup(context: Record<string, unknown>, path: string[]): unknown {
+  let value: unknown = context;
+  for (const key of path) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || value === false
+    || (Array.isArray(value) && value.length === 0);
+}
+
+function stringify(value: unknown, options: RenderOptions): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return formatDate(value, options);
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function formatDate(value: Date, options: RenderOptions): string {
+  try {
+    return value.toLocaleString(options.locale ?? DEFAULT_LOCALE, { timeZone: options.timezone });
+  } catch {
+    return value.toISOString();
+  }
+}
+
+function applyFilter(value: unknown, filter: Filter, options: RenderOptions): unknown {
+  switch (filter.name) {
+    case 'upper':
+      return stringify(value, options).toUpperCase();
+    case 'lower':
+      return stringify(value, options).toLowerCase();
+    case 'date': {
+      const date = value instanceof Date ? value : new Date(String(value));
+      return isEmpty(value) || isNaN(date.getTime()) ? value : formatDate(date, options);
+    }
+    case 'default':
+      return isEmpty(value) ? filter.arg : value;
+    case 'truncate': {
+      const text = stringify(value, options);
+      const length = filter.arg as number;
+      return text.length > length ? `${text.slice(0, Math.max(length - 3, 0))}...` : text;
+    }
+    default:
+      return value;
+  }
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderNodes(nodes: TemplateNode[], context: Record<string, unknown>, options: RenderOptions & { html: boolean }): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.kind === 'text') {
+      output += node.text;
+    } else if (node.kind === 'if') {
+      output += renderNodes(isEmpty(lookup(context, node.path)) ? node.otherwise : node.then, context, options);
+    } else {
+      const value = node.filters.reduce((current, filter) => applyFilter(current, filter, options), lookup(context, node.path));
+      const text = stringify(value, options);
+      // Only interpolated values are escaped; the template's own markup is trusted
+      output += options.html ? escapeHtml(text) : text;
+    }
+  }
+  return output;
+}
+
+/**
+ * Render template text against a context. With `html`, every interpolated
+ * value is HTML-escaped.
+ */
+export function renderTemplate(
+  source: string,
+  context: Record<string, unknown>,
+  options: RenderOptions & { html?: boolean } = {}
+): string {
+  return renderNodes(parseTemplate(source), context, { ...options, html: options.html ?? false });
+}
+
+/**
+ * Variables available to templates
+ */
+export function buildTemplateContext(alert: AlertSystem): Record<string, unknown> {
+  const dashboardUrl = process.env.DASHBOARD_URL || 'http://localhost:5000';
+  return {
+    alert,
+    severity: SEVERITY_STYLE[alert.severity as AlertSeverity] ?? { color: '#6C757D', icon: '📋' },
+    dashboardUrl,
+    alertUrl: `${dashboardUrl}/?alert=${alert.id}`,
+  };
+}
+
+/**
+ * Canonical BCP 47 form ("de-at" → "de-AT"), or null if the tag is invalid
+ */
+export function canonicalLocale(locale: string): string | null {
+  try {
+    return Intl.getCanonicalLocales(locale)[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Locales to try, most specific first: "de-AT" → "de-AT", "de", then the
+ * configured default and its language
+ */
+export function localeFallbacks(locale: string | undefined): string[] {
+  const defaultLocale = process.env.NOTIFICATION_DEFAULT_LOCALE || DEFAULT_LOCALE;
+  const candidates: string[] = [];
+  for (const tag of [locale, defaultLocale]) {
+    if (!tag) continue;
+    candidates.push(tag, tag.split('-')[0]);
+  }
+  return Array.from(new Set(candidates));
+}
+
+export function sampleAlert(overrides: Partial<AlertSystem> = {}): AlertSystem {
+  return {
+    id: '00000000-0000-4000-8000-000000000000',
+    title: 'Battery storage below 15%',
+    description: 'Battery bank 2 dropped from 42% to 14% in 20 minutes while grid import is peaking.',
+    type: 'storage',
+    severity: 'critical',
+    status: 'active',
+    source: 'sensor',
+    deviceId: 'battery-2',
+    location: 'Building A',
+    timestamp: new Date(),
+    acknowledgedAt: null,
+    acknowledgedBy: null,
+    resolvedAt: null,
+    resolvedBy: null,
+    resolutionNotes: null,
+    metadata: { stateOfCharge: 14 },
+    anomalyId: null,
+    incidentId: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Admin-editable email, SMS and push templates. Every save creates a new
+ * version; rendering uses the newest version for the closest locale and
+ * falls back to the built-in English templates.
+ */
+export class NotificationTemplateService {
+  constructor(private store: TemplateStore) {}
+
+  /**
+   * Parse every part of a template so broken templates are rejected on save
+   * rather than at delivery time
+   */
+  validate(channel: TemplateChannel, source: TemplateSource): void {
+    if ((channel === 'email' || channel === 'push') && !source.subject) {
+      throw new TemplateValidationError(`${channel === 'email' ? 'Subject' : 'Title'} is required for ${channel} templates`);
+    }
+    if (channel === 'email' && !source.html) {
+      throw new TemplateValidationError('HTML is required for email templates');
+    }
+    for (const part of [source.subject, source.body, source.html]) {
+      if (part) parseTemplate(part);
+    }
+  }
+
+  /**
+   * Render a template source; the subject is kept to a single line
+   */
+  renderSource(channel: TemplateChannel, source: TemplateSource, alert: AlertSystem, options: RenderOptions = {}) {
+    const context = buildTemplateContext(alert);
+    return {
+      subject: source.subject ? renderTemplate(source.subject, context, options).replace(/[\r\n]+/g, ' ').trim() : '',
+      body: renderTemplate(source.body, context, options).trim(),
+      html: channel === 'email' && source.html ? renderTemplate(source.html, context, { ...options, html: true }) : '',
+    };
+  }
+
+  /**
+   * The template used for a channel and locale, following the locale fallbacks
+   */
+  async resolve(channel: TemplateChannel, locale?: string): Promise<{ source: TemplateSource; locale: string; version: number | null }> {
+    for (const candidate of localeFallbacks(locale)) {
+      const template = await this.store.getLatest(channel, candidate);
+      if (template) return { source: template, locale: template.locale, version: template.version };
+    }
+    return { source: DEFAULT_TEMPLATES[channel], locale: DEFAULT_LOCALE, version: null };
+  }
+
+  async render(channel: TemplateChannel, alert: AlertSystem, options: RenderOptions = {}): Promise<RenderedTemplate> {
+    const { source, locale, version } = await this.resolve(channel, options.locale);
+    try {
+      return { ...this.renderSource(channel, source, alert, { ...options, locale: options.locale ?? locale }), locale, version };
+    } catch (error) {
+      // A stored template that no longer parses must not block the alert
+      console.error(`Template ${channel}/${locale} v${version} failed, using the built-in template:`, error);
+      return { ...this.renderSource(channel, DEFAULT_TEMPLATES[channel], alert, options), locale: DEFAULT_LOCALE, version: null };
+    }
+  }
+
+  /**
+   * Render an unsaved template (or the current one) without sending anything
+   */
+  async preview(
+    channel: TemplateChannel,
+    alert: AlertSystem,
+    options: RenderOptions & { template?: TemplateSource } = {}
+  ): Promise<RenderedTemplate> {
+    if (options.template) {
+      this.validate(channel, options.template);
+      return {
+        ...this.renderSource(channel, options.template, alert, options),
+        locale: options.locale ?? DEFAULT_LOCALE,
+        version: null,
+      };
+    }
+    return this.render(channel, alert, options);
+  }
+
+  async getTemplates(): Promise<NotificationTemplate[]> {
+    return this.store.getLatestTemplates();
+  }
+
+  async getVersions(channel: TemplateChannel, locale: string): Promise<NotificationTemplate[]> {
+    return this.store.getVersions(channel, locale);
+  }
+
+  async save(channel: TemplateChannel, locale: string, source: TemplateSource, createdBy?: string): Promise<NotificationTemplate> {
+    this.validate(channel, source);
+    return this.store.createVersion({
+      channel,
+      locale,
+      subject: source.subject || null,
+      body: source.body,
+      html: channel === 'email' ? source.html || null : null,
+      createdBy: createdBy ?? null,
+    });
+  }
+
+  /**
+   * Make an old version current again by saving it as the newest version
+   */
+  async restore(channel: TemplateChannel, locale: string, version: number, createdBy?: string): Promise<NotificationTemplate | undefined> {
+    const template = await this.store.getVersion(channel, locale, version);
+    if (!template) return undefined;
+    return this.save(channel, locale, template, createdBy);
+  }
+}
+
+export const notificationTemplateService = new NotificationTemplateService(templateStore);
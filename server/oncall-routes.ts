@@ -0,0 +1,196 @@
+import type { Express, Response } from "express";
+import {
+  insertNotificationRecipientSchema,
+  insertOnCallScheduleSchema,
+  insertOnCallOverrideSchema
+} from "@shared/alert-schema";
+import { onCallService } from "./oncall";
+import { onCallStore } from "./oncall-store";
+import { z } from "zod";
+
+const recipientSchema = insertNotificationRecipientSchema.extend({
+  userId: z.string().min(1),
+  name: z.string().min(1),
+  email: z.string().email().nullish(),
+  phone: z.string().regex(/^\+?\d[\d\s-]+$/, 'Invalid phone number').nullish(),
+  preferences: z.object({
+    email: z.boolean(),
+    sms: z.boolean(),
+    push: z.boolean(),
+    dashboard: z.boolean()
+  })
+});
+
+const scheduleSchema = insertOnCallScheduleSchema.extend({
+  name: z.string().min(1),
+  location: z.string().min(1).nullish(),
+  participants: z.array(z.string().min(1)),
+  rotationStart: z.coerce.date(),
+  rotationLengthHours: z.number().int().positive().optional()
+});
+
+const overrideSchema = insertOnCallOverrideSchema.omit({ scheduleId: true }).extend({
+  userId: z.string().min(1),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date()
+}).refine(override => override.endsAt > override.startsAt, {
+  message: 'endsAt must be after startsAt',
+  path: ['endsAt']
+});
+
+export async function registerOnCallRoutes(app: Express): Promise<void> {
+  await onCallService.seedDefaultRecipients();
+
+  // Who is on call right now (or at ?at=) for a location
+  app.get("/api/v1/oncall/now", async (req, res) => {
+    try {
+      const location = (req.query.location as string) || null;
+      const at = req.query.at ? new Date(req.query.at as string) : new Date();
+      if (isNaN(at.getTime())) {
+        return res.status(400).json({ error: 'Invalid at timestamp' });
+      }
+
+      const assignments = await onCallService.getOnCall(location, at);
+      res.json({ location, at, assignments });
+    } catch (error) {
+      console.error('Error resolving on-call:', error);
+      res.status(500).json({ error: 'Failed to resolve on-call' });
+    }
+  });
+
+  // Recipients
+  app.get("/api/v1/oncall/recipients", async (req, res) => {
+    try {
+      const recipients = await onCallStore.getRecipients();
+      res.json({ recipients });
+    } catch (error) {
+      console.error('Error fetching recipients:', error);
+      res.status(500).json({ error: 'Failed to fetch recipients' });
+    }
+  });
+
+  app.post("/api/v1/oncall/recipients", async (req, res) => {
+    try {
+      const data = recipientSchema.parse(req.body);
+      if (await onCallStore.getRecipientByUserId(data.userId)) {
+        return res.status(409).json({ error: `Recipient ${data.userId} already exists` });
+      }
+      const recipient = await onCallStore.createRecipient(data);
+      res.status(201).json({ recipient });
+    } catch (error) {
+      handleError(res, error, 'Failed to create recipient');
+    }
+  });
+
+  app.put("/api/v1/oncall/recipients/:id", async (req, res) => {
+    try {
+      const changes = recipientSchema.partial().parse(req.body);
+      const recipient = await onCallStore.updateRecipient(req.params.id, changes);
+      if (!recipient) {
+        return res.status(404).json({ error: 'Recipient not found' });
+      }
+      res.json({ recipient });
+    } catch (error) {
+      handleError(res, error, 'Failed to update recipient');
+    }
+  });
+
+  app.delete("/api/v1/oncall/recipients/:id", async (req, res) => {
+    try {
+      await onCallStore.deleteRecipient(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      handleError(res, error, 'Failed to delete recipient');
+    }
+  });
+
+  // Schedules
+  app.get("/api/v1/oncall/schedules", async (req, res) => {
+    try {
+      const schedules = await onCallStore.getSchedules();
+      res.json({ schedules });
+    } catch (error) {
+      console.error('Error fetching on-call schedules:', error);
+      res.status(500).json({ error: 'Failed to fetch on-call schedules' });
+    }
+  });
+
+  app.get("/api/v1/oncall/schedules/:id", async (req, res) => {
+    try {
+      const schedule = await onCallStore.getSchedule(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      const overrides = await onCallStore.getOverridesForSchedule(schedule.id);
+      res.json({ schedule, overrides });
+    } catch (error) {
+      console.error('Error fetching on-call schedule:', error);
+      res.status(500).json({ error: 'Failed to fetch on-call schedule' });
+    }
+  });
+
+  app.post("/api/v1/oncall/schedules", async (req, res) => {
+    try {
+      const data = scheduleSchema.parse(req.body);
+      const schedule = await onCallStore.createSchedule(data);
+      res.status(201).json({ schedule });
+    } catch (error) {
+      handleError(res, error, 'Failed to create on-call schedule');
+    }
+  });
+
+  app.put("/api/v1/oncall/schedules/:id", async (req, res) => {
+    try {
+      const changes = scheduleSchema.partial().parse(req.body);
+      const schedule = await onCallStore.updateSchedule(req.params.id, changes);
+      if (!schedule) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      res.json({ schedule });
+    } catch (error) {
+      handleError(res, error, 'Failed to update on-call schedule');
+    }
+  });
+
+  app.delete("/api/v1/oncall/schedules/:id", async (req, res) => {
+    try {
+      await onCallStore.deleteSchedule(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      handleError(res, error, 'Failed to delete on-call schedule');
+    }
+  });
+
+  // Overrides
+  app.post("/api/v1/oncall/schedules/:id/overrides", async (req, res) => {
+    try {
+      const schedule = await onCallStore.getSchedule(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      const data = overrideSchema.parse(req.body);
+      const override = await onCallStore.createOverride({ ...data, scheduleId: schedule.id });
+      res.status(201).json({ override });
+    } catch (error) {
+      handleError(res, error, 'Failed to create on-call override');
+    }
+  });
+
+  app.delete("/api/v1/oncall/overrides/:id", async (req, res) => {
+    try {
+      await onCallStore.deleteOverride(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      handleError(res, error, 'Failed to delete on-call override');
+    }
+  });
+}
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
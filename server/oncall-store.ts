@@ -0,0 +1,250 @@
+import {
+  type NotificationRecipient, type InsertNotificationRecipient,
+  type OnCallSchedule, type InsertOnCallSchedule,
+  type OnCallOverride, type InsertOnCallOverride,
+  notificationRecipients, onCallSchedules, onCallOverrides,
+} from "@shared/alert-schema";
+import { and, asc, desc, eq, gt, lte } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { database, type Database } from "./db";
+
+export interface OnCallStore {
+  // Recipients
+  createRecipient(recipient: InsertNotificationRecipient): Promise<NotificationRecipient>;
+  getRecipient(id: string): Promise<NotificationRecipient | undefined>;
+  getRecipientByUserId(userId: string): Promise<NotificationRecipient | undefined>;
+  getRecipients(): Promise<NotificationRecipient[]>;
+  updateRecipient(id: string, changes: Partial<Omit<NotificationRecipient, 'id'>>): Promise<NotificationRecipient | undefined>;
+  deleteRecipient(id: string): Promise<void>;
+
+  // Schedules
+  createSchedule(schedule: InsertOnCallSchedule): Promise<OnCallSchedule>;
+  getSchedule(id: string): Promise<OnCallSchedule | undefined>;
+  getSchedules(): Promise<OnCallSchedule[]>;
+  updateSchedule(id: string, changes: Partial<Omit<OnCallSchedule, 'id'>>): Promise<OnCallSchedule | undefined>;
+  deleteSchedule(id: string): Promise<void>;
+
+  // Overrides
+  createOverride(override: InsertOnCallOverride): Promise<OnCallOverride>;
+  getOverride(id: string): Promise<OnCallOverride | undefined>;
+  getOverridesForSchedule(scheduleId: string): Promise<OnCallOverride[]>;
+  // Overrides of the schedule covering the given instant, most recent first
+  getActiveOverrides(scheduleId: string, at: Date): Promise<OnCallOverride[]>;
+  deleteOverride(id: string): Promise<void>;
+}
+
+export class MemOnCallStore implements OnCallStore {
+  private recipients: Map<string, NotificationRecipient> = new Map();
+  private schedules: Map<string, OnCallSchedule> = new Map();
+  private overrides: Map<string, OnCallOverride> = new Map();
+
+  // Recipients
+  async createRecipient(recipient: InsertNotificationRecipient): Promise<NotificationRecipient> {
+    const id = randomUUID();
+    const record: NotificationRecipient = {
+      ...recipient,
+      id,
+      email: recipient.email ?? null,
+      phone: recipient.phone ?? null,
+      createdAt: new Date(),
+    };
+    this.recipients.set(id, record);
+    return record;
+  }
+
+  async getRecipient(id: string): Promise<NotificationRecipient | undefined> {
+    return this.recipients.get(id);
+  }
+
+  async getRecipientByUserId(userId: string): Promise<NotificationRecipient | undefined> {
+    return Array.from(this.recipients.values()).find(recipient => recipient.userId === userId);
+  }
+
+  async getRecipients(): Promise<NotificationRecipient[]> {
+    return Array.from(this.recipients.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async updateRecipient(id: string, changes: Partial<Omit<NotificationRecipient, 'id'>>): Promise<NotificationRecipient | undefined> {
+    const recipient = this.recipients.get(id);
+    if (!recipient) return undefined;
+    const updated = { ...recipient, ...changes };
+    this.recipients.set(id, updated);
+    return updated;
+  }
+
+  async deleteRecipient(id: string): Promise<void> {
+    this.recipients.delete(id);
+  }
+
+  // Schedules
+  async createSchedule(schedule: InsertOnCallSchedule): Promise<OnCallSchedule> {
+    const id = randomUUID();
+    const record: OnCallSchedule = {
+      ...schedule,
+      id,
+      location: schedule.location ?? null,
+      rotationLengthHours: schedule.rotationLengthHours ?? 168,
+      fallbackUserId: schedule.fallbackUserId ?? null,
+      enabled: schedule.enabled ?? true,
+      createdAt: new Date(),
+    };
+    this.schedules.set(id, record);
+    return record;
+  }
+
+  async getSchedule(id: string): Promise<OnCallSchedule | undefined> {
+    return this.schedules.get(id);
+  }
+
+  async getSchedules(): Promise<OnCallSchedule[]> {
+    return Array.from(this.schedules.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async updateSchedule(id: string, changes: Partial<Omit<OnCallSchedule, 'id'>>): Promise<OnCallSchedule | undefined> {
+    const schedule = this.schedules.get(id);
+    if (!schedule) return undefined;
+    const updated = { ...schedule, ...changes };
+    this.schedules.set(id, updated);
+    return updated;
+  }
+
+  async deleteSchedule(id: string): Promise<void> {
+    for (const override of Array.from(this.overrides.values())) {
+      if (override.scheduleId === id) this.overrides.delete(override.id);
+    }
+    this.schedules.delete(id);
+  }
+
+  // Overrides
+  async createOverride(override: InsertOnCallOverride): Promise<OnCallOverride> {
+    const id = randomUUID();
+    const record: OnCallOverride = {
+      ...override,
+      id,
+      reason: override.reason ?? null,
+      createdAt: new Date(),
+    };
+    this.overrides.set(id, record);
+    return record;
+  }
+
+  async getOverride(id: string): Promise<OnCallOverride | undefined> {
+    return this.overrides.get(id);
+  }
+
+  async getOverridesForSchedule(scheduleId: string): Promise<OnCallOverride[]> {
+    return Array.from(this.overrides.values())
+      .filter(override => override.scheduleId === scheduleId)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  async getActiveOverrides(scheduleId: string, at: Date): Promise<OnCallOverride[]> {
+    return Array.from(this.overrides.values())
+      .filter(override => override.scheduleId === scheduleId && override.startsAt <= at && override.endsAt > at)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async deleteOverride(id: string): Promise<void> {
+    this.overrides.delete(id);
+  }
+}
+
+// PostgreSQL-backed on-call store over the Drizzle tables in shared/alert-schema
+export class DbOnCallStore implements OnCallStore {
+  constructor(private db: Database) {}
+
+  // Recipients
+  async createRecipient(recipient: InsertNotificationRecipient): Promise<NotificationRecipient> {
+    const [record] = await this.db.insert(notificationRecipients).values(recipient).returning();
+    return record;
+  }
+
+  async getRecipient(id: string): Promise<NotificationRecipient | undefined> {
+    const [record] = await this.db.select().from(notificationRecipients).where(eq(notificationRecipients.id, id));
+    return record;
+  }
+
+  async getRecipientByUserId(userId: string): Promise<NotificationRecipient | undefined> {
+    const [record] = await this.db.select().from(notificationRecipients).where(eq(notificationRecipients.userId, userId));
+    return record;
+  }
+
+  async getRecipients(): Promise<NotificationRecipient[]> {
+    return this.db.select().from(notificationRecipients).orderBy(asc(notificationRecipients.name));
+  }
+
+  async updateRecipient(id: string, changes: Partial<Omit<NotificationRecipient, 'id'>>): Promise<NotificationRecipient | undefined> {
+    const [record] = await this.db.update(notificationRecipients).set(changes)
+      .where(eq(notificationRecipients.id, id))
+      .returning();
+    return record;
+  }
+
+  async deleteRecipient(id: string): Promise<void> {
+    await this.db.delete(notificationRecipients).where(eq(notificationRecipients.id, id));
+  }
+
+  // Schedules
+  async createSchedule(schedule: InsertOnCallSchedule): Promise<OnCallSchedule> {
+    const [record] = await this.db.insert(onCallSchedules).values(schedule).returning();
+    return record;
+  }
+
+  async getSchedule(id: string): Promise<OnCallSchedule | undefined> {
+    const [record] = await this.db.select().from(onCallSchedules).where(eq(onCallSchedules.id, id));
+    return record;
+  }
+
+  async getSchedules(): Promise<OnCallSchedule[]> {
+    return this.db.select().from(onCallSchedules).orderBy(asc(onCallSchedules.createdAt));
+  }
+
+  async updateSchedule(id: string, changes: Partial<Omit<OnCallSchedule, 'id'>>): Promise<OnCallSchedule | undefined> {
+    const [record] = await this.db.update(onCallSchedules).set(changes)
+      .where(eq(onCallSchedules.id, id))
+      .returning();
+    return record;
+  }
+
+  async deleteSchedule(id: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(onCallOverrides).where(eq(onCallOverrides.scheduleId, id));
+      await tx.delete(onCallSchedules).where(eq(onCallSchedules.id, id));
+    });
+  }
+
+  // Overrides
+  async createOverride(override: InsertOnCallOverride): Promise<OnCallOverride> {
+    const [record] = await this.db.insert(onCallOverrides).values(override).returning();
+    return record;
+  }
+
+  async getOverride(id: string): Promise<OnCallOverride | undefined> {
+    const [record] = await this.db.select().from(onCallOverrides).where(eq(onCallOverrides.id, id));
+    return record;
+  }
+
+  async getOverridesForSchedule(scheduleId: string): Promise<OnCallOverride[]> {
+    return this.db.select().from(onCallOverrides)
+      .where(eq(onCallOverrides.scheduleId, scheduleId))
+      .orderBy(asc(onCallOverrides.startsAt));
+  }
+
+  async getActiveOverrides(scheduleId: string, at: Date): Promise<OnCallOverride[]> {
+    return this.db.select().from(onCallOverrides)
+      .where(and(
+        eq(onCallOverrides.scheduleId, scheduleId),
+        lte(onCallOverrides.startsAt, at),
+        gt(onCallOverrides.endsAt, at)
+      ))
+      .orderBy(desc(onCallOverrides.createdAt));
+  }
+
+  async deleteOverride(id: string): Promise<void> {
+    await this.db.delete(onCallOverrides).where(eq(onCallOverrides.id, id));
+  }
+}
+
+export const onCallStore: OnCallStore = database ? new DbOnCallStore(database.db) : new MemOnCallStore();
@@ -0,0 +1,94 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { type AlertSystem } from "@shared/alert-schema";
+import { MemOnCallStore } from "./oncall-store";
+import { OnCallService } from "./oncall";
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+describe('OnCallService', () => {
+  let store: MemOnCallStore;
+  let service: OnCallService;
+
+  beforeEach(async () => {
+    store = new MemOnCallStore();
+    service = new OnCallService(store, 'admin');
+    for (const userId of ['admin', 'alice', 'bob', 'carol']) {
+      await store.createRecipient({ userId, name: userId, email: `${userId}@example.com`, preferences: { email: true } });
+    }
+  });
+
+  // Daily hand-off at 08:00 UTC between alice and bob
+  const daily = (overrides: { location?: string; fallbackUserId?: string } = {}) => store.createSchedule({
+    name: 'Site team',
+    participants: ['alice', 'bob'],
+    rotationStart: utc('2026-03-01T08:00'),
+    rotationLengthHours: 24,
+    ...overrides,
+  });
+
+  const onCall = async (at: Date, location: string | null = null) =>
+    (await service.getOnCall(location, at)).map(assignment => [assignment.userId, assignment.source]);
+
+  it('hands off at the end of each shift', async () => {
+    await daily();
+
+    assert.deepEqual(await onCall(utc('2026-03-01T08:00')), [['alice', 'rotation']]);
+    assert.deepEqual(await onCall(utc('2026-03-02T07:59:59.999')), [['alice', 'rotation']]);
+    assert.deepEqual(await onCall(utc('2026-03-02T08:00')), [['bob', 'rotation']]);
+    assert.deepEqual(await onCall(utc('2026-03-03T07:59:59.999')), [['bob', 'rotation']]);
+    assert.deepEqual(await onCall(utc('2026-03-03T08:00')), [['alice', 'rotation']]);
+  });
+
+  it('counts shifts in elapsed hours across a daylight saving change', async () => {
+    await daily();
+
+    // Berlin moves to summer time on 29 March; the hand-off stays at 08:00 UTC, now 10:00 local
+    assert.deepEqual(await onCall(utc('2026-03-29T07:59:59.999')), [['bob', 'rotation']]);
+    assert.deepEqual(await onCall(utc('2026-03-29T08:00')), [['alice', 'rotation']]);
+  });
+
+  it('puts the override user on call only while the override lasts', async () => {
+    const schedule = await daily();
+    await store.createOverride({ scheduleId: schedule.id, userId: 'carol', startsAt: utc('2026-03-01T20:00'), endsAt: utc('2026-03-02T12:00') });
+
+    assert.deepEqual(await onCall(utc('2026-03-01T19:59:59.999')), [['alice', 'rotation']]);
+    assert.deepEqual(await onCall(utc('2026-03-01T20:00')), [['carol', 'override']]);
+    // Across the hand-off the override still wins
+    assert.deepEqual(await onCall(utc('2026-03-02T08:00')), [['carol', 'override']]);
+    assert.deepEqual(await onCall(utc('2026-03-02T12:00')), [['bob', 'rotation']]);
+  });
+
+  it('prefers the most recently created of overlapping overrides', async () => {
+    const schedule = await daily();
+    await store.createOverride({ scheduleId: schedule.id, userId: 'carol', startsAt: utc('2026-03-01T00:00'), endsAt: utc('2026-03-05T00:00') });
+    // Keep the creation timestamps apart
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await store.createOverride({ scheduleId: schedule.id, userId: 'admin', startsAt: utc('2026-03-02T00:00'), endsAt: utc('2026-03-03T00:00') });
+
+    assert.deepEqual(await onCall(utc('2026-03-01T12:00')), [['carol', 'override']]);
+    assert.deepEqual(await onCall(utc('2026-03-02T12:00')), [['admin', 'override']]);
+    assert.deepEqual(await onCall(utc('2026-03-03T12:00')), [['carol', 'override']]);
+  });
+
+  it('falls back before the rotation starts and when nothing is scheduled', async () => {
+    assert.deepEqual(await onCall(utc('2026-03-01T12:00')), [['admin', 'fallback']]);
+
+    await daily({ fallbackUserId: 'carol' });
+    assert.deepEqual(await onCall(utc('2026-03-01T07:59')), [['carol', 'schedule_fallback']]);
+  });
+
+  it('routes an alert to the team of its location before the shared schedule', async () => {
+    await daily();
+    await store.createSchedule({
+      name: 'North site', location: 'north', participants: ['carol'], rotationStart: utc('2026-03-01T00:00'),
+    });
+    const at = utc('2026-03-02T09:00');
+
+    assert.deepEqual(await onCall(at, 'north'), [['carol', 'rotation']]);
+    assert.deepEqual(await onCall(at, 'south'), [['bob', 'rotation']]);
+
+    const recipients = await service.getRecipientsForAlert({ location: 'north' } as AlertSystem, at);
+    assert.deepEqual(recipients.map(recipient => recipient.email), ['carol@example.com']);
+  });
+});
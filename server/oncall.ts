@@ -0,0 +1,144 @@
+import {
+  type AlertSystem,
+  type NotificationRecipient,
+  type OnCallSchedule,
+  type OnCallOverride,
+} from "@shared/alert-schema";
+import { onCallStore, type OnCallStore } from "./oncall-store";
+
+export interface OnCallAssignment {
+  scheduleId: string | null;
+  scheduleName: string | null;
+  location: string | null;
+  userId: string;
+  source: 'override' | 'rotation' | 'schedule_fallback' | 'fallback';
+  recipient: NotificationRecipient | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Resolves who is on call for a microgrid location at a given moment.
+ * Location schedules take precedence over schedules without a location;
+ * overrides beat the rotation, and gaps fall back to the schedule's
+ * fallback user and then to the global fallback contact.
+ */
+export class OnCallService {
+  constructor(private store: OnCallStore, private fallbackUserId: string = process.env.ONCALL_FALLBACK_USER || 'admin') {}
+
+  /**
+   * Everyone on call for the location, one assignment per applicable schedule
+   */
+  async getOnCall(location: string | null, at: Date = new Date()): Promise<OnCallAssignment[]> {
+    const schedules = (await this.store.getSchedules()).filter(schedule => schedule.enabled);
+    const scoped = location ? schedules.filter(schedule => schedule.location === location) : [];
+    const applicable = scoped.length > 0 ? scoped : schedules.filter(schedule => schedule.location === null);
+
+    if (applicable.length === 0) {
+      return [await this.assignment(null, location, this.fallbackUserId, 'fallback')];
+    }
+
+    const assignments: OnCallAssignment[] = [];
+    for (const schedule of applicable) {
+      const overrides = await this.store.getActiveOverrides(schedule.id, at);
+      const onCall = this.resolveSchedule(schedule, overrides, at);
+      assignments.push(await this.assignment(schedule, location, onCall.userId, onCall.source));
+    }
+    return assignments;
+  }
+
+  /**
+   * Recipients to notify for an alert. Without any schedules configured every
+   * recipient is notified, as before on-call schedules existed.
+   */
+  async getRecipientsForAlert(alert: AlertSystem, at: Date = new Date()): Promise<NotificationRecipient[]> {
+    const schedules = await this.store.getSchedules();
+    if (!schedules.some(schedule => schedule.enabled)) {
+      return this.store.getRecipients();
+    }
+
+    const assignments = await this.getOnCall(alert.location, at);
+    const recipients = new Map<string, NotificationRecipient>();
+    for (const assignment of assignments) {
+      if (assignment.recipient) recipients.set(assignment.recipient.id, assignment.recipient);
+    }
+
+    if (recipients.size === 0) {
+      const fallback = await this.store.getRecipientByUserId(this.fallbackUserId);
+      if (fallback) recipients.set(fallback.id, fallback);
+    }
+
+    return Array.from(recipients.values());
+  }
+
+  async getRecipient(userId: string): Promise<NotificationRecipient | undefined> {
+    return this.store.getRecipientByUserId(userId);
+  }
+
+  /**
+   * Who a single schedule puts on call at the given moment
+   */
+  resolveSchedule(
+    schedule: OnCallSchedule,
+    activeOverrides: OnCallOverride[],
+    at: Date
+  ): { userId: string; source: OnCallAssignment['source'] } {
+    if (activeOverrides.length > 0) {
+      return { userId: activeOverrides[0].userId, source: 'override' };
+    }
+
+    const participants = schedule.participants as string[];
+    const elapsed = at.getTime() - schedule.rotationStart.getTime();
+    if (participants.length > 0 && elapsed >= 0) {
+      const shift = Math.floor(elapsed / (schedule.rotationLengthHours * HOUR_MS));
+      return { userId: participants[shift % participants.length], source: 'rotation' };
+    }
+
+    if (schedule.fallbackUserId) {
+      return { userId: schedule.fallbackUserId, source: 'schedule_fallback' };
+    }
+    return { userId: this.fallbackUserId, source: 'fallback' };
+  }
+
+  /**
+   * Create the default admin and operator contacts when no recipients exist yet
+   */
+  async seedDefaultRecipients(): Promise<void> {
+    const existing = await this.store.getRecipients();
+    if (existing.length > 0) return;
+
+    await this.store.createRecipient({
+      userId: 'admin',
+      name: 'Administrator',
+      email: process.env.ADMIN_EMAIL || 'admin@energymgmt.com',
+      phone: process.env.ADMIN_PHONE || '+1234567890',
+      preferences: { email: true, sms: true, push: true, dashboard: true },
+    });
+
+    await this.store.createRecipient({
+      userId: 'operator',
+      name: 'Operator',
+      email: process.env.OPERATOR_EMAIL || 'operator@energymgmt.com',
+      phone: process.env.OPERATOR_PHONE || '+1234567891',
+      preferences: { email: true, sms: false, push: true, dashboard: true },
+    });
+  }
+
+  private async assignment(
+    schedule: OnCallSchedule | null,
+    location: string | null,
+    userId: string,
+    source: OnCallAssignment['source']
+  ): Promise<OnCallAssignment> {
+    return {
+      scheduleId: schedule?.id ?? null,
+      scheduleName: schedule?.name ?? null,
+      location: schedule ? schedule.location : location,
+      userId,
+      source,
+      recipient: (await this.store.getRecipientByUserId(userId)) ?? null,
+    };
+  }
+}
+
+export const onCallService = new OnCallService(onCallStore);
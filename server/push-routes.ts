@@ -0,0 +1,100 @@
+import type { Express } from "express";
+import { notificationSettingsStore } from "./notification-settings-store";
+import { webPushSender } from "./web-push";
+import { z } from "zod";
+
+const base64url = z.string().regex(/^[A-Za-z0-9_-]+={0,2}$/, 'Expected base64url');
+
+// PushSubscription.toJSON() from the browser, plus the owning user
+const subscribeSchema = z.object({
+  userId: z.string().min(1),
+  subscription: z.object({
+    endpoint: z.string().url().refine(url => url.startsWith('https://') || url.startsWith('http://localhost') || url.startsWith('http://127.0.0.1'),
+      'Push endpoints must use https'),
+    expirationTime: z.number().nullish(),
+    keys: z.object({
+      p256dh: base64url,
+      auth: base64url
+    })
+  })
+});
+
+const unsubscribeSchema = z.object({
+  endpoint: z.string().min(1)
+});
+
+export async function registerPushRoutes(app: Express): Promise<void> {
+  // Application server key the browser subscribes with
+  app.get("/api/v1/push/vapid-public-key", (req, res) => {
+    const publicKey = webPushSender.getPublicKey();
+    if (!publicKey) {
+      return res.status(503).json({ error: 'Web Push is not configured' });
+    }
+    res.json({ publicKey });
+  });
+
+  app.get("/api/v1/push/subscriptions", async (req, res) => {
+    try {
+      const userId = req.query.userId as string;
+      if (!userId) {
+        return res.status(400).json({ error: 'userId is required' });
+      }
+
+      const subscriptions = await notificationSettingsStore.getPushSubscriptions(userId);
+      // Keys are only needed server-side
+      res.json({
+        subscriptions: subscriptions.map(({ p256dh, auth, ...subscription }) => subscription)
+      });
+    } catch (error) {
+      console.error('Error fetching push subscriptions:', error);
+      res.status(500).json({ error: 'Failed to fetch push subscriptions' });
+    }
+  });
+
+  app.post("/api/v1/push/subscriptions", async (req, res) => {
+    try {
+      const { userId, subscription } = subscribeSchema.parse(req.body);
+      const saved = await notificationSettingsStore.savePushSubscription({
+        userId,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+        userAgent: req.get('user-agent') ?? null,
+        expiresAt: subscription.expirationTime ? new Date(subscription.expirationTime) : null
+      });
+
+      res.status(201).json({ subscription: { id: saved.id, userId: saved.userId, endpoint: saved.endpoint } });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid push subscription', details: error.errors });
+      }
+      console.error('Error saving push subscription:', error);
+      res.status(500).json({ error: 'Failed to save push subscription' });
+    }
+  });
+
+  // Browsers only know the endpoint of their own subscription
+  app.delete("/api/v1/push/subscriptions", async (req, res) => {
+    try {
+      const { endpoint } = unsubscribeSchema.parse(req.body);
+      await notificationSettingsStore.deletePushSubscriptionByEndpoint(endpoint);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid request', details: error.errors });
+      }
+      console.error('Error deleting push subscription:', error);
+      res.status(500).json({ error: 'Failed to delete push subscription' });
+    }
+  });
+
+  app.delete("/api/v1/push/subscriptions/:id", async (req, res) => {
+    try {
+      await notificationSettingsStore.deletePushSubscription(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting push subscription:', error);
+      res.status(500).json({ error: 'Failed to delete push subscription' });
+    }
+  });
+}
@@ -0,0 +1,6 @@
+import { z } from "zod";
+
+// Comma-separated query parameter; empty or "all" means no filter
+export const listFilter = z.string().optional().transform(value =>
+  !value || value === 'all' ? undefined : value.split(',').map(v => v.trim()).filter(Boolean)
+);
@@ -0,0 +1,172 @@
+import { type Server, type IncomingMessage } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+
+export type RealtimeTopic = 'alerts' | 'metrics' | 'anomalies';
+
+export interface RealtimeEvent {
+  topic: RealtimeTopic;
+  type: string;
+  data: unknown;
+  timestamp: string;
+}
+
+interface RealtimeClient {
+  userId: string;
+  topics: Set<RealtimeTopic>;
+  isAlive: boolean;
+}
+
+const ALL_TOPICS: RealtimeTopic[] = ['alerts', 'metrics', 'anomalies'];
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+/**
+ * WebSocket hub attached to the HTTP server at /ws. Clients subscribe to
+ * topics and receive pushed alert, metric and anomaly events.
+ */
+export class RealtimeHub {
+  private clients: Map<WebSocket, RealtimeClient> = new Map();
+  private wss: WebSocketServer | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  /**
+   * Attach the WebSocket endpoint to the HTTP server
+   */
+  attach(server: Server, path: string = '/ws'): WebSocketServer {
+    if (this.wss) return this.wss;
+
+    // Handle upgrades ourselves so other upgrade listeners (e.g. Vite HMR) keep working
+    const wss = new WebSocketServer({ noServer: true });
+    this.wss = wss;
+    wss.on('connection', (ws, req) => this.handleConnection(ws, req));
+
+    server.on('upgrade', (req, socket, head) => {
+      const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+      if (pathname !== path) return;
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        wss.emit('connection', ws, req);
+      });
+    });
+
+    // Terminate connections that stopped answering pings
+    this.heartbeat = setInterval(() => {
+      for (const [ws, client] of Array.from(this.clients.entries())) {
+        if (!client.isAlive) {
+          ws.terminate();
+          this.clients.delete(ws);
+          continue;
+        }
+        client.isAlive = false;
+        ws.ping();
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref();
+
+    this.wss.on('close', () => {
+      if (this.heartbeat) clearInterval(this.heartbeat);
+    });
+
+    return this.wss;
+  }
+
+  /**
+   * Push an event to every client subscribed to the topic
+   * Returns the ids of the users it was delivered to
+   */
+  publish(topic: RealtimeTopic, type: string, data: unknown, userIds?: string[]): string[] {
+    const event: RealtimeEvent = { topic, type, data, timestamp: new Date().toISOString() };
+    const payload = JSON.stringify(event);
+    const delivered = new Set<string>();
+
+    for (const [ws, client] of Array.from(this.clients.entries())) {
+      if (!client.topics.has(topic)) continue;
+      if (userIds && !userIds.includes(client.userId)) continue;
+      if (ws.readyState !== WebSocket.OPEN) continue;
+
+      try {
+        ws.send(payload);
+        delivered.add(client.userId);
+      } catch (error) {
+        console.error(`Failed to push ${topic} event to ${client.userId}:`, error);
+      }
+    }
+
+    return Array.from(delivered);
+  }
+
+  /**
+   * Users with at least one open connection
+   */
+  getConnectedUsers(): string[] {
+    return Array.from(new Set(Array.from(this.clients.values()).map(client => client.userId)));
+  }
+
+  private handleConnection(ws: WebSocket, req: IncomingMessage): void {
+    const url = new URL(req.url ?? '/ws', 'http://localhost');
+    const requestedTopics = url.searchParams.get('topics');
+
+    const client: RealtimeClient = {
+      userId: url.searchParams.get('userId') || 'anonymous',
+      topics: new Set(requestedTopics ? this.parseTopics(requestedTopics.split(',')) : ALL_TOPICS),
+      isAlive: true,
+    };
+    this.clients.set(ws, client);
+
+    ws.on('pong', () => {
+      client.isAlive = true;
+    });
+
+    ws.on('message', (raw) => this.handleMessage(ws, client, raw.toString()));
+
+    ws.on('close', () => {
+      this.clients.delete(ws);
+    });
+
+    ws.on('error', (error) => {
+      console.error(`WebSocket error for ${client.userId}:`, error);
+    });
+
+    this.send(ws, { type: 'connected', userId: client.userId, topics: Array.from(client.topics) });
+  }
+
+  private handleMessage(ws: WebSocket, client: RealtimeClient, raw: string): void {
+    let message: { type?: string; topics?: unknown };
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.send(ws, { type: 'error', error: 'Invalid JSON message' });
+      return;
+    }
+
+    client.isAlive = true;
+
+    switch (message.type) {
+      case 'subscribe':
+        for (const topic of this.parseTopics(message.topics)) client.topics.add(topic);
+        this.send(ws, { type: 'subscribed', topics: Array.from(client.topics) });
+        break;
+      case 'unsubscribe':
+        for (const topic of this.parseTopics(message.topics)) client.topics.delete(topic);
+        this.send(ws, { type: 'subscribed', topics: Array.from(client.topics) });
+        break;
+      case 'ping':
+        this.send(ws, { type: 'pong', timestamp: new Date().toISOString() });
+        break;
+      default:
+        this.send(ws, { type: 'error', error: `Unknown message type: ${message.type}` });
+    }
+  }
+
+  private parseTopics(topics: unknown): RealtimeTopic[] {
+    if (!Array.isArray(topics)) return [];
+    return topics.filter((topic): topic is RealtimeTopic => ALL_TOPICS.includes(topic));
+  }
+
+  private send(ws: WebSocket, message: Record<string, unknown>): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+}
+
+export const realtimeHub = new RealtimeHub();
@@ -2,9 +2,76 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage, energySimulator } from "./storage";
 import { aiAnomalyService } from "./ai-service";
-import { insertEnergyMetricSchema, insertAlertSchema } from "@shared/schema";
+import { alertStore } from "./alert-store";
+import { alertLifecycle, AlertNotFoundError, AlertTransitionError } from "./alert-lifecycle";
+import { anomalySeverityToAlertSeverity } from "./alert-detection-engine";
+import { incidentService } from "./incidents";
+import { notificationService } from "./notification-service";
+import { llmService } from "./llm-provider";
+import { detectionSettingsService } from "./detection-settings";
+import { isTimeZone } from "./notification-preferences";
+import { realtimeHub } from "./realtime";
+import { registerAlertRoutes } from "./alert-routes";
+import { registerNotificationRoutes } from "./notification-routes";
+import { registerEscalationRoutes } from "./escalation-routes";
+import { registerOnCallRoutes } from "./oncall-routes";
+import { registerWebhookRoutes } from "./webhook-routes";
+import { registerPushRoutes } from "./push-routes";
+import { registerSmsRoutes } from "./sms-routes";
+import { registerTemplateRoutes } from "./template-routes";
+import { registerRuleRoutes } from "./rule-routes";
+import { registerFeedbackRoutes } from "./feedback-routes";
+import { registerIncidentRoutes } from "./incident-routes";
+import { insertEnergyMetricSchema, insertAlertSchema, type Alert, type Anomaly } from "@shared/schema";
+import { type AlertSystem } from "@shared/alert-schema";
 import { z } from "zod";
 
+/**
+ * Raise an alert for a detected anomaly through the alert system, so it is
+ * grouped into incidents, notified and escalated like any other alert
+ */
+async function raiseAnomalyAlert(anomaly: Anomaly, description: string): Promise<AlertSystem> {
+  const created = await alertStore.createAlert({
+    title: 'AI Anomaly Detected',
+    description,
+    type: 'anomaly',
+    severity: anomalySeverityToAlertSeverity(anomaly.severity),
+    source: 'ai_detection',
+    deviceId: anomaly.affectedComponent,
+    anomalyId: anomaly.id,
+    metadata: { detectionMethod: 'ai_analysis', anomalyScore: anomaly.score },
+  });
+  const { alert } = await incidentService.correlate(created);
+  await notificationService.sendAlertNotification(alert, ['dashboard', 'websocket']);
+  return alert;
+}
+
+/**
+ * The original /api/alerts response shape, for clients that predate /api/v1/alerts
+ */
+function toLegacyAlert(alert: AlertSystem): Alert {
+  return {
+    id: alert.id,
+    title: alert.title,
+    description: alert.description,
+    // Legacy types are display styles: anomaly alerts kept their own, the rest map to severity
+    type: alert.type === 'anomaly' ? 'anomaly' : alert.severity,
+    timestamp: alert.timestamp,
+    dismissed: alert.status === 'dismissed',
+    dismissedAt: null,
+    anomalyId: alert.anomalyId,
+  };
+}
+
+const detectorSettingsSchema = z.object({
+  anomalyDetector: z.enum(['llm', 'statistical']).optional(),
+  timeZone: z.string().refine(isTimeZone, 'Unknown time zone').optional(),
+  changedBy: z.string().optional()
+});
+
+const getLegacyActiveAlerts = async () =>
+  (await alertStore.getAlertsByStatus(['active', 'acknowledged'])).map(toLegacyAlert);
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Energy metrics endpoints
   app.get("/api/energy/current", async (req, res) => {
@@ -42,6 +109,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const savedMetric = await storage.addEnergyMetric(metric);
+      realtimeHub.publish('metrics', 'metric', savedMetric);
       
       // Check for anomalies in the new data
       const recentMetrics = await storage.getRecentEnergyMetrics(24);
@@ -57,13 +125,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           affectedComponent: anomalyResult.affectedComponent,
         });
         
-        // Create alert
-        await storage.addAlert({
-          title: `AI Anomaly Detected`,
-          description: anomalyResult.description || 'Unusual energy pattern detected',
-          type: 'anomaly',
-          anomalyId: anomaly.id,
-        });
+        realtimeHub.publish('anomalies', 'anomaly', anomaly);
+        await raiseAnomalyAlert(anomaly, anomalyResult.description || 'Unusual energy pattern detected');
       }
       
       res.json({ 
@@ -78,6 +141,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Anomaly detection endpoints
+  // Site detector settings, and seasonal baselines for the statistical detector
+  await detectionSettingsService.load();
+
   app.get("/api/anomalies", async (req, res) => {
     try {
       const anomalies = await storage.getActiveAnomalies();
@@ -92,6 +158,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       await storage.resolveAnomaly(id);
+      realtimeHub.publish('anomalies', 'anomaly_resolved', { id });
       res.json({ success: true });
     } catch (error) {
       console.error('Error resolving anomaly:', error);
@@ -103,17 +170,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const recentMetrics = await storage.getRecentEnergyMetrics(24);
       const analysis = await aiAnomalyService.analyzeEnergyPattern(recentMetrics);
-      res.json({ analysis });
+      res.json({ analysis, detector: aiAnomalyService.getDetector() });
     } catch (error) {
       console.error('Error analyzing energy patterns:', error);
       res.status(500).json({ error: 'Failed to analyze energy patterns' });
     }
   });
 
-  // Alert management endpoints
+  // Alert management API (acknowledge, resolve, notes, stats, export, ...)
+  await registerAlertRoutes(app);
+  
+  // Notification recipients and on-call schedules
+  await registerOnCallRoutes(app);
+  
+  // Notification delivery queue (dead-letter inspection and re-drive)
+  await registerNotificationRoutes(app);
+  
+  // Outbound webhook endpoints for ticketing and chat integrations
+  await registerWebhookRoutes(app);
+  
+  // Browser push subscriptions for the Web Push channel
+  await registerPushRoutes(app);
+  
+  // Inbound SMS replies (ACK codes) and the loopback SMS outbox
+  await registerSmsRoutes(app);
+  
+  // Per-locale, versioned email/SMS/push templates with preview
+  await registerTemplateRoutes(app);
+  
+  // Detection rules, loaded before escalation rules are seeded from them
+  await registerRuleRoutes(app);
+
+  // Operator feedback on alerts and the tuner that learns from it
+  await registerFeedbackRoutes(app);
+
+  // Incidents grouping related alerts under a probable root cause
+  await registerIncidentRoutes(app);
+  
+  // Escalation rules and the scheduler that escalates unacknowledged alerts
+  await registerEscalationRoutes(app);
+
+  // Legacy alert endpoints, kept with their original response shape for existing
+  // clients. New integrations should use /api/v1/alerts.
   app.get("/api/alerts", async (req, res) => {
     try {
-      const alerts = await storage.getActiveAlerts();
+      const alerts = await getLegacyActiveAlerts();
+      res.setHeader('Link', '</api/v1/alerts>; rel="successor-version"');
       res.json({ alerts });
     } catch (error) {
       console.error('Error fetching alerts:', error);
@@ -123,10 +225,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/alerts/:id/dismiss", async (req, res) => {
     try {
-      const { id } = req.params;
-      await storage.dismissAlert(id);
+      await alertLifecycle.transition(req.params.id, 'dismiss', req.body?.userId || 'system');
       res.json({ success: true });
     } catch (error) {
+      if (error instanceof AlertNotFoundError) {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+      // Dismissing stays idempotent here: an alert already dismissed or resolved is off the active list
+      if (error instanceof AlertTransitionError) {
+        return res.json({ success: true });
+      }
       console.error('Error dismissing alert:', error);
       res.status(500).json({ error: 'Failed to dismiss alert' });
     }
@@ -137,7 +245,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const recentMetrics = await storage.getRecentEnergyMetrics(24);
       const currentMetric = recentMetrics[recentMetrics.length - 1];
-      const activeAlerts = await storage.getActiveAlerts();
+      const activeAlerts = await getLegacyActiveAlerts();
       const activeAnomalies = await storage.getActiveAnomalies();
       
       // Calculate daily totals
@@ -183,6 +291,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // LLM provider, models and token/cost totals since startup
+  app.get("/api/ai/usage", async (req, res) => {
+    res.json({ usage: llmService.getUsage(), detector: aiAnomalyService.getDetector() });
+  });
+
+  // Detector for subtle anomalies and the site time zone, see detection-settings
+  app.get("/api/ai/detector", async (req, res) => {
+    try {
+      res.json({ settings: await detectionSettingsService.getSettings(), active: aiAnomalyService.getDetector() });
+    } catch (error) {
+      console.error('Error fetching detector settings:', error);
+      res.status(500).json({ error: 'Failed to fetch detector settings' });
+    }
+  });
+
+  app.put("/api/ai/detector", async (req, res) => {
+    try {
+      const { changedBy, ...changes } = detectorSettingsSchema.parse(req.body);
+      const settings = await detectionSettingsService.update(changes, changedBy);
+      res.json({ settings, active: aiAnomalyService.getDetector() });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid detector settings', details: error.errors });
+      }
+      console.error('Error updating detector settings:', error);
+      res.status(500).json({ error: 'Failed to update detector settings' });
+    }
+  });
+
   // AI insights endpoint
   app.get("/api/ai/insights", async (req, res) => {
     try {
@@ -221,12 +358,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         affectedComponent: 'zone_3_equipment',
       });
       
-      await storage.addAlert({
-        title: 'AI Anomaly Detected',
-        description: 'Unusual consumption pattern detected in Zone 3. Anomaly score: 0.87',
-        type: 'anomaly',
-        anomalyId: anomaly.id,
-      });
+      await raiseAnomalyAlert(anomaly, 'Unusual consumption pattern detected in Zone 3. Anomaly score: 0.87');
+      
+      // Let connected dashboards reload the freshly seeded data
+      realtimeHub.publish('metrics', 'initialized', { count: 25 });
       
       // Store user preferences in session or local storage equivalent
       const userPreferences = {
@@ -250,6 +385,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  realtimeHub.attach(httpServer);
 
   return httpServer;
 }
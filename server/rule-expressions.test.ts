@@ -0,0 +1,140 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type EnergyMetric } from "@shared/schema";
+import { type SensorData } from "@shared/alert-schema";
+import { compileExpression, ExpressionContext, ExpressionSyntaxError } from "./rule-expressions";
+
+const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 12, minute));
+
+// Readings every 5 minutes from 12:00 to 12:30: consumption climbs by 10, storage drains by 2
+const METRICS: EnergyMetric[] = Array.from({ length: 7 }, (_, i) => ({
+  id: `m-${i}`,
+  timestamp: at(i * 5),
+  consumption: 100 + i * 10,
+  generation: 20,
+  storage: 40 - i * 2,
+  gridExport: 0,
+  solarEfficiency: 85,
+  batteryHealth: 95
+}));
+
+const reading = (minute: number, location: string, value: number): SensorData => ({
+  id: `s-${location}-${minute}`,
+  sensorId: `temp-${location}`,
+  deviceId: 'inverter',
+  location,
+  sensorType: 'temperature',
+  value,
+  unit: 'C',
+  timestamp: at(minute),
+  quality: 'good',
+  metadata: null
+});
+
+const SENSORS = [reading(10, 'roof', 40), reading(20, 'roof', 50), reading(25, 'inverter-room', 70)];
+
+const context = new ExpressionContext(METRICS, SENSORS);
+const evaluate = (source: string, minute = 30) => context.evaluate(compileExpression(source), at(minute));
+
+function rejects(source: string, message: string, position: number, expect?: 'boolean') {
+  assert.throws(() => compileExpression(source, expect), (error: unknown) => {
+    assert.ok(error instanceof ExpressionSyntaxError);
+    assert.equal(error.message, `${message} (at character ${position})`);
+    assert.equal(error.position, position);
+    return true;
+  });
+}
+
+describe('rule expressions', () => {
+  it('evaluates the cross-metric condition from the rule examples', () => {
+    const expression = compileExpression('avg(consumption, 15m) - avg(generation, 15m) > 120 and storage < 30', 'boolean');
+
+    assert.equal(expression.type, 'boolean');
+    assert.equal(expression.lookback, 900);
+    // 12:15-12:30 averages 145 against 20 generated, storage at 28
+    assert.equal(context.test(expression, at(30)), true);
+    // 12:05-12:20 averages 125, storage still at 32
+    assert.equal(context.test(expression, at(20)), false);
+  });
+
+  it('applies the usual operator precedence and associativity', () => {
+    assert.equal(evaluate('1 + 2 * 3'), 7);
+    assert.equal(evaluate('(1 + 2) * 3'), 9);
+    assert.equal(evaluate('10 - 4 - 3'), 3);
+    assert.equal(evaluate('-2 * 3 + 7 % 4'), -3);
+    assert.equal(evaluate('1 + 2 > 2 and 1 < 2'), true);
+    assert.equal(evaluate('true or false and false'), true);
+    assert.equal(evaluate('not false and false'), false);
+    assert.equal(evaluate('!(consumption > 150) || storage < 20'), false);
+  });
+
+  it('aggregates a series over the window ending at the evaluation time', () => {
+    // 12:15-12:30 holds 130, 140, 150, 160
+    assert.equal(evaluate('avg(consumption, 15m)'), 145);
+    assert.equal(evaluate('min(consumption, 15m)'), 130);
+    assert.equal(evaluate('max(consumption, 15m)'), 160);
+    assert.equal(evaluate('sum(consumption, 15m)'), 580);
+    assert.equal(evaluate('count(consumption, 15m)'), 4);
+    assert.equal(evaluate('rate(consumption, 15m)'), 120);
+    assert.equal(evaluate('rate(storage, 30m)'), -24);
+    assert.equal(evaluate('stddev(consumption, 15m)'), Math.sqrt(125));
+    assert.equal(evaluate('percentile(consumption, 50, 15m)'), 145);
+    assert.equal(evaluate('percentile(consumption, 95, 15m)'), 158.5);
+    assert.equal(evaluate('max(consumption, 1h)', 12), 120);
+  });
+
+  it('reads sensors by type and location', () => {
+    assert.equal(evaluate('sensor("temperature")'), 70);
+    assert.equal(evaluate('sensor("temperature", "roof")'), 50);
+    assert.equal(evaluate('avg(sensor("temperature", "roof"), 1h)'), 45);
+    assert.equal(evaluate('sensor("temperature", "basement")'), null);
+  });
+
+  it('treats an empty window as unknown, which never matches', () => {
+    const before = (source: string) => context.evaluate(compileExpression(source), new Date(Date.UTC(2026, 0, 1, 11)));
+
+    for (const name of ['avg', 'min', 'max', 'stddev', 'rate']) {
+      assert.equal(before(`${name}(consumption, 15m)`), null, name);
+    }
+    assert.equal(before('percentile(consumption, 95, 15m)'), null);
+    assert.equal(before('count(consumption, 15m)'), 0);
+    assert.equal(before('consumption'), null);
+    // A single reading has no rate of change
+    assert.equal(evaluate('rate(consumption, 1m)'), null);
+
+    assert.equal(context.test(compileExpression('avg(consumption, 15m) > 0'), new Date(Date.UTC(2026, 0, 1, 11))), false);
+    assert.equal(before('avg(consumption, 15m) > 0 or true'), true);
+    assert.equal(before('avg(consumption, 15m) > 0 and false'), false);
+  });
+
+  it('points at the offending character of malformed expressions', () => {
+    rejects('', 'Expression is empty', 0);
+    rejects('avg(consumption, 15m', "Expected ')' to close the call to avg(), found end of expression", 20);
+    rejects('(consumption > 5', "Expected ')' to close the parenthesis, found end of expression", 16);
+    rejects('consumption > > 5', "Unexpected '>'", 14);
+    rejects('consumption > 5)', "Unexpected ')'", 15);
+    rejects('consumption >', 'Unexpected end of expression', 13);
+    rejects('consumption > 5 > 3', "Comparisons can't be chained, combine them with 'and'", 16);
+    rejects('avg(consumption, 15x) > 5', "Unknown time unit 'x', use s, m, h or d", 19);
+    rejects('consumption # 3', "Unexpected character '#'", 12);
+    rejects('sensor("temperature) > 5', 'Unterminated string', 7);
+  });
+
+  it('type-checks operands and arguments', () => {
+    rejects('consumption > 3 and 5', "'and' combines conditions, not values", 16);
+    rejects('not consumption', "'not' needs a condition", 0);
+    rejects('avg(consumption) > 5', 'avg() takes 2 arguments: avg(metric, 15m)', 0);
+    rejects('avg(15m, consumption) > 5', 'avg() expects a metric or sensor(...) as its first argument', 4);
+    rejects('percentile(consumption, 120, 1h) > 5', 'percentile() expects a percentile between 0 and 100', 24);
+    rejects('sensor(temperature) > 5', "Unknown metric 'temperature'; known metrics are consumption, generation, storage, gridExport, solarEfficiency, batteryHealth", 7);
+    rejects('15m', 'Expression must be a condition or a number, not a time window', 0);
+    rejects('avg(consumption, 15m)', 'Expression must be a condition, e.g. avg(consumption, 15m) > 120', 0, 'boolean');
+  });
+
+  it('rejects unknown identifiers and functions', () => {
+    rejects('voltage > 3', "Unknown metric 'voltage'; known metrics are consumption, generation, storage, gridExport, solarEfficiency, batteryHealth", 0);
+    rejects('storage < 30 and process', "Unknown metric 'process'; known metrics are consumption, generation, storage, gridExport, solarEfficiency, batteryHealth", 17);
+    rejects('median(consumption, 15m) > 3', "Unknown function 'median'; available are avg, min, max, sum, count, stddev, rate, percentile, sensor, abs", 0);
+    rejects('eval("1") > 0', "Unknown function 'eval'; available are avg, min, max, sum, count, stddev, rate, percentile, sensor, abs", 0);
+  });
+});
@@ -0,0 +1,599 @@
+import { type EnergyMetric } from "@shared/schema";
+import { type SensorData } from "@shared/alert-schema";
+
+// ---- Rule expression language ----------------------------------------------
+//
+//   avg(consumption, 15m) - avg(generation, 15m) > 120 and storage < 30
+//   max(sensor("temperature", "inverter-room"), 1h) >= 65
+//   rate(storage, 30m) < -20 or not (batteryHealth > 80)
+//
+//   metrics         consumption, generation, storage, gridExport, solarEfficiency,
+//                   batteryHealth (the latest reading at the evaluation time)
+//   sensors         sensor("type") or sensor("type", "location")
+//   aggregates      avg, min, max, sum, count, stddev, rate (change per hour)
+//                   over a window: avg(series, 15m); percentile(series, 95, 1h)
+//   windows         30s, 15m, 2h, 1d
+//   operators       + - * / %, > < >= <= == !=, and, or, not, parentheses
+//
+// Missing data (no reading in the window) makes a value unknown; comparisons
+// with unknown values are unknown, and an unknown result never matches.
+
+export const EXPRESSION_METRICS = [
+  'consumption', 'generation', 'storage', 'gridExport', 'solarEfficiency', 'batteryHealth'
+] as const;
+
+type ExpressionMetric = typeof EXPRESSION_METRICS[number];
+
+export type ExpressionType = 'number' | 'boolean' | 'series' | 'window' | 'string';
+
+export class ExpressionSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (at character ${position})`);
+    this.name = 'ExpressionSyntaxError';
+  }
+}
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '>' | '<' | '>=' | '<=' | '==' | '!=' | 'and' | 'or';
+
+export type ExpressionNode =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'window'; seconds: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'boolean'; value: boolean; position: number }
+  | { kind: 'metric'; name: ExpressionMetric; position: number }
+  | { kind: 'call'; name: string; args: ExpressionNode[]; position: number }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: ExpressionNode; position: number }
+  | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; position: number };
+
+export interface CompiledExpression {
+  source: string;
+  ast: ExpressionNode;
+  type: ExpressionType;
+  lookback: number; // seconds of history before the evaluation time the widest window reads
+}
+
+interface Token {
+  type: 'number' | 'window' | 'string' | 'identifier' | 'operator' | 'end';
+  text: string;
+  value?: number;
+  position: number;
+}
+
+const WINDOW_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+const OPERATORS = ['>=', '<=', '==', '!=', '&&', '||', '>', '<', '+', '-', '*', '/', '%', '(', ')', ',', '!'];
+const KEYWORD_OPERATORS = new Set(['and', 'or', 'not']);
+const COMPARISONS = new Set(['>', '<', '>=', '<=', '==', '!=']);
+
+// Aggregates taking (series, window)
+const WINDOW_AGGREGATES = new Set(['avg', 'min', 'max', 'sum', 'count', 'stddev', 'rate']);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+(\.\d+)?|\.\d+)([a-zA-Z]\w*)?/.exec(source.slice(i));
+    if (number) {
+      const [text, digits, , unit] = number;
+      if (unit) {
+        if (!(unit in WINDOW_UNITS)) {
+          throw new ExpressionSyntaxError(`Unknown time unit '${unit}', use s, m, h or d`, i + digits.length);
+        }
+        tokens.push({ type: 'window', text, value: Number(digits) * WINDOW_UNITS[unit], position: i });
+      } else {
+        tokens.push({ type: 'number', text, value: Number(digits), position: i });
+      }
+      i += text.length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_]\w*/.exec(source.slice(i));
+    if (identifier) {
+      const text = identifier[0];
+      tokens.push({ type: KEYWORD_OPERATORS.has(text) ? 'operator' : 'identifier', text, position: i });
+      i += text.length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) throw new ExpressionSyntaxError('Unterminated string', i);
+      tokens.push({ type: 'string', text: source.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (operator) {
+      // Symbolic spellings of the logical operators
+      const text = operator === '&&' ? 'and' : operator === '||' ? 'or' : operator === '!' ? 'not' : operator;
+      tokens.push({ type: 'operator', text, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected character '${char}'`, i);
+  }
+
+  tokens.push({ type: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw new ExpressionSyntaxError(`Unexpected '${next.text}'`, next.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private accept(...operators: string[]): Token | null {
+    const token = this.peek();
+    if (token.type === 'operator' && operators.includes(token.text)) {
+      this.index++;
+      return token;
+    }
+    return null;
+  }
+
+  private expect(operator: string, context: string): Token {
+    const token = this.accept(operator);
+    if (!token) {
+      const found = this.peek();
+      throw new ExpressionSyntaxError(
+        `Expected '${operator}' ${context}, found ${found.type === 'end' ? 'end of expression' : `'${found.text}'`}`,
+        found.position
+      );
+    }
+    return token;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    let token: Token | null;
+    while ((token = this.accept('or'))) {
+      left = { kind: 'binary', operator: 'or', left, right: this.parseAnd(), position: token.position };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    let token: Token | null;
+    while ((token = this.accept('and'))) {
+      left = { kind: 'binary', operator: 'and', left, right: this.parseNot(), position: token.position };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    const token = this.accept('not');
+    if (token) {
+      return { kind: 'unary', operator: 'not', operand: this.parseNot(), position: token.position };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const token = this.accept(...Array.from(COMPARISONS));
+    if (!token) return left;
+
+    const node: ExpressionNode = {
+      kind: 'binary', operator: token.text as BinaryOperator, left, right: this.parseAdditive(), position: token.position
+    };
+    const chained = this.accept(...Array.from(COMPARISONS));
+    if (chained) {
+      throw new ExpressionSyntaxError(`Comparisons can't be chained, combine them with 'and'`, chained.position);
+    }
+    return node;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    let token: Token | null;
+    while ((token = this.accept('+', '-'))) {
+      left = { kind: 'binary', operator: token.text as BinaryOperator, left, right: this.parseMultiplicative(), position: token.position };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    let token: Token | null;
+    while ((token = this.accept('*', '/', '%'))) {
+      left = { kind: 'binary', operator: token.text as BinaryOperator, left, right: this.parseUnary(), position: token.position };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.accept('-');
+    if (token) {
+      return { kind: 'unary', operator: '-', operand: this.parseUnary(), position: token.position };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'number', value: token.value!, position: token.position };
+      case 'window':
+        return { kind: 'window', seconds: token.value!, position: token.position };
+      case 'string':
+        return { kind: 'string', value: token.text, position: token.position };
+      case 'identifier':
+        return this.parseIdentifier(token);
+      case 'operator':
+        if (token.text === '(') {
+          const node = this.parseOr();
+          this.expect(')', 'to close the parenthesis');
+          return node;
+        }
+        throw new ExpressionSyntaxError(`Unexpected '${token.text}'`, token.position);
+      case 'end':
+        throw new ExpressionSyntaxError('Unexpected end of expression', token.position);
+    }
+  }
+
+  private parseIdentifier(token: Token): ExpressionNode {
+    if (this.accept('(')) {
+      const args: ExpressionNode[] = [];
+      if (!this.accept(')')) {
+        do {
+          args.push(this.parseOr());
+        } while (this.accept(','));
+        this.expect(')', `to close the call to ${token.text}()`);
+      }
+      return { kind: 'call', name: token.text, args, position: token.position };
+    }
+
+    if (token.text === 'true' || token.text === 'false') {
+      return { kind: 'boolean', value: token.text === 'true', position: token.position };
+    }
+    if ((EXPRESSION_METRICS as readonly string[]).includes(token.text)) {
+      return { kind: 'metric', name: token.text as ExpressionMetric, position: token.position };
+    }
+    throw new ExpressionSyntaxError(
+      `Unknown metric '${token.text}'; known metrics are ${EXPRESSION_METRICS.join(', ')}`,
+      token.position
+    );
+  }
+}
+
+// Series are read as their latest value wherever a number is expected
+const asNumber = (type: ExpressionType) => type === 'number' || type === 'series';
+
+/**
+ * Type-check a parsed expression, returning its result type
+ */
+function check(node: ExpressionNode): ExpressionType {
+  switch (node.kind) {
+    case 'number':
+      return 'number';
+    case 'window':
+      return 'window';
+    case 'string':
+      return 'string';
+    case 'boolean':
+      return 'boolean';
+    case 'metric':
+      return 'series';
+    case 'unary': {
+      const operand = check(node.operand);
+      if (node.operator === 'not') {
+        if (operand !== 'boolean') throw new ExpressionSyntaxError(`'not' needs a condition`, node.position);
+        return 'boolean';
+      }
+      if (!asNumber(operand)) throw new ExpressionSyntaxError(`'-' needs a number`, node.position);
+      return 'number';
+    }
+    case 'binary': {
+      const left = check(node.left);
+      const right = check(node.right);
+      if (node.operator === 'and' || node.operator === 'or') {
+        if (left !== 'boolean' || right !== 'boolean') {
+          throw new ExpressionSyntaxError(`'${node.operator}' combines conditions, not values`, node.position);
+        }
+        return 'boolean';
+      }
+      if (!asNumber(left) || !asNumber(right)) {
+        throw new ExpressionSyntaxError(`'${node.operator}' needs numbers on both sides`, node.position);
+      }
+      return COMPARISONS.has(node.operator) ? 'boolean' : 'number';
+    }
+    case 'call':
+      return checkCall(node);
+  }
+}
+
+function checkCall(node: Extract<ExpressionNode, { kind: 'call' }>): ExpressionType {
+  const { name, args, position } = node;
+  const arity = (count: number, usage: string) => {
+    if (args.length !== count) {
+      throw new ExpressionSyntaxError(`${name}() takes ${count} argument${count === 1 ? '' : 's'}: ${usage}`, position);
+    }
+  };
+  const expectType = (arg: ExpressionNode, type: ExpressionType, what: string) => {
+    const actual = check(arg);
+    if (actual !== type) {
+      throw new ExpressionSyntaxError(`${name}() expects ${what}`, arg.position);
+    }
+  };
+
+  if (WINDOW_AGGREGATES.has(name)) {
+    arity(2, `${name}(metric, 15m)`);
+    expectType(args[0], 'series', 'a metric or sensor(...) as its first argument');
+    expectType(args[1], 'window', 'a time window such as 15m as its last argument');
+    return 'number';
+  }
+
+  switch (name) {
+    case 'percentile': {
+      arity(3, 'percentile(metric, 95, 1h)');
+      expectType(args[0], 'series', 'a metric or sensor(...) as its first argument');
+      const p = args[1];
+      if (p.kind !== 'number' || p.value < 0 || p.value > 100) {
+        throw new ExpressionSyntaxError('percentile() expects a percentile between 0 and 100', p.position);
+      }
+      expectType(args[2], 'window', 'a time window such as 15m as its last argument');
+      return 'number';
+    }
+    case 'sensor': {
+      if (args.length < 1 || args.length > 2) {
+        throw new ExpressionSyntaxError(`sensor() takes a sensor type and an optional location: sensor("temperature", "roof")`, position);
+      }
+      args.forEach(arg => expectType(arg, 'string', 'quoted sensor type and location'));
+      return 'series';
+    }
+    case 'abs':
+      arity(1, 'abs(value)');
+      if (!asNumber(check(args[0]))) throw new ExpressionSyntaxError('abs() expects a number', args[0].position);
+      return 'number';
+    default:
+      throw new ExpressionSyntaxError(
+        `Unknown function '${name}'; available are ${[...Array.from(WINDOW_AGGREGATES), 'percentile', 'sensor', 'abs'].join(', ')}`,
+        position
+      );
+  }
+}
+
+function widestWindow(node: ExpressionNode): number {
+  switch (node.kind) {
+    case 'window':
+      return node.seconds;
+    case 'unary':
+      return widestWindow(node.operand);
+    case 'binary':
+      return Math.max(widestWindow(node.left), widestWindow(node.right));
+    case 'call':
+      return Math.max(0, ...node.args.map(widestWindow));
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Parse and type-check an expression. Rule conditions must be conditions
+ * (`expect: 'boolean'`); the dry run also accepts plain values.
+ */
+export function compileExpression(source: string, expect?: 'boolean'): CompiledExpression {
+  if (!source.trim()) throw new ExpressionSyntaxError('Expression is empty', 0);
+
+  const ast = new Parser(tokenize(source)).parse();
+  let type = check(ast);
+  if (type === 'series') type = 'number';
+  if (type === 'window' || type === 'string') {
+    throw new ExpressionSyntaxError(`Expression must be a condition or a number, not a ${type === 'window' ? 'time window' : 'string'}`, 0);
+  }
+  if (expect === 'boolean' && type !== 'boolean') {
+    throw new ExpressionSyntaxError('Expression must be a condition, e.g. avg(consumption, 15m) > 120', 0);
+  }
+
+  return { source, ast, type, lookback: widestWindow(ast) };
+}
+
+interface Series {
+  times: number[];
+  values: number[];
+}
+
+// Index of the first entry later than `time`
+function upperBound(times: number[], time: number): number {
+  let low = 0;
+  let high = times.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (times[mid] <= time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function aggregate(name: string, times: number[], values: number[]): number | null {
+  if (name === 'count') return values.length;
+  if (values.length === 0) return null;
+
+  switch (name) {
+    case 'avg':
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+    case 'sum':
+      return values.reduce((sum, value) => sum + value, 0);
+    case 'stddev': {
+      const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+      return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+    }
+    case 'rate': {
+      const hours = (times[times.length - 1] - times[0]) / 3_600_000;
+      return hours > 0 ? (values[values.length - 1] - values[0]) / hours : null;
+    }
+    default:
+      return null;
+  }
+}
+
+type Value = number | boolean | null;
+
+/**
+ * Metrics and sensor readings an expression is evaluated against, both in
+ * ascending time order. Expressions only see readings up to the evaluation
+ * time, so the same history can be replayed point by point.
+ */
+export class ExpressionContext {
+  private series = new Map<string, Series>();
+
+  constructor(private metrics: EnergyMetric[], private sensorData: SensorData[] = []) {}
+
+  /**
+   * Evaluate at a point in time; null when the data needed is missing
+   */
+  evaluate(expression: CompiledExpression, at: Date): Value {
+    return this.evaluateNode(expression.ast, at.getTime());
+  }
+
+  /**
+   * Whether a condition holds at a point in time (unknown counts as no)
+   */
+  test(expression: CompiledExpression, at: Date): boolean {
+    return this.evaluate(expression, at) === true;
+  }
+
+  private evaluateNode(node: ExpressionNode, at: number): Value {
+    switch (node.kind) {
+      case 'number':
+        return node.value;
+      case 'boolean':
+        return node.value;
+      case 'metric':
+        return this.latest(this.resolveSeries(node), at);
+      case 'unary': {
+        const operand = this.evaluateNode(node.operand, at);
+        if (operand === null) return null;
+        return node.operator === 'not' ? !operand : -(operand as number);
+      }
+      case 'binary':
+        return this.evaluateBinary(node, at);
+      case 'call':
+        return this.evaluateCall(node, at);
+      default:
+        return null;
+    }
+  }
+
+  private evaluateBinary(node: Extract<ExpressionNode, { kind: 'binary' }>, at: number): Value {
+    const left = this.evaluateNode(node.left, at);
+
+    // Three-valued logic: a known answer wins over an unknown one
+    if (node.operator === 'and' || node.operator === 'or') {
+      const decisive = node.operator === 'or';
+      if (left === decisive) return decisive;
+      const right = this.evaluateNode(node.right, at);
+      if (right === decisive) return decisive;
+      return left === null || right === null ? null : !decisive;
+    }
+
+    const right = this.evaluateNode(node.right, at);
+    if (left === null || right === null) return null;
+    const a = left as number;
+    const b = right as number;
+
+    switch (node.operator) {
+      case '+': return a + b;
+      case '-': return a - b;
+      case '*': return a * b;
+      case '/': return b === 0 ? null : a / b;
+      case '%': return b === 0 ? null : a % b;
+      case '>': return a > b;
+      case '<': return a < b;
+      case '>=': return a >= b;
+      case '<=': return a <= b;
+      case '==': return a === b;
+      case '!=': return a !== b;
+    }
+  }
+
+  private evaluateCall(node: Extract<ExpressionNode, { kind: 'call' }>, at: number): Value {
+    if (node.name === 'sensor') return this.latest(this.resolveSeries(node), at);
+    if (node.name === 'abs') {
+      const value = this.evaluateNode(node.args[0], at);
+      return value === null ? null : Math.abs(value as number);
+    }
+
+    const series = this.resolveSeries(node.args[0]);
+    const window = node.args[node.args.length - 1] as Extract<ExpressionNode, { kind: 'window' }>;
+    const end = upperBound(series.times, at);
+    const start = upperBound(series.times, at - window.seconds * 1000 - 1);
+    const times = series.times.slice(start, end);
+    const values = series.values.slice(start, end);
+
+    if (node.name === 'percentile') {
+      const p = node.args[1] as Extract<ExpressionNode, { kind: 'number' }>;
+      return values.length > 0 ? percentile(values, p.value) : null;
+    }
+    return aggregate(node.name, times, values);
+  }
+
+  private latest(series: Series, at: number): number | null {
+    const end = upperBound(series.times, at);
+    return end > 0 ? series.values[end - 1] : null;
+  }
+
+  private resolveSeries(node: ExpressionNode): Series {
+    if (node.kind === 'metric') {
+      return this.cached(node.name, () => this.metrics.map(metric => [metric.timestamp.getTime(), metric[node.name]]));
+    }
+
+    const [type, location] = (node as Extract<ExpressionNode, { kind: 'call' }>).args
+      .map(arg => (arg as Extract<ExpressionNode, { kind: 'string' }>).value);
+    return this.cached(`sensor:${type}:${location ?? ''}`, () =>
+      this.sensorData
+        .filter(reading => reading.sensorType === type && (location === undefined || reading.location === location))
+        .map(reading => [reading.timestamp.getTime(), reading.value])
+    );
+  }
+
+  private cached(key: string, points: () => [number, number][]): Series {
+    let series = this.series.get(key);
+    if (!series) {
+      const sorted = points().sort((a, b) => a[0] - b[0]);
+      series = { times: sorted.map(([time]) => time), values: sorted.map(([, value]) => value) };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+}
@@ -0,0 +1,276 @@
+import type { Express } from "express";
+import { insertAlertRuleSchema } from "@shared/alert-schema";
+import { alertRuleService, RuleVersionConflictError } from "./alert-rules";
+import { alertDetectionEngine, RULE_METRICS } from "./alert-detection-engine";
+import { alertDetectionRunner } from "./alert-detection-runner";
+import { alertStore } from "./alert-store";
+import { storage } from "./storage";
+import { compileExpression, ExpressionContext, ExpressionSyntaxError } from "./rule-expressions";
+import { z } from "zod";
+
+// Mirrors MetricCondition in alert-detection-engine. Every rule metric is
+// numeric, so conditions are comparisons against a number.
+const metricConditionSchema = z.object({
+  metric: z.enum(RULE_METRICS),
+  operator: z.enum(['>', '<', '>=', '<=', '==', '!=']),
+  value: z.number().finite(),
+  duration: z.number().int().min(0).optional(),
+  clearValue: z.number().finite().optional(),
+  confidence: z.number().min(0).max(1).optional()
+}).refine(condition => {
+  // The clear threshold has to sit on the recovered side of the raise threshold
+  if (condition.clearValue === undefined) return true;
+  if (condition.operator === '>' || condition.operator === '>=') return condition.clearValue <= condition.value;
+  if (condition.operator === '<' || condition.operator === '<=') return condition.clearValue >= condition.value;
+  return false;
+}, {
+  message: 'clearValue must be on the recovery side of value and needs a >, >=, < or <= operator',
+  path: ['clearValue']
+});
+
+// Expression that has to compile as a condition
+const conditionExpression = z.string().trim().min(1).max(2000).superRefine((expression, ctx) => {
+  try {
+    compileExpression(expression, 'boolean');
+  } catch (error) {
+    if (!(error instanceof ExpressionSyntaxError)) throw error;
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message, params: { position: error.position } });
+  }
+});
+
+// Mirrors ExpressionCondition in alert-detection-engine
+const expressionConditionSchema = z.object({
+  expression: conditionExpression,
+  clearExpression: conditionExpression.optional(),
+  duration: z.number().int().min(0).optional()
+});
+
+// Conditions with an `expression` are expression conditions, the rest test one metric
+const ruleConditionSchema = z.record(z.unknown()).transform((condition, ctx) => {
+  const result = ('expression' in condition ? expressionConditionSchema : metricConditionSchema).safeParse(condition);
+  if (!result.success) {
+    result.error.issues.forEach(issue => ctx.addIssue(issue));
+    return z.NEVER;
+  }
+  return result.data;
+});
+
+const MAX_DRY_RUN_HOURS = 24 * 31;
+
+const dryRunSchema = z.object({
+  expression: z.string().min(1).max(2000),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  hours: z.number().positive().max(MAX_DRY_RUN_HOURS).default(24),
+  duration: z.number().int().min(0).default(0)
+});
+
+// Mirrors RuleAction in alert-detection-engine
+const ruleActionSchema = z.object({
+  type: z.enum(['create_alert', 'send_notification', 'escalate', 'log']),
+  config: z.record(z.any()).default({})
+}).refine(action => action.type !== 'send_notification' || action.config.channels === undefined, {
+  message: "send_notification doesn't take channels; recipients' notification preferences pick them",
+  path: ['config', 'channels']
+});
+
+const alertRuleSchema = insertAlertRuleSchema.extend({
+  name: z.string().trim().min(1).max(200),
+  type: z.enum(['threshold', 'pattern', 'ai', 'statistical']),
+  severity: z.enum(['info', 'warning', 'critical']),
+  conditions: z.array(ruleConditionSchema).min(1),
+  actions: z.array(ruleActionSchema).min(1),
+  priority: z.number().int().optional()
+});
+
+// Who made the change, recorded in the rule history
+const changedBy = (body: unknown): string | undefined =>
+  typeof (body as { changedBy?: unknown })?.changedBy === 'string' ? (body as { changedBy: string }).changedBy : undefined;
+
+export async function registerRuleRoutes(app: Express): Promise<void> {
+  await alertRuleService.load();
+  await alertDetectionRunner.restoreRuleStates();
+
+  // Periodic detection is off unless an interval is configured
+  const detectionInterval = Number(process.env.DETECTION_INTERVAL_MS);
+  if (detectionInterval > 0) {
+    alertDetectionRunner.start(detectionInterval);
+  }
+
+  app.get("/api/v1/alert-rules", async (req, res) => {
+    try {
+      const rules = await alertRuleService.getRules();
+      res.json({ rules, metrics: RULE_METRICS });
+    } catch (error) {
+      console.error('Error fetching alert rules:', error);
+      res.status(500).json({ error: 'Failed to fetch alert rules' });
+    }
+  });
+
+  // Evaluate an expression at every stored metric reading in a time range,
+  // without creating alerts
+  app.post("/api/v1/alert-rules/dry-run", async (req, res) => {
+    try {
+      const data = dryRunSchema.parse(req.body);
+      const to = data.to ?? new Date();
+      const from = data.from ?? new Date(to.getTime() - data.hours * 60 * 60 * 1000);
+      if (from >= to || to.getTime() - from.getTime() > MAX_DRY_RUN_HOURS * 60 * 60 * 1000) {
+        return res.status(400).json({ error: `from must be before to, at most ${MAX_DRY_RUN_HOURS} hours apart` });
+      }
+
+      const expression = compileExpression(data.expression);
+      // Windows at the start of the range read history from before it
+      const historyFrom = new Date(from.getTime() - expression.lookback * 1000);
+      const metrics = await storage.getEnergyMetricsByDateRange(historyFrom, to);
+      const sensorData = await alertStore.getSensorData({ since: historyFrom, until: to });
+      const context = new ExpressionContext(metrics, sensorData);
+
+      const results = metrics
+        .filter(metric => metric.timestamp >= from)
+        .map(metric => ({ timestamp: metric.timestamp, value: context.evaluate(expression, metric.timestamp) }));
+
+      // Unbroken runs where the condition held, and whether each lasted long enough to fire
+      const periods: { start: Date; end: Date; heldFor: number; fires: boolean }[] = [];
+      if (expression.type === 'boolean') {
+        let start: Date | null = null;
+        results.forEach((result, i) => {
+          if (result.value === true) {
+            start = start ?? result.timestamp;
+            if (i < results.length - 1 && results[i + 1].value === true) return;
+            const heldFor = (result.timestamp.getTime() - start.getTime()) / 1000;
+            periods.push({ start, end: result.timestamp, heldFor, fires: heldFor >= data.duration });
+          }
+          start = null;
+        });
+      }
+
+      res.json({
+        expression: expression.source,
+        type: expression.type,
+        from,
+        to,
+        evaluated: results.length,
+        matched: results.filter(result => result.value === true).length,
+        firings: periods.filter(period => period.fires).length,
+        periods,
+        results
+      });
+    } catch (error) {
+      if (error instanceof ExpressionSyntaxError) {
+        return res.status(400).json({ error: error.message, position: error.position });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid dry run', details: error.errors });
+      }
+      console.error('Error running alert rule dry run:', error);
+      res.status(500).json({ error: 'Failed to run alert rule dry run' });
+    }
+  });
+
+  // Where each rule stands between detection runs (pending, firing)
+  app.get("/api/v1/alert-rules/state", async (req, res) => {
+    try {
+      res.json({ states: alertDetectionEngine.getRuleStates() });
+    } catch (error) {
+      console.error('Error fetching alert rule state:', error);
+      res.status(500).json({ error: 'Failed to fetch alert rule state' });
+    }
+  });
+
+  app.get("/api/v1/alert-rules/:id", async (req, res) => {
+    try {
+      const rule = await alertRuleService.getRule(req.params.id);
+      if (!rule) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+      res.json({ rule });
+    } catch (error) {
+      console.error('Error fetching alert rule:', error);
+      res.status(500).json({ error: 'Failed to fetch alert rule' });
+    }
+  });
+
+  app.post("/api/v1/alert-rules", async (req, res) => {
+    try {
+      const data = alertRuleSchema.parse(req.body);
+      const rule = await alertRuleService.create(data, changedBy(req.body));
+      res.status(201).json({ rule });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid alert rule', details: error.errors });
+      }
+      console.error('Error creating alert rule:', error);
+      res.status(500).json({ error: 'Failed to create alert rule' });
+    }
+  });
+
+  app.put("/api/v1/alert-rules/:id", async (req, res) => {
+    try {
+      const changes = alertRuleSchema.partial().parse(req.body);
+      const rule = await alertRuleService.update(req.params.id, changes, changedBy(req.body));
+      if (!rule) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+      res.json({ rule });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid alert rule', details: error.errors });
+      }
+      if (error instanceof RuleVersionConflictError) {
+        return res.status(409).json({ error: error.message, currentVersion: error.currentVersion });
+      }
+      console.error('Error updating alert rule:', error);
+      res.status(500).json({ error: 'Failed to update alert rule' });
+    }
+  });
+
+  app.delete("/api/v1/alert-rules/:id", async (req, res) => {
+    try {
+      const deleted = await alertRuleService.delete(req.params.id, changedBy(req.body));
+      if (!deleted) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof RuleVersionConflictError) {
+        return res.status(409).json({ error: error.message, currentVersion: error.currentVersion });
+      }
+      console.error('Error deleting alert rule:', error);
+      res.status(500).json({ error: 'Failed to delete alert rule' });
+    }
+  });
+
+  // Change history, newest first (also available for deleted rules)
+  app.get("/api/v1/alert-rules/:id/versions", async (req, res) => {
+    try {
+      const versions = await alertRuleService.getHistory(req.params.id);
+      if (versions.length === 0) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+      res.json({ versions });
+    } catch (error) {
+      console.error('Error fetching alert rule history:', error);
+      res.status(500).json({ error: 'Failed to fetch alert rule history' });
+    }
+  });
+
+  app.post("/api/v1/alert-rules/:id/versions/:version/restore", async (req, res) => {
+    try {
+      const version = z.coerce.number().int().positive().parse(req.params.version);
+      const rule = await alertRuleService.restore(req.params.id, version, changedBy(req.body));
+      if (!rule) {
+        return res.status(404).json({ error: 'Alert rule or version not found' });
+      }
+      res.json({ rule });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid version', details: error.errors });
+      }
+      if (error instanceof RuleVersionConflictError) {
+        return res.status(409).json({ error: error.message, currentVersion: error.currentVersion });
+      }
+      console.error('Error restoring alert rule:', error);
+      res.status(500).json({ error: 'Failed to restore alert rule' });
+    }
+  });
+}
@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { LoopbackSmsProvider, twilioRequestSignature } from "./sms-provider";
+
+describe('LoopbackSmsProvider', () => {
+  it('keeps sent messages in the outbox with their segments', async () => {
+    const provider = new LoopbackSmsProvider();
+
+    const result = await provider.send({ to: '+15550100', body: 'x'.repeat(200) });
+
+    assert.equal(result.provider, 'loopback');
+    assert.equal(result.segments, 2);
+    assert.equal(provider.outbox.length, 1);
+    assert.equal(provider.outbox[0].to, '+15550100');
+    assert.equal(provider.outbox[0].messageId, result.messageId);
+    assert.deepEqual(provider.outbox[0].segments.map(segment => segment.length), [153, 47]);
+  });
+
+  it('gives every message its own id', async () => {
+    const provider = new LoopbackSmsProvider();
+
+    const first = await provider.send({ to: '+15550100', body: 'One' });
+    const second = await provider.send({ to: '+15550100', body: 'Two' });
+
+    assert.notEqual(first.messageId, second.messageId);
+  });
+
+  it('drops the oldest messages beyond the outbox limit', async () => {
+    const provider = new LoopbackSmsProvider(3);
+
+    for (const body of ['1', '2', '3', '4', '5']) {
+      await provider.send({ to: '+15550100', body });
+    }
+
+    assert.deepEqual(provider.outbox.map(message => message.body), ['3', '4', '5']);
+  });
+
+  it('empties the outbox on clear', async () => {
+    const provider = new LoopbackSmsProvider();
+    await provider.send({ to: '+15550100', body: 'Hello' });
+
+    provider.clear();
+
+    assert.deepEqual(provider.outbox, []);
+  });
+});
+
+describe('twilioRequestSignature', () => {
+  it('matches the example in the Twilio webhook security docs', () => {
+    const signature = twilioRequestSignature('12345', 'https://mycompany.com/myapp.php?foo=1&bar=2', {
+      CallSid: 'CA1234567890ABCDE',
+      Caller: '+12349013030',
+      Digits: '1234',
+      From: '+12349013030',
+      To: '+18005551212',
+    });
+
+    assert.equal(signature, '0/KCTR6DLpKmkAf8muzZqo1nDgQ=');
+  });
+});
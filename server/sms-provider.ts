@@ -0,0 +1,307 @@
+import { createHmac } from "crypto";
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+export interface SmsDeliveryResult {
+  messageId: string;
+  provider: string;
+  segments: number;
+}
+
+/**
+ * Anything that can deliver a text message. Twilio and generic HTTP
+ * gateways are built in; the loopback provider keeps messages in memory.
+ */
+export interface SmsProvider {
+  readonly name: string;
+  send(message: SmsMessage): Promise<SmsDeliveryResult>;
+}
+
+export interface SmsConfig {
+  provider: 'twilio' | 'http' | 'loopback';
+  from: string;
+  maxSegments: number;
+  timeoutMs: number;
+  twilio: {
+    apiUrl: string;
+    accountSid?: string;
+    authToken?: string;
+    // Public URL of /api/v1/sms/status, for delivery receipts
+    statusCallbackUrl?: string;
+  };
+  gateway: {
+    url?: string;
+    token?: string;
+  };
+}
+
+export class SmsProviderError extends Error {
+  constructor(public provider: string, public statusCode: number, public responseBody: string) {
+    super(`${provider} SMS provider responded with ${statusCode}${responseBody ? `: ${responseBody}` : ''}`);
+    this.name = 'SmsProviderError';
+  }
+}
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SmsSegmentation {
+  encoding: SmsEncoding;
+  segments: string[];
+}
+
+// GSM 03.38 basic character set, and the extension table (two septets each)
+const GSM7_BASIC = new Set(Array.from(
+  "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà"
+));
+const GSM7_EXTENDED = new Set(Array.from("^{}\\[~]|€\f"));
+
+// Units per message: septets for GSM-7, UTF-16 code units for UCS-2.
+// Multipart messages lose room to the concatenation header.
+const LIMITS: Record<SmsEncoding, { single: number; multipart: number }> = {
+  'GSM-7': { single: 160, multipart: 153 },
+  'UCS-2': { single: 70, multipart: 67 },
+};
+
+export function smsEncoding(text: string): SmsEncoding {
+  return Array.from(text).every(char => GSM7_BASIC.has(char) || GSM7_EXTENDED.has(char)) ? 'GSM-7' : 'UCS-2';
+}
+
+function unitLength(char: string, encoding: SmsEncoding): number {
+  if (encoding === 'UCS-2') return char.length; // surrogate pairs take two code units
+  return GSM7_EXTENDED.has(char) ? 2 : 1;
+}
+
+export function smsLength(text: string, encoding: SmsEncoding = smsEncoding(text)): number {
+  return Array.from(text).reduce((total, char) => total + unitLength(char, encoding), 0);
+}
+
+/**
+ * Split text into the segments a handset will reassemble, never splitting a
+ * GSM-7 escape sequence or a UTF-16 surrogate pair
+ */
+export function segmentSms(text: string): SmsSegmentation {
+  const encoding = smsEncoding(text);
+  const limits = LIMITS[encoding];
+  if (smsLength(text, encoding) <= limits.single) {
+    return { encoding, segments: [text] };
+  }
+
+  const segments: string[] = [];
+  let current = '';
+  let used = 0;
+  for (const char of Array.from(text)) {
+    const units = unitLength(char, encoding);
+    if (used + units > limits.multipart) {
+      segments.push(current);
+      current = '';
+      used = 0;
+    }
+    current += char;
+    used += units;
+  }
+  if (current) segments.push(current);
+
+  return { encoding, segments };
+}
+
+/**
+ * Shorten text so that text + suffix fits in maxSegments, marking the cut
+ * with an ellipsis. The suffix (e.g. reply instructions) is always kept.
+ */
+export function truncateSms(text: string, maxSegments: number, suffix: string = ''): string {
+  const full = text + suffix;
+  if (segmentSms(full).segments.length <= maxSegments) return full;
+
+  const encoding = smsEncoding(full);
+  const limits = LIMITS[encoding];
+  const capacity = maxSegments === 1 ? limits.single : limits.multipart * maxSegments;
+  const ellipsis = encoding === 'GSM-7' ? '...' : '…';
+  const budget = capacity - smsLength(suffix, encoding) - smsLength(ellipsis, encoding);
+
+  let kept = '';
+  let used = 0;
+  for (const char of Array.from(text)) {
+    const units = unitLength(char, encoding);
+    if (used + units > budget) break;
+    kept += char;
+    used += units;
+  }
+
+  // Segment boundaries can't split escape sequences, which may cost a few units
+  let result = kept.trimEnd() + ellipsis + suffix;
+  while (segmentSms(result).segments.length > maxSegments && kept.length > 0) {
+    kept = Array.from(kept).slice(0, -1).join('');
+    result = kept.trimEnd() + ellipsis + suffix;
+  }
+  return result;
+}
+
+/**
+ * Read SMS settings from the environment. Without a configured provider,
+ * messages go to the in-memory loopback simulator.
+ */
+export function smsConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SmsConfig {
+  const provider = (env.SMS_PROVIDER as SmsConfig['provider'] | undefined)
+    ?? (env.TWILIO_ACCOUNT_SID ? 'twilio' : env.SMS_GATEWAY_URL ? 'http' : 'loopback');
+
+  return {
+    provider,
+    from: env.SMS_FROM || env.TWILIO_FROM_NUMBER || 'EnergyMgmt',
+    maxSegments: parseInt(env.SMS_MAX_SEGMENTS || '3'),
+    timeoutMs: parseInt(env.SMS_TIMEOUT_MS || '10000'),
+    twilio: {
+      apiUrl: env.TWILIO_API_URL || 'https://api.twilio.com',
+      accountSid: env.TWILIO_ACCOUNT_SID || undefined,
+      authToken: env.TWILIO_AUTH_TOKEN || undefined,
+      statusCallbackUrl: env.SMS_STATUS_CALLBACK_URL || undefined,
+    },
+    gateway: {
+      url: env.SMS_GATEWAY_URL || undefined,
+      token: env.SMS_GATEWAY_TOKEN || undefined,
+    },
+  };
+}
+
+/**
+ * X-Twilio-Signature for a webhook request: HMAC-SHA1 with the auth token
+ * over the full URL followed by every POST parameter, sorted by name, as
+ * name + value
+ */
+export function twilioRequestSignature(authToken: string, url: string, params: Record<string, string>): string {
+  const data = Object.keys(params).sort().reduce((text, key) => text + key + params[key], url);
+  return createHmac('sha1', authToken).update(data).digest('base64');
+}
+
+/**
+ * Twilio Messages API, or any service exposing the same endpoint
+ * (TWILIO_API_URL points elsewhere)
+ */
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio';
+
+  constructor(private config: SmsConfig) {
+    if (!config.twilio.accountSid || !config.twilio.authToken) {
+      throw new Error('Twilio SMS provider requires TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN');
+    }
+  }
+
+  async send(message: SmsMessage): Promise<SmsDeliveryResult> {
+    const { apiUrl, accountSid, authToken, statusCallbackUrl } = this.config.twilio;
+    const params = new URLSearchParams({ To: message.to, From: this.config.from, Body: message.body });
+    if (statusCallbackUrl) params.set('StatusCallback', statusCallbackUrl);
+
+    const response = await fetch(`${apiUrl}/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Authorization': `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+      },
+      body: params,
+      signal: AbortSignal.timeout(this.config.timeoutMs),
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new SmsProviderError(this.name, response.status, text.slice(0, 500));
+    }
+
+    const result = JSON.parse(text) as { sid: string; num_segments?: string };
+    return {
+      messageId: result.sid,
+      provider: this.name,
+      segments: parseInt(result.num_segments ?? '') || segmentSms(message.body).segments.length,
+    };
+  }
+}
+
+/**
+ * Generic HTTP gateway: POSTs { to, from, text } as JSON and takes the
+ * message id from an `id` or `messageId` field of the response
+ */
+export class HttpGatewaySmsProvider implements SmsProvider {
+  readonly name = 'http';
+
+  constructor(private config: SmsConfig) {
+    if (!config.gateway.url) {
+      throw new Error('HTTP SMS provider requires SMS_GATEWAY_URL');
+    }
+  }
+
+  async send(message: SmsMessage): Promise<SmsDeliveryResult> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.gateway.token) headers['Authorization'] = `Bearer ${this.config.gateway.token}`;
+
+    const response = await fetch(this.config.gateway.url!, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ to: message.to, from: this.config.from, text: message.body }),
+      signal: AbortSignal.timeout(this.config.timeoutMs),
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new SmsProviderError(this.name, response.status, text.slice(0, 500));
+    }
+
+    let messageId = '';
+    try {
+      const result = JSON.parse(text);
+      messageId = String(result.id ?? result.messageId ?? '');
+    } catch {
+      // Some gateways answer with plain text
+    }
+
+    return {
+      messageId: messageId || `http-${Date.now()}`,
+      provider: this.name,
+      segments: segmentSms(message.body).segments.length,
+    };
+  }
+}
+
+const LOOPBACK_OUTBOX_LIMIT = 200;
+
+/**
+ * Local simulator: keeps the most recent sent messages in an outbox instead
+ * of sending them
+ */
+export class LoopbackSmsProvider implements SmsProvider {
+  readonly name = 'loopback';
+  readonly outbox: Array<SmsMessage & { messageId: string; sentAt: Date; segments: string[] }> = [];
+  private sequence = 0;
+
+  constructor(private outboxLimit: number = LOOPBACK_OUTBOX_LIMIT) {}
+
+  async send(message: SmsMessage): Promise<SmsDeliveryResult> {
+    const messageId = `loopback-${++this.sequence}`;
+    const { segments } = segmentSms(message.body);
+    this.outbox.push({ ...message, messageId, sentAt: new Date(), segments });
+    if (this.outbox.length > this.outboxLimit) {
+      this.outbox.splice(0, this.outbox.length - this.outboxLimit);
+    }
+    console.log(`SMS (loopback) to ${message.to}: ${message.body}`);
+
+    return { messageId, provider: this.name, segments: segments.length };
+  }
+
+  clear(): void {
+    this.outbox.length = 0;
+  }
+}
+
+export function createSmsProvider(config: SmsConfig): SmsProvider {
+  switch (config.provider) {
+    case 'twilio':
+      return new TwilioSmsProvider(config);
+    case 'http':
+      return new HttpGatewaySmsProvider(config);
+    default:
+      return new LoopbackSmsProvider();
+  }
+}
+
+export const smsConfig = smsConfigFromEnv();
+export const smsProvider: SmsProvider = createSmsProvider(smsConfig);
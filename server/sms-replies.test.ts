@@ -0,0 +1,77 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { type AlertSystem } from "@shared/alert-schema";
+import { MemAlertStore } from "./alert-store";
+import { AlertLifecycle } from "./alert-lifecycle";
+import { MemOnCallStore } from "./oncall-store";
+import { SmsReplyHandler } from "./sms-replies";
+
+const PHONE = '+15550100';
+
+describe('SmsReplyHandler', () => {
+  let store: MemAlertStore;
+  let handler: SmsReplyHandler;
+  let alert: AlertSystem;
+
+  // What the SMS sender records when it texts the alert
+  const textAlert = (ackCode: string) => store.createNotification({
+    alertId: alert.id,
+    channel: 'sms',
+    status: 'sent',
+    recipient: PHONE,
+    metadata: { ackCode },
+  });
+
+  beforeEach(async () => {
+    store = new MemAlertStore();
+    handler = new SmsReplyHandler(store, new AlertLifecycle(store), new MemOnCallStore());
+    alert = await store.createAlert({
+      title: 'Inverter offline',
+      description: 'No telemetry for 10 minutes',
+      type: 'device_fault',
+      severity: 'critical',
+      source: 'manual',
+    });
+  });
+
+  it('acknowledges the alert for the code texted to the sender', async () => {
+    await textAlert('482913');
+
+    const result = await handler.handle('+1 555 0100', 'ACK 482913');
+
+    assert.equal(result.outcome, 'acknowledged');
+    assert.equal((await store.getAlert(alert.id))?.status, 'acknowledged');
+  });
+
+  it('ignores codes texted to other numbers', async () => {
+    await textAlert('482913');
+
+    const result = await handler.handle('+15550199', 'ACK 482913');
+
+    assert.equal(result.outcome, 'unknown_code');
+    assert.equal((await store.getAlert(alert.id))?.status, 'active');
+  });
+
+  it('locks a number out after repeated wrong codes', async () => {
+    await textAlert('482913');
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      assert.equal((await handler.handle(PHONE, `ACK ${100000 + attempt}`)).outcome, 'unknown_code');
+    }
+    const result = await handler.handle(PHONE, 'ACK 482913');
+
+    assert.equal(result.outcome, 'rate_limited');
+    assert.equal((await store.getAlert(alert.id))?.status, 'active');
+  });
+
+  it('does not count a wrong code against other numbers', async () => {
+    await textAlert('482913');
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await handler.handle('+15550199', `ACK ${100000 + attempt}`);
+    }
+
+    const result = await handler.handle(PHONE, 'ACK 482913');
+
+    assert.equal(result.outcome, 'acknowledged');
+  });
+});
@@ -0,0 +1,126 @@
+import { type AlertSystem } from "@shared/alert-schema";
+import { alertStore, type AlertStore } from "./alert-store";
+import { alertLifecycle, AlertTransitionError, type AlertLifecycle } from "./alert-lifecycle";
+import { onCallStore, type OnCallStore } from "./oncall-store";
+
+export type SmsReplyOutcome = 'acknowledged' | 'already_handled' | 'unknown_code' | 'not_a_command' | 'rate_limited';
+
+export interface SmsReplyResult {
+  outcome: SmsReplyOutcome;
+  alert?: AlertSystem;
+  reply: string; // text to send back to the sender
+}
+
+// Only codes sent to the number recently are considered
+const LOOKBACK_NOTIFICATIONS = 50;
+
+// Wrong codes a number may send before it is locked out for the rest of the window
+const MAX_FAILED_CODES = 5;
+const FAILED_CODE_WINDOW_MS = 15 * 60 * 1000;
+
+export function normalizePhone(phone: string): string {
+  return phone.replace(/[\s()-]/g, '');
+}
+
+/**
+ * "ACK 1234", "ack #1234", "Ack: 1234" → "1234"
+ */
+export function parseAckCommand(text: string): string | null {
+  const match = /^\s*ack\b[\s:#]*(\d{4,6})\b/i.exec(text);
+  return match ? match[1] : null;
+}
+
+/**
+ * Handles inbound SMS replies. A reply code is only valid from the number
+ * the alert was texted to, and acknowledges through the alert lifecycle.
+ * Numbers that keep sending wrong codes are locked out for a while so codes
+ * can't be guessed.
+ */
+export class SmsReplyHandler {
+  private failures: Map<string, { count: number; since: number }> = new Map();
+
+  constructor(
+    private store: AlertStore,
+    private lifecycle: AlertLifecycle,
+    private recipients: OnCallStore
+  ) {}
+
+  async handle(from: string, text: string): Promise<SmsReplyResult> {
+    const code = parseAckCommand(text);
+    if (!code) {
+      return { outcome: 'not_a_command', reply: 'Reply ACK followed by the code in the alert message to acknowledge it.' };
+    }
+
+    const phone = normalizePhone(from);
+    if (this.isLockedOut(phone)) {
+      return { outcome: 'rate_limited', reply: 'Too many invalid codes. Try again later.' };
+    }
+
+    const notification = await this.findByCode(from, phone, code);
+    if (!notification) {
+      this.recordFailure(phone);
+      return { outcome: 'unknown_code', reply: `No alert found for code ${code}.` };
+    }
+    this.failures.delete(phone);
+
+    const userId = await this.userIdForPhone(phone);
+    try {
+      const alert = await this.lifecycle.transition(
+        notification.alertId,
+        'acknowledge',
+        userId,
+        'Acknowledged by SMS reply',
+        { via: 'sms', notificationId: notification.id }
+      );
+      return { outcome: 'acknowledged', alert, reply: `Acknowledged: ${alert.title}` };
+    } catch (error) {
+      if (error instanceof AlertTransitionError) {
+        const alert = await this.store.getAlert(notification.alertId);
+        return { outcome: 'already_handled', alert, reply: `Alert is already ${error.currentStatus}.` };
+      }
+      throw error;
+    }
+  }
+
+  private isLockedOut(phone: string): boolean {
+    const failures = this.failures.get(phone);
+    return !!failures && failures.count >= MAX_FAILED_CODES && Date.now() - failures.since < FAILED_CODE_WINDOW_MS;
+  }
+
+  private recordFailure(phone: string): void {
+    const now = Date.now();
+    for (const [number, failures] of Array.from(this.failures)) {
+      if (now - failures.since >= FAILED_CODE_WINDOW_MS) this.failures.delete(number);
+    }
+
+    const failures = this.failures.get(phone) ?? { count: 0, since: now };
+    failures.count++;
+    this.failures.set(phone, failures);
+  }
+
+  private async findByCode(from: string, phone: string, code: string) {
+    // Stored recipients may be formatted differently from the sender number
+    const recipients = await this.recipients.getRecipients();
+    const addresses = new Set([from, phone]);
+    for (const recipient of recipients) {
+      if (recipient.phone && normalizePhone(recipient.phone) === phone) addresses.add(recipient.phone);
+    }
+
+    for (const address of Array.from(addresses)) {
+      const notifications = await this.store.getNotificationsForRecipient('sms', address, LOOKBACK_NOTIFICATIONS);
+      const match = notifications.find(notification =>
+        (notification.metadata as { ackCode?: string } | null)?.ackCode === code
+      );
+      if (match) return match;
+    }
+    return undefined;
+  }
+
+  private async userIdForPhone(phone: string): Promise<string> {
+    const recipients = await this.recipients.getRecipients();
+    const recipient = recipients.find(r => r.phone && normalizePhone(r.phone) === phone);
+    return recipient?.userId ?? `sms:${phone}`;
+  }
+}
+
+export const smsReplyHandler = new SmsReplyHandler(alertStore, alertLifecycle, onCallStore);
@@ -0,0 +1,107 @@
+import type { Express, Request } from "express";
+import { timingSafeEqual } from "crypto";
+import { smsReplyHandler } from "./sms-replies";
+import { notificationQueue } from "./notification-queue";
+import { smsProvider, smsConfig, LoopbackSmsProvider, twilioRequestSignature } from "./sms-provider";
+import { z } from "zod";
+
+// Twilio posts From/Body as a form; generic gateways post { from, text } as JSON
+const inboundSchema = z.union([
+  z.object({ From: z.string().min(1), Body: z.string() }).transform(m => ({ from: m.From, text: m.Body, twilio: true })),
+  z.object({ from: z.string().min(1), text: z.string() }).transform(m => ({ ...m, twilio: false }))
+]);
+
+// The outbox shows every text sent, so it is never served in production
+const OUTBOX_ENVIRONMENTS = ['development', 'test'];
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function safeEqual(given: string, expected: string): boolean {
+  return given.length === expected.length && timingSafeEqual(Buffer.from(given), Buffer.from(expected));
+}
+
+// Twilio delivery receipts; other MessageStatus values are progress updates
+const statusCallbackSchema = z.object({ MessageSid: z.string().min(1), MessageStatus: z.string() });
+
+/**
+ * Requests from the provider must carry SMS_INBOUND_TOKEN (as ?token= or in
+ * the X-Sms-Inbound-Token header) or a valid X-Twilio-Signature. Twilio
+ * signs the public URL it posts to, which `publicUrl` gives when a proxy
+ * rewrites it.
+ */
+function isAuthorized(req: Request, publicUrl?: string): boolean {
+  const token = process.env.SMS_INBOUND_TOKEN;
+  const given = req.query.token ?? req.get('x-sms-inbound-token');
+  if (token && given !== undefined && safeEqual(String(given), token)) {
+    return true;
+  }
+
+  const authToken = smsConfig.twilio.authToken;
+  const signature = req.get('x-twilio-signature');
+  if (authToken && signature) {
+    const url = publicUrl || `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+    return safeEqual(signature, twilioRequestSignature(authToken, url, req.body ?? {}));
+  }
+
+  return false;
+}
+
+export async function registerSmsRoutes(app: Express): Promise<void> {
+  // Inbound replies from the SMS provider ("ACK 1234")
+  app.post("/api/v1/sms/inbound", async (req, res) => {
+    if (!isAuthorized(req, process.env.SMS_INBOUND_URL)) {
+      return res.status(401).json({ error: 'Invalid inbound token or signature' });
+    }
+
+    try {
+      const message = inboundSchema.parse(req.body);
+      const result = await smsReplyHandler.handle(message.from, message.text);
+
+      if (message.twilio) {
+        // TwiML: Twilio texts the reply back to the sender
+        return res.type('text/xml').send(`<Response><Message>${escapeXml(result.reply)}</Message></Response>`);
+      }
+      if (result.outcome === 'rate_limited') {
+        return res.status(429).json({ outcome: result.outcome, alertId: null, reply: result.reply });
+      }
+      res.json({ outcome: result.outcome, alertId: result.alert?.id ?? null, reply: result.reply });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid inbound message', details: error.errors });
+      }
+      console.error('Error handling inbound SMS:', error);
+      res.status(500).json({ error: 'Failed to handle inbound SMS' });
+    }
+  });
+
+  // Twilio status callbacks: marks texts the carrier delivered
+  app.post("/api/v1/sms/status", async (req, res) => {
+    if (!isAuthorized(req, smsConfig.twilio.statusCallbackUrl)) {
+      return res.status(401).json({ error: 'Invalid inbound token or signature' });
+    }
+
+    try {
+      const receipt = statusCallbackSchema.parse(req.body);
+      if (receipt.MessageStatus === 'delivered') {
+        await notificationQueue.confirmDelivery('sms', receipt.MessageSid);
+      }
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid status callback', details: error.errors });
+      }
+      console.error('Error handling SMS status callback:', error);
+      res.status(500).json({ error: 'Failed to handle SMS status callback' });
+    }
+  });
+
+  // Messages captured by the loopback simulator (development and test only)
+  app.get("/api/v1/sms/outbox", (req, res) => {
+    if (!OUTBOX_ENVIRONMENTS.includes(app.get("env")) || !(smsProvider instanceof LoopbackSmsProvider)) {
+      return res.status(404).json({ error: 'The SMS outbox is only available with the loopback provider in development' });
+    }
+    res.json({ messages: smsProvider.outbox });
+  });
+}
@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type EnergyMetric } from "@shared/schema";
+import { StatisticalAnomalyDetector } from "./statistical-detector";
+
+const HOUR = 60 * 60 * 1000;
+const newYorkHour = new Intl.DateTimeFormat('en-US', { timeZone: 'America/New_York', hour: 'numeric', hourCycle: 'h23' });
+
+// Hourly readings with a consumption peak at 07:00 New York time
+function morningPeaks(from: Date, to: Date): EnergyMetric[] {
+  const metrics: EnergyMetric[] = [];
+  for (let time = from.getTime(), i = 0; time <= to.getTime(); time += HOUR, i++) {
+    const timestamp = new Date(time);
+    const peak = Number(newYorkHour.format(timestamp)) === 7;
+    metrics.push({
+      id: `m-${i}`,
+      timestamp,
+      consumption: (peak ? 200 : 100) + (i % 5),
+      generation: 50,
+      storage: 60,
+      gridExport: 5,
+      solarEfficiency: 85,
+      batteryHealth: 95
+    });
+  }
+  return metrics;
+}
+
+describe('StatisticalAnomalyDetector seasonal baselines', () => {
+  // Four weeks up to the Monday after clocks went forward on 8 March 2026
+  const metrics = morningPeaks(new Date(Date.UTC(2026, 1, 9)), new Date(Date.UTC(2026, 2, 9, 11)));
+
+  it('follows the site clock across a daylight saving change', () => {
+    const detector = new StatisticalAnomalyDetector('America/New_York');
+    detector.warmUp(metrics.slice(0, -1));
+
+    assert.equal(detector.analyze(metrics).isAnomaly, false);
+  });
+
+  it('reads hours in UTC unless told the site time zone', () => {
+    const detector = new StatisticalAnomalyDetector();
+    detector.warmUp(metrics.slice(0, -1));
+
+    const result = detector.analyze(metrics);
+
+    assert.equal(result.isAnomaly, true);
+    assert.match(result.description ?? '', /Mondays at 11:00/);
+  });
+
+  it('drops baselines learned in another time zone', () => {
+    const detector = new StatisticalAnomalyDetector();
+    detector.warmUp(metrics.slice(0, -1));
+
+    detector.setTimeZone('America/New_York');
+    detector.warmUp(metrics.slice(0, -1));
+
+    assert.equal(detector.getTimeZone(), 'America/New_York');
+    assert.equal(detector.analyze(metrics).isAnomaly, false);
+  });
+});
@@ -0,0 +1,415 @@
+import { type EnergyMetric } from "@shared/schema";
+import { type AnomalyAnalysisResult } from "./ai-service";
+
+export const DETECTOR_FEATURES = [
+  'consumption', 'generation', 'storage', 'gridExport', 'solarEfficiency', 'batteryHealth'
+] as const;
+
+type Feature = typeof DETECTOR_FEATURES[number];
+
+const FEATURE_INFO: Record<Feature, { label: string; unit: string; type: string; component: string }> = {
+  consumption: { label: 'Consumption', unit: ' kW', type: 'consumption', component: 'grid_load' },
+  generation: { label: 'Generation', unit: ' kW', type: 'generation', component: 'solar_panels' },
+  storage: { label: 'Battery level', unit: '%', type: 'storage', component: 'battery_system' },
+  gridExport: { label: 'Grid export', unit: ' kW', type: 'generation', component: 'grid_connection' },
+  solarEfficiency: { label: 'Solar efficiency', unit: '%', type: 'generation', component: 'solar_panels' },
+  batteryHealth: { label: 'Battery health', unit: '%', type: 'device_fault', component: 'battery_system' },
+};
+
+const DAYS = ['Sundays', 'Mondays', 'Tuesdays', 'Wednesdays', 'Thursdays', 'Fridays', 'Saturdays'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Tuning; z thresholds are in standard deviations
+const ROLLING_WINDOW = 48;
+const ROLLING_Z = 3.5;
+const SEASONAL_Z = 3;
+const SEASONAL_MIN_SAMPLES = 4;
+const CHANGE_REFERENCE_MIN = 24;
+const CHANGE_RECENT = 12;
+const CUSUM_SLACK = 0.75;
+const CUSUM_LIMIT = 8;
+const EWMA_LAMBDA = 0.3;
+const FOREST_TREES = 64;
+const FOREST_SAMPLE = 64;
+const FOREST_MIN_HISTORY = 32;
+const FOREST_THRESHOLD = 0.65;
+
+interface Finding {
+  method: 'rolling_zscore' | 'seasonal_baseline' | 'cusum' | 'isolation_forest';
+  feature: Feature;
+  score: number; // 0-1
+  description: string;
+}
+
+/**
+ * Running mean and variance (Welford)
+ */
+class RunningStats {
+  count = 0;
+  mean = 0;
+  private m2 = 0;
+
+  add(value: number): void {
+    this.count++;
+    const delta = value - this.mean;
+    this.mean += delta / this.count;
+    this.m2 += delta * (value - this.mean);
+  }
+
+  get std(): number {
+    return this.count > 1 ? Math.sqrt(this.m2 / (this.count - 1)) : 0;
+  }
+}
+
+function meanStd(values: number[]): { mean: number; std: number } {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(1, values.length - 1);
+  return { mean, std: Math.sqrt(variance) };
+}
+
+// Keeps near-constant series from turning every wobble into a huge z-score
+function stdFloor(mean: number, std: number): number {
+  return Math.max(std, Math.abs(mean) * 0.02, 0.1);
+}
+
+// Map a z-score past its threshold onto a 0-1 confidence
+function zConfidence(z: number, threshold: number): number {
+  return Math.min(0.99, 0.6 + 0.4 * (1 - Math.exp(-(Math.abs(z) - threshold) / threshold)));
+}
+
+// Reads weekday and hour; throws a RangeError for an unknown time zone
+function siteClock(timeZone: string): Intl.DateTimeFormat {
+  return new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: 'numeric', hourCycle: 'h23' });
+}
+
+function format(feature: Feature, value: number): string {
+  return `${value.toFixed(1)}${FEATURE_INFO[feature].unit}`;
+}
+
+// Deterministic PRNG so the same history always scores the same
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Average path length of an unsuccessful binary search tree lookup over n points
+function averagePathLength(n: number): number {
+  if (n <= 1) return 0;
+  if (n === 2) return 1;
+  return 2 * (Math.log(n - 1) + 0.5772156649) - (2 * (n - 1)) / n;
+}
+
+type IsolationNode =
+  | { size: number }
+  | { feature: number; split: number; left: IsolationNode; right: IsolationNode };
+
+function buildTree(points: number[][], depth: number, maxDepth: number, random: () => number): IsolationNode {
+  if (depth >= maxDepth || points.length <= 1) return { size: points.length };
+
+  // Pick a feature that still varies in this node
+  const dimensions = points[0].length;
+  const start = Math.floor(random() * dimensions);
+  for (let offset = 0; offset < dimensions; offset++) {
+    const feature = (start + offset) % dimensions;
+    let min = Infinity;
+    let max = -Infinity;
+    for (const point of points) {
+      min = Math.min(min, point[feature]);
+      max = Math.max(max, point[feature]);
+    }
+    if (max > min) {
+      const split = min + random() * (max - min);
+      return {
+        feature,
+        split,
+        left: buildTree(points.filter(point => point[feature] < split), depth + 1, maxDepth, random),
+        right: buildTree(points.filter(point => point[feature] >= split), depth + 1, maxDepth, random),
+      };
+    }
+  }
+  return { size: points.length };
+}
+
+function pathLength(node: IsolationNode, point: number[], depth = 0): number {
+  if ('size' in node) return depth + averagePathLength(node.size);
+  return pathLength(point[node.feature] < node.split ? node.left : node.right, point, depth + 1);
+}
+
+/**
+ * Offline anomaly detector for sites without OpenAI access, also used when
+ * the OpenAI call fails. Scores the latest reading with rolling z-scores,
+ * seasonal (hour-of-week) baselines, CUSUM change detection and an
+ * isolation forest over all six metrics, and reports the strongest finding.
+ */
+export class StatisticalAnomalyDetector {
+  // Seasonal baselines by hour of week (0-167) and, for sparse data, hour of day
+  private hourOfWeek = new Map<string, RunningStats>();
+  private hourOfDay = new Map<string, RunningStats>();
+  private learnedUntil = 0;
+  private clock: Intl.DateTimeFormat;
+
+  // Hours are the site's wall-clock hours, not the server's
+  constructor(private timeZone = 'UTC') {
+    this.clock = siteClock(timeZone);
+  }
+
+  getTimeZone(): string {
+    return this.timeZone;
+  }
+
+  /**
+   * Switch the time zone seasonal hours are read in. Learned baselines are
+   * dropped, since their buckets were for the old hours; warm up again.
+   */
+  setTimeZone(timeZone: string): void {
+    if (timeZone === this.timeZone) return;
+    this.clock = siteClock(timeZone);
+    this.timeZone = timeZone;
+    this.hourOfWeek.clear();
+    this.hourOfDay.clear();
+    this.learnedUntil = 0;
+  }
+
+  /**
+   * Build seasonal baselines from stored history, e.g. on startup
+   */
+  warmUp(metrics: EnergyMetric[]): void {
+    this.learn(metrics);
+  }
+
+  analyze(metrics: EnergyMetric[]): AnomalyAnalysisResult {
+    if (metrics.length === 0) return { isAnomaly: false, score: 0, detector: 'statistical' };
+
+    const latest = metrics[metrics.length - 1];
+    const history = metrics.slice(0, -1);
+
+    const findings: Finding[] = [
+      ...this.rollingZScores(latest, history),
+      ...this.seasonalDeviations(latest),
+      ...this.changePoints(metrics),
+      ...this.isolationScore(latest, history),
+    ];
+
+    // The latest reading is learned on the next call, so repeated calls score it the same
+    this.learn(history);
+
+    if (findings.length === 0) {
+      return { isAnomaly: false, score: 0, detector: 'statistical' };
+    }
+
+    findings.sort((a, b) => b.score - a.score);
+    const [strongest, ...others] = findings;
+    const info = FEATURE_INFO[strongest.feature];
+    const corroborated = others.length > 0 ? ` (${others.length} other signal${others.length === 1 ? '' : 's'}: ${Array.from(new Set(others.map(f => f.method))).join(', ')})` : '';
+
+    return {
+      isAnomaly: true,
+      score: Math.min(0.99, strongest.score + 0.02 * others.length),
+      type: info.type,
+      severity: strongest.score >= 0.9 ? 'high' : strongest.score >= 0.75 ? 'medium' : 'low',
+      description: `${strongest.description}${corroborated}`,
+      affectedComponent: info.component,
+      detector: 'statistical',
+    };
+  }
+
+  private learn(metrics: EnergyMetric[]): void {
+    for (const metric of metrics) {
+      const time = metric.timestamp.getTime();
+      if (time <= this.learnedUntil) continue;
+
+      const { day, hour } = this.siteTime(metric.timestamp);
+      const hourOfWeek = day * 24 + hour;
+      for (const feature of DETECTOR_FEATURES) {
+        this.bucket(this.hourOfWeek, `${feature}:${hourOfWeek}`).add(metric[feature]);
+        this.bucket(this.hourOfDay, `${feature}:${hour}`).add(metric[feature]);
+      }
+      this.learnedUntil = time;
+    }
+  }
+
+  // Day of week (0 = Sunday) and hour in the site's time zone
+  private siteTime(at: Date): { day: number; hour: number } {
+    let day = 0;
+    let hour = 0;
+    for (const part of this.clock.formatToParts(at)) {
+      if (part.type === 'weekday') day = WEEKDAYS.indexOf(part.value);
+      if (part.type === 'hour') hour = Number(part.value);
+    }
+    return { day, hour };
+  }
+
+  private bucket(buckets: Map<string, RunningStats>, key: string): RunningStats {
+    let stats = buckets.get(key);
+    if (!stats) {
+      stats = new RunningStats();
+      buckets.set(key, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Learned baseline for a reading's hour of the week, or its hour of the day
+   * while the weekly one is still sparse
+   */
+  private seasonalBaseline(metric: EnergyMetric, feature: Feature): { stats: RunningStats; weekly: boolean } | null {
+    const { day, hour } = this.siteTime(metric.timestamp);
+    const weekly = this.hourOfWeek.get(`${feature}:${day * 24 + hour}`);
+    if (weekly && weekly.count >= SEASONAL_MIN_SAMPLES) return { stats: weekly, weekly: true };
+    const daily = this.hourOfDay.get(`${feature}:${hour}`);
+    if (daily && daily.count >= SEASONAL_MIN_SAMPLES) return { stats: daily, weekly: false };
+    return null;
+  }
+
+  // Reading minus its seasonal mean, so daily cycles don't look like shifts
+  private residual(metric: EnergyMetric, feature: Feature): number {
+    return metric[feature] - (this.seasonalBaseline(metric, feature)?.stats.mean ?? 0);
+  }
+
+  /**
+   * Latest reading against the preceding readings, adjusted for time of day
+   */
+  private rollingZScores(latest: EnergyMetric, history: EnergyMetric[]): Finding[] {
+    const window = history.slice(-ROLLING_WINDOW);
+    if (window.length < 12) return [];
+
+    const findings: Finding[] = [];
+    for (const feature of DETECTOR_FEATURES) {
+      const { mean, std } = meanStd(window.map(metric => this.residual(metric, feature)));
+      const residual = this.residual(latest, feature);
+      const expected = latest[feature] - residual + mean;
+      // A series flat overnight shouldn't make daytime noise look anomalous
+      const spread = Math.max(std, this.seasonalBaseline(latest, feature)?.stats.std ?? 0);
+      const z = (residual - mean) / stdFloor(expected, spread);
+      if (Math.abs(z) >= ROLLING_Z) {
+        findings.push({
+          method: 'rolling_zscore',
+          feature,
+          score: zConfidence(z, ROLLING_Z),
+          description: `${FEATURE_INFO[feature].label} ${format(feature, latest[feature])} is ${Math.abs(z).toFixed(1)}σ ${z > 0 ? 'above' : 'below'} the ${format(feature, expected)} expected from recent readings`,
+        });
+      }
+    }
+    return findings;
+  }
+
+  /**
+   * Latest reading against what is usual for this hour of the week (or day)
+   */
+  private seasonalDeviations(latest: EnergyMetric): Finding[] {
+    const { day, hour } = this.siteTime(latest.timestamp);
+
+    const findings: Finding[] = [];
+    for (const feature of DETECTOR_FEATURES) {
+      const seasonal = this.seasonalBaseline(latest, feature);
+      if (!seasonal) continue;
+
+      const baseline = seasonal.stats;
+      const z = (latest[feature] - baseline.mean) / stdFloor(baseline.mean, baseline.std);
+      if (Math.abs(z) >= SEASONAL_Z) {
+        const when = `${seasonal.weekly ? `${DAYS[day]} at ` : ''}${String(hour).padStart(2, '0')}:00`;
+        findings.push({
+          method: 'seasonal_baseline',
+          feature,
+          score: zConfidence(z, SEASONAL_Z),
+          description: `${FEATURE_INFO[feature].label} ${format(feature, latest[feature])} is ${Math.abs(z).toFixed(1)}σ ${z > 0 ? 'above' : 'below'} its usual ${format(feature, baseline.mean)} for ${when}`,
+        });
+      }
+    }
+    return findings;
+  }
+
+  /**
+   * Sustained shifts: two-sided CUSUM over the most recent readings, against
+   * the readings before them, with the EWMA giving the size of the shift
+   */
+  private changePoints(metrics: EnergyMetric[]): Finding[] {
+    const reference = metrics.slice(-(ROLLING_WINDOW + CHANGE_RECENT), -CHANGE_RECENT);
+    const recent = metrics.slice(-CHANGE_RECENT);
+    if (reference.length < CHANGE_REFERENCE_MIN) return [];
+
+    const findings: Finding[] = [];
+    for (const feature of DETECTOR_FEATURES) {
+      const { mean, std } = meanStd(reference.map(metric => this.residual(metric, feature)));
+      const level = meanStd(reference.map(metric => metric[feature])).mean;
+      const seasonalSpread = Math.max(0, ...recent.map(metric => this.seasonalBaseline(metric, feature)?.stats.std ?? 0));
+      const sigma = stdFloor(level, Math.max(std, seasonalSpread));
+
+      let high = 0;
+      let low = 0;
+      let ewma = 0;
+      for (const metric of recent) {
+        const z = (this.residual(metric, feature) - mean) / sigma;
+        high = Math.max(0, high + z - CUSUM_SLACK);
+        low = Math.max(0, low - z - CUSUM_SLACK);
+        ewma = EWMA_LAMBDA * z + (1 - EWMA_LAMBDA) * ewma;
+      }
+
+      const cusum = Math.max(high, low);
+      if (cusum >= CUSUM_LIMIT) {
+        const shift = ewma * sigma;
+        findings.push({
+          method: 'cusum',
+          feature,
+          score: Math.min(0.95, 0.6 + 0.35 * Math.min(1, (cusum - CUSUM_LIMIT) / CUSUM_LIMIT)),
+          description: `${FEATURE_INFO[feature].label} has shifted ${high > low ? 'up' : 'down'} by about ${format(feature, Math.abs(shift))} over the last ${recent.length} readings`,
+        });
+      }
+    }
+    return findings;
+  }
+
+  /**
+   * Multivariate outlier score: how quickly random splits isolate the latest
+   * reading from past ones (0.5 is ordinary, close to 1 is anomalous)
+   */
+  private isolationScore(latest: EnergyMetric, history: EnergyMetric[]): Finding[] {
+    const sample = history.slice(-256);
+    if (sample.length < FOREST_MIN_HISTORY) return [];
+
+    // Seasonal residuals, so a reading is compared with readings at other times of day fairly
+    const scales = DETECTOR_FEATURES.map(feature => {
+      const { mean, std } = meanStd(sample.map(metric => this.residual(metric, feature)));
+      const level = meanStd(sample.map(metric => metric[feature])).mean;
+      return { mean, sigma: stdFloor(level, std) };
+    });
+    const normalize = (metric: EnergyMetric) =>
+      DETECTOR_FEATURES.map((feature, i) => (this.residual(metric, feature) - scales[i].mean) / scales[i].sigma);
+
+    const points = sample.map(normalize);
+    const target = normalize(latest);
+    const random = mulberry32(sample.length * 7919 + Math.round(latest.timestamp.getTime() / 1000));
+    const size = Math.min(FOREST_SAMPLE, points.length);
+    const maxDepth = Math.ceil(Math.log2(size));
+
+    let total = 0;
+    for (let t = 0; t < FOREST_TREES; t++) {
+      const subsample = Array.from({ length: size }, () => points[Math.floor(random() * points.length)]);
+      total += pathLength(buildTree(subsample, 0, maxDepth, random), target);
+    }
+    const score = Math.pow(2, -(total / FOREST_TREES) / averagePathLength(size));
+    if (score < FOREST_THRESHOLD) return [];
+
+    // Name the metrics furthest from normal
+    const ranked = DETECTOR_FEATURES
+      .map((feature, i) => ({ feature, z: target[i] }))
+      .sort((a, b) => Math.abs(b.z) - Math.abs(a.z));
+    const notable = ranked.slice(0, 2)
+      .map(({ feature, z }) => `${FEATURE_INFO[feature].label.toLowerCase()} ${z >= 0 ? '+' : ''}${z.toFixed(1)}σ`)
+      .join(', ');
+
+    return [{
+      method: 'isolation_forest',
+      feature: ranked[0].feature,
+      score: Math.min(0.95, score),
+      description: `Unusual combination of readings (isolation score ${score.toFixed(2)}; ${notable})`,
+    }];
+  }
+}
+
+export const statisticalAnomalyDetector = new StatisticalAnomalyDetector(process.env.SITE_TIMEZONE || 'UTC');
@@ -0,0 +1,123 @@
+import { describe, it, before, beforeEach, after } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage, DbStorage, type IStorage } from "./storage";
+import { createTestDatabase, type TestDatabase } from "./test-database";
+
+const HOUR = 60 * 60 * 1000;
+
+const metric = (consumption: number) => ({
+  consumption,
+  generation: 40,
+  storage: 75,
+  gridExport: 5,
+  solarEfficiency: 88,
+  batteryHealth: 95,
+});
+
+const report = (date: Date) => ({
+  date,
+  totalConsumption: 1200,
+  totalGeneration: 900,
+  co2Saved: 310,
+  costSavings: 140,
+  efficiencyScore: 82,
+  anomaliesDetected: 2,
+});
+
+/**
+ * The IStorage contract, run against every backend so they behave the same
+ */
+function storageContract(name: string, setup: () => { create(): Promise<IStorage>; teardown?(): Promise<void> }) {
+  describe(name, () => {
+    const backend = setup();
+    let storage: IStorage;
+
+    beforeEach(async () => {
+      storage = await backend.create();
+    });
+
+    if (backend.teardown) after(backend.teardown);
+
+    it('creates users and finds them by id and username', async () => {
+      const user = await storage.createUser({ username: 'operator', password: 'secret' });
+
+      assert.deepEqual(await storage.getUser(user.id), user);
+      assert.deepEqual(await storage.getUserByUsername('operator'), user);
+      assert.equal(await storage.getUser('missing'), undefined);
+      assert.equal(await storage.getUserByUsername('nobody'), undefined);
+    });
+
+    it('stamps energy metrics and returns recent ones oldest first', async () => {
+      const first = await storage.addEnergyMetric(metric(100));
+      const second = await storage.addEnergyMetric(metric(120));
+
+      assert.ok(first.id);
+      assert.ok(first.timestamp instanceof Date);
+      assert.equal(first.consumption, 100);
+
+      const recent = await storage.getRecentEnergyMetrics(1);
+      assert.deepEqual(recent.map(m => m.id), [first.id, second.id]);
+    });
+
+    it('returns energy metrics within a date range', async () => {
+      const added = await storage.addEnergyMetric(metric(100));
+      const now = added.timestamp.getTime();
+
+      const inRange = await storage.getEnergyMetricsByDateRange(new Date(now - HOUR), new Date(now + HOUR));
+      assert.deepEqual(inRange.map(m => m.id), [added.id]);
+
+      const before = await storage.getEnergyMetricsByDateRange(new Date(now - 2 * HOUR), new Date(now - HOUR));
+      assert.deepEqual(before, []);
+    });
+
+    it('lists unresolved anomalies until they are resolved', async () => {
+      const anomaly = await storage.addAnomaly({
+        type: 'consumption',
+        severity: 'high',
+        score: 0.91,
+        description: 'Consumption spike',
+      });
+      assert.equal(anomaly.resolved, false);
+      assert.equal(anomaly.resolvedAt, null);
+      assert.equal(anomaly.affectedComponent, null);
+
+      assert.deepEqual((await storage.getActiveAnomalies()).map(a => a.id), [anomaly.id]);
+
+      await storage.resolveAnomaly(anomaly.id);
+      assert.deepEqual(await storage.getActiveAnomalies(), []);
+    });
+
+    it('ignores resolving an unknown anomaly', async () => {
+      await storage.resolveAnomaly('missing');
+      assert.deepEqual(await storage.getActiveAnomalies(), []);
+    });
+
+    it('returns daily reports of the last days, newest first', async () => {
+      const today = await storage.addDailyReport(report(new Date(Date.now() - HOUR)));
+      const yesterday = await storage.addDailyReport(report(new Date(Date.now() - 25 * HOUR)));
+      await storage.addDailyReport(report(new Date(Date.now() - 10 * 24 * HOUR)));
+
+      const reports = await storage.getDailyReports(7);
+      assert.deepEqual(reports.map(r => r.id), [today.id, yesterday.id]);
+      assert.equal(reports[0].efficiencyScore, 82);
+    });
+  });
+}
+
+storageContract('MemStorage', () => ({
+  create: async () => new MemStorage(),
+}));
+
+storageContract('DbStorage', () => {
+  let database: TestDatabase | undefined;
+  return {
+    create: async () => {
+      database ??= await createTestDatabase();
+      await database.reset();
+      return new DbStorage(database.db);
+    },
+    teardown: async () => {
+      await database?.close();
+    },
+  };
+});
@@ -2,10 +2,12 @@ import {
   type User, type InsertUser,
   type EnergyMetric, type InsertEnergyMetric,
   type Anomaly, type InsertAnomaly,
-  type Alert, type InsertAlert,
-  type DailyReport, type InsertDailyReport
+  type DailyReport, type InsertDailyReport,
+  users, energyMetrics, anomalies, dailyReports
 } from "@shared/schema";
+import { and, asc, desc, eq, gte, lte } from "drizzle-orm";
 import { randomUUID } from "crypto";
+import { database, type Database } from "./db";
 
 // Storage interface for energy management system
 export interface IStorage {
@@ -24,11 +26,6 @@ export interface IStorage {
   getActiveAnomalies(): Promise<Anomaly[]>;
   resolveAnomaly(id: string): Promise<void>;
   
-  // Alert management
-  addAlert(alert: InsertAlert): Promise<Alert>;
-  getActiveAlerts(): Promise<Alert[]>;
-  dismissAlert(id: string): Promise<void>;
-  
   // Daily reports
   addDailyReport(report: InsertDailyReport): Promise<DailyReport>;
   getDailyReports(days?: number): Promise<DailyReport[]>;
@@ -38,14 +35,12 @@ export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private energyMetrics: Map<string, EnergyMetric>;
   private anomalies: Map<string, Anomaly>;
-  private alerts: Map<string, Alert>;
   private dailyReports: Map<string, DailyReport>;
 
   constructor() {
     this.users = new Map();
     this.energyMetrics = new Map();
     this.anomalies = new Map();
-    this.alerts = new Map();
     this.dailyReports = new Map();
   }
 
@@ -122,36 +117,6 @@ export class MemStorage implements IStorage {
     }
   }
 
-  // Alert management
-  async addAlert(alert: InsertAlert): Promise<Alert> {
-    const id = randomUUID();
-    const alertRecord: Alert = {
-      ...alert,
-      id,
-      timestamp: new Date(),
-      dismissed: false,
-      dismissedAt: null,
-      anomalyId: alert.anomalyId ?? null,
-    };
-    this.alerts.set(id, alertRecord);
-    return alertRecord;
-  }
-
-  async getActiveAlerts(): Promise<Alert[]> {
-    return Array.from(this.alerts.values())
-      .filter(alert => !alert.dismissed)
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-  }
-
-  async dismissAlert(id: string): Promise<void> {
-    const alert = this.alerts.get(id);
-    if (alert) {
-      alert.dismissed = true;
-      alert.dismissedAt = new Date();
-      this.alerts.set(id, alert);
-    }
-  }
-
   // Daily reports
   async addDailyReport(report: InsertDailyReport): Promise<DailyReport> {
     const id = randomUUID();
@@ -171,7 +136,81 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+// PostgreSQL-backed storage using the Drizzle table definitions in shared/schema
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // User methods (legacy)
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Energy metrics
+  async addEnergyMetric(metric: InsertEnergyMetric): Promise<EnergyMetric> {
+    const [energyMetric] = await this.db.insert(energyMetrics).values(metric).returning();
+    return energyMetric;
+  }
+
+  async getRecentEnergyMetrics(hours: number = 24): Promise<EnergyMetric[]> {
+    const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000);
+    return this.db.select().from(energyMetrics)
+      .where(gte(energyMetrics.timestamp, cutoff))
+      .orderBy(asc(energyMetrics.timestamp));
+  }
+
+  async getEnergyMetricsByDateRange(startDate: Date, endDate: Date): Promise<EnergyMetric[]> {
+    return this.db.select().from(energyMetrics)
+      .where(and(gte(energyMetrics.timestamp, startDate), lte(energyMetrics.timestamp, endDate)))
+      .orderBy(asc(energyMetrics.timestamp));
+  }
+
+  // Anomaly detection
+  async addAnomaly(anomaly: InsertAnomaly): Promise<Anomaly> {
+    const [anomalyRecord] = await this.db.insert(anomalies).values(anomaly).returning();
+    return anomalyRecord;
+  }
+
+  async getActiveAnomalies(): Promise<Anomaly[]> {
+    return this.db.select().from(anomalies)
+      .where(eq(anomalies.resolved, false))
+      .orderBy(desc(anomalies.timestamp));
+  }
+
+  async resolveAnomaly(id: string): Promise<void> {
+    await this.db.update(anomalies)
+      .set({ resolved: true, resolvedAt: new Date() })
+      .where(eq(anomalies.id, id));
+  }
+
+  // Daily reports
+  async addDailyReport(report: InsertDailyReport): Promise<DailyReport> {
+    const [dailyReport] = await this.db.insert(dailyReports).values(report).returning();
+    return dailyReport;
+  }
+
+  async getDailyReports(days: number = 7): Promise<DailyReport[]> {
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    return this.db.select().from(dailyReports)
+      .where(gte(dailyReports.date, cutoff))
+      .orderBy(desc(dailyReports.date));
+  }
+}
+
+// Use PostgreSQL when DATABASE_URL is configured, otherwise keep everything in memory
+export const storage: IStorage = database
+  ? new DbStorage(database.db)
+  : new MemStorage();
 
 // Energy data simulation engine
 export class EnergyDataSimulator {
@@ -180,31 +219,30 @@ export class EnergyDataSimulator {
   private baseStorage = 75; // percentage
   private lastUpdate = Date.now();
 
-  generateRealisticMetric(): InsertEnergyMetric {
-    const now = new Date();
-    const hour = now.getHours();
-    const minute = now.getMinutes();
+  // `at` and `random` let the evaluation harness replay reproducible days
+  generateRealisticMetric(at: Date = new Date(), random: () => number = Math.random): InsertEnergyMetric {
+    const hour = at.getHours();
     
     // Solar generation pattern (peaks at noon)
     const solarMultiplier = Math.max(0, Math.sin((hour - 6) * Math.PI / 12));
-    const generation = this.baseGeneration * solarMultiplier * (0.8 + Math.random() * 0.4);
+    const generation = this.baseGeneration * solarMultiplier * (0.8 + random() * 0.4);
     
     // Consumption pattern (higher during day and evening)
-    const consumptionMultiplier = 0.7 + 0.3 * Math.sin((hour - 8) * Math.PI / 8) + 0.2 * Math.random();
+    const consumptionMultiplier = 0.7 + 0.3 * Math.sin((hour - 8) * Math.PI / 8) + 0.2 * random();
     const consumption = this.baseConsumption * consumptionMultiplier;
     
     // Storage varies based on generation vs consumption
     const netPower = generation - consumption;
     let storage = this.baseStorage + (netPower / 100) * 10; // Adjust storage based on net power
-    storage = Math.max(10, Math.min(95, storage + (Math.random() - 0.5) * 5));
+    storage = Math.max(10, Math.min(95, storage + (random() - 0.5) * 5));
     this.baseStorage = storage;
     
     // Grid export is excess generation
     const gridExport = Math.max(0, generation - consumption);
     
     // System efficiency metrics
-    const solarEfficiency = 85 + Math.random() * 10; // 85-95%
-    const batteryHealth = 95 + Math.random() * 4; // 95-99%
+    const solarEfficiency = 85 + random() * 10; // 85-95%
+    const batteryHealth = 95 + random() * 4; // 95-99%
     
     return {
       consumption: Math.round(consumption * 10) / 10,
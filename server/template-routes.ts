@@ -0,0 +1,153 @@
+import type { Express } from "express";
+import {
+  notificationTemplateService,
+  TemplateSyntaxError,
+  TemplateValidationError,
+  TEMPLATE_CHANNELS,
+  DEFAULT_TEMPLATES,
+  sampleAlert,
+  canonicalLocale,
+  type TemplateChannel,
+} from "./notification-templates";
+import { alertStore } from "./alert-store";
+import { z } from "zod";
+
+const channelSchema = z.enum(['email', 'sms', 'push']);
+
+const localeSchema = z.string().transform((locale, ctx) => {
+  const canonical = canonicalLocale(locale);
+  if (!canonical) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid locale' });
+    return z.NEVER;
+  }
+  return canonical;
+});
+
+const templateSourceSchema = z.object({
+  subject: z.string().max(500).nullish(),
+  body: z.string().min(1).max(20000),
+  html: z.string().max(100000).nullish(),
+});
+
+const saveTemplateSchema = templateSourceSchema.extend({
+  createdBy: z.string().optional(),
+});
+
+const previewSchema = z.object({
+  channel: channelSchema,
+  locale: localeSchema.optional(),
+  timezone: z.string().optional(),
+  alertId: z.string().optional(),
+  template: templateSourceSchema.optional(),
+});
+
+function templateError(error: unknown): { status: number; body: Record<string, unknown> } | null {
+  if (error instanceof z.ZodError) {
+    return { status: 400, body: { error: 'Invalid template', details: error.errors } };
+  }
+  if (error instanceof TemplateSyntaxError) {
+    return { status: 400, body: { error: error.message, position: error.position } };
+  }
+  if (error instanceof TemplateValidationError) {
+    return { status: 400, body: { error: error.message } };
+  }
+  return null;
+}
+
+export async function registerTemplateRoutes(app: Express): Promise<void> {
+  // Current version of every saved template, plus the built-in defaults
+  app.get("/api/v1/notification-templates", async (req, res) => {
+    try {
+      const templates = await notificationTemplateService.getTemplates();
+      res.json({ templates, defaults: DEFAULT_TEMPLATES, channels: TEMPLATE_CHANNELS });
+    } catch (error) {
+      console.error('Error fetching notification templates:', error);
+      res.status(500).json({ error: 'Failed to fetch notification templates' });
+    }
+  });
+
+  // Render a template against a stored alert or a sample one, without sending
+  app.post("/api/v1/notification-templates/preview", async (req, res) => {
+    try {
+      const data = previewSchema.parse(req.body);
+      let alert = sampleAlert();
+      if (data.alertId) {
+        const stored = await alertStore.getAlert(data.alertId);
+        if (!stored) {
+          return res.status(404).json({ error: 'Alert not found' });
+        }
+        alert = stored;
+      }
+
+      const preview = await notificationTemplateService.preview(data.channel, alert, {
+        locale: data.locale,
+        timezone: data.timezone,
+        template: data.template,
+      });
+      res.json({ preview });
+    } catch (error) {
+      const handled = templateError(error);
+      if (handled) return res.status(handled.status).json(handled.body);
+      console.error('Error previewing notification template:', error);
+      res.status(500).json({ error: 'Failed to preview notification template' });
+    }
+  });
+
+  // Version history for one channel and locale, newest first
+  app.get("/api/v1/notification-templates/:channel/:locale", async (req, res) => {
+    try {
+      const channel = channelSchema.parse(req.params.channel);
+      const locale = localeSchema.parse(req.params.locale);
+      const versions = await notificationTemplateService.getVersions(channel, locale);
+
+      res.json({
+        channel,
+        locale,
+        current: versions[0] ?? null,
+        versions,
+        default: DEFAULT_TEMPLATES[channel]
+      });
+    } catch (error) {
+      const handled = templateError(error);
+      if (handled) return res.status(handled.status).json(handled.body);
+      console.error('Error fetching notification template:', error);
+      res.status(500).json({ error: 'Failed to fetch notification template' });
+    }
+  });
+
+  // Saving never overwrites: each save becomes the next version
+  app.put("/api/v1/notification-templates/:channel/:locale", async (req, res) => {
+    try {
+      const channel: TemplateChannel = channelSchema.parse(req.params.channel);
+      const locale = localeSchema.parse(req.params.locale);
+      const { createdBy, ...source } = saveTemplateSchema.parse(req.body);
+      const template = await notificationTemplateService.save(channel, locale, source, createdBy);
+
+      res.json({ template });
+    } catch (error) {
+      const handled = templateError(error);
+      if (handled) return res.status(handled.status).json(handled.body);
+      console.error('Error saving notification template:', error);
+      res.status(500).json({ error: 'Failed to save notification template' });
+    }
+  });
+
+  app.post("/api/v1/notification-templates/:channel/:locale/versions/:version/restore", async (req, res) => {
+    try {
+      const channel = channelSchema.parse(req.params.channel);
+      const locale = localeSchema.parse(req.params.locale);
+      const version = z.coerce.number().int().positive().parse(req.params.version);
+      const template = await notificationTemplateService.restore(channel, locale, version, req.body?.createdBy);
+
+      if (!template) {
+        return res.status(404).json({ error: 'Template version not found' });
+      }
+      res.json({ template });
+    } catch (error) {
+      const handled = templateError(error);
+      if (handled) return res.status(handled.status).json(handled.body);
+      console.error('Error restoring notification template:', error);
+      res.status(500).json({ error: 'Failed to restore notification template' });
+    }
+  });
+}
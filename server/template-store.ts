@@ -0,0 +1,112 @@
+import {
+  type NotificationTemplate, type InsertNotificationTemplate,
+  notificationTemplates,
+} from "@shared/alert-schema";
+import { and, desc, eq, max } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { database, type Database } from "./db";
+
+export interface TemplateStore {
+  // Saves the template as the next version for its channel and locale
+  createVersion(template: InsertNotificationTemplate): Promise<NotificationTemplate>;
+  getLatest(channel: string, locale: string): Promise<NotificationTemplate | undefined>;
+  getVersion(channel: string, locale: string, version: number): Promise<NotificationTemplate | undefined>;
+  // All versions for a channel and locale, newest first
+  getVersions(channel: string, locale: string): Promise<NotificationTemplate[]>;
+  // Newest version of every channel/locale pair
+  getLatestTemplates(): Promise<NotificationTemplate[]>;
+}
+
+export class MemTemplateStore implements TemplateStore {
+  private templates: Map<string, NotificationTemplate> = new Map();
+
+  async createVersion(template: InsertNotificationTemplate): Promise<NotificationTemplate> {
+    const latest = await this.getLatest(template.channel, template.locale);
+    const record: NotificationTemplate = {
+      ...template,
+      id: randomUUID(),
+      version: (latest?.version ?? 0) + 1,
+      subject: template.subject ?? null,
+      html: template.html ?? null,
+      createdBy: template.createdBy ?? null,
+      createdAt: new Date(),
+    };
+    this.templates.set(record.id, record);
+    return record;
+  }
+
+  async getLatest(channel: string, locale: string): Promise<NotificationTemplate | undefined> {
+    return (await this.getVersions(channel, locale))[0];
+  }
+
+  async getVersion(channel: string, locale: string, version: number): Promise<NotificationTemplate | undefined> {
+    return (await this.getVersions(channel, locale)).find(template => template.version === version);
+  }
+
+  async getVersions(channel: string, locale: string): Promise<NotificationTemplate[]> {
+    return Array.from(this.templates.values())
+      .filter(template => template.channel === channel && template.locale === locale)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getLatestTemplates(): Promise<NotificationTemplate[]> {
+    const latest = new Map<string, NotificationTemplate>();
+    for (const template of Array.from(this.templates.values())) {
+      const key = `${template.channel}:${template.locale}`;
+      const current = latest.get(key);
+      if (!current || template.version > current.version) latest.set(key, template);
+    }
+    return Array.from(latest.values())
+      .sort((a, b) => a.channel.localeCompare(b.channel) || a.locale.localeCompare(b.locale));
+  }
+}
+
+// PostgreSQL-backed template store over the Drizzle tables in shared/alert-schema
+export class DbTemplateStore implements TemplateStore {
+  constructor(private db: Database) {}
+
+  async createVersion(template: InsertNotificationTemplate): Promise<NotificationTemplate> {
+    // The unique (channel, locale, version) constraint rejects a concurrent save of the same version
+    const [{ current }] = await this.db.select({ current: max(notificationTemplates.version) })
+      .from(notificationTemplates)
+      .where(and(eq(notificationTemplates.channel, template.channel), eq(notificationTemplates.locale, template.locale)));
+
+    const [record] = await this.db.insert(notificationTemplates)
+      .values({ ...template, version: (current ?? 0) + 1 })
+      .returning();
+    return record;
+  }
+
+  async getLatest(channel: string, locale: string): Promise<NotificationTemplate | undefined> {
+    const [record] = await this.db.select().from(notificationTemplates)
+      .where(and(eq(notificationTemplates.channel, channel), eq(notificationTemplates.locale, locale)))
+      .orderBy(desc(notificationTemplates.version))
+      .limit(1);
+    return record;
+  }
+
+  async getVersion(channel: string, locale: string, version: number): Promise<NotificationTemplate | undefined> {
+    const [record] = await this.db.select().from(notificationTemplates)
+      .where(and(
+        eq(notificationTemplates.channel, channel),
+        eq(notificationTemplates.locale, locale),
+        eq(notificationTemplates.version, version)
+      ));
+    return record;
+  }
+
+  async getVersions(channel: string, locale: string): Promise<NotificationTemplate[]> {
+    return this.db.select().from(notificationTemplates)
+      .where(and(eq(notificationTemplates.channel, channel), eq(notificationTemplates.locale, locale)))
+      .orderBy(desc(notificationTemplates.version));
+  }
+
+  async getLatestTemplates(): Promise<NotificationTemplate[]> {
+    const records = await this.db.selectDistinctOn([notificationTemplates.channel, notificationTemplates.locale])
+      .from(notificationTemplates)
+      .orderBy(notificationTemplates.channel, notificationTemplates.locale, desc(notificationTemplates.version));
+    return records;
+  }
+}
+
+export const templateStore: TemplateStore = database ? new DbTemplateStore(database.db) : new MemTemplateStore();
@@ -0,0 +1,47 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { getTableName, is } from "drizzle-orm";
+import { PgTable } from "drizzle-orm/pg-core";
+import { createRequire } from "module";
+import * as energySchema from "@shared/schema";
+import * as alertSchema from "@shared/alert-schema";
+import { type Database } from "./db";
+
+// drizzle-kit's ESM build can't load under tsx, its CommonJS build can
+const { generateDrizzleJson, generateMigration } =
+  createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+const schema = { ...energySchema, ...alertSchema };
+
+export interface TestDatabase {
+  db: Database;
+  // Empties every table, so tests sharing a database start clean
+  reset(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * In-process Postgres (PGlite) with the full schema, for running the Db*
+ * stores in tests without a database server
+ */
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+
+  const tables: string[] = [];
+  for (const value of Object.values(schema)) {
+    if (is(value, PgTable)) tables.push(`"${getTableName(value)}"`);
+  }
+
+  return {
+    // Same query builder API as node-postgres; only the driver underneath differs
+    db: drizzle(client, { schema }) as unknown as Database,
+    reset: async () => {
+      await client.exec(`TRUNCATE ${tables.join(', ')} CASCADE`);
+    },
+    close: () => client.close(),
+  };
+}
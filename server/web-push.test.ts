@@ -0,0 +1,39 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encryptWebPushPayload } from "./web-push";
+
+// RFC 8291 Appendix A
+const vector = {
+  plaintext: 'When I grow up, I want to be a watermelon',
+  senderPrivateKey: 'yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw',
+  p256dh: 'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+  auth: 'BTBZMqHH6r4Tts7J_aSIgg',
+  salt: 'DGv6ra1nlYgDCS1FRnbzlw',
+  message:
+    'DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A_' +
+    'yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgSxsj_Qulcy4a-fN',
+};
+
+describe('encryptWebPushPayload', () => {
+  it('matches the RFC 8291 test vector', () => {
+    const encrypted = encryptWebPushPayload(
+      Buffer.from(vector.plaintext),
+      { p256dh: vector.p256dh, auth: vector.auth },
+      {
+        salt: Buffer.from(vector.salt, 'base64url'),
+        senderPrivateKey: Buffer.from(vector.senderPrivateKey, 'base64url'),
+      }
+    );
+
+    assert.equal(encrypted.toString('base64url'), vector.message);
+  });
+
+  it('uses a fresh salt and sender key for every message', () => {
+    const target = { p256dh: vector.p256dh, auth: vector.auth };
+    const first = encryptWebPushPayload(Buffer.from(vector.plaintext), target);
+    const second = encryptWebPushPayload(Buffer.from(vector.plaintext), target);
+
+    assert.notDeepEqual(first.subarray(0, 16), second.subarray(0, 16));
+    assert.notDeepEqual(first.subarray(21, 86), second.subarray(21, 86));
+  });
+});
@@ -0,0 +1,192 @@
+import { createCipheriv, createECDH, createPrivateKey, hkdfSync, randomBytes, sign, type KeyObject } from "crypto";
+
+export interface VapidConfig {
+  publicKey: string; // uncompressed P-256 point, base64url
+  privateKey: string; // 32-byte private scalar, base64url
+  subject: string; // mailto: or https: contact for the push service operator
+}
+
+export interface WebPushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface WebPushOptions {
+  ttl?: number; // seconds the push service keeps an undelivered message
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  topic?: string; // replaces an undelivered message with the same topic
+}
+
+export class WebPushNotConfiguredError extends Error {
+  constructor() {
+    super('Web Push is not configured (set VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY)');
+    this.name = 'WebPushNotConfiguredError';
+  }
+}
+
+// The push service no longer knows the subscription; it should be removed
+export class PushSubscriptionGoneError extends Error {
+  constructor(public statusCode: number) {
+    super(`Push subscription is no longer valid (${statusCode})`);
+    this.name = 'PushSubscriptionGoneError';
+  }
+}
+
+export class PushDeliveryError extends Error {
+  constructor(public statusCode: number, public responseBody: string) {
+    super(`Push service responded with ${statusCode}${responseBody ? `: ${responseBody}` : ''}`);
+    this.name = 'PushDeliveryError';
+  }
+}
+
+const RECORD_SIZE = 4096;
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60;
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const TIMEOUT_MS = 10000;
+
+export function vapidConfigFromEnv(env: NodeJS.ProcessEnv = process.env): VapidConfig | null {
+  if (!env.VAPID_PUBLIC_KEY || !env.VAPID_PRIVATE_KEY) return null;
+
+  return {
+    publicKey: env.VAPID_PUBLIC_KEY,
+    privateKey: env.VAPID_PRIVATE_KEY,
+    subject: env.VAPID_SUBJECT || `mailto:${env.ADMIN_EMAIL || 'admin@energymgmt.com'}`,
+  };
+}
+
+/**
+ * Fresh VAPID key pair in the base64url form expected by vapidConfigFromEnv
+ */
+export function generateVapidKeys(): { publicKey: string; privateKey: string } {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: ecdh.getPublicKey().toString('base64url'),
+    privateKey: ecdh.getPrivateKey().toString('base64url'),
+  };
+}
+
+/**
+ * Encrypt a push message body with the aes128gcm content coding (RFC 8188)
+ * using the key derivation of RFC 8291. Salt and sender key are random
+ * unless given (test vectors).
+ */
+export function encryptWebPushPayload(
+  plaintext: Buffer,
+  target: Pick<WebPushTarget, 'p256dh' | 'auth'>,
+  options: { salt?: Buffer; senderPrivateKey?: Buffer } = {}
+): Buffer {
+  const receiverPublicKey = Buffer.from(target.p256dh, 'base64url');
+  const authSecret = Buffer.from(target.auth, 'base64url');
+  const salt = options.salt ?? randomBytes(16);
+
+  const sender = createECDH('prime256v1');
+  if (options.senderPrivateKey) {
+    sender.setPrivateKey(options.senderPrivateKey);
+  } else {
+    sender.generateKeys();
+  }
+  const senderPublicKey = sender.getPublicKey();
+  const sharedSecret = sender.computeSecret(receiverPublicKey);
+
+  // RFC 8291 section 3.4: combine the ECDH secret with the auth secret
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), receiverPublicKey, senderPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  // Single record: content followed by the last-record delimiter, no padding
+  const record = Buffer.concat([plaintext, Buffer.from([2])]);
+  if (record.length + 16 > RECORD_SIZE) {
+    throw new Error(`Push payload of ${plaintext.length} bytes exceeds the ${RECORD_SIZE}-byte record size`);
+  }
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([cipher.update(record), cipher.final(), cipher.getAuthTag()]);
+
+  // Header: salt (16) | record size (uint32) | key id length (1) | key id (sender public key)
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(senderPublicKey.length, 20);
+
+  return Buffer.concat([header, senderPublicKey, ciphertext]);
+}
+
+/**
+ * Delivers encrypted Web Push messages, authenticating to the push service
+ * with VAPID (RFC 8292)
+ */
+export class WebPushSender {
+  private signingKey: KeyObject | null = null;
+
+  constructor(private vapid: VapidConfig | null = vapidConfigFromEnv()) {
+    if (vapid) {
+      const publicKey = Buffer.from(vapid.publicKey, 'base64url');
+      this.signingKey = createPrivateKey({
+        key: {
+          kty: 'EC',
+          crv: 'P-256',
+          x: publicKey.subarray(1, 33).toString('base64url'),
+          y: publicKey.subarray(33, 65).toString('base64url'),
+          d: vapid.privateKey,
+        },
+        format: 'jwk',
+      });
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.vapid !== null;
+  }
+
+  getPublicKey(): string | null {
+    return this.vapid?.publicKey ?? null;
+  }
+
+  async send(target: WebPushTarget, payload: string, options: WebPushOptions = {}): Promise<{ statusCode: number }> {
+    if (!this.vapid) throw new WebPushNotConfiguredError();
+
+    const body = encryptWebPushPayload(Buffer.from(payload, 'utf8'), target);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/octet-stream',
+      'Content-Encoding': 'aes128gcm',
+      'TTL': String(options.ttl ?? DEFAULT_TTL_SECONDS),
+      'Urgency': options.urgency ?? 'normal',
+      'Authorization': `vapid t=${this.createJwt(new URL(target.endpoint).origin)}, k=${this.vapid.publicKey}`,
+    };
+    if (options.topic) headers['Topic'] = options.topic;
+
+    const response = await fetch(target.endpoint, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+
+    if (response.status === 404 || response.status === 410) {
+      throw new PushSubscriptionGoneError(response.status);
+    }
+    if (!response.ok) {
+      throw new PushDeliveryError(response.status, (await response.text()).slice(0, 500));
+    }
+    return { statusCode: response.status };
+  }
+
+  /**
+   * ES256-signed JWT scoped to the push service origin
+   */
+  private createJwt(audience: string): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const unsigned = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+      aud: audience,
+      exp: Math.floor(Date.now() / 1000) + JWT_LIFETIME_SECONDS,
+      sub: this.vapid!.subject,
+    })}`;
+    const signature = sign('sha256', Buffer.from(unsigned), { key: this.signingKey!, dsaEncoding: 'ieee-p1363' });
+    return `${unsigned}.${signature.toString('base64url')}`;
+  }
+}
+
+export const webPushSender = new WebPushSender();
@@ -0,0 +1,118 @@
+import type { Express, Response } from "express";
+import { insertWebhookEndpointSchema, type WebhookEndpoint } from "@shared/alert-schema";
+import { webhookService, generateWebhookSecret, WebhookDeliveryError, WebhookTargetError, WEBHOOK_EVENTS } from "./webhooks";
+import { webhookStore } from "./webhook-store";
+import { z } from "zod";
+
+const endpointSchema = insertWebhookEndpointSchema.extend({
+  name: z.string().min(1),
+  url: z.string().url().refine(url => /^https?:\/\//.test(url), 'Only http and https URLs are supported'),
+  secret: z.string().min(16).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS as [string, ...string[]])).optional(),
+  severities: z.array(z.enum(['info', 'warning', 'critical'])).optional(),
+  types: z.array(z.enum(['consumption', 'generation', 'storage', 'device_fault', 'system_health', 'anomaly'])).optional(),
+  locations: z.array(z.string().min(1)).optional()
+});
+
+// The signing secret is only returned when an endpoint is created
+function withoutSecret({ secret, ...endpoint }: WebhookEndpoint) {
+  return { ...endpoint, secretHint: `${secret.slice(0, 10)}…` };
+}
+
+export async function registerWebhookRoutes(app: Express): Promise<void> {
+  app.get("/api/v1/webhooks", async (req, res) => {
+    try {
+      const endpoints = await webhookStore.getEndpoints();
+      res.json({ endpoints: endpoints.map(withoutSecret), events: WEBHOOK_EVENTS });
+    } catch (error) {
+      console.error('Error fetching webhook endpoints:', error);
+      res.status(500).json({ error: 'Failed to fetch webhook endpoints' });
+    }
+  });
+
+  app.get("/api/v1/webhooks/:id", async (req, res) => {
+    try {
+      const endpoint = await webhookStore.getEndpoint(req.params.id);
+      if (!endpoint) {
+        return res.status(404).json({ error: 'Webhook endpoint not found' });
+      }
+      res.json({ endpoint: withoutSecret(endpoint) });
+    } catch (error) {
+      console.error('Error fetching webhook endpoint:', error);
+      res.status(500).json({ error: 'Failed to fetch webhook endpoint' });
+    }
+  });
+
+  // The response carries the full signing secret, generated unless one was given. This is the
+  // only time it is returned; every other route shows just its secretHint.
+  app.post("/api/v1/webhooks", async (req, res) => {
+    try {
+      const data = endpointSchema.parse(req.body);
+      const endpoint = await webhookStore.createEndpoint({ ...data, secret: data.secret ?? generateWebhookSecret() });
+      res.status(201).json({ endpoint });
+    } catch (error) {
+      handleError(res, error, 'Failed to create webhook endpoint');
+    }
+  });
+
+  app.put("/api/v1/webhooks/:id", async (req, res) => {
+    try {
+      const changes = endpointSchema.partial().parse(req.body);
+      const endpoint = await webhookStore.updateEndpoint(req.params.id, changes);
+      if (!endpoint) {
+        return res.status(404).json({ error: 'Webhook endpoint not found' });
+      }
+      res.json({ endpoint: withoutSecret(endpoint) });
+    } catch (error) {
+      handleError(res, error, 'Failed to update webhook endpoint');
+    }
+  });
+
+  app.delete("/api/v1/webhooks/:id", async (req, res) => {
+    try {
+      await webhookStore.deleteEndpoint(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      handleError(res, error, 'Failed to delete webhook endpoint');
+    }
+  });
+
+  // Fire a signed sample payload so the receiving side can be verified during setup.
+  // Only the status code is reported back, never what the endpoint answered.
+  app.post("/api/v1/webhooks/:id/test", async (req, res) => {
+    try {
+      const endpoint = await webhookStore.getEndpoint(req.params.id);
+      if (!endpoint) {
+        return res.status(404).json({ error: 'Webhook endpoint not found' });
+      }
+
+      const { statusCode, durationMs } = await webhookService.sendTest(endpoint);
+      res.json({ success: true, statusCode, durationMs });
+    } catch (error) {
+      if (error instanceof WebhookTargetError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      if (error instanceof WebhookDeliveryError) {
+        return res.status(502).json({
+          success: false,
+          error: error.message,
+          statusCode: error.statusCode
+        });
+      }
+      if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'TypeError' || (error as NodeJS.ErrnoException).code === 'ENOTFOUND')) {
+        return res.status(502).json({ success: false, error: `Webhook endpoint unreachable: ${error.message}` });
+      }
+      console.error('Error testing webhook endpoint:', error);
+      res.status(500).json({ error: 'Failed to test webhook endpoint' });
+    }
+  });
+}
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
@@ -0,0 +1,91 @@
+import {
+  type WebhookEndpoint, type InsertWebhookEndpoint,
+  webhookEndpoints,
+} from "@shared/alert-schema";
+import { asc, eq } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { database, type Database } from "./db";
+
+export interface WebhookStore {
+  createEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint>;
+  getEndpoint(id: string): Promise<WebhookEndpoint | undefined>;
+  getEndpoints(): Promise<WebhookEndpoint[]>;
+  updateEndpoint(id: string, changes: Partial<Omit<WebhookEndpoint, 'id'>>): Promise<WebhookEndpoint | undefined>;
+  deleteEndpoint(id: string): Promise<void>;
+}
+
+export class MemWebhookStore implements WebhookStore {
+  private endpoints: Map<string, WebhookEndpoint> = new Map();
+
+  async createEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint> {
+    const id = randomUUID();
+    const now = new Date();
+    const record: WebhookEndpoint = {
+      ...endpoint,
+      id,
+      enabled: endpoint.enabled ?? true,
+      events: endpoint.events ?? [],
+      severities: endpoint.severities ?? [],
+      types: endpoint.types ?? [],
+      locations: endpoint.locations ?? [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.endpoints.set(id, record);
+    return record;
+  }
+
+  async getEndpoint(id: string): Promise<WebhookEndpoint | undefined> {
+    return this.endpoints.get(id);
+  }
+
+  async getEndpoints(): Promise<WebhookEndpoint[]> {
+    return Array.from(this.endpoints.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async updateEndpoint(id: string, changes: Partial<Omit<WebhookEndpoint, 'id'>>): Promise<WebhookEndpoint | undefined> {
+    const endpoint = this.endpoints.get(id);
+    if (!endpoint) return undefined;
+    const updated = { ...endpoint, ...changes, updatedAt: new Date() };
+    this.endpoints.set(id, updated);
+    return updated;
+  }
+
+  async deleteEndpoint(id: string): Promise<void> {
+    this.endpoints.delete(id);
+  }
+}
+
+// PostgreSQL-backed webhook store over the Drizzle tables in shared/alert-schema
+export class DbWebhookStore implements WebhookStore {
+  constructor(private db: Database) {}
+
+  async createEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint> {
+    const [record] = await this.db.insert(webhookEndpoints).values(endpoint).returning();
+    return record;
+  }
+
+  async getEndpoint(id: string): Promise<WebhookEndpoint | undefined> {
+    const [record] = await this.db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+    return record;
+  }
+
+  async getEndpoints(): Promise<WebhookEndpoint[]> {
+    return this.db.select().from(webhookEndpoints).orderBy(asc(webhookEndpoints.name));
+  }
+
+  async updateEndpoint(id: string, changes: Partial<Omit<WebhookEndpoint, 'id'>>): Promise<WebhookEndpoint | undefined> {
+    const [record] = await this.db.update(webhookEndpoints)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(webhookEndpoints.id, id))
+      .returning();
+    return record;
+  }
+
+  async deleteEndpoint(id: string): Promise<void> {
+    await this.db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+  }
+}
+
+export const webhookStore: WebhookStore = database ? new DbWebhookStore(database.db) : new MemWebhookStore();
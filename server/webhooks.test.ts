@@ -0,0 +1,184 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import { type AddressInfo } from "node:net";
+import express from "express";
+import { MemAlertStore } from "./alert-store";
+import { MemWebhookStore } from "./webhook-store";
+import { NotificationQueue } from "./notification-queue";
+import { WebhookService, WebhookTargetError, assertPublicWebhookTarget, signWebhookPayload, type WebhookPayload } from "./webhooks";
+import { registerWebhookRoutes } from "./webhook-routes";
+
+interface ReceivedWebhook {
+  body: string;
+  timestamp: number;
+  signature: string;
+}
+
+describe('WebhookService queued deliveries', () => {
+  let server: Server;
+  let url: string;
+  let received: ReceivedWebhook[] = [];
+  let arrived: () => void = () => {};
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({
+          body,
+          timestamp: Number(req.headers['x-webhook-timestamp']),
+          signature: String(req.headers['x-webhook-signature']),
+        });
+        res.writeHead(204).end();
+        arrived();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('signs the alert as it was when the event was queued', async () => {
+    received = [];
+    const alerts = new MemAlertStore();
+    const endpoints = new MemWebhookStore();
+    const queue = new NotificationQueue(alerts, { maxRetries: 1, baseDelayMs: 1000, maxDelayMs: 1000 });
+    // The test receiver listens on loopback
+    const webhooks = new WebhookService(endpoints, queue, true);
+    const endpoint = await endpoints.createEndpoint({ name: 'Ops', url, secret: 'whsec_test' });
+
+    const alert = await alerts.createAlert({
+      title: 'Inverter offline',
+      description: 'No telemetry for 10 minutes',
+      type: 'device_fault',
+      severity: 'critical',
+      source: 'manual',
+    });
+    const delivered = new Promise<void>(resolve => { arrived = resolve; });
+    await webhooks.dispatch('alert.created', alert);
+    // Resolved before the first attempt goes out
+    await alerts.updateAlert(alert.id, { status: 'resolved', resolvedAt: new Date(), resolvedBy: 'ops' });
+    await delivered;
+
+    const [webhook] = received;
+    const payload = JSON.parse(webhook.body) as WebhookPayload;
+    assert.equal(payload.event, 'alert.created');
+    assert.equal(payload.alert.status, 'active');
+    assert.equal(payload.alert.resolvedBy, null);
+    assert.equal(webhook.signature, signWebhookPayload(endpoint.secret, webhook.timestamp, webhook.body));
+  });
+
+  it('marks a delivery the endpoint accepted as delivered', async () => {
+    received = [];
+    const alerts = new MemAlertStore();
+    const endpoints = new MemWebhookStore();
+    const queue = new NotificationQueue(alerts, { maxRetries: 1, baseDelayMs: 1000, maxDelayMs: 1000 });
+    // The test receiver listens on loopback
+    const webhooks = new WebhookService(endpoints, queue, true);
+    await endpoints.createEndpoint({ name: 'Ops', url, secret: 'whsec_test' });
+
+    const alert = await alerts.createAlert({
+      title: 'Inverter offline',
+      description: 'No telemetry for 10 minutes',
+      type: 'device_fault',
+      severity: 'critical',
+      source: 'manual',
+    });
+    const [queued] = await webhooks.dispatch('alert.created', alert);
+    await queue.processDue();
+
+    const delivery = await alerts.getNotification(queued.id);
+    assert.equal(delivery?.status, 'delivered');
+    assert.ok(delivery?.deliveredAt);
+  });
+});
+
+describe('Webhook targets', () => {
+  it('refuses URLs that resolve to loopback, private or link-local addresses', async () => {
+    for (const url of [
+      'http://127.0.0.1:8080/hook',
+      'http://localhost/hook',
+      'http://10.0.0.5/hook',
+      'http://192.168.1.20/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::1]/hook',
+      'http://[fe80::1]/hook',
+      'http://[::ffff:127.0.0.1]/hook',
+      'http://[::ffff:a00:1]/hook',
+    ]) {
+      await assert.rejects(assertPublicWebhookTarget(url), WebhookTargetError, url);
+    }
+    await assertPublicWebhookTarget('https://93.184.216.34/hook');
+  });
+
+  it('never posts to a non-public endpoint', async () => {
+    let requests = 0;
+    const server = createServer((req, res) => {
+      requests++;
+      res.writeHead(200).end('internal');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const endpoints = new MemWebhookStore();
+      const webhooks = new WebhookService(endpoints, new NotificationQueue(new MemAlertStore()), false);
+      const endpoint = await endpoints.createEndpoint({
+        name: 'Internal', url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/admin`, secret: 'whsec_test',
+      });
+
+      await assert.rejects(webhooks.sendTest(endpoint), WebhookTargetError);
+      assert.equal(requests, 0);
+    } finally {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+});
+
+describe('Webhook routes', () => {
+  let server: Server;
+  let api: string;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    await registerWebhookRoutes(app);
+    server = app.listen(0, '127.0.0.1');
+    await new Promise<void>(resolve => server.once('listening', resolve));
+    api = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1/webhooks`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  const request = async (method: string, url: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  it('returns the full secret only from the create call', async () => {
+    const created = await request('POST', api, { name: 'Ops', url: 'https://example.com/hook' });
+    assert.equal(created.status, 201);
+    const { id, secret } = created.body.endpoint;
+    assert.match(secret, /^whsec_[0-9a-f]{48}$/);
+
+    const given = await request('POST', api, { name: 'Ops 2', url: 'https://example.com/hook', secret: 'whsec_0123456789abcdef' });
+    assert.equal(given.body.endpoint.secret, 'whsec_0123456789abcdef');
+
+    const reads = [
+      (await request('GET', `${api}/${id}`)).body.endpoint,
+      (await request('PUT', `${api}/${id}`, { name: 'Ops team' })).body.endpoint,
+      ...(await request('GET', api)).body.endpoints,
+    ];
+    for (const endpoint of reads) {
+      assert.equal(endpoint.secret, undefined);
+      assert.equal(endpoint.secretHint.length, 11);
+    }
+    assert.equal(reads[0].secretHint, `${secret.slice(0, 10)}…`);
+  });
+});
@@ -0,0 +1,303 @@
+import { createHmac, randomBytes } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList } from "net";
+import {
+  type AlertSystem,
+  type AlertNotification,
+  type WebhookEndpoint,
+  type WebhookEvent,
+} from "@shared/alert-schema";
+import { notificationQueue, type NotificationQueue, type SendResult } from "./notification-queue";
+import { webhookStore, type WebhookStore } from "./webhook-store";
+
+// Bumped whenever the payload shape changes incompatibly
+export const WEBHOOK_PAYLOAD_VERSION = '1';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'alert.created',
+  'alert.acknowledged',
+  'alert.resolved',
+  'alert.dismissed',
+  'alert.reopened',
+  'alert.escalated',
+];
+
+export interface WebhookPayload {
+  version: string;
+  id: string;
+  event: WebhookEvent;
+  occurredAt: string;
+  test?: boolean;
+  alert: WebhookAlertSnapshot;
+  data?: Record<string, unknown>;
+}
+
+export interface WebhookAlertSnapshot {
+  id: string;
+  title: string;
+  description: string;
+  type: string;
+  severity: string;
+  status: string;
+  source: string;
+  deviceId: string | null;
+  location: string | null;
+  timestamp: string;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+}
+
+export interface WebhookDeliveryResult {
+  statusCode: number;
+  durationMs: number;
+  responseBody: string;
+}
+
+export class WebhookDeliveryError extends Error {
+  constructor(public statusCode: number, public responseBody: string) {
+    super(`Webhook endpoint responded with ${statusCode}`);
+    this.name = 'WebhookDeliveryError';
+  }
+}
+
+export class WebhookTargetError extends Error {
+  constructor(public url: string, public address: string) {
+    super(`Webhook URL ${url} resolves to ${address}, which is not a public address`);
+    this.name = 'WebhookTargetError';
+  }
+}
+
+// Loopback, private, link-local, shared, multicast and reserved ranges a webhook must not reach
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Resolve the URL's host and refuse it if any address it resolves to is not
+ * public, so endpoints can't be pointed at the server's own network
+ */
+export async function assertPublicWebhookTarget(url: string): Promise<void> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  const addresses = await lookup(hostname, { all: true, verbatim: true });
+  const blocked = addresses.find(({ address, family }) =>
+    NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+  );
+  if (blocked) {
+    throw new WebhookTargetError(url, blocked.address);
+  }
+}
+
+const TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+const MAX_RESPONSE_BODY = 1000;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature sent in X-Webhook-Signature: HMAC-SHA256 over "<timestamp>.<body>",
+ * so receivers can reject replayed requests by checking X-Webhook-Timestamp
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * The alert as the payload describes it. Taken when the event is queued, so
+ * retries deliver (and sign) the state the event was about, not whatever the
+ * alert has moved on to since
+ */
+export function snapshotAlert(alert: AlertSystem): WebhookAlertSnapshot {
+  return {
+    id: alert.id,
+    title: alert.title,
+    description: alert.description,
+    type: alert.type,
+    severity: alert.severity,
+    status: alert.status,
+    source: alert.source,
+    deviceId: alert.deviceId,
+    location: alert.location,
+    timestamp: alert.timestamp.toISOString(),
+    acknowledgedAt: alert.acknowledgedAt?.toISOString() ?? null,
+    acknowledgedBy: alert.acknowledgedBy,
+    resolvedAt: alert.resolvedAt?.toISOString() ?? null,
+    resolvedBy: alert.resolvedBy,
+  };
+}
+
+export function buildWebhookPayload(
+  id: string,
+  event: WebhookEvent,
+  alert: WebhookAlertSnapshot,
+  occurredAt: Date,
+  data?: Record<string, unknown>
+): WebhookPayload {
+  return {
+    version: WEBHOOK_PAYLOAD_VERSION,
+    id,
+    event,
+    occurredAt: occurredAt.toISOString(),
+    alert,
+    ...(data ? { data } : {}),
+  };
+}
+
+/**
+ * Posts alert state changes to registered webhook endpoints. Each matching
+ * endpoint gets its own queued delivery, so failures are retried and
+ * dead-lettered like any other notification.
+ */
+export class WebhookService {
+  constructor(
+    private store: WebhookStore,
+    private queue: NotificationQueue,
+    // For on-site receivers on the microgrid's own network
+    private allowPrivateTargets: boolean = process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true'
+  ) {
+    this.queue.registerSender('webhook', (alert, recipient, notification) =>
+      this.deliverQueued(alert, recipient, notification)
+    );
+  }
+
+  /**
+   * Queue the event for every enabled endpoint whose filters match the alert
+   */
+  async dispatch(event: WebhookEvent, alert: AlertSystem, data?: Record<string, unknown>): Promise<AlertNotification[]> {
+    const endpoints = (await this.store.getEndpoints()).filter(endpoint => this.matches(endpoint, event, alert));
+    const occurredAt = new Date().toISOString();
+    const snapshot = snapshotAlert(alert);
+
+    const deliveries: AlertNotification[] = [];
+    for (const endpoint of endpoints) {
+      try {
+        deliveries.push(await this.queue.enqueue(alert, 'webhook', endpoint.id, { event, occurredAt, alert: snapshot, data }));
+      } catch (error) {
+        console.error(`Failed to queue webhook ${event} for ${endpoint.name}:`, error);
+      }
+    }
+    return deliveries;
+  }
+
+  matches(endpoint: WebhookEndpoint, event: WebhookEvent, alert: AlertSystem): boolean {
+    if (!endpoint.enabled) return false;
+
+    const events = endpoint.events as string[];
+    const severities = endpoint.severities as string[];
+    const types = endpoint.types as string[];
+    const locations = endpoint.locations as string[];
+
+    return (events.length === 0 || events.includes(event))
+      && (severities.length === 0 || severities.includes(alert.severity))
+      && (types.length === 0 || types.includes(alert.type))
+      && (locations.length === 0 || (alert.location !== null && locations.includes(alert.location)));
+  }
+
+  /**
+   * Fire a sample payload at an endpoint, bypassing filters and the queue
+   */
+  async sendTest(endpoint: WebhookEndpoint): Promise<WebhookDeliveryResult> {
+    const now = new Date();
+    const sample: AlertSystem = {
+      id: 'test-alert',
+      title: 'Test alert',
+      description: 'Sample alert sent to verify the webhook endpoint',
+      type: 'system_health',
+      severity: 'info',
+      status: 'active',
+      source: 'manual',
+      deviceId: null,
+      location: null,
+      timestamp: now,
+      acknowledgedAt: null,
+      acknowledgedBy: null,
+      resolvedAt: null,
+      resolvedBy: null,
+      resolutionNotes: null,
+      metadata: null,
+      anomalyId: null,
+      incidentId: null,
+    };
+
+    const payload = buildWebhookPayload(`test-${now.getTime()}`, 'alert.created', snapshotAlert(sample), now);
+    return this.post(endpoint, { ...payload, test: true });
+  }
+
+  /**
+   * POST a signed payload; non-public targets, non-2xx responses and timeouts throw
+   */
+  async post(endpoint: WebhookEndpoint, payload: WebhookPayload): Promise<WebhookDeliveryResult> {
+    if (!this.allowPrivateTargets) {
+      await assertPublicWebhookTarget(endpoint.url);
+    }
+
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const started = Date.now();
+
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'EnergyMgmt-Webhooks/1',
+        'X-Webhook-Id': payload.id,
+        'X-Webhook-Event': payload.event,
+        'X-Webhook-Version': payload.version,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signWebhookPayload(endpoint.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+      // A redirect could lead to an address the check above never saw
+      redirect: 'manual',
+    });
+
+    const responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY);
+    if (!response.ok) {
+      throw new WebhookDeliveryError(response.status, responseBody);
+    }
+
+    return { statusCode: response.status, durationMs: Date.now() - started, responseBody };
+  }
+
+  private async deliverQueued(
+    alert: AlertSystem,
+    endpointId: string,
+    notification: AlertNotification
+  ): Promise<SendResult> {
+    const endpoint = await this.store.getEndpoint(endpointId);
+    if (!endpoint) throw new Error(`Webhook endpoint ${endpointId} no longer exists`);
+
+    const metadata = (notification.metadata ?? {}) as {
+      event?: WebhookEvent;
+      occurredAt?: string;
+      alert?: WebhookAlertSnapshot;
+      data?: Record<string, unknown>;
+    };
+    // Deliveries queued before snapshots were stored fall back to the current state
+    const payload = buildWebhookPayload(
+      notification.id,
+      metadata.event ?? 'alert.created',
+      metadata.alert ?? snapshotAlert(alert),
+      metadata.occurredAt ? new Date(metadata.occurredAt) : notification.createdAt,
+      metadata.data
+    );
+
+    // post() only returns on a 2xx, so the endpoint has it
+    const result = await this.post(endpoint, payload);
+    return { metadata: { statusCode: result.statusCode, durationMs: result.durationMs }, delivered: true };
+  }
+}
+
+export const webhookService = new WebhookService(webhookStore, notificationQueue);
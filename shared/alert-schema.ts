@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer, jsonb, real } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer, jsonb, real, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,6 +9,14 @@ import { z } from "zod";
 export type AlertSeverity = 'info' | 'warning' | 'critical';
 export type AlertType = 'consumption' | 'generation' | 'storage' | 'device_fault' | 'system_health' | 'anomaly';
 export type AlertStatus = 'active' | 'acknowledged' | 'resolved' | 'dismissed';
+export type IncidentStatus = 'open' | 'acknowledged' | 'resolved';
+
+// Severities from least to most urgent, for sorting and thresholds
+export const SEVERITY_RANK: Record<string, number> = { info: 1, warning: 2, critical: 3 };
+
+// Operator verdict on an alert, recorded on resolution or afterwards
+export const FEEDBACK_LABELS = ['real_issue', 'useful', 'false_positive'] as const;
+export type FeedbackLabel = typeof FEEDBACK_LABELS[number];
 
 // Enhanced alerts table with full alert system support
 export const alertSystem = pgTable("alert_system", {
@@ -29,19 +37,42 @@ export const alertSystem = pgTable("alert_system", {
   resolutionNotes: text("resolution_notes"),
   metadata: jsonb("metadata"), // Additional data like sensor readings, AI confidence scores
   anomalyId: varchar("anomaly_id"), // Reference to anomaly if AI-generated
+  incidentId: varchar("incident_id"), // Incident the alert was grouped into
+});
+
+// Related alerts grouped under one probable root cause, see server/incidents
+export const incidents = pgTable("incidents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: text("title").notNull(),
+  status: text("status").notNull().default('open'), // open, acknowledged, resolved
+  severity: text("severity").notNull(), // highest severity of its alerts
+  rootComponent: text("root_component"), // most upstream affected component
+  components: jsonb("components").notNull().default([]), // affected components, in order of first alert
+  location: text("location"),
+  alertCount: integer("alert_count").notNull().default(0),
+  openedAt: timestamp("opened_at").notNull().defaultNow(),
+  lastAlertAt: timestamp("last_alert_at").notNull().defaultNow(),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedBy: varchar("acknowledged_by"),
+  resolvedAt: timestamp("resolved_at"),
+  resolvedBy: varchar("resolved_by"),
+  resolutionNotes: text("resolution_notes"),
 });
 
 // Alert notifications tracking
 export const alertNotifications = pgTable("alert_notifications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   alertId: varchar("alert_id").notNull().references(() => alertSystem.id),
-  channel: text("channel").notNull(), // dashboard, email, sms, push, websocket
-  status: text("status").notNull(), // pending, sent, delivered, failed
-  recipient: text("recipient").notNull(), // email, phone, user_id
+  channel: text("channel").notNull(), // dashboard, email, sms, push, websocket, webhook
+  status: text("status").notNull(), // pending, sent, delivered, failed (retry scheduled), dead_letter, digest_pending
+  recipient: text("recipient").notNull(), // email, phone, push subscription id, webhook endpoint id
+  createdAt: timestamp("created_at").notNull().defaultNow(),
   sentAt: timestamp("sent_at"),
   deliveredAt: timestamp("delivered_at"),
   errorMessage: text("error_message"),
   retryCount: integer("retry_count").default(0),
+  nextAttemptAt: timestamp("next_attempt_at"), // when the queue should retry a pending/failed delivery
+  metadata: jsonb("metadata"), // provider message id and other delivery details
 });
 
 // Alert escalation rules
@@ -49,9 +80,11 @@ export const alertEscalationRules = pgTable("alert_escalation_rules", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   severity: text("severity").notNull(),
-  type: text("type").notNull(),
+  type: text("type").notNull(), // alert type, or 'any'
   escalationDelay: integer("escalation_delay").notNull(), // minutes
   escalationChannels: jsonb("escalation_channels").notNull(), // ["email", "sms", "manager"]
+  recipients: jsonb("recipients").notNull().default([]), // user ids, emails or phone numbers; empty uses channel defaults
+  ruleId: varchar("rule_id"), // detection rule it was seeded from; then only that rule's alerts escalate
   enabled: boolean("enabled").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
@@ -67,6 +100,43 @@ export const alertInteractions = pgTable("alert_interactions", {
   metadata: jsonb("metadata"), // Additional interaction data
 });
 
+// Operator feedback on whether an alert was real; the latest label per alert counts
+export const alertFeedback = pgTable("alert_feedback", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  alertId: varchar("alert_id").notNull().references(() => alertSystem.id),
+  userId: varchar("user_id").notNull(),
+  label: text("label").notNull(), // real_issue, useful, false_positive
+  ruleId: varchar("rule_id"), // detection rule that raised the alert, if any
+  component: text("component"), // affected component, used for AI cutoffs and suppression
+  detectionMethod: text("detection_method"), // rule_based, ai_analysis, threshold, pattern_analysis
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Adjustments the feedback tuner made; the latest per target and kind is in effect
+export const detectionTuningChanges = pgTable("detection_tuning_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: varchar("run_id").notNull(),
+  target: text("target").notNull(), // rule:<id> or component:<name>
+  kind: text("kind").notNull(), // threshold, ai_cutoff, suppression
+  previousValue: jsonb("previous_value"),
+  newValue: jsonb("new_value"),
+  reason: text("reason").notNull(),
+  precision: real("precision"), // precision of the labeled alerts the change was based on
+  sampleSize: integer("sample_size").notNull(),
+  changedBy: varchar("changed_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// The site's detection settings, a single row; until saved the environment's defaults apply
+export const detectionSettings = pgTable("detection_settings", {
+  id: varchar("id").primaryKey(), // always 'site'
+  anomalyDetector: text("anomaly_detector").notNull(), // llm, statistical
+  timeZone: text("time_zone").notNull(), // IANA zone for the statistical detector's seasonal hours
+  updatedBy: varchar("updated_by"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 // Alert statistics and reporting
 export const alertStatistics = pgTable("alert_statistics", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -106,6 +176,121 @@ export const alertRules = pgTable("alert_rules", {
   actions: jsonb("actions").notNull(), // Actions to take
   enabled: boolean("enabled").notNull().default(true),
   priority: integer("priority").default(0),
+  version: integer("version").notNull().default(1), // bumped on every change, see alertRuleVersions
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Change history of detection rules; kept after the rule itself is deleted
+export const alertRuleVersions = pgTable("alert_rule_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ruleId: varchar("rule_id").notNull(),
+  version: integer("version").notNull(),
+  change: text("change").notNull(), // created, updated, deleted, restored
+  name: text("name").notNull(),
+  description: text("description"),
+  type: text("type").notNull(),
+  severity: text("severity").notNull(),
+  conditions: jsonb("conditions").notNull(),
+  actions: jsonb("actions").notNull(),
+  enabled: boolean("enabled").notNull(),
+  priority: integer("priority").default(0),
+  changedBy: varchar("changed_by"),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+}, (table) => ({
+  versionUnique: unique("alert_rule_versions_version_unique").on(table.ruleId, table.version),
+}));
+
+// People who can receive alert notifications
+export const notificationRecipients = pgTable("notification_recipients", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique(),
+  name: text("name").notNull(),
+  email: text("email"),
+  phone: text("phone"),
+  preferences: jsonb("preferences").notNull(), // { email, sms, push, dashboard }
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// On-call rotations, optionally scoped to one microgrid location
+export const onCallSchedules = pgTable("on_call_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  location: text("location"), // null covers every location without its own schedule
+  participants: jsonb("participants").notNull(), // ordered user ids
+  rotationStart: timestamp("rotation_start").notNull(), // first handoff
+  rotationLengthHours: integer("rotation_length_hours").notNull().default(168), // weekly
+  fallbackUserId: varchar("fallback_user_id"), // used when nobody is on call
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Temporary replacements of whoever the rotation puts on call
+export const onCallOverrides = pgTable("on_call_overrides", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scheduleId: varchar("schedule_id").notNull().references(() => onCallSchedules.id),
+  userId: varchar("user_id").notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Per-user notification preferences
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique(),
+  channelsBySeverity: jsonb("channels_by_severity").notNull(), // { critical: ["email", "sms", "push"], warning: [...], info: [...] }
+  minimumSeverity: text("minimum_severity").notNull().default('info'),
+  mutedTypes: jsonb("muted_types").notNull().default([]), // alert types never sent (unless critical)
+  quietHoursStart: text("quiet_hours_start"), // "22:00" local time, null disables quiet hours
+  quietHoursEnd: text("quiet_hours_end"), // "07:00" local time
+  timezone: text("timezone").notNull().default('UTC'), // IANA zone for quiet hours and daily digests
+  digestMode: text("digest_mode").notNull().default('off'), // off, hourly, daily
+  digestHour: integer("digest_hour").notNull().default(8), // local hour the daily digest is sent
+  locale: text("locale").notNull().default('en'), // language of email, SMS and push templates
+  lastDigestAt: timestamp("last_digest_at"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Browser push subscriptions (one per user and device)
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  endpoint: text("endpoint").notNull().unique(), // push service URL
+  p256dh: text("p256dh").notNull(), // browser ECDH public key, base64url
+  auth: text("auth").notNull(), // authentication secret, base64url
+  userAgent: text("user_agent"),
+  expiresAt: timestamp("expires_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Admin-edited notification templates; every save adds a version, the highest is used
+export const notificationTemplates = pgTable("notification_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  channel: text("channel").notNull(), // email, sms, push
+  locale: text("locale").notNull(), // BCP 47 tag, e.g. "en", "de-AT"
+  version: integer("version").notNull(),
+  subject: text("subject"), // email subject or push title
+  body: text("body").notNull(), // plain text (email text part, SMS, push body)
+  html: text("html"), // email HTML part; variables are HTML-escaped
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  versionUnique: unique("notification_templates_version_unique").on(table.channel, table.locale, table.version),
+}));
+
+// Outbound webhook endpoints (ticketing, chat, ...)
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // HMAC-SHA256 signing key
+  enabled: boolean("enabled").notNull().default(true),
+  events: jsonb("events").notNull().default([]), // alert.created, alert.acknowledged, ...; empty = all events
+  severities: jsonb("severities").notNull().default([]), // empty = any severity
+  types: jsonb("types").notNull().default([]), // empty = any alert type
+  locations: jsonb("locations").notNull().default([]), // empty = any location
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -119,24 +304,91 @@ export const insertAlertSystemSchema = createInsertSchema(alertSystem).omit({
   resolvedAt: true,
 });
 
+export const insertIncidentSchema = createInsertSchema(incidents).omit({
+  id: true,
+  status: true,
+  acknowledgedAt: true,
+  resolvedAt: true,
+});
+
 export const insertAlertNotificationSchema = createInsertSchema(alertNotifications).omit({
   id: true,
+  createdAt: true,
   sentAt: true,
   deliveredAt: true,
   retryCount: true,
 });
 
+export const insertAlertEscalationRuleSchema = createInsertSchema(alertEscalationRules).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertAlertInteractionSchema = createInsertSchema(alertInteractions).omit({
   id: true,
   timestamp: true,
 });
 
+export const insertAlertFeedbackSchema = createInsertSchema(alertFeedback).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDetectionTuningChangeSchema = createInsertSchema(detectionTuningChanges).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertSensorDataSchema = createInsertSchema(sensorData).omit({
   id: true,
   timestamp: true,
 });
 
 export const insertAlertRuleSchema = createInsertSchema(alertRules).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAlertRuleVersionSchema = createInsertSchema(alertRuleVersions).omit({
+  id: true,
+  changedAt: true,
+});
+
+export const insertNotificationRecipientSchema = createInsertSchema(notificationRecipients).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOnCallScheduleSchema = createInsertSchema(onCallSchedules).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOnCallOverrideSchema = createInsertSchema(onCallOverrides).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences).omit({
+  id: true,
+  lastDigestAt: true,
+  updatedAt: true,
+});
+
+export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNotificationTemplateSchema = createInsertSchema(notificationTemplates).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+});
+
+export const insertWebhookEndpointSchema = createInsertSchema(webhookEndpoints).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -146,18 +398,56 @@ export const insertAlertRuleSchema = createInsertSchema(alertRules).omit({
 export type AlertSystem = typeof alertSystem.$inferSelect;
 export type InsertAlertSystem = z.infer<typeof insertAlertSystemSchema>;
 
+export type Incident = typeof incidents.$inferSelect;
+export type InsertIncident = z.infer<typeof insertIncidentSchema>;
+
 export type AlertNotification = typeof alertNotifications.$inferSelect;
 export type InsertAlertNotification = z.infer<typeof insertAlertNotificationSchema>;
 
+export type AlertEscalationRule = typeof alertEscalationRules.$inferSelect;
+export type InsertAlertEscalationRule = z.infer<typeof insertAlertEscalationRuleSchema>;
+
 export type AlertInteraction = typeof alertInteractions.$inferSelect;
 export type InsertAlertInteraction = z.infer<typeof insertAlertInteractionSchema>;
 
+export type AlertFeedback = typeof alertFeedback.$inferSelect;
+export type InsertAlertFeedback = z.infer<typeof insertAlertFeedbackSchema>;
+
+export type DetectionTuningChange = typeof detectionTuningChanges.$inferSelect;
+export type InsertDetectionTuningChange = z.infer<typeof insertDetectionTuningChangeSchema>;
+
+export type DetectionSettings = typeof detectionSettings.$inferSelect;
+
 export type SensorData = typeof sensorData.$inferSelect;
 export type InsertSensorData = z.infer<typeof insertSensorDataSchema>;
 
 export type AlertRule = typeof alertRules.$inferSelect;
 export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
 
+export type AlertRuleVersion = typeof alertRuleVersions.$inferSelect;
+export type InsertAlertRuleVersion = z.infer<typeof insertAlertRuleVersionSchema>;
+
+export type NotificationRecipient = typeof notificationRecipients.$inferSelect;
+export type InsertNotificationRecipient = z.infer<typeof insertNotificationRecipientSchema>;
+
+export type OnCallSchedule = typeof onCallSchedules.$inferSelect;
+export type InsertOnCallSchedule = z.infer<typeof insertOnCallScheduleSchema>;
+
+export type OnCallOverride = typeof onCallOverrides.$inferSelect;
+export type InsertOnCallOverride = z.infer<typeof insertOnCallOverrideSchema>;
+
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
+
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
+
+export type NotificationTemplate = typeof notificationTemplates.$inferSelect;
+export type InsertNotificationTemplate = z.infer<typeof insertNotificationTemplateSchema>;
+
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type InsertWebhookEndpoint = z.infer<typeof insertWebhookEndpointSchema>;
+
 export type AlertStatistics = typeof alertStatistics.$inferSelect;
 const insertAlertStatisticsSchema = createInsertSchema(alertStatistics).omit({
   id: true,
@@ -177,11 +467,29 @@ export interface AlertDetectionResult {
 }
 
 export interface NotificationChannel {
-  type: 'dashboard' | 'email' | 'sms' | 'push' | 'websocket';
+  type: 'dashboard' | 'email' | 'sms' | 'push' | 'websocket' | 'webhook';
   config: Record<string, any>;
   enabled: boolean;
 }
 
+export interface RecipientPreferences {
+  email: boolean;
+  sms: boolean;
+  push: boolean;
+  dashboard: boolean;
+}
+
+export type DigestMode = 'off' | 'hourly' | 'daily';
+export type OutboundChannel = 'email' | 'sms' | 'push';
+
+export type WebhookEvent =
+  | 'alert.created'
+  | 'alert.acknowledged'
+  | 'alert.resolved'
+  | 'alert.dismissed'
+  | 'alert.reopened'
+  | 'alert.escalated';
+
 export interface AlertEscalationConfig {
   severity: AlertSeverity;
   delay: number; // minutes